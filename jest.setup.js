@@ -0,0 +1,12 @@
+const { mkdtempSync } = require('node:fs');
+const { tmpdir } = require('node:os');
+const { join } = require('node:path');
+
+// Keep the audit log, undo journal and migration progress of tool calls made by tests out of the home directory
+const dir = mkdtempSync(join(tmpdir(), 'storyblok-mcp-test-'));
+process.env.STORYBLOK_AUDIT_FILE ??= join(dir, 'audit.jsonl');
+process.env.STORYBLOK_JOURNAL_FILE ??= join(dir, 'journal.jsonl');
+process.env.STORYBLOK_MIGRATION_DIR ??= join(dir, 'migrations');
+
+// Retry warnings and other expected log entries would clutter the test output
+process.env.STORYBLOK_LOG_LEVEL ??= 'emergency';
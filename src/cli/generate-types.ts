@@ -0,0 +1,48 @@
+/**
+ * @file src/cli/generate-types.ts
+ * @description CLI entry point that writes TypeScript interfaces and matching Zod schemas for the
+ * components of a Storyblok space, the same modules the `generate-types` tool returns.
+ *
+ * Usage: `node build/cli/generate-types.js [--out <dir>] [--output typescript|zod|both] [--space <name>] [--types-module <path>]`
+ *
+ * Reads the same environment variables as the server (STORYBLOK_SPACE_ID, STORYBLOK_MANAGEMENT_TOKEN, ...).
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getCodegenConfig } from '../config/index.js';
+import { generateSpaceTypes } from '../tools/components.js';
+import { TYPES_FILE_NAME, ZOD_FILE_NAME } from '../utils/codegen.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Generates the modules and writes them to the output directory, logging any schema references
+ * that could not be resolved.
+ */
+async function main() {
+  try {
+    const config = getCodegenConfig();
+    const { typescript, zod, warnings, componentsCount } = await generateSpaceTypes(config.space, config.typesModule);
+
+    await mkdir(config.outDir, { recursive: true });
+    const files: string[] = [];
+    if (config.output !== 'zod') {
+      files.push(join(config.outDir, TYPES_FILE_NAME));
+      await writeFile(files[files.length - 1], typescript);
+    }
+    if (config.output !== 'typescript') {
+      files.push(join(config.outDir, ZOD_FILE_NAME));
+      await writeFile(files[files.length - 1], zod);
+    }
+
+    for (const warning of warnings) {
+      logger.warning(warning);
+    }
+    logger.info('Generated component types', { components: componentsCount, files });
+  } catch (error) {
+    logger.critical('Generating component types failed', { error });
+    process.exit(1);
+  }
+}
+
+main();
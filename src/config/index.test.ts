@@ -0,0 +1,249 @@
+// src/config/index.test.ts
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { homedir, tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type * as ConfigModule from './index';
+
+describe('Config', () => {
+  const originalEnv = process.env;
+
+  // Loads a fresh copy of the module so the cached configuration is rebuilt from the current env.
+  const loadConfig = (): typeof ConfigModule => {
+    let loaded: typeof ConfigModule | undefined;
+    jest.isolateModules(() => {
+      loaded = require('./index');
+    });
+    return loaded!;
+  };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.STORYBLOK_SPACE_ID;
+    delete process.env.STORYBLOK_MANAGEMENT_TOKEN;
+    delete process.env.STORYBLOK_DEFAULT_PUBLIC_TOKEN;
+    delete process.env.STORYBLOK_SPACES;
+    delete process.env.STORYBLOK_SPACES_FILE;
+    delete process.env.STORYBLOK_DEFAULT_SPACE;
+    delete process.env.STORYBLOK_REGION;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  const clientSpaces = {
+    'client-a': { spaceId: 111, managementToken: 'mgmt-a', publicToken: 'pub-a', region: 'us' },
+    'client-b': { spaceId: '222', managementToken: 'mgmt-b', publicToken: 'pub-b' }
+  };
+
+  describe('single-space environment variables', () => {
+    it('should expose them as the "default" space', () => {
+      process.env.STORYBLOK_SPACE_ID = '12345';
+      process.env.STORYBLOK_MANAGEMENT_TOKEN = 'mgmt';
+      process.env.STORYBLOK_DEFAULT_PUBLIC_TOKEN = 'pub';
+
+      const { getConfig, getSpaceConfig } = loadConfig();
+
+      expect(getConfig()).toMatchObject({ spaceId: '12345', managementToken: 'mgmt', publicToken: 'pub', defaultSpace: 'default' });
+      expect(getSpaceConfig()).toEqual({ name: 'default', spaceId: '12345', managementToken: 'mgmt', publicToken: 'pub', region: 'eu' });
+    });
+
+    it('should keep reporting the missing variable when nothing is configured', () => {
+      const { getConfig } = loadConfig();
+      expect(() => getConfig()).toThrow('STORYBLOK_SPACE_ID environment variable is missing');
+    });
+  });
+
+  describe('multi-space definitions', () => {
+    it('should load named spaces from STORYBLOK_SPACES without the single-space variables', () => {
+      process.env.STORYBLOK_SPACES = JSON.stringify(clientSpaces);
+
+      const { getConfig, getSpaceConfig } = loadConfig();
+
+      expect(getConfig().defaultSpace).toBe('client-a');
+      expect(getConfig().spaceId).toBe('111');
+      expect(getSpaceConfig('client-b')).toEqual({ name: 'client-b', spaceId: '222', managementToken: 'mgmt-b', publicToken: 'pub-b', region: 'eu' });
+      expect(getSpaceConfig('client-a').region).toBe('us');
+    });
+
+    it('should resolve spaces by numeric ID as well as by name', () => {
+      process.env.STORYBLOK_SPACES = JSON.stringify(clientSpaces);
+      const { getSpaceConfig } = loadConfig();
+      expect(getSpaceConfig('222').name).toBe('client-b');
+    });
+
+    it('should combine with the single-space variables and honor STORYBLOK_DEFAULT_SPACE', () => {
+      process.env.STORYBLOK_SPACES = JSON.stringify(clientSpaces);
+      process.env.STORYBLOK_SPACE_ID = '999';
+      process.env.STORYBLOK_MANAGEMENT_TOKEN = 'mgmt';
+      process.env.STORYBLOK_DEFAULT_PUBLIC_TOKEN = 'pub';
+      process.env.STORYBLOK_DEFAULT_SPACE = 'client-b';
+
+      const { getConfig } = loadConfig();
+
+      expect(Object.keys(getConfig().spaces).sort()).toEqual(['client-a', 'client-b', 'default']);
+      expect(getConfig().defaultSpace).toBe('client-b');
+      expect(getConfig().managementToken).toBe('mgmt-b');
+    });
+
+    it('should throw for unknown spaces, listing the configured ones', () => {
+      process.env.STORYBLOK_SPACES = JSON.stringify(clientSpaces);
+      const { getSpaceConfig } = loadConfig();
+      expect(() => getSpaceConfig('client-z')).toThrow("Unknown Storyblok space 'client-z'. Configured spaces: client-a, client-b.");
+    });
+
+    it('should reject incomplete space definitions', () => {
+      process.env.STORYBLOK_SPACES = JSON.stringify({ broken: { spaceId: '1', managementToken: 'm' } });
+      const { getConfig } = loadConfig();
+      expect(() => getConfig()).toThrow("Space 'broken' in STORYBLOK_SPACES is missing 'publicToken'.");
+    });
+
+    it('should reject an unknown STORYBLOK_DEFAULT_SPACE', () => {
+      process.env.STORYBLOK_SPACES = JSON.stringify(clientSpaces);
+      process.env.STORYBLOK_DEFAULT_SPACE = 'nope';
+      const { getConfig } = loadConfig();
+      expect(() => getConfig()).toThrow("STORYBLOK_DEFAULT_SPACE 'nope' does not match any configured space.");
+    });
+  });
+
+  describe('regions', () => {
+    it.each([
+      ['123456', 'eu'],
+      ['1000001', 'us'],
+      ['2500000', 'ca'],
+      ['3999999', 'ap'],
+      ['4000000', 'cn'],
+      ['5000000', 'eu']
+    ])('should detect the region of space %s as %s', (spaceId, region) => {
+      const { detectRegionFromSpaceId } = loadConfig();
+      expect(detectRegionFromSpaceId(spaceId)).toBe(region);
+    });
+
+    it('should select region-specific hosts for each space', () => {
+      process.env.STORYBLOK_SPACES = JSON.stringify({
+        detected: { spaceId: '1234567', managementToken: 'm', publicToken: 'p' },
+        explicit: { spaceId: '42', managementToken: 'm', publicToken: 'p', region: 'AP' }
+      });
+      const { getApiEndpoints } = loadConfig();
+
+      expect(getApiEndpoints('detected')).toEqual({ MANAGEMENT: 'https://mapi-us.storyblok.com/v1', CONTENT: 'https://api-us.storyblok.com/v2' });
+      expect(getApiEndpoints('explicit')).toEqual({ MANAGEMENT: 'https://mapi-ap.storyblok.com/v1', CONTENT: 'https://api-ap.storyblok.com/v2' });
+    });
+
+    it('should let STORYBLOK_REGION override detection for the single-space variables', () => {
+      process.env.STORYBLOK_SPACE_ID = '12345';
+      process.env.STORYBLOK_MANAGEMENT_TOKEN = 'mgmt';
+      process.env.STORYBLOK_DEFAULT_PUBLIC_TOKEN = 'pub';
+      process.env.STORYBLOK_REGION = 'ca';
+      const { getApiEndpoints } = loadConfig();
+      expect(getApiEndpoints().MANAGEMENT).toBe('https://mapi-ca.storyblok.com/v1');
+    });
+
+    it('should reject unknown regions', () => {
+      process.env.STORYBLOK_SPACES = JSON.stringify({ bad: { spaceId: '1', managementToken: 'm', publicToken: 'p', region: 'mars' } });
+      const { getConfig } = loadConfig();
+      expect(() => getConfig()).toThrow("Space 'bad' in STORYBLOK_SPACES has unknown region 'mars'.");
+    });
+  });
+
+  describe('tool policy', () => {
+    it('should expose every tool by default', () => {
+      const { getToolPolicyConfig } = loadConfig();
+      expect(getToolPolicyConfig({})).toEqual({ mode: 'full', allowTools: [], denyTools: [], allowCategories: [], denyCategories: [] });
+    });
+
+    it('should read the mode and comma-separated lists from the environment', () => {
+      const { getToolPolicyConfig } = loadConfig();
+      expect(getToolPolicyConfig({
+        STORYBLOK_TOOL_MODE: 'READ-ONLY',
+        STORYBLOK_DENY_TOOLS: 'delete-*, bulk-*,',
+        STORYBLOK_ALLOW_CATEGORIES: 'stories'
+      })).toEqual({ mode: 'read-only', allowTools: [], denyTools: ['delete-*', 'bulk-*'], allowCategories: ['stories'], denyCategories: [] });
+    });
+
+    it('should load a policy file and let environment variables override it', () => {
+      const file = join(mkdtempSync(join(tmpdir(), 'policy-')), 'policy.json');
+      writeFileSync(file, JSON.stringify({ mode: 'read-only', denyTools: ['debug-*'], denyCategories: ['components'] }));
+
+      const { getToolPolicyConfig } = loadConfig();
+      expect(getToolPolicyConfig({ STORYBLOK_TOOL_POLICY_FILE: file, STORYBLOK_DENY_TOOLS: '' })).toEqual({
+        mode: 'read-only', allowTools: [], denyTools: [], allowCategories: [], denyCategories: ['components']
+      });
+    });
+
+    it('should reject unknown modes and malformed policy files', () => {
+      const { getToolPolicyConfig } = loadConfig();
+      expect(() => getToolPolicyConfig({ STORYBLOK_TOOL_MODE: 'safe' })).toThrow("Unknown tool mode 'safe'. Use one of: full, read-only.");
+      expect(() => getToolPolicyConfig({ STORYBLOK_TOOL_POLICY_FILE: '/nonexistent/policy.json' })).toThrow("STORYBLOK_TOOL_POLICY_FILE '/nonexistent/policy.json' could not be read");
+    });
+  });
+
+  describe('audit log', () => {
+    it('should default to a file sink in the home directory', () => {
+      const { getAuditConfig } = loadConfig();
+      expect(getAuditConfig({})).toEqual({
+        enabled: true,
+        sinks: ['file'],
+        file: join(homedir(), '.storyblok-mcp', 'audit.jsonl'),
+        retentionDays: 90,
+        maxEntries: 10000
+      });
+    });
+
+    it('should read sinks and the retention policy', () => {
+      const { getAuditConfig } = loadConfig();
+      expect(getAuditConfig({
+        STORYBLOK_AUDIT_SINKS: 'File, webhook,file',
+        STORYBLOK_AUDIT_WEBHOOK_URL: 'https://example.com/hook',
+        STORYBLOK_AUDIT_RETENTION_DAYS: '0',
+        STORYBLOK_AUDIT_MAX_ENTRIES: '500'
+      })).toMatchObject({ sinks: ['file', 'webhook'], webhookUrl: 'https://example.com/hook', retentionDays: 0, maxEntries: 500 });
+    });
+
+    it('should reject unknown sinks and a webhook sink without URL', () => {
+      const { getAuditConfig } = loadConfig();
+      expect(() => getAuditConfig({ STORYBLOK_AUDIT_SINKS: 'syslog' })).toThrow("Unknown audit sink 'syslog'. Use one of: file, stdout, webhook.");
+      expect(() => getAuditConfig({ STORYBLOK_AUDIT_SINKS: 'webhook' })).toThrow('The webhook audit sink requires STORYBLOK_AUDIT_WEBHOOK_URL.');
+    });
+  });
+
+  describe('log level', () => {
+    it('should default to info and accept any MCP logging level', () => {
+      const { getLogLevel } = loadConfig();
+      expect(getLogLevel({})).toBe('info');
+      expect(getLogLevel({ STORYBLOK_LOG_LEVEL: 'DEBUG' })).toBe('debug');
+      expect(() => getLogLevel({ STORYBLOK_LOG_LEVEL: 'verbose' })).toThrow("Unknown log level 'verbose'. Use one of: debug, info, notice, warning, error, critical, alert, emergency.");
+    });
+  });
+
+  describe('webhook receiver', () => {
+    it('should be off by default and require a secret when a port is set', () => {
+      const { getWebhookConfig } = loadConfig();
+      expect(getWebhookConfig({})).toEqual({ enabled: false, host: '127.0.0.1', port: 0, replayIntervalMs: 1000 });
+      expect(getWebhookConfig({ STORYBLOK_WEBHOOK_PORT: '4000', STORYBLOK_WEBHOOK_SECRET: 's3cret', STORYBLOK_WEBHOOK_REPLAY_FILE: '/tmp/hooks.jsonl' })).toEqual({
+        enabled: true,
+        host: '127.0.0.1',
+        port: 4000,
+        secret: 's3cret',
+        replayFile: '/tmp/hooks.jsonl',
+        replayIntervalMs: 1000
+      });
+      expect(() => getWebhookConfig({ STORYBLOK_WEBHOOK_PORT: '4000' })).toThrow('The webhook receiver requires STORYBLOK_WEBHOOK_SECRET');
+      expect(() => getWebhookConfig({ STORYBLOK_WEBHOOK_PORT: 'abc', STORYBLOK_WEBHOOK_SECRET: 's' })).toThrow("Invalid STORYBLOK_WEBHOOK_PORT 'abc'");
+    });
+  });
+
+  describe('generate-types CLI', () => {
+    it('should read the flags, with defaults', () => {
+      const { getCodegenConfig } = loadConfig();
+      expect(getCodegenConfig([])).toEqual({ outDir: 'storyblok-types', output: 'both' });
+      expect(getCodegenConfig(['--out', 'src/types', '--output=zod', '--space', 'marketing', '--types-module', './components'])).toEqual({
+        outDir: 'src/types',
+        output: 'zod',
+        space: 'marketing',
+        typesModule: './components'
+      });
+      expect(() => getCodegenConfig(['--output', 'json'])).toThrow("Unsupported output 'json'. Use one of: typescript, zod, both.");
+    });
+  });
+});
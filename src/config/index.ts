@@ -1,35 +1,170 @@
-import type { StoryblokConfig } from '../types/index.js';
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { AuditConfig, AuditSinkType, CodegenConfig, CodegenOutput, ConfirmationConfig, HttpClientConfig, JournalConfig, MigrationConfig, LogLevel, StoryblokApiEndpoints, StoryblokConfig, StoryblokRegion, StoryblokSpaceConfig, ToolPolicyConfig, ToolPolicyMode, TransportConfig, TransportMode, WebhookConfig } from '../types/index.js';
+
+/**
+ * Name of the space configured through the single-space environment variables
+ * (`STORYBLOK_SPACE_ID`, `STORYBLOK_MANAGEMENT_TOKEN`, `STORYBLOK_DEFAULT_PUBLIC_TOKEN`).
+ */
+export const DEFAULT_SPACE_NAME = 'default';
+
+/**
+ * Base URLs for the Storyblok Management (v1) and Content Delivery (v2) APIs in every region.
+ */
+export const REGION_ENDPOINTS: Record<StoryblokRegion, StoryblokApiEndpoints> = {
+  eu: { MANAGEMENT: 'https://mapi.storyblok.com/v1', CONTENT: 'https://api.storyblok.com/v2' },
+  us: { MANAGEMENT: 'https://mapi-us.storyblok.com/v1', CONTENT: 'https://api-us.storyblok.com/v2' },
+  ca: { MANAGEMENT: 'https://mapi-ca.storyblok.com/v1', CONTENT: 'https://api-ca.storyblok.com/v2' },
+  ap: { MANAGEMENT: 'https://mapi-ap.storyblok.com/v1', CONTENT: 'https://api-ap.storyblok.com/v2' },
+  cn: { MANAGEMENT: 'https://app.storyblokchina.cn/v1', CONTENT: 'https://app.storyblokchina.cn/v2' }
+};
+
+/**
+ * Infers a space's region from its numeric ID.
+ * Storyblok allocates space IDs in per-region ranges; IDs outside the known ranges belong to the EU.
+ *
+ * @param {string} spaceId - The numeric space ID.
+ * @returns {StoryblokRegion} The detected region.
+ */
+export function detectRegionFromSpaceId(spaceId: string): StoryblokRegion {
+  const id = Number(spaceId);
+  if (id >= 1_000_000 && id < 2_000_000) return 'us';
+  if (id >= 2_000_000 && id < 3_000_000) return 'ca';
+  if (id >= 3_000_000 && id < 4_000_000) return 'ap';
+  if (id >= 4_000_000 && id < 5_000_000) return 'cn';
+  return 'eu';
+}
+
+/**
+ * Resolves the region of a space: an explicit setting wins, otherwise it is detected from the space ID.
+ *
+ * @param {string} spaceId - The numeric space ID.
+ * @param {unknown} region - The configured region, if any.
+ * @param {string} source - Where the region came from, used in error messages.
+ * @returns {StoryblokRegion} The resolved region.
+ * @throws {Error} If an explicit region is not a known Storyblok region.
+ */
+function resolveRegion(spaceId: string, region: unknown, source: string): StoryblokRegion {
+  if (region === undefined || region === '') {
+    return detectRegionFromSpaceId(spaceId);
+  }
+  const normalized = String(region).toLowerCase();
+  if (!(normalized in REGION_ENDPOINTS)) {
+    throw new Error(`${source} has unknown region '${region}'. Use one of: ${Object.keys(REGION_ENDPOINTS).join(', ')}.`);
+  }
+  return normalized as StoryblokRegion;
+}
+
+/**
+ * Parses a multi-space definition: a JSON object mapping space names to
+ * `{ spaceId, managementToken, publicToken, region? }`.
+ *
+ * @param {string} raw - The raw JSON text.
+ * @param {string} source - Where the JSON came from, used in error messages.
+ * @returns {Record<string, StoryblokSpaceConfig>} The parsed spaces, keyed by name.
+ * @throws {Error} If the JSON is malformed or a space is missing a required setting.
+ */
+function parseSpacesDefinition(raw: string, source: string): Record<string, StoryblokSpaceConfig> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`${source} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`${source} must be a JSON object mapping space names to { spaceId, managementToken, publicToken, region? }.`);
+  }
+
+  const spaces: Record<string, StoryblokSpaceConfig> = {};
+  for (const [name, value] of Object.entries(parsed as Record<string, unknown>)) {
+    const entry = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    for (const key of ['spaceId', 'managementToken', 'publicToken']) {
+      const field = entry[key];
+      if ((typeof field !== 'string' || field === '') && typeof field !== 'number') {
+        throw new Error(`Space '${name}' in ${source} is missing '${key}'.`);
+      }
+    }
+    const spaceId = String(entry.spaceId);
+    spaces[name] = {
+      name,
+      spaceId,
+      managementToken: String(entry.managementToken),
+      publicToken: String(entry.publicToken),
+      region: resolveRegion(spaceId, entry.region, `Space '${name}' in ${source}`)
+    };
+  }
+  return spaces;
+}
 
 /**
  * Validates and retrieves the Storyblok configuration from environment variables.
  *
- * Ensures that all necessary Storyblok credentials and identifiers are set.
- * Throws an error if any required environment variable is missing, detailing its impact.
- * Logs a confirmation message upon successful loading of the configuration.
+ * Spaces can be declared in two ways, which may be combined:
+ * - `STORYBLOK_SPACES` (inline JSON) or `STORYBLOK_SPACES_FILE` (path to a JSON file) declaring several named spaces.
+ * - The single-space variables, which define a space named `default`.
+ * The single-space variables are only required when no multi-space definition is given;
+ * `STORYBLOK_REGION` optionally sets their region.
+ * `STORYBLOK_DEFAULT_SPACE` selects the space used when a tool call does not name one.
  *
  * @returns {StoryblokConfig} The validated Storyblok configuration object.
- * @throws {Error} If a required environment variable is not set.
+ * @throws {Error} If a required environment variable is not set or the space definitions are invalid.
  */
 function validateConfig(): StoryblokConfig {
   const spaceId = process.env.STORYBLOK_SPACE_ID;
   const managementToken = process.env.STORYBLOK_MANAGEMENT_TOKEN;
   const publicToken = process.env.STORYBLOK_DEFAULT_PUBLIC_TOKEN;
 
-  if (!spaceId) {
-    throw new Error('STORYBLOK_SPACE_ID environment variable is missing. This is crucial for identifying your Storyblok space and without it, no API communication can occur.');
+  let spaces: Record<string, StoryblokSpaceConfig> = {};
+  if (process.env.STORYBLOK_SPACES) {
+    spaces = parseSpacesDefinition(process.env.STORYBLOK_SPACES, 'STORYBLOK_SPACES');
+  } else if (process.env.STORYBLOK_SPACES_FILE) {
+    const file = process.env.STORYBLOK_SPACES_FILE;
+    let raw: string;
+    try {
+      raw = readFileSync(file, 'utf8');
+    } catch (error) {
+      throw new Error(`STORYBLOK_SPACES_FILE '${file}' could not be read: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    spaces = parseSpacesDefinition(raw, `STORYBLOK_SPACES_FILE '${file}'`);
   }
-  if (!managementToken) {
-    throw new Error('STORYBLOK_MANAGEMENT_TOKEN environment variable is missing. This token is required for all write operations (e.g., creating/updating stories, assets) via the Management API.');
-  }
-  if (!publicToken) {
-    throw new Error('STORYBLOK_DEFAULT_PUBLIC_TOKEN environment variable is missing. This token is necessary for read operations via the Content Delivery API (e.g., fetching stories for display).');
+
+  const hasMultiSpaceDefinition = Object.keys(spaces).length > 0;
+  if (!hasMultiSpaceDefinition || spaceId || managementToken || publicToken) {
+    if (!spaceId) {
+      throw new Error('STORYBLOK_SPACE_ID environment variable is missing. This is crucial for identifying your Storyblok space and without it, no API communication can occur.');
+    }
+    if (!managementToken) {
+      throw new Error('STORYBLOK_MANAGEMENT_TOKEN environment variable is missing. This token is required for all write operations (e.g., creating/updating stories, assets) via the Management API.');
+    }
+    if (!publicToken) {
+      throw new Error('STORYBLOK_DEFAULT_PUBLIC_TOKEN environment variable is missing. This token is necessary for read operations via the Content Delivery API (e.g., fetching stories for display).');
+    }
+    if (spaces[DEFAULT_SPACE_NAME]) {
+      throw new Error(`The space name '${DEFAULT_SPACE_NAME}' is reserved for the space configured via STORYBLOK_SPACE_ID. Rename it in your multi-space definition.`);
+    }
+    spaces[DEFAULT_SPACE_NAME] = {
+      name: DEFAULT_SPACE_NAME,
+      spaceId,
+      managementToken,
+      publicToken,
+      region: resolveRegion(spaceId, process.env.STORYBLOK_REGION, 'STORYBLOK_REGION')
+    };
   }
 
+  const defaultSpace = process.env.STORYBLOK_DEFAULT_SPACE
+    ?? (spaces[DEFAULT_SPACE_NAME] ? DEFAULT_SPACE_NAME : Object.keys(spaces)[0]);
+  const defaultSpaceConfig = spaces[defaultSpace];
+  if (!defaultSpaceConfig) {
+    throw new Error(`STORYBLOK_DEFAULT_SPACE '${defaultSpace}' does not match any configured space. Configured spaces: ${Object.keys(spaces).join(', ')}.`);
+  }
 
   return {
-    spaceId,
-    managementToken,
-    publicToken
+    spaceId: defaultSpaceConfig.spaceId,
+    managementToken: defaultSpaceConfig.managementToken,
+    publicToken: defaultSpaceConfig.publicToken,
+    defaultSpace,
+    spaces
   };
 }
 
@@ -51,6 +186,23 @@ export function getConfig(): StoryblokConfig {
   return _config;
 }
 
+/**
+ * Resolves the configuration of a single space.
+ *
+ * @param {string} [space] - Name or numeric ID of a configured space. Defaults to the default space.
+ * @returns {StoryblokSpaceConfig} The matching space configuration.
+ * @throws {Error} If no configured space matches.
+ */
+export function getSpaceConfig(space?: string): StoryblokSpaceConfig {
+  const { spaces, defaultSpace } = getConfig();
+  const key = space ?? defaultSpace;
+  const match = spaces[key] ?? Object.values(spaces).find(candidate => candidate.spaceId === key);
+  if (!match) {
+    throw new Error(`Unknown Storyblok space '${key}'. Configured spaces: ${Object.keys(spaces).join(', ')}.`);
+  }
+  return match;
+}
+
 /**
  * Legacy export for backward compatibility.
  * Note: This will throw an error if environment variables are not set.
@@ -63,12 +215,382 @@ export const config = new Proxy({} as StoryblokConfig, {
 });
 
 /**
- * Defines the base URLs for the Storyblok Management and Content Delivery APIs.
+ * Defines the base URLs for the Storyblok Management and Content Delivery APIs of the EU region.
+ * Prefer getApiEndpoints(), which selects the hosts matching a space's region.
  *
  * - `MANAGEMENT`: URL for the Storyblok Management API (v1).
  * - `CONTENT`: URL for the Storyblok Content Delivery API (v2).
  */
-export const API_ENDPOINTS = {
-  MANAGEMENT: 'https://mapi.storyblok.com/v1',
-  CONTENT: 'https://api.storyblok.com/v2'
+export const API_ENDPOINTS = REGION_ENDPOINTS.eu;
+
+/**
+ * Gets the API base URLs for the region a space is hosted in.
+ *
+ * @param {string} [space] - Name or numeric ID of a configured space. Defaults to the default space.
+ * @returns {StoryblokApiEndpoints} The Management and Content Delivery API base URLs.
+ */
+export function getApiEndpoints(space?: string): StoryblokApiEndpoints {
+  return REGION_ENDPOINTS[getSpaceConfig(space).region];
+}
+
+/**
+ * Default bind address and port for the HTTP-based transports.
+ */
+export const TRANSPORT_DEFAULTS = {
+  HOST: '127.0.0.1',
+  PORT: 3000
+} as const;
+
+const TRANSPORT_MODES: readonly TransportMode[] = ['stdio', 'http', 'sse'];
+
+/**
+ * Reads the value of a `--name value` or `--name=value` CLI flag.
+ */
+function readCliFlag(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === `--${name}`) {
+      return argv[i + 1];
+    }
+    if (arg.startsWith(`--${name}=`)) {
+      return arg.slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves which transport the server should use and where HTTP transports bind.
+ *
+ * CLI flags (`--transport`, `--host`, `--port`) take precedence over the
+ * `MCP_TRANSPORT`, `MCP_HOST` and `MCP_PORT` environment variables.
+ * Defaults to stdio, which keeps the server usable as a desktop client child process.
+ *
+ * @param {string[]} argv - CLI arguments, without the node binary and script path.
+ * @param {NodeJS.ProcessEnv} env - Environment variables to read from.
+ * @returns {TransportConfig} The resolved transport configuration.
+ * @throws {Error} If the transport mode or port is invalid.
+ */
+export function getTransportConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): TransportConfig {
+  const mode = (readCliFlag(argv, 'transport') ?? env.MCP_TRANSPORT ?? 'stdio').toLowerCase();
+  if (!TRANSPORT_MODES.includes(mode as TransportMode)) {
+    throw new Error(`Unsupported transport '${mode}'. Use one of: ${TRANSPORT_MODES.join(', ')}.`);
+  }
+
+  const host = readCliFlag(argv, 'host') ?? env.MCP_HOST ?? TRANSPORT_DEFAULTS.HOST;
+  const rawPort = readCliFlag(argv, 'port') ?? env.MCP_PORT;
+  const port = rawPort === undefined ? TRANSPORT_DEFAULTS.PORT : Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port '${rawPort}'. Expected an integer between 0 and 65535.`);
+  }
+
+  return { mode: mode as TransportMode, host, port };
+}
+
+export const CODEGEN_OUTPUTS: readonly CodegenOutput[] = ['typescript', 'zod', 'both'];
+
+export const CODEGEN_DEFAULTS = {
+  OUT_DIR: 'storyblok-types'
+} as const;
+
+/**
+ * Resolves the settings of the `generate-types` CLI from its flags:
+ * `--out` (default: `storyblok-types`), `--output` (`typescript`, `zod` or `both`, the default),
+ * `--space` and `--types-module`.
+ *
+ * @param {string[]} argv - CLI arguments, without the node binary and script path.
+ * @returns {CodegenConfig} The resolved settings.
+ * @throws {Error} If the output is unknown.
+ */
+export function getCodegenConfig(argv: string[] = process.argv.slice(2)): CodegenConfig {
+  const output = (readCliFlag(argv, 'output') ?? 'both').toLowerCase();
+  if (!CODEGEN_OUTPUTS.includes(output as CodegenOutput)) {
+    throw new Error(`Unsupported output '${output}'. Use one of: ${CODEGEN_OUTPUTS.join(', ')}.`);
+  }
+  const space = readCliFlag(argv, 'space');
+  const typesModule = readCliFlag(argv, 'types-module');
+  return {
+    outDir: readCliFlag(argv, 'out') ?? CODEGEN_DEFAULTS.OUT_DIR,
+    output: output as CodegenOutput,
+    ...(space && { space }),
+    ...(typesModule && { typesModule })
+  };
+}
+
+/**
+ * Management API requests per second allowed by Storyblok, by plan tier.
+ */
+export const MANAGEMENT_RATE_LIMITS = {
+  free: 3,
+  paid: 6
+} as const;
+
+/**
+ * Reads a positive number from an environment variable, falling back to a default.
+ */
+function readPositiveNumber(env: NodeJS.ProcessEnv, name: string, fallback: number, allowZero = false): number {
+  const raw = env[name];
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0 || (!allowZero && value === 0)) {
+    throw new Error(`${name} must be a ${allowZero ? 'non-negative' : 'positive'} number, got '${raw}'.`);
+  }
+  return value;
+}
+
+/**
+ * Resolves the settings of the shared Storyblok HTTP client.
+ *
+ * - `STORYBLOK_PLAN`: `free` (default) or `paid`, selecting the Management API rate limit.
+ * - `STORYBLOK_MAPI_RATE_LIMIT` / `STORYBLOK_CDA_RATE_LIMIT`: Override requests per second.
+ * - `STORYBLOK_MAX_RETRIES`: Retries for 429/5xx responses (default: 3).
+ * - `STORYBLOK_REQUEST_TIMEOUT_MS`: Per-attempt timeout (default: 30000).
+ * - `STORYBLOK_RETRY_BASE_DELAY_MS` / `STORYBLOK_RETRY_MAX_DELAY_MS`: Backoff bounds (default: 500 / 30000).
+ * - `STORYBLOK_CACHE_TTL_SECONDS`: Lifetime of cached responses (default: 60; 0 disables the cache).
+ * - `STORYBLOK_CACHE_MAX_ENTRIES`: Size of the response cache (default: 500).
+ *
+ * @param {NodeJS.ProcessEnv} env - Environment variables to read from.
+ * @returns {HttpClientConfig} The resolved client settings.
+ * @throws {Error} If a setting is not a valid number or the plan is unknown.
+ */
+export function getHttpClientConfig(env: NodeJS.ProcessEnv = process.env): HttpClientConfig {
+  const plan = (env.STORYBLOK_PLAN ?? 'free').toLowerCase();
+  if (!(plan in MANAGEMENT_RATE_LIMITS)) {
+    throw new Error(`Unknown STORYBLOK_PLAN '${env.STORYBLOK_PLAN}'. Use one of: ${Object.keys(MANAGEMENT_RATE_LIMITS).join(', ')}.`);
+  }
+
+  return {
+    managementRateLimit: readPositiveNumber(env, 'STORYBLOK_MAPI_RATE_LIMIT', MANAGEMENT_RATE_LIMITS[plan as keyof typeof MANAGEMENT_RATE_LIMITS]),
+    contentRateLimit: readPositiveNumber(env, 'STORYBLOK_CDA_RATE_LIMIT', 50),
+    maxRetries: readPositiveNumber(env, 'STORYBLOK_MAX_RETRIES', 3, true),
+    timeoutMs: readPositiveNumber(env, 'STORYBLOK_REQUEST_TIMEOUT_MS', 30000),
+    retryBaseDelayMs: readPositiveNumber(env, 'STORYBLOK_RETRY_BASE_DELAY_MS', 500, true),
+    retryMaxDelayMs: readPositiveNumber(env, 'STORYBLOK_RETRY_MAX_DELAY_MS', 30000, true),
+    cacheTtlSeconds: readPositiveNumber(env, 'STORYBLOK_CACHE_TTL_SECONDS', 60, true),
+    cacheMaxEntries: readPositiveNumber(env, 'STORYBLOK_CACHE_MAX_ENTRIES', 500)
+  };
+}
+
+const TOOL_POLICY_MODES: readonly ToolPolicyMode[] = ['full', 'read-only'];
+
+const TOOL_POLICY_LISTS = {
+  allowTools: 'STORYBLOK_ALLOW_TOOLS',
+  denyTools: 'STORYBLOK_DENY_TOOLS',
+  allowCategories: 'STORYBLOK_ALLOW_CATEGORIES',
+  denyCategories: 'STORYBLOK_DENY_CATEGORIES'
+} as const;
+
+/**
+ * Parses a comma-separated list, ignoring blank entries.
+ */
+function readList(raw: string): string[] {
+  return raw.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Resolves which tools the server exposes.
+ *
+ * A JSON policy file (`STORYBLOK_TOOL_POLICY_FILE`) may set `mode`, `allowTools`, `denyTools`,
+ * `allowCategories` and `denyCategories`. Environment variables override the file per setting:
+ * - `STORYBLOK_TOOL_MODE`: `full` (default) or `read-only`.
+ * - `STORYBLOK_ALLOW_TOOLS` / `STORYBLOK_DENY_TOOLS`: Comma-separated tool name globs.
+ * - `STORYBLOK_ALLOW_CATEGORIES` / `STORYBLOK_DENY_CATEGORIES`: Comma-separated tool categories.
+ *
+ * @param {NodeJS.ProcessEnv} env - Environment variables to read from.
+ * @returns {ToolPolicyConfig} The resolved policy; without any settings, every tool is exposed.
+ * @throws {Error} If the policy file cannot be read or a setting is invalid.
+ */
+export function getToolPolicyConfig(env: NodeJS.ProcessEnv = process.env): ToolPolicyConfig {
+  let file: Record<string, unknown> = {};
+  const path = env.STORYBLOK_TOOL_POLICY_FILE;
+  if (path) {
+    const source = `STORYBLOK_TOOL_POLICY_FILE '${path}'`;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new Error(`${source} could not be read: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(`${source} must be a JSON object with mode, allowTools, denyTools, allowCategories and denyCategories.`);
+    }
+    file = parsed as Record<string, unknown>;
+  }
+
+  const mode = String(env.STORYBLOK_TOOL_MODE || file.mode || 'full').toLowerCase();
+  if (!TOOL_POLICY_MODES.includes(mode as ToolPolicyMode)) {
+    throw new Error(`Unknown tool mode '${mode}'. Use one of: ${TOOL_POLICY_MODES.join(', ')}.`);
+  }
+
+  const policy: ToolPolicyConfig = { mode: mode as ToolPolicyMode, allowTools: [], denyTools: [], allowCategories: [], denyCategories: [] };
+  for (const [key, envName] of Object.entries(TOOL_POLICY_LISTS) as [keyof typeof TOOL_POLICY_LISTS, string][]) {
+    const fromEnv = env[envName];
+    const fromFile = file[key];
+    if (fromEnv !== undefined) {
+      policy[key] = readList(fromEnv);
+    } else if (fromFile !== undefined) {
+      if (!Array.isArray(fromFile) || !fromFile.every(entry => typeof entry === 'string')) {
+        throw new Error(`'${key}' in STORYBLOK_TOOL_POLICY_FILE must be an array of strings.`);
+      }
+      policy[key] = fromFile;
+    }
+  }
+  return policy;
+}
+
+/**
+ * Tells whether mutating tools only simulate their writes unless a call passes `dry_run: false`.
+ * Enabled with `STORYBLOK_DRY_RUN=true`.
+ *
+ * @param {NodeJS.ProcessEnv} env - Environment variables to read from.
+ * @returns {boolean} The default of the `dry_run` tool argument.
+ */
+export function getDryRunDefault(env: NodeJS.ProcessEnv = process.env): boolean {
+  const raw = (env.STORYBLOK_DRY_RUN ?? '').toLowerCase();
+  return raw === 'true' || raw === '1';
+}
+
+/**
+ * Resolves the confirmation protocol of destructive tools.
+ *
+ * - `STORYBLOK_REQUIRE_CONFIRMATION`: Set to `false` to let destructive tools delete on the first call.
+ * - `STORYBLOK_CONFIRMATION_TTL_SECONDS`: Lifetime of confirmation tokens (default: 300).
+ *
+ * @param {NodeJS.ProcessEnv} env - Environment variables to read from.
+ * @returns {ConfirmationConfig} The resolved settings.
+ * @throws {Error} If the lifetime is not a positive number.
+ */
+export function getConfirmationConfig(env: NodeJS.ProcessEnv = process.env): ConfirmationConfig {
+  return {
+    required: (env.STORYBLOK_REQUIRE_CONFIRMATION ?? '').toLowerCase() !== 'false',
+    ttlSeconds: readPositiveNumber(env, 'STORYBLOK_CONFIRMATION_TTL_SECONDS', 300)
+  };
+}
+
+/**
+ * Resolves where mutating tool calls are journaled for undo.
+ *
+ * - `STORYBLOK_JOURNAL`: Set to `false` to disable the journal.
+ * - `STORYBLOK_JOURNAL_FILE`: Path of the JSON-lines journal (default: `~/.storyblok-mcp/journal.jsonl`).
+ *
+ * @param {NodeJS.ProcessEnv} env - Environment variables to read from.
+ * @returns {JournalConfig} The resolved settings.
+ */
+export function getJournalConfig(env: NodeJS.ProcessEnv = process.env): JournalConfig {
+  return {
+    enabled: (env.STORYBLOK_JOURNAL ?? '').toLowerCase() !== 'false',
+    file: env.STORYBLOK_JOURNAL_FILE || join(homedir(), '.storyblok-mcp', 'journal.jsonl')
+  };
+}
+
+/**
+ * Resolves where `run-content-migration` keeps its progress.
+ *
+ * - `STORYBLOK_MIGRATION_DIR`: Directory of the progress files (default: `~/.storyblok-mcp/migrations`).
+ *
+ * @param {NodeJS.ProcessEnv} env - Environment variables to read from.
+ * @returns {MigrationConfig} The resolved settings.
+ */
+export function getMigrationConfig(env: NodeJS.ProcessEnv = process.env): MigrationConfig {
+  return {
+    progressDir: env.STORYBLOK_MIGRATION_DIR || join(homedir(), '.storyblok-mcp', 'migrations')
+  };
+}
+
+const AUDIT_SINK_TYPES: readonly AuditSinkType[] = ['file', 'stdout', 'webhook'];
+
+/**
+ * Resolves where tool invocations are audited.
+ *
+ * - `STORYBLOK_AUDIT`: Set to `false` to disable the audit log.
+ * - `STORYBLOK_AUDIT_SINKS`: Comma-separated sinks: `file` (default), `stdout` and `webhook`.
+ * - `STORYBLOK_AUDIT_FILE`: Path of the JSON-lines audit file (default: `~/.storyblok-mcp/audit.jsonl`).
+ * - `STORYBLOK_AUDIT_WEBHOOK_URL`: URL the `webhook` sink posts records to.
+ * - `STORYBLOK_AUDIT_RETENTION_DAYS`: Age after which records are pruned from the file (default: 90; 0 keeps them).
+ * - `STORYBLOK_AUDIT_MAX_ENTRIES`: Most records the file keeps (default: 10000; 0 means no limit).
+ *
+ * @param {NodeJS.ProcessEnv} env - Environment variables to read from.
+ * @returns {AuditConfig} The resolved settings.
+ * @throws {Error} If a sink is unknown, the webhook sink has no URL or a limit is invalid.
+ */
+export function getAuditConfig(env: NodeJS.ProcessEnv = process.env): AuditConfig {
+  const sinks = readList(env.STORYBLOK_AUDIT_SINKS || 'file').map(sink => sink.toLowerCase());
+  const unknown = sinks.filter(sink => !AUDIT_SINK_TYPES.includes(sink as AuditSinkType));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown audit sink '${unknown[0]}'. Use one of: ${AUDIT_SINK_TYPES.join(', ')}.`);
+  }
+  const webhookUrl = env.STORYBLOK_AUDIT_WEBHOOK_URL || undefined;
+  if (sinks.includes('webhook') && !webhookUrl) {
+    throw new Error('The webhook audit sink requires STORYBLOK_AUDIT_WEBHOOK_URL.');
+  }
+  return {
+    enabled: (env.STORYBLOK_AUDIT ?? '').toLowerCase() !== 'false',
+    sinks: [...new Set(sinks)] as AuditSinkType[],
+    file: env.STORYBLOK_AUDIT_FILE || join(homedir(), '.storyblok-mcp', 'audit.jsonl'),
+    ...(webhookUrl && { webhookUrl }),
+    retentionDays: readPositiveNumber(env, 'STORYBLOK_AUDIT_RETENTION_DAYS', 90, true),
+    maxEntries: readPositiveNumber(env, 'STORYBLOK_AUDIT_MAX_ENTRIES', 10000, true)
+  };
+}
+
+export const WEBHOOK_DEFAULTS = {
+  HOST: '127.0.0.1',
+  REPLAY_INTERVAL_MS: 1000
 } as const;
+
+/**
+ * Resolves the settings of the Storyblok webhook receiver.
+ *
+ * - `STORYBLOK_WEBHOOK_PORT`: Port the receiver listens on; the receiver is off when unset.
+ * - `STORYBLOK_WEBHOOK_HOST`: Bind address of the receiver (default: `127.0.0.1`).
+ * - `STORYBLOK_WEBHOOK_SECRET`: The webhook secret configured in Storyblok; required by the receiver.
+ * - `STORYBLOK_WEBHOOK_REPLAY_FILE`: JSON-lines file of recorded webhook payloads to replay at startup.
+ * - `STORYBLOK_WEBHOOK_REPLAY_INTERVAL_MS`: Pause before each replayed payload (default: 1000).
+ *
+ * @param {NodeJS.ProcessEnv} env - Environment variables to read from.
+ * @returns {WebhookConfig} The resolved settings.
+ * @throws {Error} If the port or interval is invalid, or the receiver has no secret.
+ */
+export function getWebhookConfig(env: NodeJS.ProcessEnv = process.env): WebhookConfig {
+  const rawPort = env.STORYBLOK_WEBHOOK_PORT || undefined;
+  const port = rawPort === undefined ? 0 : Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid STORYBLOK_WEBHOOK_PORT '${rawPort}'. Expected an integer between 0 and 65535.`);
+  }
+  const secret = env.STORYBLOK_WEBHOOK_SECRET || undefined;
+  if (rawPort !== undefined && !secret) {
+    throw new Error('The webhook receiver requires STORYBLOK_WEBHOOK_SECRET to verify webhook signatures.');
+  }
+  const replayFile = env.STORYBLOK_WEBHOOK_REPLAY_FILE || undefined;
+  return {
+    enabled: rawPort !== undefined,
+    host: env.STORYBLOK_WEBHOOK_HOST || WEBHOOK_DEFAULTS.HOST,
+    port,
+    ...(secret && { secret }),
+    ...(replayFile && { replayFile }),
+    replayIntervalMs: readPositiveNumber(env, 'STORYBLOK_WEBHOOK_REPLAY_INTERVAL_MS', WEBHOOK_DEFAULTS.REPLAY_INTERVAL_MS, true)
+  };
+}
+
+/** Log levels, in increasing severity. */
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+/**
+ * Resolves the least severe level written to the stderr log, from `STORYBLOK_LOG_LEVEL` (default: `info`).
+ *
+ * @param {NodeJS.ProcessEnv} env - Environment variables to read from.
+ * @returns {LogLevel} The level.
+ * @throws {Error} If the level is unknown.
+ */
+export function getLogLevel(env: NodeJS.ProcessEnv = process.env): LogLevel {
+  const level = (env.STORYBLOK_LOG_LEVEL || 'info').toLowerCase();
+  if (!LOG_LEVELS.includes(level as LogLevel)) {
+    throw new Error(`Unknown log level '${level}'. Use one of: ${LOG_LEVELS.join(', ')}.`);
+  }
+  return level as LogLevel;
+}
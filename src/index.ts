@@ -4,29 +4,34 @@
  * This file initializes the server, registers tools, and sets up global error handlers.
  */
 
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { createServer } from './server.js';
+import { getAuditConfig, getLogLevel, getTransportConfig, getWebhookConfig } from './config/index.js';
+import { startHttpTransport } from './transports/http.js';
+import { logger } from './utils/logger.js';
+import { warmTokenPermissionCache } from './utils/permissions.js';
+import { replayWebhookFile, startWebhookReceiver } from './webhooks/index.js';
+
 /**
  * Handles uncaught exceptions.
  * Logs the error and exits the process.
  * @param {Error} error - The uncaught exception encountered.
  */
 process.on('uncaughtException', (error: Error) => {
+  logger.critical('Uncaught exception', { error, stack: error.stack });
   process.exit(1);
 });
 
 /**
  * Handles unhandled promise rejections.
  * Logs the error and exits the process.
- * @param {any} reason - The reason for the promise rejection.
- * @param {Promise<any>} promise - The promise that was rejected.
+ * @param {unknown} reason - The reason for the promise rejection.
  */
-process.on('unhandledRejection', (reason: any, promise: Promise<any>) => {
+process.on('unhandledRejection', (reason: unknown) => {
+  logger.critical('Unhandled promise rejection', { error: reason, stack: reason instanceof Error ? reason.stack : undefined });
   process.exit(1);
 });
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { registerAllTools } from './tools/index.js';
-
 /**
  * MCP Storyblok Server
  * 
@@ -37,6 +42,18 @@ import { registerAllTools } from './tools/index.js';
  * - STORYBLOK_SPACE_ID: Your Storyblok space ID
  * - STORYBLOK_MANAGEMENT_TOKEN: Management API token for write operations
  * - STORYBLOK_DEFAULT_PUBLIC_TOKEN: Public token for content delivery API
+ *
+ * Transport Selection (CLI flags take precedence over environment variables):
+ * - --transport / MCP_TRANSPORT: `stdio` (default), `http` (Streamable HTTP) or `sse` (legacy HTTP+SSE)
+ * - --host / MCP_HOST: Bind address for HTTP transports (default: 127.0.0.1)
+ * - --port / MCP_PORT: Port for HTTP transports (default: 3000)
+ *
+ * Resource Subscriptions (optional):
+ * - STORYBLOK_WEBHOOK_PORT / STORYBLOK_WEBHOOK_SECRET: Receive Storyblok webhooks and notify subscribed clients
+ * - STORYBLOK_WEBHOOK_REPLAY_FILE: Replay recorded webhook payloads instead
+ *
+ * Management tokens are introspected at startup (current user and space roles) so that
+ * 401/403 errors report the missing permission. Set STORYBLOK_INTROSPECT_TOKENS=false to skip this.
  * 
  * Features:
  * - Story management (CRUD operations, publishing, versioning)
@@ -49,26 +66,87 @@ import { registerAllTools } from './tools/index.js';
  */
 
 /**
- * The primary MCP (Model Context Protocol) server instance.
- * Configured with a name and version for identification.
+ * Maximum time to wait for open sessions to close before forcing the process to exit.
  */
-const server = new McpServer({
-  name: "storyblok-server",
-  version: "1.0.0",
-});
+const SHUTDOWN_TIMEOUT_MS = 5000;
 
-// Register all tools from modular files
-registerAllTools(server);
+/**
+ * Registers SIGINT/SIGTERM handlers that close the active transport before exiting.
+ * A second signal, or a shutdown exceeding SHUTDOWN_TIMEOUT_MS, exits immediately.
+ *
+ * @param {() => Promise<void>} close - Closes the running server or transport.
+ */
+function registerShutdownHandlers(close: () => Promise<void>) {
+  let shuttingDown = false;
+  const shutdown = () => {
+    if (shuttingDown) {
+      process.exit(1);
+    }
+    shuttingDown = true;
+    logger.info('Shutting down');
+    setTimeout(() => process.exit(1), SHUTDOWN_TIMEOUT_MS).unref();
+    close().then(
+      () => process.exit(0),
+      error => {
+        logger.error('Shutdown failed', { error });
+        process.exit(1);
+      }
+    );
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
 
 /**
  * Main server startup function.
- * Initializes the MCP server and connects it using STDIN/STDOUT transport.
+ * Connects a single server over STDIN/STDOUT, or starts an HTTP listener that
+ * creates one server per client session for the Streamable HTTP and SSE transports.
  */
 async function main() {
   try {
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
+    // Fail on a mistyped log level instead of silently logging at the default
+    getLogLevel();
+    const transportConfig = getTransportConfig();
+    const webhookConfig = getWebhookConfig();
+
+    const closers: Array<() => Promise<void>> = [];
+
+    if (transportConfig.mode === 'stdio') {
+      const audit = getAuditConfig();
+      if (audit.enabled && audit.sinks.includes('stdout')) {
+        throw new Error('The stdout audit sink cannot be used with the stdio transport, which owns stdout.');
+      }
+      const server = createServer();
+      const transport = new StdioServerTransport();
+      await server.connect(transport);
+      closers.push(() => server.close());
+    } else {
+      const httpTransport = await startHttpTransport(transportConfig, createServer);
+      closers.push(() => httpTransport.close());
+    }
+    logger.info('Server started', { transport: transportConfig.mode, ...(transportConfig.mode !== 'stdio' && { host: transportConfig.host, port: transportConfig.port }) });
+
+    if (webhookConfig.enabled) {
+      const receiver = await startWebhookReceiver(webhookConfig);
+      closers.push(() => receiver.close());
+      logger.info('Webhook receiver started', { host: webhookConfig.host, port: receiver.port });
+    }
+    registerShutdownHandlers(async () => {
+      await Promise.all(closers.map(close => close()));
+    });
+
+    if (webhookConfig.replayFile) {
+      const file = webhookConfig.replayFile;
+      replayWebhookFile(file, webhookConfig.replayIntervalMs).then(
+        replayed => logger.info('Webhook replay finished', { file, replayed }),
+        error => logger.error('Webhook replay failed', { file, error })
+      );
+    }
+
+    // Look up token permissions in the background so authorization errors can explain themselves
+    void warmTokenPermissionCache();
   } catch (error) {
+    logger.critical('Server failed to start', { error });
     process.exit(1);
   }
 }
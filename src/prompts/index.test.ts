@@ -0,0 +1,178 @@
+// src/prompts/index.test.ts
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { describeComponentSchemas, MAX_EMBEDDED_COMPONENTS, registerAllPrompts } from './index';
+import { resetRateLimiters } from '../utils/api';
+import { resetResponseCache } from '../utils/cache';
+
+global.fetch = jest.fn();
+
+describe('Prompts', () => {
+  const mockFetch = global.fetch as jest.Mock;
+  const originalEnv = process.env;
+  let client: Client;
+
+  const components = [
+    {
+      name: 'blog_post',
+      schema: {
+        'tab-seo': { type: 'tab', keys: ['seo_title'] },
+        body: { type: 'bloks', pos: 2, restrict_components: true, component_whitelist: ['teaser', 'removed_block'] },
+        title: { type: 'text', pos: 0, required: true, translatable: true, max_length: 80, description: 'Headline' },
+        category: { type: 'option', pos: 1, options: [{ name: 'News', value: 'news' }, { name: 'Guide', value: 'guide' }] },
+        seo_title: { type: 'text', pos: 3 }
+      }
+    },
+    { name: 'teaser', schema: { headline: { type: 'text', required: true }, image: { type: 'asset' } } }
+  ];
+
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+  // Answers each request from the handler whose path the request path ends with
+  const respondWith = (routes: Record<string, (url: URL) => unknown>) => {
+    mockFetch.mockImplementation(async (url: string) => {
+      const parsed = new URL(url);
+      const route = Object.keys(routes).find(path => parsed.pathname.endsWith(path));
+      return route ? json(routes[route](parsed)) : json({ error: 'Not found' }, 404);
+    });
+  };
+
+  const promptText = async (name: string, args: Record<string, string>) => {
+    const { messages } = await client.getPrompt({ name, arguments: args });
+    expect(messages).toHaveLength(1);
+    expect(messages[0].role).toBe('user');
+    return messages[0].content.text as string;
+  };
+
+  beforeEach(async () => {
+    process.env = {
+      ...originalEnv,
+      STORYBLOK_SPACE_ID: '123',
+      STORYBLOK_MANAGEMENT_TOKEN: 'mgmt-token',
+      STORYBLOK_DEFAULT_PUBLIC_TOKEN: 'public-token',
+      STORYBLOK_MAPI_RATE_LIMIT: '1000',
+      STORYBLOK_MAX_RETRIES: '0'
+    };
+    mockFetch.mockReset();
+    resetRateLimiters();
+    resetResponseCache();
+
+    const server = new McpServer({ name: 'prompts-test-server', version: '1.0.0' });
+    registerAllPrompts(server);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'prompts-test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should list the editorial prompts', async () => {
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map(prompt => prompt.name)).toEqual(['draft-blog-post', 'translate-story', 'audit-seo', 'summarize-release']);
+    expect(prompts[0].arguments?.map(arg => [arg.name, arg.required])).toEqual([
+      ['content_type', true], ['topic', true], ['audience', false], ['space', false]
+    ]);
+  });
+
+  describe('describeComponentSchemas', () => {
+    it('should describe fields in editor order, with nested blocks and without layout fields', async () => {
+      respondWith({ '/components': () => ({ components }) });
+
+      expect(await describeComponentSchemas(['blog_post'])).toBe([
+        '### `blog_post`',
+        '- `title` (text, required, translatable): Headline',
+        '  - At most 80 characters',
+        '- `category` (option)',
+        '  - Options: "news", "guide"',
+        '- `body` (bloks)',
+        '  - Allowed blocks: teaser, removed_block',
+        '- `seo_title` (text)',
+        '',
+        '### `teaser`',
+        '- `headline` (text, required)',
+        '- `image` (asset)'
+      ].join('\n'));
+    });
+
+    it('should reject unknown components and cap the number of described components', async () => {
+      const chain = Array.from({ length: MAX_EMBEDDED_COMPONENTS + 2 }, (_, i) => ({
+        name: `block_${i}`,
+        schema: { next: { type: 'bloks', restrict_components: true, component_whitelist: [`block_${i + 1}`] } }
+      }));
+      respondWith({ '/components': () => ({ components: chain }) });
+
+      await expect(describeComponentSchemas(['missing'])).rejects.toThrow("Component 'missing' not found.");
+      const text = await describeComponentSchemas(['block_0']);
+      expect(text.match(/^### /gm)).toHaveLength(MAX_EMBEDDED_COMPONENTS);
+      expect(text).toContain('(1 more nested components not shown; fetch them with fetch-components.)');
+    });
+  });
+
+  it('should embed the content type fields in draft-blog-post', async () => {
+    respondWith({ '/components': () => ({ components }) });
+
+    const text = await promptText('draft-blog-post', { content_type: 'blog_post', topic: 'Spring release', audience: 'Developers' });
+
+    expect(text).toContain('content type `blog_post` about: Spring release.');
+    expect(text).toContain('Write for this audience: Developers.');
+    expect(text).toContain('- `title` (text, required, translatable): Headline');
+    expect(text).toContain('### `teaser`');
+    await expect(client.getPrompt({ name: 'draft-blog-post', arguments: { content_type: 'page', topic: 'x' } })).rejects.toThrow("Component 'page' not found.");
+  });
+
+  it('should embed the story content and translatable fields in translate-story', async () => {
+    respondWith({
+      '/cdn/stories/blog/first-post': () => ({ story: { id: 9, content: { component: 'blog_post', title: 'Hello' } } }),
+      '/components': () => ({ components })
+    });
+
+    const text = await promptText('translate-story', { full_slug: 'blog/first-post', locale: 'de' });
+
+    expect(text).toContain('`blog/first-post` (ID 9) into the locale `de`');
+    expect(text).toContain('"title": "Hello"');
+    expect(text).toContain('`name__i18n__de`');
+    await expect(client.getPrompt({ name: 'translate-story', arguments: { full_slug: 'missing', locale: 'de' } })).rejects.toThrow("Story 'missing' not found.");
+  });
+
+  it('should embed the folder stories in audit-seo', async () => {
+    respondWith({
+      '/cdn/stories': url => ({
+        stories: url.searchParams.get('starts_with') === 'blog/' ? [{ id: 1, name: 'First', full_slug: 'blog/first', content: { component: 'blog_post', title: 'First' } }] : []
+      }),
+      '/components': () => ({ components })
+    });
+
+    const text = await promptText('audit-seo', { folder: 'blog' });
+
+    expect(text).toContain('in the folder `blog/`.');
+    expect(text).toContain('"full_slug": "blog/first"');
+    expect(text).toContain('- `seo_title` (text)');
+    await expect(client.getPrompt({ name: 'audit-seo', arguments: { folder: 'empty' } })).rejects.toThrow("No stories found in folder 'empty/'.");
+  });
+
+  it('should compare the current and release versions in summarize-release', async () => {
+    respondWith({
+      '/releases/4': () => ({ release: { id: 4, name: 'Spring launch' } }),
+      '/stories': () => ({ stories: [{ id: 9, name: 'First', full_slug: 'blog/first' }] }),
+      '/stories/9': url => ({ story: { id: 9, content: { component: 'blog_post', title: url.searchParams.has('from_release') ? 'New title' : 'Old title' } } }),
+      '/components': () => ({ components })
+    });
+
+    const text = await promptText('summarize-release', { release_id: '4' });
+
+    expect(text).toContain('release "Spring launch" (ID 4)');
+    expect(text).toContain('"title": "Old title"');
+    expect(text).toContain('"title": "New title"');
+    expect(mockFetch.mock.calls.map(([url]) => url)).toContainEqual(expect.stringContaining('in_release=4'));
+    await expect(client.getPrompt({ name: 'summarize-release', arguments: { release_id: '5' } })).rejects.toThrow('Release 5 not found.');
+  });
+});
@@ -0,0 +1,286 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, GetPromptResult, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  buildContentUrl,
+  buildManagementUrl,
+  createPaginationParams,
+  fetchListPage,
+  getContentHeaders,
+  getContentToken,
+  getManagementHeaders,
+  handleApiResponse,
+  storyblokFetch
+} from "../utils/api";
+import { StoryblokNotFoundError } from "../utils/errors";
+import { getComponentSchemaByName } from "../tools/components";
+import { fetchStoryBySlug } from "../tools/search";
+import { spaceParam } from "../tools/schemas";
+
+/**
+ * @file src/prompts/index.ts
+ * @description MCP prompt templates for common editorial workflows. Each prompt embeds the field
+ * definitions of the components involved, so the model writes content that fits the space's blocks.
+ */
+
+/** Most component schemas embedded in one prompt, counting the blocks nested components allow. */
+export const MAX_EMBEDDED_COMPONENTS = 15;
+
+/** Most stories embedded in one prompt. */
+export const MAX_PROMPT_STORIES = 25;
+
+/** Most stories of a release embedded with both their current and release versions. */
+export const MAX_RELEASE_STORIES = 10;
+
+// Field types that only arrange the editing interface and hold no content
+const LAYOUT_FIELD_TYPES = new Set(["tab", "section"]);
+
+function describeField(name: string, field: Record<string, any>): string {
+  const traits = [field.type ?? "unknown", field.required && "required", field.translatable && "translatable"].filter(Boolean);
+  const lines = [`- \`${name}\` (${traits.join(", ")})${field.description ? `: ${field.description}` : ""}`];
+  if (field.max_length) {
+    lines.push(`  - At most ${field.max_length} characters`);
+  }
+  if (field.default_value !== undefined && field.default_value !== "") {
+    lines.push(`  - Default: ${JSON.stringify(field.default_value)}`);
+  }
+  if (Array.isArray(field.options) && field.options.length > 0) {
+    lines.push(`  - Options: ${field.options.map((option: any) => JSON.stringify(option.value)).join(", ")}`);
+  }
+  if (field.source) {
+    lines.push(`  - Options from ${field.source}${field.datasource_slug ? ` '${field.datasource_slug}'` : ""}`);
+  }
+  if (field.type === "bloks") {
+    const allowed = field.restrict_components && Array.isArray(field.component_whitelist) ? field.component_whitelist : [];
+    lines.push(allowed.length > 0 ? `  - Allowed blocks: ${allowed.join(", ")}` : "  - Any block");
+    if (field.maximum) {
+      lines.push(`  - At most ${field.maximum} blocks`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Renders the field definitions of components, and of the blocks their fields allow, as Markdown.
+ *
+ * @param {string[]} componentNames - The components to describe.
+ * @param {string} [space] - The space the components belong to.
+ * @returns {Promise<string>} One section per component, in the order they were found.
+ * @throws {McpError} If one of `componentNames` does not exist.
+ */
+export async function describeComponentSchemas(componentNames: string[], space?: string): Promise<string> {
+  const sections: string[] = [];
+  const queue = [...new Set(componentNames)];
+  const seen = new Set(queue);
+  while (queue.length > 0 && sections.length < MAX_EMBEDDED_COMPONENTS) {
+    const name = queue.shift()!;
+    const schema = await getComponentSchemaByName(name, space);
+    if (!schema) {
+      if (componentNames.includes(name)) {
+        throw new McpError(ErrorCode.InvalidParams, `Component '${name}' not found.`);
+      }
+      // A stale block whitelist entry; the blocks that do exist are still described
+      continue;
+    }
+
+    const fields = Object.entries(schema as Record<string, Record<string, any>>)
+      .filter(([, field]) => !LAYOUT_FIELD_TYPES.has(field.type))
+      .sort(([, a], [, b]) => (a.pos ?? 0) - (b.pos ?? 0));
+    sections.push([`### \`${name}\``, ...fields.map(([fieldName, field]) => describeField(fieldName, field))].join("\n"));
+
+    for (const [, field] of fields) {
+      if (field.type === "bloks" && field.restrict_components && Array.isArray(field.component_whitelist)) {
+        for (const nested of field.component_whitelist) {
+          if (!seen.has(nested)) {
+            seen.add(nested);
+            queue.push(nested);
+          }
+        }
+      }
+    }
+  }
+  if (queue.length > 0) {
+    sections.push(`(${queue.length} more nested components not shown; fetch them with fetch-components.)`);
+  }
+  return sections.join("\n\n");
+}
+
+const userPrompt = (description: string, text: string): GetPromptResult => ({
+  description,
+  messages: [{ role: "user", content: { type: "text", text } }]
+});
+
+const json = (value: unknown) => "```json\n" + JSON.stringify(value, null, 2) + "\n```";
+
+// The content types used by stories, in order of first use
+const contentTypes = (stories: any[]) => [...new Set(stories.map(story => story.content?.component).filter(Boolean))] as string[];
+
+/**
+ * Registers the editorial prompt templates.
+ *
+ * @param {McpServer} server - The MCP server instance.
+ */
+export function registerAllPrompts(server: McpServer) {
+  server.prompt(
+    "draft-blog-post",
+    "Draft a new story of a content type, using the content type's field definitions",
+    {
+      content_type: z.string().describe("Name of the content type component, e.g. 'blog_post'"),
+      topic: z.string().describe("What the post is about"),
+      audience: z.string().optional().describe("Who the post is written for"),
+      space: spaceParam
+    },
+    async ({ content_type, topic, audience, space }) => {
+      const fields = await describeComponentSchemas([content_type], space);
+      return userPrompt(`Draft a ${content_type} story about ${topic}`, [
+        `Draft a new Storyblok story of the content type \`${content_type}\` about: ${topic}.`,
+        ...(audience ? [`Write for this audience: ${audience}.`] : []),
+        "",
+        "The story's `content` must use exactly these fields. Nested blocks are objects with a `component` key naming one of the allowed blocks:",
+        "",
+        fields,
+        "",
+        `Fill every required field. Return the content as JSON with \`"component": "${content_type}"\`, then create the story as a draft with the create-story tool.`
+      ].join("\n"));
+    }
+  );
+
+  server.prompt(
+    "translate-story",
+    "Translate a story's translatable fields into a locale",
+    {
+      full_slug: z.string().describe("Full slug of the story, e.g. 'blog/first-post'"),
+      locale: z.string().describe("Target locale code configured in the space, e.g. 'de'"),
+      space: spaceParam
+    },
+    async ({ full_slug, locale, space }) => {
+      let data: any;
+      try {
+        data = await fetchStoryBySlug(full_slug, {}, space);
+      } catch (error) {
+        if (error instanceof StoryblokNotFoundError) {
+          throw new McpError(ErrorCode.InvalidParams, `Story '${full_slug}' not found.`);
+        }
+        throw error;
+      }
+      const story = data.story;
+      const fields = await describeComponentSchemas(contentTypes([story]), space);
+      return userPrompt(`Translate ${full_slug} into ${locale}`, [
+        `Translate the Storyblok story \`${full_slug}\` (ID ${story.id}) into the locale \`${locale}\`.`,
+        "",
+        "Its components have these fields. Only fields marked translatable are translated:",
+        "",
+        fields,
+        "",
+        "Current content:",
+        "",
+        json(story.content),
+        "",
+        `With field-level translation, the translation of a field \`name\` is stored next to it as \`name__i18n__${locale}\`, in nested blocks too. ` +
+        "Keep every other value, including `_uid`s, unchanged. Save the result with the update-story tool."
+      ].join("\n"));
+    }
+  );
+
+  server.prompt(
+    "audit-seo",
+    "Review the SEO of the stories in a folder",
+    {
+      folder: z.string().describe("Full slug of the folder, e.g. 'blog/'"),
+      space: spaceParam
+    },
+    async ({ folder, space }) => {
+      const prefix = folder.endsWith("/") ? folder : `${folder}/`;
+      const params = createPaginationParams(1, MAX_PROMPT_STORIES);
+      params.set("token", getContentToken(space));
+      params.set("version", "draft");
+      params.set("starts_with", prefix);
+      const { items: stories, total } = await fetchListPage(
+        `${buildContentUrl("/stories", space)}?${params}`,
+        { headers: getContentHeaders() },
+        "stories",
+        { cache: true }
+      );
+      if (stories.length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, `No stories found in folder '${prefix}'.`);
+      }
+      const fields = await describeComponentSchemas(contentTypes(stories), space);
+      const shown = total !== null && total > stories.length ? ` (the first ${stories.length} of ${total})` : "";
+      return userPrompt(`SEO audit of ${prefix}`, [
+        `Audit the SEO of the Storyblok stories in the folder \`${prefix}\`${shown}.`,
+        "",
+        "Their content types have these fields:",
+        "",
+        fields,
+        "",
+        "Stories:",
+        "",
+        json(stories.map((story: any) => ({ id: story.id, name: story.name, full_slug: story.full_slug, content: story.content }))),
+        "",
+        "For each story, check the title, meta description and other SEO fields against common guidelines: presence, length, " +
+        "uniqueness across the folder, keyword use, heading structure and image alt texts. " +
+        "Report the problems per story with concrete replacement values that fit the fields above, most important first."
+      ].join("\n"));
+    }
+  );
+
+  server.prompt(
+    "summarize-release",
+    "Summarize what publishing a release would change",
+    {
+      release_id: z.string().describe("Release ID"),
+      space: spaceParam
+    },
+    async ({ release_id, space }) => {
+      const headers = { headers: getManagementHeaders(space) };
+      const getJson = async (url: string) => handleApiResponse(await storyblokFetch(url, headers), url);
+
+      let release: any;
+      try {
+        release = (await getJson(buildManagementUrl(`/releases/${release_id}`, space))).release;
+      } catch (error) {
+        if (error instanceof StoryblokNotFoundError) {
+          throw new McpError(ErrorCode.InvalidParams, `Release ${release_id} not found.`);
+        }
+        throw error;
+      }
+
+      const params = createPaginationParams(1, MAX_PROMPT_STORIES);
+      params.set("in_release", release_id);
+      const { items: listed, total } = await fetchListPage(`${buildManagementUrl("/stories", space)}?${params}`, headers, "stories");
+
+      // The current version and the release version of each story, for comparison
+      const stories = [];
+      for (const item of listed.slice(0, MAX_RELEASE_STORIES)) {
+        const current = (await getJson(buildManagementUrl(`/stories/${item.id}`, space))).story;
+        const inRelease = (await getJson(`${buildManagementUrl(`/stories/${item.id}`, space)}?from_release=${release_id}`)).story;
+        stories.push({ id: item.id, name: item.name, full_slug: item.full_slug, current: current.content, in_release: inRelease.content });
+      }
+      const count = total ?? listed.length;
+      const omitted = count - stories.length;
+      const fields = stories.length > 0
+        ? await describeComponentSchemas(contentTypes(stories.map(story => ({ content: story.in_release }))), space)
+        : "(The release contains no stories.)";
+
+      return userPrompt(`Summary of release ${release.name ?? release_id}`, [
+        `Summarize the changes in the Storyblok release "${release.name ?? release_id}" (ID ${release_id}) for an editor who has to approve it.`,
+        "",
+        "Release:",
+        "",
+        json(release),
+        "",
+        "The content types involved have these fields:",
+        "",
+        fields,
+        "",
+        `Stories in the release, with their current and release versions${omitted > 0 ? ` (the first ${stories.length} of ${count})` : ""}:`,
+        "",
+        json(stories),
+        ...(listed.length > stories.length ? ["", "Further stories in the release:", "", json(listed.slice(MAX_RELEASE_STORIES).map((story: any) => story.full_slug))] : []),
+        "",
+        "Per story, describe what the release changes in plain language, naming the changed fields. " +
+        "Then point out risks: removed content, required fields left empty and broken or unpublished links."
+      ].join("\n"));
+    }
+  );
+}
@@ -0,0 +1,197 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, ListResourcesRequestSchema, McpError, Resource } from "@modelcontextprotocol/sdk/types.js";
+import {
+  buildManagementUrl,
+  createPaginationParams,
+  fetchListPage,
+  getManagementHeaders
+} from "../utils/api";
+import { StoryblokNotFoundError } from "../utils/errors";
+import { fetchAsset } from "../tools/assets";
+import { fetchAllComponents, getComponentByName } from "../tools/components";
+import { fetchStoryBySlug } from "../tools/search";
+import { fetchDatasourceBySlug } from "../tools/space";
+import { enableResourceSubscriptions } from "./subscriptions";
+
+/**
+ * @file src/resources/index.ts
+ * @description Exposes the stories, components, assets and datasources of the default space
+ * as MCP resources, so clients can attach content and schemas as context without a tool call.
+ * `resources/list` pages through one resource type at a time.
+ */
+
+/** URI of a story resource; every story URI starts with `storyblok://stories/`. */
+export const storyResourceUri = (fullSlug = "") => `storyblok://stories/${fullSlug}`;
+
+/** URI of an asset resource. */
+export const assetResourceUri = (id: number | string) => `storyblok://assets/${id}`;
+
+/** Resources per `resources/list` page. */
+export const RESOURCE_PAGE_SIZE = 100;
+
+const MIME_TYPE = "application/json";
+
+interface ResourcePage {
+  resources: Resource[];
+  hasMore: boolean;
+}
+
+interface StoryblokResourceType {
+  name: string;
+  /** RFC 6570 URI template with a single variable. */
+  uriTemplate: string;
+  variable: string;
+  description: string;
+  /** Lists one page of resources, starting at page 1. */
+  listPage(page: number): Promise<ResourcePage>;
+  /** Reads one resource; null if it does not exist. */
+  read(value: string): Promise<unknown>;
+}
+
+const hasMorePages = (page: number, received: number, total: number | null) =>
+  total !== null ? page * RESOURCE_PAGE_SIZE < total : received === RESOURCE_PAGE_SIZE;
+
+// Lists one page of a Management API list endpoint as resources
+async function listManagementPage(
+  path: string,
+  itemsKey: string,
+  page: number,
+  toResource: (item: any) => Resource,
+  extraParams: Record<string, string> = {}
+): Promise<ResourcePage> {
+  const params = createPaginationParams(page, RESOURCE_PAGE_SIZE);
+  for (const [key, value] of Object.entries(extraParams)) {
+    params.set(key, value);
+  }
+  const { items, total } = await fetchListPage(`${buildManagementUrl(path)}?${params}`, { headers: getManagementHeaders() }, itemsKey);
+  return { resources: items.map(toResource), hasMore: hasMorePages(page, items.length, total) };
+}
+
+const RESOURCE_TYPES: StoryblokResourceType[] = [
+  {
+    name: "stories",
+    // `+` lets the slug contain slashes, e.g. storyblok://stories/blog/first-post
+    uriTemplate: "storyblok://stories/{+full_slug}",
+    variable: "full_slug",
+    description: "A story's draft content, by full slug, from the Content Delivery API",
+    listPage: page => listManagementPage("/stories", "stories", page, story => ({
+      uri: storyResourceUri(story.full_slug),
+      name: story.name,
+      description: `Story /${story.full_slug}`,
+      mimeType: MIME_TYPE
+    }), { story_only: "true" }),
+    read: fullSlug => fetchStoryBySlug(fullSlug)
+  },
+  {
+    name: "components",
+    uriTemplate: "storyblok://components/{name}",
+    variable: "name",
+    description: "A component (block) definition, including its field schema",
+    listPage: async page => {
+      const components = await fetchAllComponents();
+      const start = (page - 1) * RESOURCE_PAGE_SIZE;
+      return {
+        resources: components.slice(start, start + RESOURCE_PAGE_SIZE).map((component: any) => ({
+          uri: `storyblok://components/${encodeURIComponent(component.name)}`,
+          name: component.display_name || component.name,
+          description: `Component schema of '${component.name}'`,
+          mimeType: MIME_TYPE
+        })),
+        hasMore: start + RESOURCE_PAGE_SIZE < components.length
+      };
+    },
+    read: name => getComponentByName(name)
+  },
+  {
+    name: "assets",
+    uriTemplate: "storyblok://assets/{id}",
+    variable: "id",
+    description: "An asset's metadata: file URL, alt text, copyright and folder",
+    listPage: page => listManagementPage("/assets", "assets", page, asset => ({
+      uri: assetResourceUri(asset.id),
+      name: String(asset.filename ?? asset.id).split("/").pop()!,
+      description: asset.alt || `Asset ${asset.id}`,
+      mimeType: MIME_TYPE
+    })),
+    read: id => fetchAsset(id)
+  },
+  {
+    name: "datasources",
+    uriTemplate: "storyblok://datasources/{slug}",
+    variable: "slug",
+    description: "A datasource with all of its entries",
+    listPage: page => listManagementPage("/datasources", "datasources", page, datasource => ({
+      uri: `storyblok://datasources/${encodeURIComponent(datasource.slug)}`,
+      name: datasource.name || datasource.slug,
+      description: `Datasource '${datasource.slug}'`,
+      mimeType: MIME_TYPE
+    })),
+    read: slug => fetchDatasourceBySlug(slug)
+  }
+];
+
+interface ListCursor {
+  /** Index into RESOURCE_TYPES. */
+  type: number;
+  page: number;
+}
+
+const encodeCursor = (cursor: ListCursor) => Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+function decodeCursor(cursor: string | undefined): ListCursor {
+  if (cursor === undefined) {
+    return { type: 0, page: 1 };
+  }
+  try {
+    const { type, page } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Number.isInteger(type) && type >= 0 && type < RESOURCE_TYPES.length && Number.isInteger(page) && page >= 1) {
+      return { type, page };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Invalid resources/list cursor '${cursor}'.`);
+}
+
+/**
+ * Registers the Storyblok resource templates, a paged `resources/list` handler and resource subscriptions.
+ *
+ * @param {McpServer} server - The MCP server instance.
+ */
+export function registerAllResources(server: McpServer) {
+  for (const type of RESOURCE_TYPES) {
+    server.resource(
+      type.name,
+      // Listing is paged by the handler below, which replaces the SDK's unpaged one
+      new ResourceTemplate(type.uriTemplate, { list: undefined }),
+      { description: type.description, mimeType: MIME_TYPE },
+      async (uri, variables) => {
+        const raw = variables[type.variable];
+        const value = decodeURIComponent(Array.isArray(raw) ? raw.join(",") : raw);
+        let data: unknown;
+        try {
+          data = await type.read(value);
+        } catch (error) {
+          if (!(error instanceof StoryblokNotFoundError)) {
+            throw error;
+          }
+        }
+        if (data === null || data === undefined) {
+          throw new McpError(ErrorCode.InvalidParams, `Resource ${uri.href} not found.`);
+        }
+        return { contents: [{ uri: uri.href, mimeType: MIME_TYPE, text: JSON.stringify(data, null, 2) }] };
+      }
+    );
+  }
+
+  server.server.setRequestHandler(ListResourcesRequestSchema, async request => {
+    const cursor = decodeCursor(request.params?.cursor);
+    const { resources, hasMore } = await RESOURCE_TYPES[cursor.type].listPage(cursor.page);
+    const next = hasMore
+      ? { type: cursor.type, page: cursor.page + 1 }
+      : cursor.type + 1 < RESOURCE_TYPES.length ? { type: cursor.type + 1, page: 1 } : undefined;
+    return { resources, ...(next && { nextCursor: encodeCursor(next) }) };
+  });
+
+  enableResourceSubscriptions(server);
+}
@@ -0,0 +1,71 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../utils/logger";
+
+/**
+ * @file src/resources/subscriptions.ts
+ * @description Resource subscriptions. Clients subscribe to resource URIs with `resources/subscribe`
+ * and receive `notifications/resources/updated` when Storyblok reports a change to them.
+ */
+
+const subscriptionLog = logger.child('resources');
+
+// The resource URIs each client session subscribed to
+const subscriptions = new Map<McpServer, Set<string>>();
+
+/**
+ * Lets a server's client subscribe to resource updates. Must be called before the server connects.
+ *
+ * @param {McpServer} server - The server of one client session.
+ */
+export function enableResourceSubscriptions(server: McpServer): void {
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    const uris = subscriptions.get(server) ?? new Set<string>();
+    uris.add(request.params.uri);
+    subscriptions.set(server, uris);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    const uris = subscriptions.get(server);
+    uris?.delete(request.params.uri);
+    if (uris?.size === 0) {
+      subscriptions.delete(server);
+    }
+    return {};
+  });
+}
+
+/**
+ * Notifies every client session subscribed to a matching resource that it was updated.
+ *
+ * @param {(uri: string) => boolean} matches - Selects the updated URIs among the subscribed ones.
+ * @returns {Promise<number>} The number of notifications sent.
+ */
+export async function notifyResourcesUpdated(matches: (uri: string) => boolean): Promise<number> {
+  const notifications: Promise<void>[] = [];
+  for (const [server, uris] of subscriptions) {
+    if (!server.isConnected()) {
+      subscriptions.delete(server);
+      continue;
+    }
+    for (const uri of uris) {
+      if (matches(uri)) {
+        notifications.push(server.server.sendResourceUpdated({ uri }).catch(error => {
+          subscriptionLog.warning('Failed to send resource update', { uri, error });
+        }));
+      }
+    }
+  }
+  await Promise.all(notifications);
+  return notifications.length;
+}
+
+/**
+ * Forgets every client session's subscriptions. Intended for tests.
+ */
+export function resetResourceSubscriptions(): void {
+  subscriptions.clear();
+}
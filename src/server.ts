@@ -0,0 +1,39 @@
+/**
+ * @file src/server.ts
+ * @description Factory for fully configured MCP Storyblok server instances.
+ * The stdio transport uses a single instance; the HTTP transports create one per client session.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerAllTools } from './tools/index';
+import { registerAllResources } from './resources/index';
+import { registerAllPrompts } from './prompts/index';
+import { enableMcpLogging } from './utils/logger';
+
+/**
+ * Creates a new MCP server with every Storyblok tool, resource and prompt registered.
+ *
+ * @returns {McpServer} A server instance ready to be connected to a transport.
+ */
+export function createServer(): McpServer {
+  const server = new McpServer({
+    name: "storyblok-server",
+    version: "1.0.0",
+  }, {
+    capabilities: { logging: {} }
+  });
+
+  // Clients that set a log level receive log entries as notifications
+  enableMcpLogging(server);
+
+  // Register all tools from modular files
+  registerAllTools(server);
+
+  // Stories, components, assets and datasources as resources
+  registerAllResources(server);
+
+  // Editorial workflow prompts
+  registerAllPrompts(server);
+
+  return server;
+}
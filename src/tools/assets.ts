@@ -1,12 +1,17 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { 
+  storyblokFetch,
   handleApiResponse, 
   getManagementHeaders, 
   buildManagementUrl,
   createPaginationParams,
-  addOptionalParams
+  addOptionalParams,
+  collectPages,
+  fetchListPage
 } from '../utils/api';
+import { toolErrorResult } from '../utils/errors';
+import { spaceParam, allPagesParams } from './schemas';
 
 export function registerAssetTools(server: McpServer) {
   // Fetch assets
@@ -17,20 +22,43 @@ export function registerAssetTools(server: McpServer) {
       page: z.number().optional().describe("Page number for pagination (default: 1)"),
       per_page: z.number().optional().describe("Number of assets per page (default: 25, max: 100)"),
       search: z.string().optional().describe("Search term to filter assets by filename"),
-      folder_id: z.number().optional().describe("Filter by folder ID")
+      folder_id: z.number().optional().describe("Filter by folder ID"),
+      ...allPagesParams,
+      space: spaceParam
     },
-    async ({ page = 1, per_page = 25, search, folder_id }) => {
+    async ({ page = 1, per_page, search, folder_id, all_pages, max_items, space }) => {
       try {
+        if (all_pages) {
+          const collected = await collectPages((pageParams) => {
+            addOptionalParams(pageParams, { search, folder_id });
+            return fetchListPage(`${buildManagementUrl('/assets', space)}?${pageParams}`, { headers: getManagementHeaders(space) }, 'assets');
+          }, { page, per_page, max_items });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  assets: collected.items,
+                  total: collected.total,
+                  pages_fetched: collected.pages_fetched,
+                  truncated: collected.truncated
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
         const params = createPaginationParams(page, per_page);
         addOptionalParams(params, {
           search,
           folder_id
         });
 
-        const endpoint = `${buildManagementUrl('/assets')}?${params}`;
-        const response = await fetch(
+        const endpoint = `${buildManagementUrl('/assets', space)}?${params}`;
+        const response = await storyblokFetch(
           endpoint,
-          { headers: getManagementHeaders() }
+          { headers: getManagementHeaders(space) }
         );
 
         const data = await handleApiResponse(response, endpoint);
@@ -43,15 +71,7 @@ export function registerAssetTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -61,17 +81,12 @@ export function registerAssetTools(server: McpServer) {
     "get-asset",
     "Gets a specific asset by ID",
     {
-      id: z.string().describe("Asset ID")
+      id: z.string().describe("Asset ID"),
+      space: spaceParam
     },
-    async ({ id }) => {
+    async ({ id, space }) => {
       try {
-        const endpoint = buildManagementUrl(`/assets/${id}`);
-        const response = await fetch(
-          endpoint,
-          { headers: getManagementHeaders() }
-        );
-
-        const data = await handleApiResponse(response, endpoint);
+        const data = await fetchAsset(id, space);
         return {
           content: [
             {
@@ -81,15 +96,7 @@ export function registerAssetTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -99,16 +106,17 @@ export function registerAssetTools(server: McpServer) {
     "delete-asset",
     "Deletes an asset from Storyblok",
     {
-      id: z.string().describe("Asset ID")
+      id: z.string().describe("Asset ID"),
+      space: spaceParam
     },
-    async ({ id }) => {
+    async ({ id, space }) => {
       try {
-        const endpoint = buildManagementUrl(`/assets/${id}`);
-        const response = await fetch(
+        const endpoint = buildManagementUrl(`/assets/${id}`, space);
+        const response = await storyblokFetch(
           endpoint,
           {
             method: 'DELETE',
-            headers: getManagementHeaders()
+            headers: getManagementHeaders(space)
           }
         );
 
@@ -122,15 +130,7 @@ export function registerAssetTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -142,16 +142,17 @@ export function registerAssetTools(server: McpServer) {
     {
       filename: z.string().describe("Asset filename"),
       size: z.number().describe("File size in bytes"),
-      content_type: z.string().describe("MIME type of the file")
+      content_type: z.string().describe("MIME type of the file"),
+      space: spaceParam
     },
-    async ({ filename, size, content_type }) => {
+    async ({ filename, size, content_type, space }) => {
       try {
-        const endpoint = buildManagementUrl('/assets');
-        const response = await fetch(
+        const endpoint = buildManagementUrl('/assets', space);
+        const response = await storyblokFetch(
           endpoint,
           {
             method: 'POST',
-            headers: getManagementHeaders(),
+            headers: getManagementHeaders(space),
             body: JSON.stringify({
               filename,
               size,
@@ -170,15 +171,7 @@ export function registerAssetTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -188,16 +181,17 @@ export function registerAssetTools(server: McpServer) {
     "complete-asset-upload",
     "Completes the asset upload process after S3 upload",
     {
-      asset_id: z.string().describe("Asset ID from init-asset-upload response")
+      asset_id: z.string().describe("Asset ID from init-asset-upload response"),
+      space: spaceParam
     },
-    async ({ asset_id }) => {
+    async ({ asset_id, space }) => {
       try {
-        const endpoint = buildManagementUrl(`/assets/${asset_id}/finish_upload`);
-        const response = await fetch(
+        const endpoint = buildManagementUrl(`/assets/${asset_id}/finish_upload`, space);
+        const response = await storyblokFetch(
           endpoint,
           {
             method: 'POST',
-            headers: getManagementHeaders()
+            headers: getManagementHeaders(space)
           }
         );
 
@@ -211,15 +205,7 @@ export function registerAssetTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -228,13 +214,15 @@ export function registerAssetTools(server: McpServer) {
   server.tool(
     "fetch-asset-folders",
     "Fetches asset folders from Storyblok space",
-    {},
-    async () => {
+    {
+      space: spaceParam
+    },
+    async ({ space }) => {
       try {
-        const endpoint = buildManagementUrl('/asset_folders');
-        const response = await fetch(
+        const endpoint = buildManagementUrl('/asset_folders', space);
+        const response = await storyblokFetch(
           endpoint,
-          { headers: getManagementHeaders() }
+          { headers: getManagementHeaders(space) }
         );
 
         const data = await handleApiResponse(response, endpoint);
@@ -247,15 +235,7 @@ export function registerAssetTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -266,19 +246,20 @@ export function registerAssetTools(server: McpServer) {
     "Creates a new asset folder in Storyblok",
     {
       name: z.string().describe("Folder name"),
-      parent_id: z.number().optional().describe("Parent folder ID")
+      parent_id: z.number().optional().describe("Parent folder ID"),
+      space: spaceParam
     },
-    async ({ name, parent_id }) => {
+    async ({ name, parent_id, space }) => {
       try {
         const folderData: Record<string, unknown> = { name };
         if (parent_id) folderData.parent_id = parent_id;
 
-        const endpoint = buildManagementUrl('/asset_folders');
-        const response = await fetch(
+        const endpoint = buildManagementUrl('/asset_folders', space);
+        const response = await storyblokFetch(
           endpoint,
           {
             method: 'POST',
-            headers: getManagementHeaders(),
+            headers: getManagementHeaders(space),
             body: JSON.stringify({ asset_folder: folderData })
           }
         );
@@ -293,15 +274,7 @@ export function registerAssetTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -312,16 +285,17 @@ export function registerAssetTools(server: McpServer) {
     "Updates an existing asset folder in Storyblok",
     {
       id: z.string().describe("Asset folder ID"),
-      name: z.string().describe("New folder name")
+      name: z.string().describe("New folder name"),
+      space: spaceParam
     },
-    async ({ id, name }) => {
+    async ({ id, name, space }) => {
       try {
-        const endpoint = buildManagementUrl(`/asset_folders/${id}`);
-        const response = await fetch(
+        const endpoint = buildManagementUrl(`/asset_folders/${id}`, space);
+        const response = await storyblokFetch(
           endpoint,
           {
             method: 'PUT',
-            headers: getManagementHeaders(),
+            headers: getManagementHeaders(space),
             body: JSON.stringify({ asset_folder: { name } })
           }
         );
@@ -336,15 +310,7 @@ export function registerAssetTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -354,16 +320,17 @@ export function registerAssetTools(server: McpServer) {
     "delete-asset-folder",
     "Deletes an asset folder from Storyblok",
     {
-      id: z.string().describe("Asset folder ID")
+      id: z.string().describe("Asset folder ID"),
+      space: spaceParam
     },
-    async ({ id }) => {
+    async ({ id, space }) => {
       try {
-        const endpoint = buildManagementUrl(`/asset_folders/${id}`);
-        const response = await fetch(
+        const endpoint = buildManagementUrl(`/asset_folders/${id}`, space);
+        const response = await storyblokFetch(
           endpoint,
           {
             method: 'DELETE',
-            headers: getManagementHeaders()
+            headers: getManagementHeaders(space)
           }
         );
 
@@ -377,16 +344,18 @@ export function registerAssetTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
 }
+
+// Helper function to get an asset's details by its ID
+export async function fetchAsset(id: string, space?: string) {
+  const endpoint = buildManagementUrl(`/assets/${id}`, space);
+  const response = await storyblokFetch(
+    endpoint,
+    { headers: getManagementHeaders(space) }
+  );
+  return handleApiResponse(response, endpoint);
+}
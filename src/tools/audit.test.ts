@@ -0,0 +1,87 @@
+// src/tools/audit.test.ts
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerAuditTools } from './audit';
+import { FileAuditSink, setAuditSinks } from '../utils/audit';
+import type { AuditRecord } from '../types/index';
+
+// Mock the MCP Server
+jest.mock('@modelcontextprotocol/sdk/server/mcp.js', () => {
+  return {
+    McpServer: jest.fn().mockImplementation(() => {
+      return {
+        tool: jest.fn(),
+      };
+    }),
+  };
+});
+
+describe('Audit Tools', () => {
+  const registeredTools = new Map<string, Function>();
+
+  const record = (id: string, timestamp: string, overrides: Partial<AuditRecord> = {}): AuditRecord => ({
+    id,
+    timestamp,
+    tool: 'get-story',
+    category: 'stories',
+    args: { id: '1' },
+    target_ids: ['1'],
+    duration_ms: 5,
+    requests: [],
+    outcome: 'success',
+    summary: '',
+    ...overrides
+  });
+
+  const query = async (args: Record<string, unknown>) => {
+    const result = await registeredTools.get('query-audit-log')!(args);
+    return { result, data: result.isError ? undefined : JSON.parse(result.content[0].text) };
+  };
+
+  beforeEach(() => {
+    const file = join(mkdtempSync(join(tmpdir(), 'audit-')), 'audit.jsonl');
+    writeFileSync(file, [
+      record('aud_1', '2026-01-01T10:00:00.000Z'),
+      record('aud_2', '2026-01-02T10:00:00.000Z', { tool: 'delete-story', args: { id: '2', confirmation_token: '[REDACTED]' }, target_ids: ['2'], outcome: 'error', error_code: 'NOT_FOUND', summary: 'Story not found' }),
+      record('aud_3', '2026-01-03T10:00:00.000Z', { tool: 'delete-component', category: 'components', args: { id: '3' }, target_ids: ['3'] })
+    ].map(r => JSON.stringify(r) + '\n').join(''));
+    setAuditSinks([new FileAuditSink(file)]);
+
+    const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    (server.tool as jest.Mock).mockImplementation((name: string, description: string, schema: any, handler: Function) => {
+      registeredTools.set(name, handler);
+    });
+    registerAuditTools(server);
+  });
+
+  afterAll(() => {
+    setAuditSinks(undefined);
+  });
+
+  it('should return records newest first', async () => {
+    const { data } = await query({ limit: 2 });
+    expect(data.total).toBe(3);
+    expect(data.returned).toBe(2);
+    expect(data.records.map((r: AuditRecord) => r.id)).toEqual(['aud_3', 'aud_2']);
+  });
+
+  it.each([
+    [{ tool: 'delete-*' }, ['aud_3', 'aud_2']],
+    [{ category: 'stories' }, ['aud_2', 'aud_1']],
+    [{ target_id: '2' }, ['aud_2']],
+    [{ outcome: 'error' }, ['aud_2']],
+    [{ since: '2026-01-02', until: '2026-01-03T10:00:00Z' }, ['aud_2']],
+    [{ keyword: 'NOT FOUND' }, ['aud_2']]
+  ])('should filter by %j', async (filter, ids) => {
+    const { data } = await query(filter);
+    expect(data.records.map((r: AuditRecord) => r.id)).toEqual(ids);
+  });
+
+  it('should explain that the log cannot be searched without a file sink', async () => {
+    setAuditSinks([{ write: async () => undefined }]);
+    const { result } = await query({});
+    expect(result.errorCode).toBe('AUDIT_LOG_UNAVAILABLE');
+  });
+});
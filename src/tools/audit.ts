@@ -0,0 +1,70 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { createToolError, toolErrorResult } from "../utils/errors";
+import { readAuditLog } from "../utils/audit";
+import { globToRegExp } from "./policy";
+
+/**
+ * @file src/tools/audit.ts
+ * @description Tool to search the audit log of tool invocations.
+ */
+
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), { message: "Expected an ISO 8601 date or date-time" });
+
+export function registerAuditTools(server: McpServer) {
+  // Search the audit log
+  server.tool(
+    "query-audit-log",
+    "Searches the audit log of tool invocations, newest first. Each record has the tool, redacted arguments, target IDs, duration, HTTP status and a result summary.",
+    {
+      tool: z.string().optional().describe("Tool name glob, e.g. 'delete-*'"),
+      category: z.string().optional().describe("Only records of tools in this category, e.g. 'stories'"),
+      target_id: z.string().optional().describe("Only calls that targeted this ID or slug"),
+      outcome: z.enum(["success", "error"]).optional().describe("Only successful or only failed calls"),
+      since: isoDate.optional().describe("Only calls made at or after this time (ISO 8601)"),
+      until: isoDate.optional().describe("Only calls made before this time (ISO 8601)"),
+      keyword: z.string().optional().describe("Only records whose arguments or summary contain this text (case-insensitive)"),
+      limit: z.number().int().positive().max(500).optional().describe("Maximum number of records to return (default: 50)")
+    },
+    async ({ tool, category, target_id, outcome, since, until, keyword, limit = 50 }) => {
+      try {
+        const records = await readAuditLog();
+        if (!records) {
+          return createToolError(
+            "AUDIT_LOG_UNAVAILABLE",
+            "The audit log can only be searched with the file sink. Add 'file' to STORYBLOK_AUDIT_SINKS, and make sure STORYBLOK_AUDIT is not 'false'."
+          );
+        }
+
+        const toolPattern = tool ? globToRegExp(tool) : undefined;
+        const from = since ? Date.parse(since) : -Infinity;
+        const to = until ? Date.parse(until) : Infinity;
+        const needle = keyword?.toLowerCase();
+        const matches = records.filter(record => {
+          const time = Date.parse(record.timestamp);
+          return (!toolPattern || toolPattern.test(record.tool)) &&
+            (!category || record.category === category) &&
+            (!target_id || record.target_ids.includes(target_id)) &&
+            (!outcome || record.outcome === outcome) &&
+            time >= from && time < to &&
+            (!needle || `${JSON.stringify(record.args)} ${record.summary}`.toLowerCase().includes(needle));
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                total: matches.length,
+                returned: Math.min(matches.length, limit),
+                records: matches.reverse().slice(0, limit)
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    }
+  );
+}
@@ -1,10 +1,29 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { 
+  storyblokFetch,
   handleApiResponse, 
   getManagementHeaders, 
-  buildManagementUrl
+  buildManagementUrl,
+  collectPages,
+  fetchListPage
 } from "../utils/api";
+import { createToolError, serializeError, toolErrorResult } from "../utils/errors";
+import { logger } from "../utils/logger";
+import { spaceParam } from './schemas';
+import { findBlockByUid, findComponentBlocks } from '../utils/blocks';
+import { presetFromBlock } from '../utils/scaffold';
+import { fetchDatasourceBySlug } from './space';
+import {
+  DEFAULT_TYPES_MODULE,
+  generateComponentTypes,
+  referencedDatasources,
+  TYPES_FILE_NAME,
+  ZOD_FILE_NAME,
+  type ComponentGroup,
+  type GeneratedTypes
+} from '../utils/codegen';
+import { assessSchemaChanges, diffComponentSchemas, planComponentMigration } from '../utils/schemaDiff';
 
 export function registerComponentTools(server: McpServer) {
   // Fetch components
@@ -14,13 +33,14 @@ export function registerComponentTools(server: McpServer) {
     {
       component_summary: z.boolean().optional().describe("If true, return only component names, IDs, and display_names."),
       include_schema_details: z.boolean().optional().default(true).describe("If false, exclude the detailed 'schema' field (used if component_summary is false)."),
-      filter_by_name: z.string().optional().describe("Filter components by name (case-insensitive substring match on 'name' or 'display_name').")
+      filter_by_name: z.string().optional().describe("Filter components by name (case-insensitive substring match on 'name' or 'display_name')."),
+      space: spaceParam
     },
     async (params) => {
-      const { component_summary, include_schema_details, filter_by_name } = params;
+      const { component_summary, include_schema_details, filter_by_name, space } = params;
       try {
-        const endpointUrl = buildManagementUrl('/components');
-        const response = await fetch(endpointUrl, { headers: getManagementHeaders() });
+        const endpointUrl = buildManagementUrl('/components', space);
+        const response = await storyblokFetch(endpointUrl, { headers: getManagementHeaders(space) });
         const data = await handleApiResponse(response, endpointUrl); // Expects { components: [] }
 
         let components = data.components || [];
@@ -62,15 +82,7 @@ export function registerComponentTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -80,16 +92,17 @@ export function registerComponentTools(server: McpServer) {
     "get-component",
     "Gets a specific component by ID",
     {
-      id: z.string().describe("Component ID")
+      id: z.string().describe("Component ID"),
+      space: spaceParam
     },
-    async ({ id }) => {
+    async ({ id, space }) => {
       try {
-        const response = await fetch(
-          buildManagementUrl(`/components/${id}`),
-          { headers: getManagementHeaders() }
+        const response = await storyblokFetch(
+          buildManagementUrl(`/components/${id}`, space),
+          { headers: getManagementHeaders(space) }
         );
 
-        const data = await handleApiResponse(response, buildManagementUrl(`/components/${id}`));
+        const data = await handleApiResponse(response, buildManagementUrl(`/components/${id}`, space));
         return {
           content: [
             {
@@ -99,15 +112,7 @@ export function registerComponentTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -121,9 +126,10 @@ export function registerComponentTools(server: McpServer) {
       display_name: z.string().optional().describe("Display name for the component"),
       schema: z.record(z.unknown()).describe("Component schema definition"),
       is_root: z.boolean().optional().describe("Whether this is a root component (default: false)"),
-      is_nestable: z.boolean().optional().describe("Whether this component can be nested (default: true)")
+      is_nestable: z.boolean().optional().describe("Whether this component can be nested (default: true)"),
+      space: spaceParam
     },
-    async ({ name, display_name, schema, is_root = false, is_nestable = true }) => {
+    async ({ name, display_name, schema, is_root = false, is_nestable = true, space }) => {
       try {
         const componentData = {
           component: {
@@ -135,16 +141,16 @@ export function registerComponentTools(server: McpServer) {
           }
         };
 
-        const response = await fetch(
-          buildManagementUrl('/components'),
+        const response = await storyblokFetch(
+          buildManagementUrl('/components', space),
           {
             method: 'POST',
-            headers: getManagementHeaders(),
+            headers: getManagementHeaders(space),
             body: JSON.stringify(componentData)
           }
         );
 
-        const data = await handleApiResponse(response, buildManagementUrl('/components'));
+        const data = await handleApiResponse(response, buildManagementUrl('/components', space));
         return {
           content: [
             {
@@ -154,15 +160,7 @@ export function registerComponentTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -177,9 +175,10 @@ export function registerComponentTools(server: McpServer) {
       display_name: z.string().optional().describe("Display name for the component"),
       schema: z.record(z.unknown()).optional().describe("Component schema definition"),
       is_root: z.boolean().optional().describe("Whether this is a root component"),
-      is_nestable: z.boolean().optional().describe("Whether this component can be nested")
+      is_nestable: z.boolean().optional().describe("Whether this component can be nested"),
+      space: spaceParam
     },
-    async ({ id, name, display_name, schema, is_root, is_nestable }) => {
+    async ({ id, name, display_name, schema, is_root, is_nestable, space }) => {
       try {
         const updateData: Record<string, unknown> = {};
         if (name !== undefined) updateData.name = name;
@@ -190,16 +189,16 @@ export function registerComponentTools(server: McpServer) {
 
         const componentData = { component: updateData };
 
-        const response = await fetch(
-          buildManagementUrl(`/components/${id}`),
+        const response = await storyblokFetch(
+          buildManagementUrl(`/components/${id}`, space),
           {
             method: 'PUT',
-            headers: getManagementHeaders(),
+            headers: getManagementHeaders(space),
             body: JSON.stringify(componentData)
           }
         );
 
-        const data = await handleApiResponse(response, buildManagementUrl(`/components/${id}`));
+        const data = await handleApiResponse(response, buildManagementUrl(`/components/${id}`, space));
         return {
           content: [
             {
@@ -209,15 +208,7 @@ export function registerComponentTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -227,19 +218,20 @@ export function registerComponentTools(server: McpServer) {
     "delete-component",
     "Deletes a component from Storyblok",
     {
-      id: z.string().describe("Component ID")
+      id: z.string().describe("Component ID"),
+      space: spaceParam
     },
-    async ({ id }) => {
+    async ({ id, space }) => {
       try {
-        const response = await fetch(
-          buildManagementUrl(`/components/${id}`),
+        const response = await storyblokFetch(
+          buildManagementUrl(`/components/${id}`, space),
           {
             method: 'DELETE',
-            headers: getManagementHeaders()
+            headers: getManagementHeaders(space)
           }
         );
 
-        await handleApiResponse(response, buildManagementUrl(`/components/${id}`));
+        await handleApiResponse(response, buildManagementUrl(`/components/${id}`, space));
         return {
           content: [
             {
@@ -249,15 +241,7 @@ export function registerComponentTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -267,95 +251,16 @@ export function registerComponentTools(server: McpServer) {
     "get-component-usage",
     "Finds all stories where a specific component is used, checking direct use and nested use within the story content.",
     {
-      component_name: z.string().describe("The name of the component to search for.")
+      component_name: z.string().describe("The name of the component to search for."),
+      space: spaceParam
     },
-    async ({ component_name }: { component_name: string }) => {
-      const MAX_PAGES = 10; // Limit to 10 pages (e.g., 1000 stories if per_page is 100) to prevent excessive calls
-      const PER_PAGE = 100;
-      let allStoriesMap = new Map<number, any>(); // Use story ID as key
-      let pagesFetched = 0;
-      let totalStoriesFetched = 0;
-      let limitReached = false;
-
-      // Helper to fetch a single page of stories for a given version
-      const fetchStoriesPage = async (version: "draft" | "published", page: number) => {
-        const endpointPath = '/stories';
-        const urlParams = new URLSearchParams({
-          page: page.toString(),
-          per_page: PER_PAGE.toString(),
-          with_content: "1", // Crucial for checking component usage
-          version: version,
-        });
-        const fullUrl = `${buildManagementUrl(endpointPath)}?${urlParams.toString()}`;
-        const response = await fetch(fullUrl, { headers: getManagementHeaders() });
-        return handleApiResponse(response, fullUrl); // Expects { stories: [], total: number }
-      };
-
-      // Fetch and merge stories (draft and published)
-      for (const version of ["published", "draft"] as ("published" | "draft")[]) {
-        let currentPage = 1;
-        let hasMore = true;
-        pagesFetched = 0; // Reset for each version to adhere to MAX_PAGES per version type if desired, or overall. Let's do overall.
-
-        while (hasMore && pagesFetched < MAX_PAGES) {
-          try {
-            const data = await fetchStoriesPage(version, currentPage);
-            const stories = data.stories || [];
-            stories.forEach((story: any) => {
-              // If version is draft, it overwrites. If published, it adds only if not already there from draft.
-              // For component usage, draft version is usually more up-to-date.
-              if (version === "draft" || !allStoriesMap.has(story.id)) {
-                 allStoriesMap.set(story.id, story);
-              }
-            });
-
-            totalStoriesFetched = allStoriesMap.size; // Update based on map size
-            pagesFetched++;
-
-            // Storyblok API returns 'total' which is total items, and 'per_page'
-            // Check if more stories might exist
-            const totalAvailable = Number(data.total) || 0;
-            if (totalStoriesFetched >= totalAvailable || stories.length < PER_PAGE) {
-              hasMore = false;
-            } else {
-              currentPage++;
-            }
-          } catch (error) {
-            // Log error for this page and continue if possible, or break.
-            // For simplicity, we break. A more robust version might retry or skip.
-            console.error(`Error fetching page ${currentPage} for ${version} stories: ${error}`);
-            hasMore = false;
-          }
-        }
-        if (pagesFetched >= MAX_PAGES && hasMore) {
-            limitReached = true;
-        }
-      }
-
-      const allStories = Array.from(allStoriesMap.values());
+    async ({ component_name, space }: { component_name: string, space?: string }) => {
+      const { stories: allStories, limitReached } = await scanStoriesWithContent(component_name, space);
       const used_in_stories: Array<{ id: number; name: string; slug: string; full_slug: string }> = [];
 
-      // Recursive function to find component in content structures
-      const findComponentInValue = (value: any): boolean => {
-        if (!value) return false;
-
-        if (Array.isArray(value)) {
-          return value.some(item => findComponentInValue(item));
-        }
-
-        if (typeof value === 'object' && value !== null) {
-          if (value.component === component_name) {
-            return true;
-          }
-          // Check all object properties for nested components
-          return Object.values(value).some(propValue => findComponentInValue(propValue));
-        }
-        return false;
-      };
-
       allStories.forEach(story => {
         if (story.content) {
-          if (findComponentInValue(story.content)) {
+          if (findComponentBlocks(story.content, component_name).length > 0) {
             used_in_stories.push({
               id: story.id,
               name: story.name,
@@ -368,7 +273,7 @@ export function registerComponentTools(server: McpServer) {
 
       let message = `Found ${used_in_stories.length} stories using component '${component_name}'.`;
       if (limitReached) {
-        message += ` Searched up to ${MAX_PAGES * PER_PAGE * 2} potential story entries (across draft/published versions over ${MAX_PAGES} pages each if available). The actual number of unique stories processed is ${allStories.length}. The search limit was reached, so there might be more instances not listed.`;
+        message += ` Searched up to ${USAGE_SCAN_MAX_PAGES * USAGE_SCAN_PER_PAGE * 2} potential story entries (across draft/published versions over ${USAGE_SCAN_MAX_PAGES} pages each if available). The actual number of unique stories processed is ${allStories.length}. The search limit was reached, so there might be more instances not listed.`;
       }
 
 
@@ -389,25 +294,562 @@ export function registerComponentTools(server: McpServer) {
       };
     }
   );
+
+  // Plan a component schema change
+  server.tool(
+    "plan-component-change",
+    "Compares a component's current schema with a proposed one before update-component is run: classifies each field change (added, removed, renamed, type_changed), counts the blocks and stories whose content each change touches, and returns an ordered migration plan",
+    {
+      component_name: z.string().describe("Name of the component to change"),
+      proposed_schema: z.record(z.unknown()).describe("The complete proposed schema, as it would be passed to update-component"),
+      renames: z.record(z.string()).optional().describe("Known field renames, from the current to the proposed field name. Other renames are recognized when exactly one removed and one added field share a definition"),
+      space: spaceParam
+    },
+    async ({ component_name, proposed_schema, renames, space }) => {
+      try {
+        const component = await getComponentByName(component_name, space);
+        if (!component) {
+          return createToolError("NOT_FOUND", `Component '${component_name}' not found.`);
+        }
+        let changes;
+        try {
+          changes = diffComponentSchemas(component.schema ?? {}, proposed_schema, renames);
+        } catch (error) {
+          return createToolError("INVALID_INPUT", error instanceof Error ? error.message : String(error));
+        }
+
+        const { stories, limitReached, failures } = changes.length > 0
+          ? await scanStoriesWithContent(component_name, space)
+          : { stories: [], limitReached: false, failures: [] };
+        if (failures.length > 0) {
+          // Stories that could not be read would be missing from the impact, so plan nothing rather than too little
+          throw failures[0].error;
+        }
+        const { impacts, affectedStories } = assessSchemaChanges(component_name, changes, stories);
+        const plan = planComponentMigration(component_name, impacts, affectedStories);
+
+        let message = changes.length === 0
+          ? `The proposed schema of '${component_name}' has no field changes.`
+          : `${changes.length} field change${changes.length === 1 ? ' touches' : 's touch'} the content of ${affectedStories.length} of ${stories.length} stories.`;
+        if (limitReached) {
+          message += ` The story scan stopped after ${USAGE_SCAN_MAX_PAGES} pages per version, so more stories may be affected.`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                component_name,
+                message,
+                changes: impacts,
+                migration_plan: plan,
+                stories_analyzed_count: stories.length,
+                search_limit_reached: limitReached,
+                affected_stories_count: affectedStories.length,
+                affected_stories: affectedStories.slice(0, MAX_LISTED_AFFECTED_STORIES)
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    }
+  );
+
+  // Generate TypeScript types and Zod schemas
+  server.tool(
+    "generate-types",
+    "Generates TypeScript interfaces and matching Zod schemas from all component schemas of the space: one interface and schema per component, bloks fields as unions of the components or component groups they allow, and option fields as unions of their options or datasource entries",
+    {
+      output: z.enum(["typescript", "zod", "both"]).optional().default("both").describe(`Which modules to generate: the interfaces (${TYPES_FILE_NAME}), the Zod schemas (${ZOD_FILE_NAME}) or both`),
+      types_module: z.string().optional().default(DEFAULT_TYPES_MODULE).describe("Module path the Zod schemas import the interfaces from"),
+      space: spaceParam
+    },
+    async ({ output, types_module, space }) => {
+      try {
+        const { typescript, zod, warnings, componentsCount } = await generateSpaceTypes(space, types_module);
+        const files = [
+          ...(output !== "zod" ? [{ name: TYPES_FILE_NAME, source: typescript }] : []),
+          ...(output !== "typescript" ? [{ name: ZOD_FILE_NAME, source: zod }] : [])
+        ];
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ components_count: componentsCount, files: files.map(file => file.name), warnings }, null, 2)
+            },
+            ...files.map(file => ({ type: "text" as const, text: file.source }))
+          ]
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    }
+  );
+
+  // Fetch component groups
+  server.tool(
+    "fetch-component-groups",
+    "Fetches the component groups of the space, each with the names of the components in it, and the components that belong to no group",
+    {
+      space: spaceParam
+    },
+    async ({ space }) => {
+      try {
+        const [groups, components] = await Promise.all([fetchComponentGroups(space), fetchAllComponents(space)]);
+        const groupUuids = new Set(groups.map(group => group.uuid));
+        const componentGroups = groups.map(group => ({
+          ...group,
+          components: components.filter((comp: any) => comp.component_group_uuid === group.uuid).map((comp: any) => comp.name)
+        }));
+        const ungrouped = components.filter((comp: any) => !groupUuids.has(comp.component_group_uuid)).map((comp: any) => comp.name);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ component_groups_count: groups.length, component_groups: componentGroups, ungrouped_components: ungrouped }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    }
+  );
+
+  // Create component group
+  server.tool(
+    "create-component-group",
+    "Creates a new component group in Storyblok",
+    {
+      name: z.string().describe("Group name"),
+      parent_id: z.number().optional().describe("ID of the parent group, to nest this group"),
+      space: spaceParam
+    },
+    async ({ name, parent_id, space }) => {
+      try {
+        const groupData: Record<string, unknown> = { name };
+        if (parent_id !== undefined) groupData.parent_id = parent_id;
+
+        const endpoint = buildManagementUrl('/component_groups', space);
+        const response = await storyblokFetch(endpoint, {
+          method: 'POST',
+          headers: getManagementHeaders(space),
+          body: JSON.stringify({ component_group: groupData })
+        });
+
+        const data = await handleApiResponse(response, endpoint);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(data, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    }
+  );
+
+  // Update component group
+  server.tool(
+    "update-component-group",
+    "Renames a component group or moves it under another group",
+    {
+      id: z.string().describe("Component group ID"),
+      name: z.string().optional().describe("New group name"),
+      parent_id: z.number().nullable().optional().describe("ID of the new parent group; null moves the group to the top level"),
+      space: spaceParam
+    },
+    async ({ id, name, parent_id, space }) => {
+      try {
+        const updateData: Record<string, unknown> = {};
+        if (name !== undefined) updateData.name = name;
+        if (parent_id !== undefined) updateData.parent_id = parent_id;
+
+        const endpoint = buildManagementUrl(`/component_groups/${id}`, space);
+        const response = await storyblokFetch(endpoint, {
+          method: 'PUT',
+          headers: getManagementHeaders(space),
+          body: JSON.stringify({ component_group: updateData })
+        });
+
+        const data = await handleApiResponse(response, endpoint);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(data, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    }
+  );
+
+  // Delete component group
+  server.tool(
+    "delete-component-group",
+    "Deletes a component group from Storyblok; its components are kept, without a group",
+    {
+      id: z.string().describe("Component group ID"),
+      space: spaceParam
+    },
+    async ({ id, space }) => {
+      try {
+        const endpoint = buildManagementUrl(`/component_groups/${id}`, space);
+        const response = await storyblokFetch(endpoint, {
+          method: 'DELETE',
+          headers: getManagementHeaders(space)
+        });
+
+        await handleApiResponse(response, endpoint);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Component group ${id} has been successfully deleted.`
+            }
+          ]
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    }
+  );
+
+  // Move components between groups
+  server.tool(
+    "move-components-to-group",
+    "Moves components into a component group, or out of their groups when no group is given; components already in the group are left unchanged",
+    {
+      component_names: z.array(z.string()).min(1).describe("Names of the components to move"),
+      group: z.string().optional().describe("Name, UUID or ID of the target group; omit to remove the components from their groups"),
+      space: spaceParam
+    },
+    async ({ component_names, group, space }) => {
+      try {
+        const [groups, components] = await Promise.all([fetchComponentGroups(space), fetchAllComponents(space)]);
+        let target: ComponentGroup | undefined;
+        if (group !== undefined) {
+          target = groups.find(g => g.uuid === group || String(g.id) === group || g.name === group);
+          if (!target) {
+            return createToolError("NOT_FOUND", `Component group '${group}' not found.`);
+          }
+        }
+        const groupUuid = target?.uuid ?? null;
+
+        const results = [];
+        let moved = 0;
+        let failed = 0;
+        for (const name of component_names) {
+          const component = components.find((comp: any) => comp.name === name);
+          if (!component) {
+            results.push({ name, status: "error", error: { code: "NOT_FOUND", message: `Component '${name}' not found.` } });
+            failed++;
+            continue;
+          }
+          if ((component.component_group_uuid ?? null) === groupUuid) {
+            results.push({ name, id: component.id, status: "unchanged" });
+            continue;
+          }
+          try {
+            const endpoint = buildManagementUrl(`/components/${component.id}`, space);
+            const response = await storyblokFetch(endpoint, {
+              method: 'PUT',
+              headers: getManagementHeaders(space),
+              body: JSON.stringify({ component: { component_group_uuid: groupUuid } })
+            });
+            await handleApiResponse(response, endpoint);
+            results.push({ name, id: component.id, status: "moved" });
+            moved++;
+          } catch (error) {
+            results.push({ name, id: component.id, status: "error", error: serializeError(error) });
+            failed++;
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                group: target ? { uuid: target.uuid, name: target.name } : null,
+                total_processed: component_names.length,
+                moved,
+                unchanged: component_names.length - moved - failed,
+                failed,
+                results
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    }
+  );
+
+  // Fetch presets
+  server.tool(
+    "fetch-presets",
+    "Fetches component presets, optionally only those of one component",
+    {
+      component_name: z.string().optional().describe("Only return the presets of this component"),
+      space: spaceParam
+    },
+    async ({ component_name, space }) => {
+      try {
+        const components = await fetchAllComponents(space);
+        let componentId: number | undefined;
+        if (component_name !== undefined) {
+          componentId = components.find((comp: any) => comp.name === component_name)?.id;
+          if (componentId === undefined) {
+            return createToolError("NOT_FOUND", `Component '${component_name}' not found.`);
+          }
+        }
+        const componentNames = new Map(components.map((comp: any) => [comp.id, comp.name]));
+        const presets = (await fetchPresets(space, componentId))
+          .map(preset => ({ ...preset, component: componentNames.get(preset.component_id) ?? null }));
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ presets_count: presets.length, presets }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    }
+  );
+
+  // Create preset from a story block
+  server.tool(
+    "create-preset-from-block",
+    "Creates a component preset from a block of an existing story: the block's field values, including its nested blocks, become the preset of the block's component",
+    {
+      story_id: z.string().describe("ID of the story containing the block"),
+      block_uid: z.string().describe("The _uid of the block"),
+      name: z.string().describe("Preset name"),
+      image: z.string().optional().describe("URL of a preview image for the preset"),
+      space: spaceParam
+    },
+    async ({ story_id, block_uid, name, image, space }) => {
+      try {
+        const storyEndpoint = buildManagementUrl(`/stories/${story_id}`, space);
+        const storyResponse = await storyblokFetch(storyEndpoint, { headers: getManagementHeaders(space) });
+        const { story } = await handleApiResponse(storyResponse, storyEndpoint);
+        const match = findBlockByUid(story?.content, block_uid);
+        if (!match) {
+          return createToolError("NOT_FOUND", `Story ${story_id} has no block with _uid '${block_uid}'.`);
+        }
+        const component = await getComponentByName(match.block.component, space);
+        if (!component) {
+          return createToolError("NOT_FOUND", `Component '${match.block.component}' not found.`);
+        }
+
+        const presetData: Record<string, unknown> = { name, component_id: component.id, preset: presetFromBlock(match.block) };
+        if (image !== undefined) presetData.image = image;
+
+        const endpoint = buildManagementUrl('/presets', space);
+        const response = await storyblokFetch(endpoint, {
+          method: 'POST',
+          headers: getManagementHeaders(space),
+          body: JSON.stringify({ preset: presetData })
+        });
+
+        const data = await handleApiResponse(response, endpoint);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(data, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    }
+  );
+
+  // Update preset
+  server.tool(
+    "update-preset",
+    "Updates a component preset's name, field values or preview image",
+    {
+      id: z.string().describe("Preset ID"),
+      name: z.string().optional().describe("Preset name"),
+      preset: z.record(z.unknown()).optional().describe("The preset's field values, replacing the current ones"),
+      image: z.string().optional().describe("URL of a preview image for the preset"),
+      space: spaceParam
+    },
+    async ({ id, name, preset, image, space }) => {
+      try {
+        const updateData: Record<string, unknown> = {};
+        if (name !== undefined) updateData.name = name;
+        if (preset !== undefined) updateData.preset = preset;
+        if (image !== undefined) updateData.image = image;
+
+        const endpoint = buildManagementUrl(`/presets/${id}`, space);
+        const response = await storyblokFetch(endpoint, {
+          method: 'PUT',
+          headers: getManagementHeaders(space),
+          body: JSON.stringify({ preset: updateData })
+        });
+
+        const data = await handleApiResponse(response, endpoint);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(data, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    }
+  );
+
+  // Delete preset
+  server.tool(
+    "delete-preset",
+    "Deletes a component preset from Storyblok",
+    {
+      id: z.string().describe("Preset ID"),
+      space: spaceParam
+    },
+    async ({ id, space }) => {
+      try {
+        const endpoint = buildManagementUrl(`/presets/${id}`, space);
+        const response = await storyblokFetch(endpoint, {
+          method: 'DELETE',
+          headers: getManagementHeaders(space)
+        });
+
+        await handleApiResponse(response, endpoint);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Preset ${id} has been successfully deleted.`
+            }
+          ]
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    }
+  );
 }
 
-// Helper function to get a component's schema by its name
-export async function getComponentSchemaByName(componentName: string, spaceId?: string): Promise<Record<string, unknown> | null> {
-  // If spaceId is provided, it implies a more complex setup, possibly different credentials.
-  // For now, this example assumes it uses the primary configured space.
-  // A real implementation might need to handle different Storyblok clients if spaceId implies different tokens.
-  if (spaceId) {
+// Limits of the story scans that look for a component's blocks: 10 pages of 100 stories per version
+const USAGE_SCAN_MAX_PAGES = 10;
+const USAGE_SCAN_PER_PAGE = 100;
+
+// Most affected stories plan-component-change lists; the count covers all of them
+const MAX_LISTED_AFFECTED_STORIES = 50;
+
+// Helper function to list stories with their content, draft and published, for finding a component's blocks.
+// A version that cannot be fetched is listed in `failures`, and the stories of the other version are still returned.
+async function scanStoriesWithContent(
+  componentName: string,
+  space?: string
+): Promise<{ stories: any[]; limitReached: boolean; failures: Array<{ version: string; error: unknown }> }> {
+  const allStoriesMap = new Map<number, any>(); // Use story ID as key
+  let limitReached = false;
+  const failures: Array<{ version: string; error: unknown }> = [];
+
+  // Fetch and merge stories (draft and published)
+  for (const version of ["published", "draft"] as ("published" | "draft")[]) {
+    try {
+      const collected = await collectPages((urlParams) => {
+        urlParams.set('with_content', '1'); // Crucial for checking component usage
+        urlParams.set('version', version);
+        const fullUrl = `${buildManagementUrl('/stories', space)}?${urlParams.toString()}`;
+        return fetchListPage(fullUrl, { headers: getManagementHeaders(space) }, 'stories');
+      }, { per_page: USAGE_SCAN_PER_PAGE, max_pages: USAGE_SCAN_MAX_PAGES });
+
+      collected.items.forEach((story: any) => {
+        // If version is draft, it overwrites. If published, it adds only if not already there from draft.
+        // For component usage, draft version is usually more up-to-date.
+        if (version === "draft" || !allStoriesMap.has(story.id)) {
+          allStoriesMap.set(story.id, story);
+        }
+      });
+      limitReached = limitReached || collected.truncated;
+    } catch (error) {
+      // Log the error and continue with the other version.
+      logger.warning(`Could not fetch ${version} stories for component usage`, { component_name: componentName, error });
+      failures.push({ version, error });
+    }
   }
+  return { stories: Array.from(allStoriesMap.values()), limitReached, failures };
+}
 
-  const endpoint = buildManagementUrl('/components');
-  const response = await fetch(endpoint, { headers: getManagementHeaders() });
+// Helper function to get all components of the given space (defaults to the default space)
+export async function fetchAllComponents(space?: string): Promise<any[]> {
+  const endpoint = buildManagementUrl('/components', space);
+  // Cached: story validation looks up schemas on every create and update
+  const response = await storyblokFetch(endpoint, { headers: getManagementHeaders(space) }, { cache: true });
   const data = await handleApiResponse(response, endpoint); // Assuming data is { components: [] }
+  return data && Array.isArray(data.components) ? data.components : [];
+}
+
+// Helper function to get a component by its name, from the given space (defaults to the default space)
+export async function getComponentByName(componentName: string, space?: string): Promise<Record<string, any> | null> {
+  const components = await fetchAllComponents(space);
+  return components.find((comp: any) => comp.name === componentName) ?? null;
+}
+
+// Helper function to get a component's schema by its name, from the given space (defaults to the default space)
+export async function getComponentSchemaByName(componentName: string, space?: string): Promise<Record<string, unknown> | null> {
+  const foundComponent = await getComponentByName(componentName, space);
+  return foundComponent?.schema || null; // Return the schema object
+}
+
+// Helper function to get all component groups of the given space (defaults to the default space)
+export async function fetchComponentGroups(space?: string): Promise<ComponentGroup[]> {
+  const endpoint = buildManagementUrl('/component_groups', space);
+  const response = await storyblokFetch(endpoint, { headers: getManagementHeaders(space) }, { cache: true });
+  const data = await handleApiResponse(response, endpoint);
+  return data && Array.isArray(data.component_groups) ? data.component_groups : [];
+}
+
+// Helper function to get the component presets of the given space (defaults to the default space), optionally of one component
+export async function fetchPresets(space?: string, componentId?: number): Promise<any[]> {
+  const query = componentId !== undefined ? `?component_id=${componentId}` : '';
+  const endpoint = `${buildManagementUrl('/presets', space)}${query}`;
+  const response = await storyblokFetch(endpoint, { headers: getManagementHeaders(space) });
+  const data = await handleApiResponse(response, endpoint);
+  return data && Array.isArray(data.presets) ? data.presets : [];
+}
+
+// Helper function to get a preset of a component by its ID or name, from the given space (defaults to the default space)
+export async function getComponentPreset(componentId: number, preset: string, space?: string): Promise<Record<string, any> | null> {
+  const presets = await fetchPresets(space, componentId);
+  return presets.find(p => String(p.id) === preset) ?? presets.find(p => p.name === preset) ?? null;
+}
 
-  if (data && data.components && Array.isArray(data.components)) {
-    const foundComponent = data.components.find((comp: any) => comp.name === componentName);
-    if (foundComponent) {
-      return foundComponent.schema || null; // Return the schema object
+// Helper function to generate the TypeScript and Zod modules for all components of the given space (defaults to the default space)
+export async function generateSpaceTypes(space?: string, typesModule = DEFAULT_TYPES_MODULE): Promise<GeneratedTypes & { componentsCount: number }> {
+  const [components, groups] = await Promise.all([fetchAllComponents(space), fetchComponentGroups(space)]);
+  const datasources: Record<string, string[]> = {};
+  for (const slug of referencedDatasources(components)) {
+    const found = await fetchDatasourceBySlug(slug, space);
+    if (found) {
+      datasources[slug] = found.entries.map((entry: any) => String(entry.value));
     }
   }
-  return null;
+  return { ...generateComponentTypes({ components, groups, datasources }, { typesModule }), componentsCount: components.length };
 }
@@ -0,0 +1,132 @@
+// src/tools/confirmation.test.ts
+import {
+  confirmDestructiveCall,
+  consumeConfirmationToken,
+  issueConfirmationToken,
+  resetConfirmationTokens
+} from './confirmation';
+import { storyblokFetch, handleApiResponse, resetRateLimiters } from '../utils/api';
+
+jest.mock('../config/index', () => ({
+  ...jest.requireActual('../config/index'),
+  config: { spaceId: '12345' },
+  getSpaceConfig: () => ({ name: 'default', spaceId: '12345', managementToken: 'mgmt', publicToken: 'pub', region: 'eu' }),
+  getApiEndpoints: () => ({ MANAGEMENT: 'https://mapi.storyblok.com/v1', CONTENT: 'https://api.storyblok.com/v2' })
+}));
+
+global.fetch = jest.fn();
+
+describe('Confirmation tokens', () => {
+  const mockFetch = global.fetch as jest.Mock;
+  const originalEnv = process.env;
+  const storyUrl = 'https://mapi.storyblok.com/v1/spaces/12345/stories/42';
+
+  // A delete-story handler: sends the DELETE request and reports success
+  const deleteStory = async () => {
+    const response = await storyblokFetch(storyUrl, { method: 'DELETE', headers: { Authorization: 'mgmt' } });
+    await handleApiResponse(response, storyUrl);
+    return { content: [{ type: 'text', text: 'Story 42 has been successfully deleted.' }] };
+  };
+
+  const json = (body: unknown, headers: Record<string, string> = {}) => new Response(JSON.stringify(body), { headers });
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, STORYBLOK_MAPI_RATE_LIMIT: '1000' };
+    mockFetch.mockReset();
+    resetRateLimiters();
+    resetConfirmationTokens();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('token lifecycle', () => {
+    it('should confirm exactly the call it was issued for, once', () => {
+      const { token } = issueConfirmationToken('delete-story', { id: '42', space: 'blog' });
+
+      expect(consumeConfirmationToken(token, 'delete-story', { space: 'blog', id: '42' })).toBeUndefined();
+      expect(consumeConfirmationToken(token, 'delete-story', { space: 'blog', id: '42' })).toMatch(/unknown or was already used/);
+    });
+
+    it('should reject tokens issued for other arguments or tools', () => {
+      const first = issueConfirmationToken('delete-story', { id: '42' });
+      const second = issueConfirmationToken('delete-story', { id: '42' });
+
+      expect(consumeConfirmationToken(first.token, 'delete-story', { id: '43' })).toMatch(/different call/);
+      expect(consumeConfirmationToken(second.token, 'delete-tag', { id: '42' })).toMatch(/different call/);
+    });
+
+    it('should expire tokens after STORYBLOK_CONFIRMATION_TTL_SECONDS', () => {
+      process.env.STORYBLOK_CONFIRMATION_TTL_SECONDS = '60';
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      const { token, expiresAt } = issueConfirmationToken('delete-story', { id: '42' });
+      expect(expiresAt.getTime()).toBe(1_060_000);
+
+      now.mockReturnValue(1_060_000);
+      expect(consumeConfirmationToken(token, 'delete-story', { id: '42' })).toBe('The confirmation token has expired.');
+      now.mockRestore();
+    });
+  });
+
+  describe('confirmDestructiveCall', () => {
+    it('should preview the deletion instead of deleting, then delete with the token', async () => {
+      mockFetch.mockImplementation(async (url: string, init: RequestInit) => {
+        if (init?.method === 'DELETE') return json({});
+        if (url.endsWith('/stories/42')) return json({ story: { id: 42, uuid: 'abc', name: 'Blog', full_slug: 'blog', is_folder: true } });
+        if (url.includes('with_parent=42')) return json({ stories: [{ id: 1 }] }, { total: '12' });
+        if (url.includes('reference_search=abc')) return json({ stories: [{ id: 7, name: 'Home', full_slug: 'home', content: {} }] }, { total: '1' });
+        return new Response('', { status: 500 });
+      });
+
+      const preview: any = await confirmDestructiveCall('delete-story', { id: '42' }, undefined, deleteStory);
+
+      expect(preview.isError).toBeUndefined();
+      expect(mockFetch.mock.calls.some(([, init]) => init?.method === 'DELETE')).toBe(false);
+      const body = JSON.parse(preview.content[0].text);
+      expect(body).toMatchObject({ confirmation_required: true, confirmation_token: expect.stringMatching(/^[0-9a-f]{16}$/) });
+      expect(body.items).toEqual([{
+        type: 'stories',
+        id: '42',
+        exists: true,
+        name: 'Blog',
+        slug: 'blog',
+        is_folder: true,
+        child_count: 12,
+        inbound_references: { total: 1, examples: [{ id: 7, name: 'Home', full_slug: 'home' }] }
+      }]);
+
+      const result: any = await confirmDestructiveCall('delete-story', { id: '42' }, body.confirmation_token, deleteStory);
+
+      expect(result.content[0].text).toBe('Story 42 has been successfully deleted.');
+      expect(mockFetch).toHaveBeenCalledWith(storyUrl, expect.objectContaining({ method: 'DELETE' }));
+    });
+
+    it('should refuse to issue a token when nothing to delete exists', async () => {
+      mockFetch.mockResolvedValue(new Response('{"error":"This record could not be found"}', { status: 404, statusText: 'Not Found' }));
+
+      const result: any = await confirmDestructiveCall('delete-story', { id: '42' }, undefined, deleteStory);
+
+      expect(result.isError).toBe(true);
+      expect(result.errorCode).toBe('NOT_FOUND');
+      expect(result.errorDetails.items).toEqual([expect.objectContaining({ id: '42', exists: false })]);
+    });
+
+    it('should not delete with an invalid token', async () => {
+      const result: any = await confirmDestructiveCall('delete-story', { id: '42' }, 'made-up', deleteStory);
+
+      expect(result.errorCode).toBe('INVALID_CONFIRMATION_TOKEN');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should delete right away when confirmations are disabled', async () => {
+      process.env.STORYBLOK_REQUIRE_CONFIRMATION = 'false';
+      mockFetch.mockResolvedValue(json({}));
+
+      const result: any = await confirmDestructiveCall('delete-story', { id: '42' }, undefined, deleteStory);
+
+      expect(result.content[0].text).toBe('Story 42 has been successfully deleted.');
+      expect(mockFetch).toHaveBeenCalledWith(storyUrl, expect.objectContaining({ method: 'DELETE' }));
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { randomBytes } from "node:crypto";
+import { getConfirmationConfig } from "../config/index";
+import type { DeletionPreview } from "../types/index";
+import {
+  storyblokFetch,
+  handleApiResponse,
+  getManagementHeaders,
+  buildManagementUrl,
+  fetchListPage
+} from "../utils/api";
+import { runDryRun } from "../utils/dryRun";
+import { createToolError, StoryblokNotFoundError } from "../utils/errors";
+
+/**
+ * @file src/tools/confirmation.ts
+ * @description Two-phase protocol for destructive tools: the first call previews what would be
+ * deleted and issues a short-lived confirmation token; only a repeated call carrying the token deletes.
+ */
+
+interface PendingConfirmation {
+  tool: string;
+  /** Canonical JSON of the call's arguments; the token only confirms exactly these. */
+  args: string;
+  expiresAt: number;
+}
+
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+// JSON with sorted keys, so the same arguments in a different order confirm the same call
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Issues a single-use token confirming one call of a destructive tool.
+ *
+ * @param {string} tool - The tool name.
+ * @param {Record<string, unknown>} args - The call's arguments, without the confirmation token.
+ * @returns {{ token: string; expiresAt: Date }} The token and when it expires.
+ */
+export function issueConfirmationToken(tool: string, args: Record<string, unknown>): { token: string; expiresAt: Date } {
+  const now = Date.now();
+  for (const [token, pending] of pendingConfirmations) {
+    if (pending.expiresAt <= now) {
+      pendingConfirmations.delete(token);
+    }
+  }
+  const token = randomBytes(8).toString("hex");
+  const expiresAt = now + getConfirmationConfig().ttlSeconds * 1000;
+  pendingConfirmations.set(token, { tool, args: canonicalJson(args), expiresAt });
+  return { token, expiresAt: new Date(expiresAt) };
+}
+
+/**
+ * Redeems a confirmation token. Tokens are single-use, also when they do not match.
+ *
+ * @param {string} token - The token from the preview response.
+ * @param {string} tool - The tool being called.
+ * @param {Record<string, unknown>} args - The call's arguments, without the confirmation token.
+ * @returns {string | undefined} Why the token does not confirm this call, or undefined if it does.
+ */
+export function consumeConfirmationToken(token: string, tool: string, args: Record<string, unknown>): string | undefined {
+  const pending = pendingConfirmations.get(token);
+  pendingConfirmations.delete(token);
+  if (!pending) {
+    return "The confirmation token is unknown or was already used.";
+  }
+  if (pending.expiresAt <= Date.now()) {
+    return "The confirmation token has expired.";
+  }
+  if (pending.tool !== tool || pending.args !== canonicalJson(args)) {
+    return "The confirmation token was issued for a different call. Repeat the previewed call with exactly the same arguments.";
+  }
+  return undefined;
+}
+
+/**
+ * Forgets all issued confirmation tokens. Intended for tests.
+ */
+export function resetConfirmationTokens(): void {
+  pendingConfirmations.clear();
+}
+
+// Up to this many referencing stories are listed by name in a preview
+const REFERENCE_EXAMPLES = 5;
+
+async function getJson(path: string, space: string): Promise<any> {
+  const url = buildManagementUrl(path, space);
+  const response = await storyblokFetch(url, { headers: getManagementHeaders(space) });
+  return handleApiResponse(response, url);
+}
+
+async function listStories(params: Record<string, string>, space: string, perPage: number) {
+  const query = new URLSearchParams({ ...params, per_page: String(perPage) });
+  const url = buildManagementUrl(`/stories?${query}`, space);
+  return fetchListPage<{ id: number; name: string; full_slug?: string }>(url, { headers: getManagementHeaders(space) }, "stories");
+}
+
+async function findReferences(params: Record<string, string>, space: string): Promise<DeletionPreview["inbound_references"]> {
+  const { items, total } = await listStories(params, space, REFERENCE_EXAMPLES);
+  return {
+    total: total ?? items.length,
+    examples: items.map(({ id, name, full_slug }) => ({ id, name, full_slug }))
+  };
+}
+
+// Describes one resource a DELETE request targets; the details depend on its type
+async function describeResource(type: string, id: string, space: string): Promise<DeletionPreview> {
+  const preview: DeletionPreview = { type, id, exists: true };
+  switch (type) {
+    case "stories": {
+      const { story } = await getJson(`/stories/${id}`, space);
+      Object.assign(preview, { name: story.name, slug: story.full_slug, is_folder: Boolean(story.is_folder) });
+      if (story.is_folder) {
+        preview.child_count = (await listStories({ with_parent: id }, space, 1)).total ?? undefined;
+      }
+      preview.inbound_references = await findReferences({ reference_search: story.uuid }, space);
+      break;
+    }
+    case "components": {
+      const { component } = await getJson(`/components/${id}`, space);
+      Object.assign(preview, { name: component.display_name || component.name, slug: component.name });
+      preview.inbound_references = await findReferences({ contain_component: component.name }, space);
+      break;
+    }
+    case "component_groups": {
+      const { component_group } = await getJson(`/component_groups/${id}`, space);
+      preview.name = component_group.name;
+      const { components = [] } = await getJson("/components", space);
+      preview.child_count = components.filter((component: any) => component.component_group_uuid === component_group.uuid).length;
+      break;
+    }
+    case "presets": {
+      const { preset } = await getJson(`/presets/${id}`, space);
+      preview.name = preset.name;
+      break;
+    }
+    case "assets": {
+      const asset = await getJson(`/assets/${id}`, space);
+      Object.assign(preview, { name: asset.short_filename ?? asset.filename, slug: asset.filename });
+      break;
+    }
+    case "asset_folders": {
+      const { asset_folder } = await getJson(`/asset_folders/${id}`, space);
+      preview.name = asset_folder.name;
+      const url = buildManagementUrl(`/assets?in_folder=${id}&per_page=1`, space);
+      preview.child_count = (await fetchListPage(url, { headers: getManagementHeaders(space) }, "assets")).total ?? undefined;
+      break;
+    }
+    case "releases": {
+      const { release } = await getJson(`/releases/${id}`, space);
+      preview.name = release.name;
+      break;
+    }
+    case "tags": {
+      // Tags have no single-item endpoint and may be addressed by ID or name
+      const { tags = [] } = await getJson("/tags", space);
+      const tag = tags.find((t: any) => String(t.id) === id || t.name === id);
+      if (!tag) {
+        throw new StoryblokNotFoundError(`Tag '${id}' does not exist.`, 404, undefined, {
+          endpoint: buildManagementUrl("/tags", space),
+          tokenPermissions: "unknown",
+          requiredPermissions: "read",
+          suggestedFix: "Check the tag ID or name with fetch-tags."
+        });
+      }
+      Object.assign(preview, { name: tag.name, inbound_references: { total: tag.taggings_count ?? 0, examples: [] } });
+      break;
+    }
+  }
+  return preview;
+}
+
+/**
+ * Builds the preview of one DELETE request planned by a dry run.
+ *
+ * @param {string} url - The request URL.
+ * @returns {Promise<DeletionPreview>} What the request would delete; missing resources have `exists: false`.
+ */
+export async function previewDeletion(url: string): Promise<DeletionPreview> {
+  const [, space, type, rawId] = url.match(/\/spaces\/(\d+)\/([a-z_]+)\/([^/?]+)/) ?? [];
+  const id = decodeURIComponent(rawId ?? "");
+  if (!space) {
+    return { type: "unknown", id: url, exists: true, error: "The request URL names no resource." };
+  }
+  try {
+    return await describeResource(type, id, space);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof StoryblokNotFoundError) {
+      return { type, id, exists: false, error: message };
+    }
+    return { type, id, exists: true, error: `Preview incomplete: ${message}` };
+  }
+}
+
+type ToolResult = { isError?: boolean; content?: unknown[] };
+
+/**
+ * Runs a destructive tool call under the confirmation protocol.
+ *
+ * Without a token, the handler runs as a dry run to learn which resources it would delete;
+ * the result previews them and carries a token. With a valid token, the handler runs for real.
+ *
+ * @param {string} tool - The tool name.
+ * @param {Record<string, unknown>} args - The call's arguments, without the confirmation token.
+ * @param {string | undefined} token - The confirmation token passed by the caller, if any.
+ * @param {() => Promise<ToolResult>} run - Runs the tool's handler.
+ * @returns {Promise<ToolResult>} The preview, the handler's result or a token error.
+ */
+export async function confirmDestructiveCall(
+  tool: string,
+  args: Record<string, unknown>,
+  token: string | undefined,
+  run: () => Promise<ToolResult>
+): Promise<ToolResult> {
+  if (!getConfirmationConfig().required) {
+    return run();
+  }
+
+  if (token !== undefined) {
+    const problem = consumeConfirmationToken(token, tool, args);
+    if (problem) {
+      return createToolError("INVALID_CONFIRMATION_TOKEN", `${problem} Call ${tool} without confirmation_token to get a new preview.`);
+    }
+    return run();
+  }
+
+  const { result, requests } = await runDryRun(run);
+  if (result?.isError) {
+    return result;
+  }
+
+  const items = await Promise.all(requests.filter(request => request.method === "DELETE").map(request => previewDeletion(request.url)));
+  if (items.length > 0 && items.every(item => !item.exists)) {
+    return createToolError("NOT_FOUND", "None of the resources this call would delete exist. Check the IDs.", { items });
+  }
+
+  const { token: confirmationToken, expiresAt } = issueConfirmationToken(tool, args);
+  const existing = items.filter(item => item.exists).length;
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        confirmation_required: true,
+        message: `Nothing was deleted yet. To delete ${existing} item(s), call ${tool} again with the same arguments and confirmation_token.`,
+        confirmation_token: confirmationToken,
+        expires_at: expiresAt.toISOString(),
+        items
+      }, null, 2)
+    }]
+  };
+}
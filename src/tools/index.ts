@@ -9,68 +9,53 @@ import { registerAssetTools } from './assets';
 import { registerComponentTools } from './components';
 import { registerSearchTools } from './search';
 import { registerSpaceTools } from './space';
-import { registerMetaTools, ToolInfo } from './meta'; // Import ToolInfo
+import { registerJournalTools } from './journal';
+import { registerAuditTools } from './audit';
+import { registerMetaTools } from './meta';
+import { ToolRegistry } from './registry';
+import { getToolPolicyConfig } from '../config/index';
+import type { ToolPolicyConfig } from '../types/index';
 
 /**
- * Register all available tools with the MCP server
+ * Register all available tools with the MCP server.
+ * Every registration goes through a ToolRegistry, which applies the tool policy
+ * (read-only mode, allow/deny lists), audits every call and which list_tools reads at call time.
+ *
+ * @param {McpServer} server - The MCP server instance.
+ * @param {ToolPolicyConfig} policy - Which tools to expose (default: from the environment).
+ * @returns {ToolRegistry} The registry describing the registered tools.
  */
-export function registerAllTools(server: McpServer) {
-  const registeredToolsInfo: ToolInfo[] = [];
+export function registerAllTools(server: McpServer, policy: ToolPolicyConfig = getToolPolicyConfig()): ToolRegistry {
+  const registry = new ToolRegistry(server, policy);
 
-  // Manually gather tool info.
-  // For ping tool
-  registeredToolsInfo.push({ name: 'ping', description: 'Checks if the server is alive and responding.' });
-  registerPingTool(server);
-  
-  // For list_tools itself - it's part of the meta tools.
-  // Its definition will be added to the list before calling registerMetaTools.
-  // The description for list_tools is defined in meta.ts, so we use that.
-  const listToolsInfo: ToolInfo = { name: 'list_tools', description: 'Lists all available tools with their names and descriptions.' };
-  // Add it to the list so it can describe itself.
-  registeredToolsInfo.push(listToolsInfo);
+  registerPingTool(registry.forCategory('basic'));
 
   // Content management
-  registerStoryTools(server);
-  // Assuming registerStoryTools registers 'get_story' and 'create_story'
-  // We need to manually add their info here.
-  registeredToolsInfo.push({ name: 'get_story', description: 'Retrieves a story by its ID.' }); // Placeholder description
-  registeredToolsInfo.push({ name: 'create_story', description: 'Creates a new story.' }); // Placeholder description
-  
-  registerTagTools(server);
-  // Assuming registerTagTools registers 'get_tag', 'list_tags'
-  registeredToolsInfo.push({ name: 'get_tag', description: 'Retrieves a tag by its ID.' }); // Placeholder
-  registeredToolsInfo.push({ name: 'list_tags', description: 'Lists all tags.' }); // Placeholder
+  registerStoryTools(registry.forCategory('stories'));
+  registerTagTools(registry.forCategory('tags'));
 
   // Publishing workflows
-  registerReleaseTools(server);
-  // Assuming 'create_release', 'get_release'
-  registeredToolsInfo.push({ name: 'create_release', description: 'Creates a new release.' }); // Placeholder
-  registeredToolsInfo.push({ name: 'get_release', description: 'Retrieves a release by its ID.' }); // Placeholder
-  
+  registerReleaseTools(registry.forCategory('releases'));
+
   // Media management
-  registerAssetTools(server);
-  // Assuming 'upload_asset', 'get_asset'
-  registeredToolsInfo.push({ name: 'upload_asset', description: 'Uploads a new asset.' }); // Placeholder
-  registeredToolsInfo.push({ name: 'get_asset', description: 'Retrieves an asset by its ID.' }); // Placeholder
-  
+  registerAssetTools(registry.forCategory('assets'));
+
   // Schema management
-  registerComponentTools(server);
-  // Assuming 'get_component_definition', 'list_component_definitions'
-  registeredToolsInfo.push({ name: 'get_component_definition', description: 'Retrieves a component definition.' }); // Placeholder
-  registeredToolsInfo.push({ name: 'list_component_definitions', description: 'Lists all component definitions.' }); // Placeholder
-  
+  registerComponentTools(registry.forCategory('components'));
+
   // Content discovery
-  registerSearchTools(server);
-  // Assuming 'search_content'
-  registeredToolsInfo.push({ name: 'search_content', description: 'Searches content across the platform.' }); // Placeholder
-  
+  registerSearchTools(registry.forCategory('search'));
+
   // Space management
-  registerSpaceTools(server);
-  // Assuming 'get_space', 'list_spaces'
-  registeredToolsInfo.push({ name: 'get_space', description: 'Retrieves a space by its ID.' }); // Placeholder
-  registeredToolsInfo.push({ name: 'list_spaces', description: 'Lists all spaces.' }); // Placeholder
+  registerSpaceTools(registry.forCategory('space'));
+
+  // Operation history and undo
+  registerJournalTools(registry.forCategory('journal'));
+
+  // Tool invocation history
+  registerAuditTools(registry.forCategory('audit'));
+
+  registerMetaTools(registry.forCategory('meta'), registry);
 
-  // Register Meta Tools LAST, and pass the collected info
-  // This ensures list_tools itself and all previously registered tools are in the list.
-  registerMetaTools(server, registeredToolsInfo);
+  return registry;
 }
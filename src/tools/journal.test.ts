@@ -0,0 +1,131 @@
+// src/tools/journal.test.ts
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { appendFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerJournalTools } from './journal';
+import { resetRateLimiters } from '../utils/api';
+import type { JournalEntry } from '../types/index';
+
+// Mock the MCP Server
+jest.mock('@modelcontextprotocol/sdk/server/mcp.js', () => {
+  return {
+    McpServer: jest.fn().mockImplementation(() => {
+      return {
+        tool: jest.fn(),
+      };
+    }),
+  };
+});
+
+jest.mock('../config/index', () => ({
+  ...jest.requireActual('../config/index'),
+  getSpaceConfig: () => ({ name: 'default', spaceId: '12345', managementToken: 'mgmt', publicToken: 'pub', region: 'eu' })
+}));
+
+// Lets a test make a journal write fail
+jest.mock('node:fs/promises', () => {
+  const actual = jest.requireActual('node:fs/promises');
+  return { ...actual, appendFile: jest.fn(actual.appendFile) };
+});
+
+global.fetch = jest.fn();
+
+describe('Journal Tools', () => {
+  const mockFetch = global.fetch as jest.Mock;
+  const originalEnv = process.env;
+  const storyUrl = 'https://mapi.storyblok.com/v1/spaces/12345/stories/1';
+  const registeredTools = new Map<string, Function>();
+
+  const entry: JournalEntry = {
+    id: 'op_1',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    tool: 'update-story',
+    args: { id: '1' },
+    changes: [
+      {
+        method: 'PUT',
+        url: storyUrl,
+        type: 'stories',
+        resource_id: '1',
+        before: { id: 1, name: 'Old' },
+        inverse: { method: 'PUT', url: storyUrl, body: { story: { id: 1, name: 'Old' } } }
+      },
+      { method: 'DELETE', url: 'https://mapi.storyblok.com/v1/spaces/12345/assets/3', type: 'assets', resource_id: '3', note: 'Deleted asset files cannot be restored.' }
+    ]
+  };
+
+  const call = async (toolName: string, args: Record<string, unknown>) => {
+    const result = await registeredTools.get(toolName)!(args);
+    return { result, data: result.isError ? undefined : JSON.parse(result.content[0].text) };
+  };
+
+  beforeEach(() => {
+    const journalFile = join(mkdtempSync(join(tmpdir(), 'journal-')), 'journal.jsonl');
+    writeFileSync(journalFile, JSON.stringify(entry) + '\n');
+    process.env = { ...originalEnv, STORYBLOK_MAPI_RATE_LIMIT: '1000', STORYBLOK_JOURNAL_FILE: journalFile };
+    mockFetch.mockReset();
+    resetRateLimiters();
+
+    const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    (server.tool as jest.Mock).mockImplementation((name: string, description: string, schema: any, handler: Function) => {
+      registeredTools.set(name, handler);
+    });
+    registerJournalTools(server);
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should revert the undoable changes of an operation and journal the undo', async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response(JSON.stringify({ story: { id: 1, name: 'New' } })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ story: { id: 1, name: 'Old' } })));
+
+    const { data } = await call('undo-operation', { operation_id: 'op_1' });
+
+    expect(data).toMatchObject({ operation_id: 'op_1', reverted: 1, skipped: 1, failed: 0 });
+    expect(data.results.map((r: any) => r.status)).toEqual(['skipped', 'reverted']);
+    expect(data.undo_operation_id).toMatch(/^op_/);
+    expect(mockFetch).toHaveBeenLastCalledWith(storyUrl, expect.objectContaining({
+      method: 'PUT',
+      body: JSON.stringify({ story: { id: 1, name: 'Old' } })
+    }));
+
+    const { data: history } = await call('list-operations', {});
+    expect(history.operations.map((op: any) => [op.id, op.undoes, op.undone_by])).toEqual([
+      [data.undo_operation_id, 'op_1', undefined],
+      ['op_1', undefined, data.undo_operation_id]
+    ]);
+    expect(history.operations[1].changes[1]).toEqual({
+      method: 'DELETE',
+      type: 'assets',
+      resource_id: '3',
+      undoable: false,
+      note: 'Deleted asset files cannot be restored.'
+    });
+
+    const { result: again } = await call('undo-operation', { operation_id: 'op_1' });
+    expect(again.errorCode).toBe('ALREADY_UNDONE');
+  });
+
+  it('should report an undo that was sent but could not be journaled', async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response(JSON.stringify({ story: { id: 1, name: 'New' } })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ story: { id: 1, name: 'Old' } })));
+    (appendFile as jest.Mock).mockRejectedValueOnce(new Error('ENOSPC: no space left on device'));
+
+    const { data } = await call('undo-operation', { operation_id: 'op_1' });
+
+    expect(data).toMatchObject({ reverted: 1, journal_error: { code: 'INTERNAL_ERROR', message: 'ENOSPC: no space left on device' } });
+    expect(data.undo_operation_id).toBeUndefined();
+  });
+
+  it('should report unknown operation IDs', async () => {
+    const { result } = await call('undo-operation', { operation_id: 'op_missing' });
+    expect(result.errorCode).toBe('NOT_FOUND');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,135 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  storyblokFetch,
+  handleApiResponse,
+  getManagementHeaders
+} from "../utils/api";
+import { createToolError, serializeError, toolErrorResult } from "../utils/errors";
+import { journalOperation, readJournal } from "../utils/journal";
+import type { JournalChange } from "../types/index";
+
+/**
+ * @file src/tools/journal.ts
+ * @description Tools to browse and revert the operations recorded in the local undo journal.
+ */
+
+// Journal entries store full URLs; the space ID in them selects the token for the inverse request
+const spaceIdFromUrl = (url: string) => url.match(/\/spaces\/(\d+)/)?.[1];
+
+const summarizeChange = ({ method, type, resource_id, action, inverse, note }: JournalChange) => ({
+  method,
+  type,
+  resource_id,
+  action,
+  undoable: inverse !== undefined,
+  note
+});
+
+export function registerJournalTools(server: McpServer) {
+  // List journaled operations
+  server.tool(
+    "list-operations",
+    "Lists recent journaled operations (mutating tool calls on stories, components, component groups, presets, assets and tags), newest first, with whether each change can be undone",
+    {
+      limit: z.number().int().positive().max(200).optional().describe("Maximum number of operations to list (default: 20)"),
+      tool: z.string().optional().describe("Only list operations of this tool, e.g. 'update-story'"),
+      include_details: z.boolean().optional().describe("Include the full prior state, response and inverse request of every change (default: false)")
+    },
+    async ({ limit = 20, tool, include_details = false }) => {
+      try {
+        const entries = await readJournal();
+        const undoneBy = new Map(entries.filter(e => e.undoes).map(e => [e.undoes!, e.id]));
+        const operations = entries
+          .filter(entry => !tool || entry.tool === tool)
+          .reverse()
+          .slice(0, limit)
+          .map(entry => ({
+            id: entry.id,
+            timestamp: entry.timestamp,
+            tool: entry.tool,
+            args: entry.args,
+            ...(entry.undoes && { undoes: entry.undoes }),
+            ...(undoneBy.has(entry.id) && { undone_by: undoneBy.get(entry.id) }),
+            changes: include_details ? entry.changes : entry.changes.map(summarizeChange)
+          }));
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ total: operations.length, operations }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    }
+  );
+
+  // Undo a journaled operation
+  server.tool(
+    "undo-operation",
+    "Reverts a journaled operation by sending the inverse of each of its changes, newest first. Use list-operations to find operation IDs.",
+    {
+      operation_id: z.string().describe("ID of the journaled operation to revert"),
+      force: z.boolean().optional().describe("Revert again even if the operation was already undone (default: false)")
+    },
+    async ({ operation_id, force = false }) => {
+      try {
+        const entries = await readJournal();
+        const entry = entries.find(e => e.id === operation_id);
+        if (!entry) {
+          return createToolError("NOT_FOUND", `Operation '${operation_id}' is not in the journal. Use list-operations to find operation IDs.`);
+        }
+        const previousUndo = entries.find(e => e.undoes === operation_id);
+        if (previousUndo && !force) {
+          return createToolError("ALREADY_UNDONE", `Operation '${operation_id}' was already undone by '${previousUndo.id}'. Pass force: true to revert it again.`);
+        }
+
+        const { result: results, entry: undoEntry, error: journalError } = await journalOperation("undo-operation", { operation_id }, async () => {
+          const results: Array<{ change: ReturnType<typeof summarizeChange>, status: "reverted" | "skipped" | "error", error?: Record<string, unknown> }> = [];
+          for (const change of [...entry.changes].reverse()) {
+            if (!change.inverse) {
+              results.push({ change: summarizeChange(change), status: "skipped" });
+              continue;
+            }
+            try {
+              const { method, url, body } = change.inverse;
+              const response = await storyblokFetch(url, {
+                method,
+                headers: getManagementHeaders(spaceIdFromUrl(url)),
+                ...(body !== undefined && { body: JSON.stringify(body) })
+              });
+              await handleApiResponse(response, url);
+              results.push({ change: summarizeChange(change), status: "reverted" });
+            } catch (error) {
+              results.push({ change: summarizeChange(change), status: "error", error: serializeError(error) });
+            }
+          }
+          return results;
+        }, operation_id);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                operation_id,
+                undo_operation_id: undoEntry?.id,
+                ...(journalError && { journal_error: journalError }),
+                reverted: results.filter(r => r.status === "reverted").length,
+                skipped: results.filter(r => r.status === "skipped").length,
+                failed: results.filter(r => r.status === "error").length,
+                results
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    }
+  );
+}
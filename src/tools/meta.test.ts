@@ -1,6 +1,11 @@
 // src/tools/meta.test.ts
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { registerMetaTools, ToolInfo } from './meta';
+import { z } from 'zod';
+import { registerMetaTools } from './meta';
+import { ToolRegistry } from './registry';
+import { isDryRunActive } from '../utils/dryRun';
+import { flushAuditLog, setAuditSinks } from '../utils/audit';
+import type { AuditRecord } from '../types/index';
 
 // Mock the McpServer
 jest.mock('@modelcontextprotocol/sdk/server/mcp.js', () => {
@@ -14,64 +19,194 @@ jest.mock('@modelcontextprotocol/sdk/server/mcp.js', () => {
 });
 
 describe('Meta Tools', () => {
-  describe('registerMetaTools', () => {
-    let mockServerInstance: McpServer;
-    let mockToolMethod: jest.Mock;
+  let mockServerInstance: McpServer;
+  let mockToolMethod: jest.Mock;
+  let registry: ToolRegistry;
+
+  beforeEach(() => {
+    // Create a new mock server instance for each test
+    mockServerInstance = new McpServer({ name: 'test-server', version: '1.0.0' });
+    mockToolMethod = mockServerInstance.tool as jest.Mock;
+    registry = new ToolRegistry(mockServerInstance);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const registerSampleTools = () => {
+    const stories = registry.forCategory('stories');
+    stories.tool('get-story', 'Gets a specific story by ID', { id: z.number().describe('Story ID') }, async () => ({ content: [] }));
+    stories.tool('delete-story', 'Deletes a story', { id: z.number(), space: z.string().optional() }, async () => ({ content: [] }));
+    registry.forCategory('tags').tool('fetch-tags', 'Fetches all tags', {}, async () => ({ content: [] }));
+  };
+
+  const getListToolsHandler = () => {
+    const call = mockToolMethod.mock.calls.find(c => c[0] === 'list_tools');
+    return call[3];
+  };
+
+  describe('ToolRegistry', () => {
+    it('should forward registrations to the server and record them', () => {
+      registerSampleTools();
+
+      expect(mockToolMethod).toHaveBeenCalledTimes(3);
+      expect(mockToolMethod).toHaveBeenCalledWith('get-story', 'Gets a specific story by ID', expect.any(Object), expect.any(Function));
+      expect(registry.list().map(tool => tool.name)).toEqual(['get-story', 'delete-story', 'fetch-tags']);
+    });
+
+    it('should capture the category and input JSON schema of each tool', () => {
+      registerSampleTools();
+
+      expect(registry.get('delete-story')).toEqual({
+        name: 'delete-story',
+        description: 'Deletes a story',
+        category: 'stories',
+        readOnly: false,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: { type: 'number' },
+            space: { type: 'string' },
+            dry_run: { type: 'boolean', description: expect.stringContaining('without changing anything') },
+            confirmation_token: { type: 'string', description: expect.stringContaining('perform the deletion') }
+          },
+          required: ['id'],
+          additionalProperties: false
+        }
+      });
+      expect(registry.get('get-story')?.inputSchema.properties).toEqual({ id: { type: 'number', description: 'Story ID' } });
+    });
+
+    it('should filter by category and keyword', () => {
+      registerSampleTools();
+
+      expect(registry.list({ category: 'tags' }).map(tool => tool.name)).toEqual(['fetch-tags']);
+      expect(registry.list({ keyword: 'DELETE' }).map(tool => tool.name)).toEqual(['delete-story']);
+      expect(registry.list({ category: 'tags', keyword: 'story' })).toEqual([]);
+    });
+
+    it('should audit every call of a registered tool', async () => {
+      const records: AuditRecord[] = [];
+      setAuditSinks([{ write: async record => { records.push(record); } }]);
+      registerSampleTools();
+
+      await mockToolMethod.mock.calls[0][3]({ id: 7 }, {});
+      await flushAuditLog();
+      setAuditSinks(undefined);
 
-    beforeEach(() => {
-      // Create a new mock server instance for each test
-      mockServerInstance = new McpServer({ name: 'test-server', version: '1.0.0' });
-      mockToolMethod = mockServerInstance.tool as jest.Mock;
+      expect(records).toEqual([expect.objectContaining({ tool: 'get-story', category: 'stories', args: { id: 7 }, target_ids: ['7'], outcome: 'success' })]);
     });
+  });
+
+  describe('dry_run', () => {
+    const registerUpdateTool = () => {
+      const handler = jest.fn(async (params: Record<string, unknown>) => ({
+        content: [{ type: 'text', text: JSON.stringify({ params, dryRun: isDryRunActive() }) }]
+      }));
+      registry.forCategory('stories').tool('update-story', 'Updates a story', { id: z.number() }, handler);
+      return { handler, wrapped: mockToolMethod.mock.calls[0][3] };
+    };
 
     afterEach(() => {
-      jest.clearAllMocks();
+      delete process.env.STORYBLOK_DRY_RUN;
+    });
+
+    it('should be added to mutating tools only', () => {
+      registerSampleTools();
+
+      expect(mockToolMethod.mock.calls[1][2]).toHaveProperty('dry_run');
+      expect(mockToolMethod.mock.calls[0][2]).not.toHaveProperty('dry_run');
+      expect(registry.get('get-story')?.inputSchema.properties).not.toHaveProperty('dry_run');
     });
 
-    it('should register the "list_tools" tool correctly', () => {
-      const sampleToolsInfo: ToolInfo[] = [
-        { name: 'tool1', description: 'Description for tool1' },
-        { name: 'tool2', description: 'Description for tool2' },
-      ];
+    it('should run the handler as a dry run and report the planned writes', async () => {
+      const { handler, wrapped } = registerUpdateTool();
+
+      const result = await wrapped({ id: 1, dry_run: true }, {});
+
+      expect(handler).toHaveBeenCalledWith({ id: 1 }, {});
+      expect(await handler.mock.results[0].value).toEqual({
+        content: [{ type: 'text', text: JSON.stringify({ params: { id: 1 }, dryRun: true }) }]
+      });
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        dry_run: true,
+        tool: 'update-story',
+        message: 'No changes were made. This call would send 0 write request(s).',
+        requests: []
+      });
+    });
+
+    it('should follow STORYBLOK_DRY_RUN unless the call overrides it', async () => {
+      const { wrapped } = registerUpdateTool();
+      process.env.STORYBLOK_DRY_RUN = 'true';
+
+      expect(JSON.parse((await wrapped({ id: 1 }, {})).content[0].text).dry_run).toBe(true);
+      expect(JSON.parse((await wrapped({ id: 1, dry_run: false }, {})).content[0].text)).toEqual({ params: { id: 1 }, dryRun: false });
+    });
+  });
 
-      registerMetaTools(mockServerInstance, sampleToolsInfo);
+  describe('registerMetaTools', () => {
+    it('should register the "list_tools" tool in the registry', () => {
+      registerMetaTools(registry.forCategory('meta'), registry);
 
       expect(mockToolMethod).toHaveBeenCalledTimes(1);
       expect(mockToolMethod).toHaveBeenCalledWith(
         'list_tools',
-        'Lists all available tools with their names and descriptions.',
-        {}, // Expecting an empty object for no arguments
-        expect.any(Function) // Expecting a function (the handler)
+        expect.stringContaining('Lists the available tools'),
+        expect.objectContaining({ category: expect.anything(), keyword: expect.anything() }),
+        expect.any(Function)
       );
+      expect(registry.get('list_tools')?.category).toBe('meta');
     });
 
-    it('handler for "list_tools" should return formatted tool list', async () => {
-      const sampleToolsInfo: ToolInfo[] = [
-        { name: 'tool1', description: 'Description for tool1' },
-        { name: 'tool2', description: 'Another desc' },
-      ];
+    it('handler for "list_tools" should return a text list and structured JSON', async () => {
+      registerSampleTools();
+      registerMetaTools(registry.forCategory('meta'), registry);
 
-      registerMetaTools(mockServerInstance, sampleToolsInfo);
-
-      // Get the handler function passed to server.tool
-      const handler = mockToolMethod.mock.calls[0][3];
-      const result = await handler();
+      const result = await getListToolsHandler()({});
 
       expect(result.isError).toBeUndefined();
-      expect(result.content).toEqual([
-        { type: 'text', text: "Available tools:\ntool1: Description for tool1\ntool2: Another desc" },
-      ]);
+      expect(result.content[0].type).toBe('text');
+      expect(result.content[0].text).toMatch(new RegExp(
+        '^Available tools:\n' +
+        'get-story \\[stories\\]: Gets a specific story by ID\n' +
+        'delete-story \\[stories\\]: Deletes a story\n' +
+        'fetch-tags \\[tags\\]: Fetches all tags\n' +
+        'list_tools \\[meta\\]: Lists the available tools'
+      ));
+      expect(result.structuredContent.total).toBe(4);
+      expect(result.structuredContent.tools[0]).toEqual({ name: 'get-story', description: 'Gets a specific story by ID', category: 'stories', readOnly: true });
+    });
+
+    it('handler for "list_tools" should apply filters and optionally include schemas', async () => {
+      registerSampleTools();
+      registerMetaTools(registry.forCategory('meta'), registry);
+
+      const result = await getListToolsHandler()({ category: 'stories', keyword: 'delete', include_schemas: true });
+
+      expect(result.content[0].text).toBe('Available tools:\ndelete-story [stories]: Deletes a story');
+      expect(JSON.parse(result.content[1].text)).toEqual(result.structuredContent);
+      expect(result.structuredContent).toEqual({
+        total: 1,
+        tools: [{
+          name: 'delete-story',
+          description: 'Deletes a story',
+          category: 'stories',
+          readOnly: false,
+          inputSchema: expect.objectContaining({ required: ['id'] })
+        }]
+      });
     });
 
-    it('handler for "list_tools" should return specific message if no tool info provided', async () => {
-      registerMetaTools(mockServerInstance, []); // Empty array
+    it('handler for "list_tools" should report when no tools match', async () => {
+      registerMetaTools(registry.forCategory('meta'), registry);
 
-      const handler = mockToolMethod.mock.calls[0][3];
-      const result = await handler();
+      const result = await getListToolsHandler()({ keyword: 'nothing-matches' });
 
       expect(result.isError).toBeUndefined();
       expect(result.content).toEqual([
-        { type: 'text', text: "Available tools: No tool information was provided to list_tools." },
+        { type: 'text', text: 'Available tools: No tools match the given filters.' },
       ]);
     });
   });
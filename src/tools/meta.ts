@@ -1,53 +1,57 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { toolErrorResult } from "../utils/errors";
+import { ToolRegistry, TOOL_CATEGORIES } from "./registry";
 
 /**
  * @file src/tools/meta.ts
  * @description Defines meta-tools, such as a tool to list all available tools.
  */
 
-export interface ToolInfo {
-  name: string;
-  description: string;
-}
+export type { ToolInfo } from "./registry";
 
 /**
  * Registers meta-tools with the MCP server.
  *
  * @param {McpServer} server - The MCP server instance.
- * @param {ToolInfo[]} allToolsInfo - An array containing information about all other registered tools.
+ * @param {ToolRegistry} registry - The registry recording every registered tool, including these.
  */
-export function registerMetaTools(server: McpServer, allToolsInfo: ToolInfo[]) {
+export function registerMetaTools(server: McpServer, registry: ToolRegistry) {
   server.tool(
     "list_tools",
-    "Lists all available tools with their names and descriptions.",
-    {}, // Schema for a tool with no input arguments
-    async () => {
+    "Lists the available tools with their names, descriptions and categories, optionally filtered by category or keyword.",
+    {
+      category: z.enum(TOOL_CATEGORIES).optional().describe("Only list tools of this category"),
+      keyword: z.string().optional().describe("Only list tools whose name or description contains this text (case-insensitive)"),
+      include_schemas: z.boolean().optional().describe("Include each tool's input JSON schema in the structured output (default: false)")
+    },
+    async ({ category, keyword, include_schemas = false }) => {
       try {
-        if (!allToolsInfo || allToolsInfo.length === 0) {
+        const tools = registry.list({ category, keyword });
+
+        if (tools.length === 0) {
           return {
             content: [
-              { type: "text", text: "Available tools: No tool information was provided to list_tools." },
+              { type: "text", text: "Available tools: No tools match the given filters." },
             ],
           };
         }
 
-        const formattedTools = allToolsInfo.map(tool => `${tool.name}:${tool.description ? ' ' + tool.description : ''}`);
+        const formattedTools = tools.map(tool => `${tool.name} [${tool.category}]:${tool.description ? ' ' + tool.description : ''}`);
+        const structured = {
+          total: tools.length,
+          tools: tools.map(({ inputSchema, ...tool }) => include_schemas ? { ...tool, inputSchema } : tool)
+        };
 
         return {
           content: [
             { type: "text", text: "Available tools:\n" + formattedTools.join("\n") },
+            { type: "text", text: JSON.stringify(structured, null, 2) },
           ],
+          structuredContent: structured,
         };
       } catch (error: unknown) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error listing tools: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-        };
+        return toolErrorResult(error);
       }
     }
   );
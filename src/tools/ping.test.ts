@@ -18,13 +18,20 @@ global.fetch = jest.fn();
 
 // Mock config
 jest.mock('../config/index', () => ({
+  ...jest.requireActual('../config/index'),
   config: {
     spaceId: 'test-space-id',
     publicToken: 'test-public-token',
   },
+  getSpaceConfig: jest.fn((space?: string) => space === 'client-b'
+    ? { name: 'client-b', spaceId: 'client-b-space-id', publicToken: 'client-b-public-token' }
+    : { name: 'default', spaceId: 'test-space-id', publicToken: 'test-public-token' }),
   API_ENDPOINTS: {
     CONTENT: 'https://api.storyblok.com/v2', // Or your actual test endpoint
   },
+  getApiEndpoints: jest.fn((space?: string) => space === 'client-b'
+    ? { CONTENT: 'https://api-us.storyblok.com/v2' }
+    : { CONTENT: 'https://api.storyblok.com/v2' }),
 }));
 
 
@@ -50,7 +57,7 @@ describe('Ping Tool', () => {
       expect(mockToolMethod).toHaveBeenCalledWith(
         'ping',
         'Checks server health and Storyblok API connectivity.',
-        {},
+        { space: expect.anything() },
         expect.any(Function)
       );
     });
@@ -65,10 +72,11 @@ describe('Ping Tool', () => {
 
       registerPingTool(mockServerInstance);
       const handler = mockToolMethod.mock.calls[0][3];
-      const result = await handler();
+      const result = await handler({});
 
       expect(global.fetch).toHaveBeenCalledWith(
-        `https://api.storyblok.com/v2/spaces/test-space-id/?token=test-public-token`
+        `https://api.storyblok.com/v2/spaces/test-space-id/?token=test-public-token`,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
       );
       expect(result.isError).toBeUndefined();
       expect(result.content).toEqual([
@@ -76,6 +84,19 @@ describe('Ping Tool', () => {
       ]);
     });
 
+    it('handler for "ping" should target the requested space in its region', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, text: async () => '' });
+
+      registerPingTool(mockServerInstance);
+      const handler = mockToolMethod.mock.calls[0][3];
+      await handler({ space: 'client-b' });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        `https://api-us.storyblok.com/v2/spaces/client-b-space-id/?token=client-b-public-token`,
+        expect.anything()
+      );
+    });
+
     // Test for the handler's error response when Storyblok API call fails
     it('handler for "ping" should return error if Storyblok API call is not ok', async () => {
       (global.fetch as jest.Mock).mockResolvedValueOnce({
@@ -87,7 +108,7 @@ describe('Ping Tool', () => {
 
       registerPingTool(mockServerInstance);
       const handler = mockToolMethod.mock.calls[0][3];
-      const result = await handler();
+      const result = await handler({});
 
       expect(global.fetch).toHaveBeenCalledTimes(1);
       expect(result.isError).toBe(true);
@@ -101,11 +122,12 @@ describe('Ping Tool', () => {
 
       registerPingTool(mockServerInstance);
       const handler = mockToolMethod.mock.calls[0][3];
-      const result = await handler();
+      const result = await handler({});
 
       expect(global.fetch).toHaveBeenCalledTimes(1);
       expect(result.isError).toBe(true);
-      expect(result.content[0].text).toBe('Error: Network failure');
+      expect(result.errorCode).toBe('NETWORK_ERROR');
+      expect(result.content[0].text).toContain('Error: NETWORK_ERROR - Network failure');
     });
   });
 });
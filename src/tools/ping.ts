@@ -1,7 +1,10 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 // import axios from "axios"; // Removed axios
-import { config, API_ENDPOINTS } from "../config/index";
+import { getSpaceConfig, getApiEndpoints } from "../config/index";
+import { storyblokFetch } from "../utils/api";
+import { createToolError, toolErrorResult } from "../utils/errors";
+import { spaceParam } from './schemas';
 
 /**
  * Registers the ping tool with the MCP server.
@@ -13,11 +16,17 @@ export function registerPingTool(server: McpServer) {
   server.tool(
     "ping",
     "Checks server health and Storyblok API connectivity.",
-    {}, // No input schema
-    async () => {
+    {
+      space: spaceParam
+    },
+    async ({ space }) => {
       try {
-        const fetchResponse = await fetch(
-          `${API_ENDPOINTS.CONTENT}/spaces/${config.spaceId}/?token=${config.publicToken}`
+        const spaceConfig = getSpaceConfig(space);
+        // A health check should report failures immediately rather than retry them
+        const fetchResponse = await storyblokFetch(
+          `${getApiEndpoints(space).CONTENT}/spaces/${spaceConfig.spaceId}/?token=${spaceConfig.publicToken}`,
+          {},
+          { retries: 0 }
         );
 
         if (fetchResponse.ok) { // Check response.ok for success (status 200-299)
@@ -35,28 +44,10 @@ export function registerPingTool(server: McpServer) {
           // Handle HTTP errors (4xx, 5xx)
           const errorBody = await fetchResponse.text(); // Get error body as text
           const errorDetails = `Status: ${fetchResponse.status} ${fetchResponse.statusText}, Body: ${errorBody}`;
-          return {
-            isError: true,
-            errorCode: "STORYBLOK_API_ERROR",
-            errorMessage: `Storyblok API returned an error. Details: ${errorDetails}`,
-            content: [
-              {
-                type: "text",
-                text: `Error: STORYBLOK_API_ERROR - Storyblok API returned an error. Details: ${errorDetails}`,
-              },
-            ],
-          };
+          return createToolError("STORYBLOK_API_ERROR", `Storyblok API returned an error. Details: ${errorDetails}`);
         }
       } catch (error: unknown) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -0,0 +1,91 @@
+// src/tools/policy.test.ts
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getPolicyExclusion, globToRegExp, isReadOnlyTool } from './policy';
+import { ToolRegistry } from './registry';
+import type { ToolPolicyConfig } from '../types/index';
+
+// Mock the McpServer
+jest.mock('@modelcontextprotocol/sdk/server/mcp.js', () => {
+  return {
+    McpServer: jest.fn().mockImplementation(() => {
+      return {
+        tool: jest.fn(), // Mock the .tool() method
+      };
+    }),
+  };
+});
+
+describe('Tool policy', () => {
+  const openPolicy: ToolPolicyConfig = { mode: 'full', allowTools: [], denyTools: [], allowCategories: [], denyCategories: [] };
+
+  describe('isReadOnlyTool', () => {
+    it.each(['ping', 'list_tools', 'list-spaces', 'fetch-stories', 'get-story', 'search-stories', 'query-audit-log', 'debug-story-access', 'validate-story-content', 'scaffold-story-content', 'generate-types', 'plan-component-change'])(
+      'should treat %s as read-only',
+      name => expect(isReadOnlyTool(name)).toBe(true)
+    );
+
+    it.each(['create-story', 'delete-story', 'bulk-delete-stories', 'publish-release', 'restore-story', 'add-story-to-release', 'init-asset-upload'])(
+      'should treat %s as mutating',
+      name => expect(isReadOnlyTool(name)).toBe(false)
+    );
+  });
+
+  describe('globToRegExp', () => {
+    it('should match whole names with * and ?', () => {
+      expect(globToRegExp('delete-*').test('delete-asset-folder')).toBe(true);
+      expect(globToRegExp('delete-*').test('bulk-delete-stories')).toBe(false);
+      expect(globToRegExp('get-stor?').test('get-story')).toBe(true);
+      expect(globToRegExp('list_tools').test('list-tools')).toBe(false);
+    });
+  });
+
+  describe('getPolicyExclusion', () => {
+    const deleteStory = { name: 'delete-story', category: 'stories', readOnly: false };
+    const fetchStories = { name: 'fetch-stories', category: 'stories', readOnly: true };
+    const fetchTags = { name: 'fetch-tags', category: 'tags', readOnly: true };
+
+    it('should allow everything under an open policy', () => {
+      expect(getPolicyExclusion(openPolicy, deleteStory)).toBeUndefined();
+    });
+
+    it('should exclude mutating tools in read-only mode', () => {
+      const policy: ToolPolicyConfig = { ...openPolicy, mode: 'read-only' };
+      expect(getPolicyExclusion(policy, deleteStory)).toBe('read-only mode');
+      expect(getPolicyExclusion(policy, fetchStories)).toBeUndefined();
+    });
+
+    it('should let deny lists win over allow lists', () => {
+      const policy: ToolPolicyConfig = { ...openPolicy, allowCategories: ['stories'], denyTools: ['delete-*'] };
+      expect(getPolicyExclusion(policy, deleteStory)).toBe('denied by tool name');
+      expect(getPolicyExclusion({ ...openPolicy, denyCategories: ['tags'] }, fetchTags)).toBe('denied by category');
+    });
+
+    it('should require a match in the tool or category allow list once either is set', () => {
+      const policy: ToolPolicyConfig = { ...openPolicy, allowTools: ['fetch-tags'], allowCategories: ['components'] };
+      expect(getPolicyExclusion(policy, fetchTags)).toBeUndefined();
+      expect(getPolicyExclusion(policy, fetchStories)).toBe('not in allow list');
+    });
+  });
+
+  describe('ToolRegistry enforcement', () => {
+    it('should skip excluded tools instead of registering them', () => {
+      const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+      const registry = new ToolRegistry(server, { ...openPolicy, mode: 'read-only' });
+      const stories = registry.forCategory('stories');
+
+      stories.tool('fetch-stories', 'Fetches stories', {}, async () => ({ content: [] }));
+      stories.tool('delete-story', 'Deletes a story', {}, async () => ({ content: [] }));
+
+      expect(server.tool).toHaveBeenCalledTimes(1);
+      expect(server.tool).toHaveBeenCalledWith('fetch-stories', 'Fetches stories', {}, expect.any(Function));
+      expect(registry.list().map(tool => tool.name)).toEqual(['fetch-stories']);
+      expect(registry.listSkipped()).toEqual([{ name: 'delete-story', category: 'stories', reason: 'read-only mode' }]);
+    });
+
+    it('should reject categories that match no tool category', () => {
+      const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+      expect(() => new ToolRegistry(server, { ...openPolicy, denyCategories: ['story'] }))
+        .toThrow("Tool policy category 'story' matches no tool category.");
+    });
+  });
+});
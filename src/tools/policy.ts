@@ -0,0 +1,77 @@
+import type { ToolPolicyConfig } from "../types/index";
+
+/**
+ * @file src/tools/policy.ts
+ * @description Decides which tools the server exposes, from the read-only mode and
+ * the allow/deny lists of a `ToolPolicyConfig`.
+ */
+
+/**
+ * Leading verbs of tools that never modify content. Any other verb (create, update,
+ * delete, publish, restore, bulk, ...) counts as mutating, so new tools are hidden
+ * in read-only mode until they are known to be safe.
+ */
+const READ_ONLY_VERBS = ["ping", "list", "fetch", "get", "search", "query", "debug", "validate", "scaffold", "generate", "plan"];
+
+/**
+ * Tells whether a tool only reads, judging by the verb its name starts with.
+ *
+ * @param {string} name - The tool name, e.g. "fetch-stories" or "list_tools".
+ * @returns {boolean} True if the tool cannot modify content.
+ */
+export function isReadOnlyTool(name: string): boolean {
+  return READ_ONLY_VERBS.includes(name.split(/[-_]/)[0]);
+}
+
+/**
+ * Tells whether a tool deletes content and therefore needs a confirmation token.
+ *
+ * @param {string} name - The tool name, e.g. "delete-story" or "bulk-delete-stories".
+ * @returns {boolean} True for delete tools.
+ */
+export function isDestructiveTool(name: string): boolean {
+  return /^(bulk-)?delete-/.test(name);
+}
+
+/**
+ * Compiles a glob into an anchored regular expression: `*` matches any characters, `?` exactly one.
+ *
+ * @param {string} pattern - The glob, e.g. "delete-*".
+ * @returns {RegExp} The compiled expression.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map(char => char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&"))
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+const matchesAny = (value: string, patterns: string[]) => patterns.some(pattern => globToRegExp(pattern).test(value));
+
+/**
+ * Checks a tool against the policy.
+ *
+ * @param {ToolPolicyConfig} policy - The tool policy.
+ * @param {{ name: string; category: string; readOnly: boolean }} tool - The tool to check.
+ * @returns {string | undefined} Why the tool is excluded, or undefined if it may be registered.
+ */
+export function getPolicyExclusion(
+  policy: ToolPolicyConfig,
+  tool: { name: string; category: string; readOnly: boolean }
+): string | undefined {
+  if (policy.mode === "read-only" && !tool.readOnly) {
+    return "read-only mode";
+  }
+  if (matchesAny(tool.name, policy.denyTools)) {
+    return "denied by tool name";
+  }
+  if (matchesAny(tool.category, policy.denyCategories)) {
+    return "denied by category";
+  }
+  const hasAllowList = policy.allowTools.length > 0 || policy.allowCategories.length > 0;
+  if (hasAllowList && !matchesAny(tool.name, policy.allowTools) && !matchesAny(tool.category, policy.allowCategories)) {
+    return "not in allow list";
+  }
+  return undefined;
+}
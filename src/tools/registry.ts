@@ -0,0 +1,257 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z, ZodRawShape, ZodTypeAny } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { getDryRunDefault } from "../config/index";
+import type { ToolPolicyConfig } from "../types/index";
+import { auditToolCall } from "../utils/audit";
+import { runDryRun } from "../utils/dryRun";
+import { runInLogSession } from "../utils/logger";
+import { journalOperation } from "../utils/journal";
+import { confirmDestructiveCall } from "./confirmation";
+import { getPolicyExclusion, globToRegExp, isDestructiveTool, isReadOnlyTool } from "./policy";
+import { confirmationTokenParam, dryRunParam } from "./schemas";
+
+/**
+ * @file src/tools/registry.ts
+ * @description Records every tool registered with the server (name, description,
+ * input JSON schema and category) so meta-tools can describe them accurately,
+ * skips the tools the server's tool policy excludes, adds the dry-run and confirmation
+ * arguments to mutating tools and audits every call.
+ */
+
+/** Categories matching the tool modules in src/tools. */
+export const TOOL_CATEGORIES = [
+  "basic",
+  "stories",
+  "tags",
+  "releases",
+  "assets",
+  "components",
+  "search",
+  "space",
+  "journal",
+  "audit",
+  "meta"
+] as const;
+
+export type ToolCategory = typeof TOOL_CATEGORIES[number];
+
+export interface ToolInfo {
+  name: string;
+  description: string;
+  category: ToolCategory;
+  /** Whether the tool only reads content. */
+  readOnly: boolean;
+  /** JSON schema of the tool's arguments. */
+  inputSchema: Record<string, unknown>;
+}
+
+/** A tool the policy kept from being registered. */
+export interface SkippedTool {
+  name: string;
+  category: ToolCategory;
+  reason: string;
+}
+
+export interface ToolFilter {
+  category?: ToolCategory;
+  /** Case-insensitive substring matched against the tool name and description. */
+  keyword?: string;
+}
+
+const isZodType = (value: unknown): value is ZodTypeAny => value instanceof z.ZodType;
+
+// A raw shape is a plain object of zod types; an empty object is a tool without arguments
+const isZodRawShape = (value: unknown): value is ZodRawShape =>
+  typeof value === "object" && value !== null && !isZodType(value) && Object.values(value).every(isZodType);
+
+/**
+ * Converts the arguments of one `server.tool(...)` call into a `ToolInfo`.
+ * Supports every overload: `(name, cb)`, `(name, description, cb)`, `(name, shape, cb)`
+ * and `(name, description, shape, cb)`, optionally with annotations before the callback.
+ */
+function describeToolCall(args: unknown[], category: ToolCategory): ToolInfo {
+  const [name, ...rest] = args as [string, ...unknown[]];
+  const description = typeof rest[0] === "string" ? rest[0] : "";
+  const shape = rest.find(isZodRawShape) ?? {};
+  const { $schema, ...inputSchema } = zodToJsonSchema(z.object(shape), { $refStrategy: "none" }) as Record<string, unknown>;
+  return { name, description, category, readOnly: isReadOnlyTool(name), inputSchema };
+}
+
+type ToolHandler = (...handlerArgs: unknown[]) => Promise<{ isError?: boolean; content?: unknown[] }>;
+
+/**
+ * Runs a mutating tool's handler as a dry run and reports the writes it would have sent.
+ * A failing handler keeps its error result, followed by the writes planned before the failure.
+ */
+async function simulateToolCall(name: string, run: () => ReturnType<ToolHandler>) {
+  const { result, requests } = await runDryRun(run);
+  const report = {
+    dry_run: true,
+    tool: name,
+    message: `No changes were made. This call would send ${requests.length} write request(s).`,
+    requests
+  };
+  const reportContent = { type: "text", text: JSON.stringify(report, null, 2) };
+  if (result?.isError) {
+    return { ...result, content: [...(result.content ?? []), reportContent] };
+  }
+  return { content: [reportContent] };
+}
+
+/**
+ * Runs a mutating tool's handler with its changes journaled for undo,
+ * and tells the caller the journal ID when something changed, or that the changes cannot be undone.
+ */
+async function runJournaled(name: string, params: Record<string, unknown>, run: () => ReturnType<ToolHandler>) {
+  const { result, entry, error } = await journalOperation(name, params, run);
+  if (!entry && !error) {
+    return result;
+  }
+  const notice = entry
+    ? { type: "text", text: `Journal ID: ${entry.id} (revert with undo-operation)` }
+    : { type: "text", text: `The changes were made but could not be journaled, so undo-operation cannot revert them: ${error!.message}` };
+  return { ...result, content: [...(result?.content ?? []), notice] };
+}
+
+/**
+ * Adds the `dry_run` argument to a mutating tool's `server.tool(...)` arguments, and
+ * `confirmation_token` to a destructive one's, and wraps its handler to honor them.
+ * `dry_run` falls back to the server-wide default; a dry run needs no confirmation.
+ * Calls that do write are journaled.
+ */
+function withMutationOptions(args: unknown[]): unknown[] {
+  const name = args[0] as string;
+  const destructive = isDestructiveTool(name);
+  const callbackIndex = args.findIndex(arg => typeof arg === "function");
+  const shapeIndex = args.findIndex((arg, i) => i > 0 && isZodRawShape(arg));
+  const callback = args[callbackIndex] as ToolHandler;
+
+  const wrapped: ToolHandler = async (...handlerArgs) => {
+    // Without an input schema the SDK passes only `extra`; the added schema makes it pass the arguments first
+    const { dry_run, confirmation_token, ...params } = handlerArgs[0] as { dry_run?: boolean; confirmation_token?: string };
+    const forward = () => runJournaled(name, params, () => shapeIndex === -1 ? callback(handlerArgs[1]) : callback(params, handlerArgs[1]));
+    if (dry_run ?? getDryRunDefault()) {
+      return simulateToolCall(name, forward);
+    }
+    return destructive ? confirmDestructiveCall(name, params, confirmation_token, forward) : forward();
+  };
+
+  const addedParams: ZodRawShape = destructive
+    ? { dry_run: dryRunParam, confirmation_token: confirmationTokenParam }
+    : { dry_run: dryRunParam };
+  const result = [...args];
+  result[callbackIndex] = wrapped;
+  if (shapeIndex === -1) {
+    result.splice(callbackIndex, 0, addedParams);
+  } else {
+    result[shapeIndex] = { ...(args[shapeIndex] as ZodRawShape), ...addedParams };
+  }
+  return result;
+}
+
+/**
+ * Wraps the handler in a tool's `server.tool(...)` arguments so every call is audited
+ * and sends the log entries it causes to its own client session.
+ */
+function withCallContext(args: unknown[], category: ToolCategory, server: McpServer): unknown[] {
+  const name = args[0] as string;
+  const callbackIndex = args.findIndex(arg => typeof arg === "function");
+  const hasShape = args.some((arg, i) => i > 0 && isZodRawShape(arg));
+  const callback = args[callbackIndex] as ToolHandler;
+
+  const result = [...args];
+  result[callbackIndex] = ((...handlerArgs) => {
+    // Without an input schema the only handler argument is `extra`, which is not audited
+    const params = hasShape ? handlerArgs[0] as Record<string, unknown> : {};
+    return runInLogSession(server, () => auditToolCall(name, category, params, () => callback(...handlerArgs)));
+  }) satisfies ToolHandler;
+  return result;
+}
+
+/**
+ * Collects information about every tool registered through it.
+ * Tool modules keep calling `server.tool(...)`; they receive a view of the server
+ * (from `forCategory`) whose `tool` method checks the tool policy, adds `dry_run`
+ * to mutating tools and `confirmation_token` to destructive ones, then records the
+ * registration and forwards it with an audited handler.
+ */
+export class ToolRegistry {
+  private readonly tools = new Map<string, ToolInfo>();
+  private readonly skipped: SkippedTool[] = [];
+
+  /**
+   * @param {McpServer} server - The server to register tools with.
+   * @param {ToolPolicyConfig} policy - Which tools to expose (default: all of them).
+   * @throws {Error} If the policy names a category that does not exist.
+   */
+  constructor(
+    private readonly server: McpServer,
+    private readonly policy: ToolPolicyConfig = { mode: "full", allowTools: [], denyTools: [], allowCategories: [], denyCategories: [] }
+  ) {
+    // A mistyped category would silently deny nothing, so reject it up front
+    for (const pattern of [...policy.allowCategories, ...policy.denyCategories]) {
+      if (!TOOL_CATEGORIES.some(category => globToRegExp(pattern).test(category))) {
+        throw new Error(`Tool policy category '${pattern}' matches no tool category. Use one of: ${TOOL_CATEGORIES.join(", ")}.`);
+      }
+    }
+  }
+
+  /**
+   * Returns a server view that records the tools registered on it under the given category.
+   *
+   * @param {ToolCategory} category - The category of the tools about to be registered.
+   * @returns {McpServer} The server view to pass to a `register...Tools` function.
+   */
+  forCategory(category: ToolCategory): McpServer {
+    const server = this.server;
+    const view = Object.create(server) as McpServer;
+    view.tool = ((...args: unknown[]) => {
+      const toolArgs = isReadOnlyTool(args[0] as string) ? args : withMutationOptions(args);
+      const info = describeToolCall(toolArgs, category);
+      const exclusion = getPolicyExclusion(this.policy, info);
+      if (exclusion) {
+        this.skipped.push({ name: info.name, category, reason: exclusion });
+        // Tool modules ignore the returned handle, so there is nothing to hand back for a skipped tool
+        return undefined as unknown as ReturnType<McpServer["tool"]>;
+      }
+      const registered = (server.tool as (...toolArgs: unknown[]) => ReturnType<McpServer["tool"]>)(...withCallContext(toolArgs, category, server));
+      this.tools.set(info.name, info);
+      return registered;
+    }) as McpServer["tool"];
+    return view;
+  }
+
+  /**
+   * Lists registered tools in registration order.
+   *
+   * @param {ToolFilter} filter - Optional category and keyword filters.
+   * @returns {ToolInfo[]} The matching tools.
+   */
+  list(filter: ToolFilter = {}): ToolInfo[] {
+    const keyword = filter.keyword?.trim().toLowerCase();
+    return [...this.tools.values()].filter(tool =>
+      (!filter.category || tool.category === filter.category) &&
+      (!keyword || tool.name.toLowerCase().includes(keyword) || tool.description.toLowerCase().includes(keyword))
+    );
+  }
+
+  /**
+   * Lists the tools the policy kept from being registered.
+   *
+   * @returns {SkippedTool[]} The skipped tools and why each was skipped.
+   */
+  listSkipped(): SkippedTool[] {
+    return [...this.skipped];
+  }
+
+  /**
+   * Looks up a registered tool by name.
+   *
+   * @param {string} name - The tool name.
+   * @returns {ToolInfo | undefined} The tool, if registered.
+   */
+  get(name: string): ToolInfo | undefined {
+    return this.tools.get(name);
+  }
+}
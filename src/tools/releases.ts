@@ -1,12 +1,17 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { 
+  storyblokFetch,
   handleApiResponse, 
   getManagementHeaders, 
   buildManagementUrl,
-  createPaginationParams
+  createPaginationParams,
+  collectPages,
+  fetchListPage
 } from "../utils/api";
-import type { PaginationParams } from '../types/index';
+import { toolErrorResult } from "../utils/errors";
+import type { AllPagesParams, PaginationParams, SpaceScopedParams } from '../types/index';
+import { spaceParam, allPagesParams } from './schemas';
 
 export function registerReleaseTools(server: McpServer) {
   // Fetch releases
@@ -15,16 +20,39 @@ export function registerReleaseTools(server: McpServer) {
     "Fetches all releases from Storyblok space",
     {
       page: z.number().optional().describe("Page number for pagination (default: 1)"),
-      per_page: z.number().optional().describe("Number of releases per page (default: 25, max: 100)")
+      per_page: z.number().optional().describe("Number of releases per page (default: 25, max: 100)"),
+      ...allPagesParams,
+      space: spaceParam
     },
-    async ({ page = 1, per_page = 25 }: PaginationParams) => {
+    async ({ page = 1, per_page, all_pages, max_items, space }: PaginationParams & AllPagesParams & SpaceScopedParams) => {
       try {
+        if (all_pages) {
+          const collected = await collectPages(
+            (pageParams) => fetchListPage(`${buildManagementUrl('/releases', space)}?${pageParams}`, { headers: getManagementHeaders(space) }, 'releases'),
+            { page, per_page, max_items }
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  releases: collected.items,
+                  total: collected.total,
+                  pages_fetched: collected.pages_fetched,
+                  truncated: collected.truncated
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
         const params = createPaginationParams(page, per_page);
 
-        const endpoint = `${buildManagementUrl('/releases')}?${params}`;
-        const response = await fetch(
+        const endpoint = `${buildManagementUrl('/releases', space)}?${params}`;
+        const response = await storyblokFetch(
           endpoint,
-          { headers: getManagementHeaders() }
+          { headers: getManagementHeaders(space) }
         );
 
         const data = await handleApiResponse(response, endpoint);
@@ -37,15 +65,7 @@ export function registerReleaseTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -56,19 +76,20 @@ export function registerReleaseTools(server: McpServer) {
     "Creates a new release in Storyblok",
     {
       name: z.string().describe("Release name"),
-      publish_at: z.string().optional().describe("ISO date string for scheduled publishing")
+      publish_at: z.string().optional().describe("ISO date string for scheduled publishing"),
+      space: spaceParam
     },
-    async ({ name, publish_at }) => {
+    async ({ name, publish_at, space }) => {
       try {
         const releaseData: Record<string, unknown> = { name };
         if (publish_at) releaseData.publish_at = publish_at;
 
-        const endpoint = buildManagementUrl('/releases');
-        const response = await fetch(
+        const endpoint = buildManagementUrl('/releases', space);
+        const response = await storyblokFetch(
           endpoint,
           {
             method: 'POST',
-            headers: getManagementHeaders(),
+            headers: getManagementHeaders(space),
             body: JSON.stringify({ release: releaseData })
           }
         );
@@ -83,15 +104,7 @@ export function registerReleaseTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -102,16 +115,17 @@ export function registerReleaseTools(server: McpServer) {
     "Adds a story to an existing release",
     {
       release_id: z.string().describe("Release ID"),
-      story_id: z.string().describe("Story ID")
+      story_id: z.string().describe("Story ID"),
+      space: spaceParam
     },
-    async ({ release_id, story_id }) => {
+    async ({ release_id, story_id, space }) => {
       try {
-        const endpoint = buildManagementUrl(`/releases/${release_id}/stories`);
-        const response = await fetch(
+        const endpoint = buildManagementUrl(`/releases/${release_id}/stories`, space);
+        const response = await storyblokFetch(
           endpoint,
           {
             method: 'POST',
-            headers: getManagementHeaders(),
+            headers: getManagementHeaders(space),
             body: JSON.stringify({ story_id })
           }
         );
@@ -126,15 +140,7 @@ export function registerReleaseTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -144,16 +150,17 @@ export function registerReleaseTools(server: McpServer) {
     "publish-release",
     "Publishes a release",
     {
-      release_id: z.string().describe("Release ID")
+      release_id: z.string().describe("Release ID"),
+      space: spaceParam
     },
-    async ({ release_id }) => {
+    async ({ release_id, space }) => {
       try {
-        const endpoint = buildManagementUrl(`/releases/${release_id}/publish`);
-        const response = await fetch(
+        const endpoint = buildManagementUrl(`/releases/${release_id}/publish`, space);
+        const response = await storyblokFetch(
           endpoint,
           {
             method: 'POST',
-            headers: getManagementHeaders()
+            headers: getManagementHeaders(space)
           }
         );
 
@@ -167,15 +174,7 @@ export function registerReleaseTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -185,16 +184,17 @@ export function registerReleaseTools(server: McpServer) {
     "delete-release",
     "Deletes a release",
     {
-      release_id: z.string().describe("Release ID")
+      release_id: z.string().describe("Release ID"),
+      space: spaceParam
     },
-    async ({ release_id }) => {
+    async ({ release_id, space }) => {
       try {
-        const endpoint = buildManagementUrl(`/releases/${release_id}`);
-        const response = await fetch(
+        const endpoint = buildManagementUrl(`/releases/${release_id}`, space);
+        const response = await storyblokFetch(
           endpoint,
           {
             method: 'DELETE',
-            headers: getManagementHeaders()
+            headers: getManagementHeaders(space)
           }
         );
 
@@ -208,15 +208,7 @@ export function registerReleaseTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
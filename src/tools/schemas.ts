@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+/**
+ * @file src/tools/schemas.ts
+ * @description Input schema fragments shared by several tools.
+ */
+
+/**
+ * Optional `space` argument accepted by every tool that talks to Storyblok.
+ * Routes the call to one of the configured spaces instead of the default one.
+ */
+export const spaceParam = z.string().optional().describe("Name or numeric ID of a configured Storyblok space (default: the configured default space)");
+
+/**
+ * Optional arguments of list tools that walk every page of results in one call.
+ */
+export const allPagesParams = {
+  all_pages: z.boolean().optional().describe("Fetch every page starting at 'page' and return all items in one response (default: false)"),
+  max_items: z.number().int().positive().optional().describe("Maximum number of items to return when all_pages is true")
+};
+
+/**
+ * Optional argument added to every mutating tool by the tool registry.
+ */
+export const dryRunParam = z.boolean().optional().describe("Report the write requests this call would send, with payloads and a field-level diff for updates, without changing anything (default: STORYBLOK_DRY_RUN)");
+
+/**
+ * Optional argument added to every destructive tool by the tool registry.
+ */
+export const confirmationTokenParam = z.string().optional().describe("Token from this tool's preview response; repeat the call with the same arguments and this token to perform the deletion");
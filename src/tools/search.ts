@@ -1,14 +1,19 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { 
+  storyblokFetch,
   handleApiResponse, 
   getContentHeaders, 
   buildContentUrl,
+  getContentToken,
   createPaginationParams,
-  addOptionalParams
+  addOptionalParams,
+  collectPages,
+  fetchListPage
 } from "../utils/api";
-import { config } from '../config/index';
-import type { SearchParams } from '../types/index';
+import { toolErrorResult } from "../utils/errors";
+import type { AllPagesParams, SearchParams, SpaceScopedParams } from '../types/index';
+import { spaceParam, allPagesParams } from './schemas';
 
 export function registerSearchTools(server: McpServer) {
   // Search stories using Content Delivery API
@@ -28,41 +33,70 @@ export function registerSearchTools(server: McpServer) {
       page: z.number().optional().describe("Page number for pagination (default: 1)"),
       per_page: z.number().optional().describe("Number of stories per page (default: 25, max: 100)"),
       resolve_links: z.string().optional().describe("Resolve links ('story' or 'url')"),
-      resolve_relations: z.string().optional().describe("Comma-separated list of component fields to resolve")
+      resolve_relations: z.string().optional().describe("Comma-separated list of component fields to resolve"),
+      ...allPagesParams,
+      space: spaceParam
     },
-    async (searchParams: SearchParams) => {
+    async (searchParams: SearchParams & AllPagesParams & SpaceScopedParams) => {
+      const { space } = searchParams;
       try {
-        const params = createPaginationParams(searchParams.page, searchParams.per_page);
-        
-        // Add token and version
-        params.set('token', config.publicToken);
-        params.set('version', 'draft');
-
-        // Add optional parameters
-        addOptionalParams(params, {
-          starts_with: searchParams.starts_with,
-          by_uuids: searchParams.by_uuids,
-          by_slugs: searchParams.by_slugs,
-          excluding_slugs: searchParams.excluding_slugs,
-          with_tag: searchParams.with_tag,
-          is_startpage: searchParams.is_startpage,
-          sort_by: searchParams.sort_by,
-          search_term: searchParams.search_term,
-          resolve_links: searchParams.resolve_links,
-          resolve_relations: searchParams.resolve_relations
-        });
+        // Adds token, version and filters to the pagination parameters of a page request
+        const addSearchParams = (params: URLSearchParams) => {
+          // Add token and version
+          params.set('token', getContentToken(space));
+          params.set('version', 'draft');
 
-        // Handle filter_query object
-        if (searchParams.filter_query) {
-          Object.entries(searchParams.filter_query).forEach(([key, value]) => {
-            params.append(`filter_query[${key}]`, String(value));
+          // Add optional parameters
+          addOptionalParams(params, {
+            starts_with: searchParams.starts_with,
+            by_uuids: searchParams.by_uuids,
+            by_slugs: searchParams.by_slugs,
+            excluding_slugs: searchParams.excluding_slugs,
+            with_tag: searchParams.with_tag,
+            is_startpage: searchParams.is_startpage,
+            sort_by: searchParams.sort_by,
+            search_term: searchParams.search_term,
+            resolve_links: searchParams.resolve_links,
+            resolve_relations: searchParams.resolve_relations
           });
+
+          // Handle filter_query object
+          if (searchParams.filter_query) {
+            Object.entries(searchParams.filter_query).forEach(([key, value]) => {
+              params.append(`filter_query[${key}]`, String(value));
+            });
+          }
+        };
+
+        if (searchParams.all_pages) {
+          const collected = await collectPages((pageParams) => {
+            addSearchParams(pageParams);
+            return fetchListPage(`${buildContentUrl('/stories', space)}?${pageParams}`, { headers: getContentHeaders() }, 'stories', { cache: true });
+          }, { page: searchParams.page, per_page: searchParams.per_page, max_items: searchParams.max_items });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  stories: collected.items,
+                  total: collected.total,
+                  pages_fetched: collected.pages_fetched,
+                  truncated: collected.truncated
+                }, null, 2)
+              }
+            ]
+          };
         }
 
-        const url = `${buildContentUrl('/stories')}?${params}`;
-        const response = await fetch(
+        const params = createPaginationParams(searchParams.page, searchParams.per_page);
+        addSearchParams(params);
+
+        const url = `${buildContentUrl('/stories', space)}?${params}`;
+        const response = await storyblokFetch(
           url,
-          { headers: getContentHeaders() }
+          { headers: getContentHeaders() },
+          { cache: true }
         );
 
         const data = await handleApiResponse(response, url);
@@ -75,15 +109,7 @@ export function registerSearchTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -96,27 +122,12 @@ export function registerSearchTools(server: McpServer) {
       slug: z.string().describe("Story slug (full path)"),
       resolve_links: z.string().optional().describe("Resolve links ('story' or 'url')"),
       resolve_relations: z.string().optional().describe("Comma-separated list of component fields to resolve"),
-      version: z.enum(['draft', 'published']).optional().describe("Content version (default: draft)")
+      version: z.enum(['draft', 'published']).optional().describe("Content version (default: draft)"),
+      space: spaceParam
     },
-    async ({ slug, resolve_links, resolve_relations, version = 'draft' }) => {
+    async ({ slug, resolve_links, resolve_relations, version = 'draft', space }) => {
       try {
-        const params = new URLSearchParams({
-          token: config.publicToken,
-          version
-        });
-
-        addOptionalParams(params, {
-          resolve_links,
-          resolve_relations
-        });
-
-        const url = `${buildContentUrl(`/stories/${slug}`)}?${params}`;
-        const response = await fetch(
-          url,
-          { headers: getContentHeaders() }
-        );
-
-        const data = await handleApiResponse(response, url);
+        const data = await fetchStoryBySlug(slug, { resolve_links, resolve_relations, version }, space);
         return {
           content: [
             {
@@ -126,16 +137,33 @@ export function registerSearchTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
 }
+
+// Helper function to get a story by its full slug from the Content Delivery API (cached)
+export async function fetchStoryBySlug(
+  slug: string,
+  options: { resolve_links?: string; resolve_relations?: string; version?: 'draft' | 'published' } = {},
+  space?: string
+) {
+  const params = new URLSearchParams({
+    token: getContentToken(space),
+    version: options.version ?? 'draft'
+  });
+
+  addOptionalParams(params, {
+    resolve_links: options.resolve_links,
+    resolve_relations: options.resolve_relations
+  });
+
+  const url = `${buildContentUrl(`/stories/${slug}`, space)}?${params}`;
+  const response = await storyblokFetch(
+    url,
+    { headers: getContentHeaders() },
+    { cache: true }
+  );
+  return handleApiResponse(response, url);
+}
@@ -1,28 +1,37 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { 
+  storyblokFetch,
   handleApiResponse, 
   getManagementHeaders, 
   buildManagementUrl,
-  createPaginationParams
+  createPaginationParams,
+  collectPages,
+  fetchListPage
 } from "../utils/api";
-import type { PaginationParams } from '../types/index';
+import { toolErrorResult } from "../utils/errors";
+import { getConfig } from '../config/index';
+import type { AllPagesParams, PaginationParams, SpaceScopedParams } from '../types/index';
+import { spaceParam, allPagesParams } from './schemas';
 
 export function registerSpaceTools(server: McpServer) {
-  // Get space information
+  // List configured spaces
   server.tool(
-    "get-space",
-    "Gets information about the current Storyblok space",
+    "list-spaces",
+    "Lists the Storyblok spaces this server is configured for. Use a space's name as the 'space' argument of other tools.",
     {},
     async () => {
       try {
-        const endpoint = buildManagementUrl('');
-        const response = await fetch(
-          endpoint,
-          { headers: getManagementHeaders() }
-        );
-
-        const data = await handleApiResponse(response, endpoint);
+        const { spaces, defaultSpace } = getConfig();
+        const data = {
+          default_space: defaultSpace,
+          spaces: Object.values(spaces).map(({ name, spaceId, region }) => ({
+            name,
+            space_id: spaceId,
+            region,
+            is_default: name === defaultSpace
+          }))
+        };
         return {
           content: [
             {
@@ -32,15 +41,37 @@ export function registerSpaceTools(server: McpServer) {
           ]
         };
       } catch (error) {
+        return toolErrorResult(error);
+      }
+    }
+  );
+
+  // Get space information
+  server.tool(
+    "get-space",
+    "Gets information about the current Storyblok space",
+    {
+      space: spaceParam
+    },
+    async ({ space }) => {
+      try {
+        const endpoint = buildManagementUrl('', space);
+        const response = await storyblokFetch(
+          endpoint,
+          { headers: getManagementHeaders(space) }
+        );
+
+        const data = await handleApiResponse(response, endpoint);
         return {
-          isError: true,
           content: [
             {
               type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
+              text: JSON.stringify(data, null, 2)
             }
           ]
         };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     }
   );
@@ -49,13 +80,15 @@ export function registerSpaceTools(server: McpServer) {
   server.tool(
     "fetch-folders",
     "Fetches folders from Storyblok space",
-    {},
-    async () => {
+    {
+      space: spaceParam
+    },
+    async ({ space }) => {
       try {
-        const endpoint = `${buildManagementUrl('/stories')}?is_folder=true`;
-        const response = await fetch(
+        const endpoint = `${buildManagementUrl('/stories', space)}?is_folder=true`;
+        const response = await storyblokFetch(
           endpoint,
-          { headers: getManagementHeaders() }
+          { headers: getManagementHeaders(space) }
         );
 
         const data = await handleApiResponse(response, endpoint);
@@ -68,15 +101,7 @@ export function registerSpaceTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -87,16 +112,39 @@ export function registerSpaceTools(server: McpServer) {
     "Fetches datasources from Storyblok space",
     {
       page: z.number().optional().describe("Page number for pagination (default: 1)"),
-      per_page: z.number().optional().describe("Number of datasources per page (default: 25, max: 100)")
+      per_page: z.number().optional().describe("Number of datasources per page (default: 25, max: 100)"),
+      ...allPagesParams,
+      space: spaceParam
     },
-    async ({ page = 1, per_page = 25 }: PaginationParams) => {
+    async ({ page = 1, per_page, all_pages, max_items, space }: PaginationParams & AllPagesParams & SpaceScopedParams) => {
       try {
+        if (all_pages) {
+          const collected = await collectPages(
+            (pageParams) => fetchListPage(`${buildManagementUrl('/datasources', space)}?${pageParams}`, { headers: getManagementHeaders(space) }, 'datasources'),
+            { page, per_page, max_items }
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  datasources: collected.items,
+                  total: collected.total,
+                  pages_fetched: collected.pages_fetched,
+                  truncated: collected.truncated
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
         const params = createPaginationParams(page, per_page);
 
-        const endpoint = `${buildManagementUrl('/datasources')}?${params}`;
-        const response = await fetch(
+        const endpoint = `${buildManagementUrl('/datasources', space)}?${params}`;
+        const response = await storyblokFetch(
           endpoint,
-          { headers: getManagementHeaders() }
+          { headers: getManagementHeaders(space) }
         );
 
         const data = await handleApiResponse(response, endpoint);
@@ -109,16 +157,30 @@ export function registerSpaceTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
 }
+
+// Helper function to get a datasource by its slug, together with all of its entries (null if there is no such datasource)
+export async function fetchDatasourceBySlug(slug: string, space?: string) {
+  const headers = getManagementHeaders(space);
+  const { items: datasources } = await collectPages(
+    (pageParams) => fetchListPage(`${buildManagementUrl('/datasources', space)}?${pageParams}`, { headers }, 'datasources'),
+    { per_page: 100 }
+  );
+  const datasource = datasources.find((ds: any) => ds.slug === slug);
+  if (!datasource) {
+    return null;
+  }
+
+  const { items: entries } = await collectPages(
+    (pageParams) => {
+      pageParams.set('datasource_id', String(datasource.id));
+      return fetchListPage(`${buildManagementUrl('/datasource_entries', space)}?${pageParams}`, { headers }, 'datasource_entries');
+    },
+    { per_page: 100 }
+  );
+  return { datasource, entries };
+}
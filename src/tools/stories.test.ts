@@ -109,6 +109,26 @@ describe('Story Tools - fetch-stories', () => {
       expect(resultJson.stories_count_current_response).toBe(1);
     });
 
+    it('should fetch every page when all_pages is set', async () => {
+      const tool = getTool('fetch-stories');
+      const firstPage = Array.from({ length: 100 }, (_, i) => ({ id: i + 1, content: { component: 'page' } }));
+      const secondPage = [{ id: 101, content: { component: 'page' } }];
+      (handleApiResponse as jest.Mock)
+        .mockResolvedValueOnce(mockStoryListResponse(firstPage, 101, 100))
+        .mockResolvedValueOnce(mockStoryListResponse(secondPage, 101, 100));
+      mockFetch.mockResolvedValue({ ok: true, headers: new Headers(), json: async () => ({}) });
+
+      const result = await tool.handler({ starts_with: 'blog/', all_pages: true });
+      const resultJson = JSON.parse(result.content[0].text);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][0]).toContain('page=2');
+      expect(mockFetch.mock.calls[1][0]).toContain('starts_with=blog%2F');
+      expect(resultJson.stories).toHaveLength(101);
+      expect(resultJson.pages_fetched).toBe(2);
+      expect(resultJson.truncated).toBe(false);
+    });
+
     describe('fields parameter', () => {
       const fullStory = {
         id: 1, name: 'Full Story', slug: 'full-story',
@@ -1,14 +1,25 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { 
+  storyblokFetch,
   handleApiResponse, 
   getManagementHeaders, 
   buildManagementUrl,
   createPaginationParams,
-  addOptionalParams
+  addOptionalParams,
+  collectPages,
+  fetchListPage
 } from '../utils/api';
-import type { StoryFilterParams } from '../types/index';
-import { getComponentSchemaByName } from '../tools/components';
+import { toolErrorResult, createToolError, serializeError, StoryblokApiError } from '../utils/errors';
+import type { AllPagesParams, StoryFilterParams } from '../types/index';
+import { getComponentByName, getComponentPreset, getComponentSchemaByName } from '../tools/components';
+import { fetchDatasourceBySlug } from './space';
+import { applyScaffoldPreset, DEFAULT_SCAFFOLD_DEPTH, scaffoldStoryContent } from '../utils/scaffold';
+import { validateStoryContent, type ComponentDefinition, type ComponentLookup, type DatasourceLookup } from '../utils/validation';
+import { spaceParam, allPagesParams } from './schemas';
+import { applyContentTransforms, type ContentTransform, type TransformChange } from '../utils/migration';
+import { migrationIdFor, readMigrationProgress, recordMigrationProgress, resetMigrationProgress } from '../utils/migrationProgress';
+import { isDryRunActive } from '../utils/dryRun';
 
 export function registerStoryTools(server: McpServer) {
   // Fetch stories with filtering
@@ -29,16 +40,20 @@ export function registerStoryTools(server: McpServer) {
       deep_filter: z.record(z.string()).optional().describe("Client-side filter on story content. Provide key-value pairs. Supports dot notation for nested fields, e.g., {'content.field_name': 'value'}."),
       validate_schema: z.string().optional().describe("Component name to validate stories against. Results added to each story or a separate metadata field."),
       fields: z.string().optional().describe("Comma-separated list of story fields to return (e.g., 'id,name,slug,content.component,published_at'). If provided, only these fields will be included for each story."),
-      summary_mode: z.boolean().optional().describe("If true, returns a predefined condensed summary of each story. Overridden by the 'fields' parameter if 'fields' is also provided.")
+      summary_mode: z.boolean().optional().describe("If true, returns a predefined condensed summary of each story. Overridden by the 'fields' parameter if 'fields' is also provided."),
+      ...allPagesParams,
+      space: spaceParam
     },
-    async (params: StoryFilterParams & {
+    async (params: StoryFilterParams & AllPagesParams & {
       include_content?: boolean;
       content_status?: "draft" | "published" | "both";
       deep_filter?: Record<string, string>;
       validate_schema?: string;
       fields?: string;
       summary_mode?: boolean;
+      space?: string;
     }) => {
+      const { space } = params;
       try {
         // Helper function to access nested properties
         const getValueByPath = (obj: any, path: string): any => {
@@ -94,30 +109,43 @@ export function registerStoryTools(server: McpServer) {
 
         const fetchStoriesForVersion = async (version?: "draft" | "published") => {
           const endpointPath = '/stories';
-          const urlParams = createPaginationParams(params.page, params.per_page);
-          addOptionalParams(urlParams, {
-            starts_with: params.starts_with,
-            by_slugs: params.by_slugs,
-            excluding_slugs: params.excluding_slugs,
-            content_type: params.content_type, // This is pre-existing, for single content_type
-            sort_by: params.sort_by,
-            search_term: params.search_term,
-            version: version,
-            ...(params.include_content && { with_content: 1 })
-          });
+          const fetchPage = (urlParams: URLSearchParams) => {
+            addOptionalParams(urlParams, {
+              starts_with: params.starts_with,
+              by_slugs: params.by_slugs,
+              excluding_slugs: params.excluding_slugs,
+              content_type: params.content_type, // This is pre-existing, for single content_type
+              sort_by: params.sort_by,
+              search_term: params.search_term,
+              version: version,
+              ...(params.include_content && { with_content: 1 })
+            });
+            const fullUrl = `${buildManagementUrl(endpointPath, space)}?${urlParams}`;
+            return fetchListPage(fullUrl, { headers: getManagementHeaders(space) }, 'stories');
+          };
 
-          const fullUrl = `${buildManagementUrl(endpointPath)}?${urlParams}`;
-          const apiResponse = await fetch(fullUrl, { headers: getManagementHeaders() });
-          const responseJson = await handleApiResponse(apiResponse, fullUrl);
+          if (params.all_pages) {
+            const collected = await collectPages(fetchPage, { page: params.page, per_page: params.per_page, max_items: params.max_items });
+            return {
+              stories_data: collected.items,
+              total_from_api: collected.total || 0,
+              pages_fetched: collected.pages_fetched,
+              truncated: collected.truncated
+            };
+          }
+
+          const singlePage = await fetchPage(createPaginationParams(params.page, params.per_page));
           return {
-            stories_data: responseJson.stories || [],
-            total_from_api: responseJson.total || 0,
+            stories_data: singlePage.items,
+            total_from_api: singlePage.total || 0,
           };
         };
 
         let stories: any[] = [];
         let total_items_from_api: number | null = null;
-        const per_page_for_calc = params.per_page || 25;
+        let pages_fetched: number | undefined;
+        let truncated = false;
+        const per_page_for_calc = params.per_page || (params.all_pages ? 100 : 25);
 
 
         if (params.content_status === "both") {
@@ -131,10 +159,21 @@ export function registerStoryTools(server: McpServer) {
           (draftData.stories_data || []).forEach((story: any) => storiesMap.set(story.id, story));
           stories = Array.from(storiesMap.values());
           total_items_from_api = draftData.total_from_api;
+          if (params.all_pages) {
+            pages_fetched = (draftData.pages_fetched ?? 0) + (publishedData.pages_fetched ?? 0);
+            truncated = Boolean(draftData.truncated || publishedData.truncated);
+            // Drafts and published versions are merged, so the combined list can exceed max_items
+            if (params.max_items !== undefined && stories.length > params.max_items) {
+              stories = stories.slice(0, params.max_items);
+              truncated = true;
+            }
+          }
         } else {
           const singleVersionData = await fetchStoriesForVersion(params.content_status);
           stories = singleVersionData.stories_data || [];
           total_items_from_api = singleVersionData.total_from_api;
+          pages_fetched = singleVersionData.pages_fetched;
+          truncated = Boolean(singleVersionData.truncated);
         }
 
         let responseMetadata: Record<string, any> = {};
@@ -146,6 +185,10 @@ export function registerStoryTools(server: McpServer) {
           responseMetadata.current_page = params.page;
         }
         responseMetadata.per_page_requested = per_page_for_calc;
+        if (params.all_pages) {
+          responseMetadata.pages_fetched = pages_fetched;
+          responseMetadata.truncated = truncated;
+        }
 
         // Apply deep_filter
         if (params.deep_filter && Object.keys(params.deep_filter).length > 0) {
@@ -163,41 +206,19 @@ export function registerStoryTools(server: McpServer) {
         if (params.validate_schema) {
           const componentNameToValidate = params.validate_schema;
           responseMetadata.validated_schema_component_name = componentNameToValidate; // Renamed for clarity
-          const componentSchema = await getComponentSchemaByName(componentNameToValidate);
+          const lookupComponent = componentLookup(space);
+          const lookupDatasource = datasourceLookup(space);
 
-          if (!componentSchema) {
+          if (!(await lookupComponent(componentNameToValidate))) {
             responseMetadata.validation_schema_error = `Component schema for '${componentNameToValidate}' not found.`; // Renamed for consistency
           } else {
-            stories = stories.map((story: any) => {
+            stories = await Promise.all(stories.map(async (story: any) => {
               if (story.content?.component === componentNameToValidate) {
-                const validationResult: {
-                  isValid: boolean;
-                  errors: Array<{ field: string; type: string; message: string }>;
-                  missingFields: string[];
-                  extraneousFields: string[];
-                } = { isValid: true, errors: [], missingFields: [], extraneousFields: [] };
-
-                const schemaFields = componentSchema;
-                const contentFieldsToValidate = story.content || {};
-
-                for (const fieldName in schemaFields) {
-                  const fieldDef = schemaFields[fieldName] as any;
-                  if (fieldDef.required && contentFieldsToValidate[fieldName] === undefined) {
-                    validationResult.missingFields.push(fieldName);
-                    validationResult.errors.push({ field: fieldName, type: "missing_required", message: `Field '${fieldName}' is required.` });
-                  }
-                }
-                for (const contentFieldName in contentFieldsToValidate) {
-                  if (!schemaFields.hasOwnProperty(contentFieldName)) {
-                    validationResult.extraneousFields.push(contentFieldName);
-                    validationResult.errors.push({ field: contentFieldName, type: "extraneous_field", message: `Field '${contentFieldName}' not in schema.` });
-                  }
-                }
-                if (validationResult.errors.length > 0) validationResult.isValid = false;
-                return { ...story, validation: validationResult };
+                const { isValid, errors, missingFields, extraneousFields } = await validateStoryContent(story.content, componentNameToValidate, lookupComponent, lookupDatasource);
+                return { ...story, validation: { isValid, errors, missingFields, extraneousFields } };
               }
               return story; // No validation object if component doesn't match
-            });
+            }));
           }
         }
 
@@ -246,15 +267,7 @@ export function registerStoryTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -264,13 +277,14 @@ export function registerStoryTools(server: McpServer) {
     "get-story",
     "Gets a specific story by ID or slug",
     {
-      id: z.string().describe("Story ID or slug")
+      id: z.string().describe("Story ID or slug"),
+      space: spaceParam
     },
-    async ({ id }) => {
+    async ({ id, space }) => {
       try {
         const endpointPath = `/stories/${id}`;
-        const fullUrl = buildManagementUrl(endpointPath);
-        const response = await fetch(fullUrl, { headers: getManagementHeaders() });
+        const fullUrl = buildManagementUrl(endpointPath, space);
+        const response = await storyblokFetch(fullUrl, { headers: getManagementHeaders(space) });
         const data = await handleApiResponse(response, fullUrl);
         return {
           content: [
@@ -281,15 +295,7 @@ export function registerStoryTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -308,59 +314,40 @@ export function registerStoryTools(server: McpServer) {
       tag_list: z.array(z.string()).optional().describe("Array of tag names"),
       validate_before_create: z.boolean().optional().describe("Validate content against component schema before creation."),
       auto_publish: z.boolean().optional().default(false).describe("Publish the story immediately after successful creation."),
-      return_full_story: z.boolean().optional().default(false).describe("Return the full story object after creation (requires an additional fetch).")
+      return_full_story: z.boolean().optional().default(false).describe("Return the full story object after creation (requires an additional fetch)."),
+      space: spaceParam
     },
     async (params) => {
       const {
         name, slug, content, parent_id,
         is_folder = false, is_startpage = false, tag_list,
-        validate_before_create, auto_publish = false, return_full_story = false
+        validate_before_create, auto_publish = false, return_full_story = false, space
       } = params;
 
       try {
         // 1. Validate Before Create (if requested)
         if (validate_before_create) {
           if (!content || !content.component || typeof content.component !== 'string') {
-            return { isError: true, content: [{ type: "text", text: "Error: 'content.component' is required for validation." }] };
+            return createToolError("INVALID_INPUT", "'content.component' is required for validation.");
           }
           const componentName = content.component as string;
-          const componentSchema = await getComponentSchemaByName(componentName);
+          const lookupComponent = componentLookup(space);
 
-          if (!componentSchema) {
-            return { isError: true, content: [{ type: "text", text: `Error: Component schema for '${componentName}' not found for validation.` }] };
+          if (!(await lookupComponent(componentName))) {
+            return createToolError("NOT_FOUND", `Component schema for '${componentName}' not found for validation.`);
           }
 
-          const validationErrors: Array<{ field: string; type: "missing_required" | "extraneous_field"; message: string }> = [];
-          const validationMissingFields: string[] = [];
-          const validationExtraneousFields: string[] = [];
-
-          const schemaFields = componentSchema; // schema from getComponentSchemaByName is the actual schema definition
-          const contentFieldsToValidate = content; // The story content itself
-
-          for (const fieldName in schemaFields) {
-            const fieldDef = schemaFields[fieldName] as any;
-            if (fieldDef.required && contentFieldsToValidate[fieldName] === undefined) {
-              validationMissingFields.push(fieldName);
-              validationErrors.push({ field: fieldName, type: "missing_required", message: `Field '${fieldName}' is required.` });
-            }
-          }
-          for (const contentFieldName in contentFieldsToValidate) {
-            if (!schemaFields.hasOwnProperty(contentFieldName)) {
-              validationExtraneousFields.push(contentFieldName);
-              validationErrors.push({ field: contentFieldName, type: "extraneous_field", message: `Field '${contentFieldName}' not in schema.` });
-            }
-          }
-
-          if (validationErrors.length > 0) {
+          const validation = await validateStoryContent(content, componentName, lookupComponent, datasourceLookup(space));
+          if (!validation.isValid) {
             return {
               content: [{
                 type: "text",
                 text: JSON.stringify({
                   validationFailed: true,
                   isValid: false,
-                  errors: validationErrors,
-                  missingFields: validationMissingFields,
-                  extraneousFields: validationExtraneousFields,
+                  errors: validation.errors,
+                  missingFields: validation.missingFields,
+                  extraneousFields: validation.extraneousFields,
                   message: "Pre-creation validation failed."
                 }, null, 2)
               }]
@@ -374,10 +361,10 @@ export function registerStoryTools(server: McpServer) {
         };
 
         const createEndpointPath = '/stories';
-        const createFullUrl = buildManagementUrl(createEndpointPath);
-        const createResponse = await fetch(createFullUrl, {
+        const createFullUrl = buildManagementUrl(createEndpointPath, space);
+        const createResponse = await storyblokFetch(createFullUrl, {
           method: 'POST',
-          headers: getManagementHeaders(),
+          headers: getManagementHeaders(space),
           body: JSON.stringify(storyPayload)
         });
 
@@ -389,10 +376,10 @@ export function registerStoryTools(server: McpServer) {
         if (auto_publish && storyId) {
           try {
             const publishEndpointPath = `/stories/${storyId}/publish`;
-            const publishFullUrl = buildManagementUrl(publishEndpointPath);
-            const publishResponse = await fetch(publishFullUrl, {
+            const publishFullUrl = buildManagementUrl(publishEndpointPath, space);
+            const publishResponse = await storyblokFetch(publishFullUrl, {
               method: 'POST',
-              headers: getManagementHeaders(),
+              headers: getManagementHeaders(space),
             });
             await handleApiResponse(publishResponse, publishFullUrl); // Throws on error
             publishStatus = { success: true, message: "Story published successfully." };
@@ -406,8 +393,8 @@ export function registerStoryTools(server: McpServer) {
         if (return_full_story && storyId) {
           try {
             const getEndpointPath = `/stories/${storyId}`;
-            const getFullUrl = buildManagementUrl(getEndpointPath);
-            const getResponse = await fetch(getFullUrl, { headers: getManagementHeaders() });
+            const getFullUrl = buildManagementUrl(getEndpointPath, space);
+            const getResponse = await storyblokFetch(getFullUrl, { headers: getManagementHeaders(space) });
             finalData = await handleApiResponse(getResponse, getFullUrl);
           } catch (fetchError) {
             // If fetching the full story fails, we can still return the creation data, but add a note.
@@ -434,15 +421,7 @@ export function registerStoryTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -457,9 +436,10 @@ export function registerStoryTools(server: McpServer) {
       slug: z.string().optional().describe("Story slug"),
       content: z.record(z.unknown()).optional().describe("Story content object"),
       tag_list: z.array(z.string()).optional().describe("Array of tag names"),
-      publish: z.boolean().optional().describe("Whether to publish the story after updating")
+      publish: z.boolean().optional().describe("Whether to publish the story after updating"),
+      space: spaceParam
     },
-    async ({ id, name, slug, content, tag_list, publish = false }) => {
+    async ({ id, name, slug, content, tag_list, publish = false, space }) => {
       try {
         const updateData: Record<string, unknown> = {};
         if (name !== undefined) updateData.name = name;
@@ -470,10 +450,10 @@ export function registerStoryTools(server: McpServer) {
         const storyData = { story: updateData };
 
         const endpointPath = `/stories/${id}`;
-        const fullUrl = buildManagementUrl(endpointPath);
-        const response = await fetch(fullUrl, {
+        const fullUrl = buildManagementUrl(endpointPath, space);
+        const response = await storyblokFetch(fullUrl, {
             method: 'PUT',
-            headers: getManagementHeaders(),
+            headers: getManagementHeaders(space),
             body: JSON.stringify(storyData)
           }
         );
@@ -483,10 +463,10 @@ export function registerStoryTools(server: McpServer) {
         // Publish if requested
         if (publish) {
           const publishEndpointPath = `/stories/${id}/publish`;
-          const publishFullUrl = buildManagementUrl(publishEndpointPath);
-          const publishResponse = await fetch(publishFullUrl, {
+          const publishFullUrl = buildManagementUrl(publishEndpointPath, space);
+          const publishResponse = await storyblokFetch(publishFullUrl, {
               method: 'POST',
-              headers: getManagementHeaders()
+              headers: getManagementHeaders(space)
             }
           );
           await handleApiResponse(publishResponse, publishFullUrl);
@@ -501,15 +481,7 @@ export function registerStoryTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -519,15 +491,16 @@ export function registerStoryTools(server: McpServer) {
     "delete-story",
     "Deletes a story from Storyblok",
     {
-      id: z.string().describe("Story ID")
+      id: z.string().describe("Story ID"),
+      space: spaceParam
     },
-    async ({ id }) => {
+    async ({ id, space }) => {
       try {
         const endpointPath = `/stories/${id}`;
-        const fullUrl = buildManagementUrl(endpointPath);
-        const response = await fetch(fullUrl, {
+        const fullUrl = buildManagementUrl(endpointPath, space);
+        const response = await storyblokFetch(fullUrl, {
             method: 'DELETE',
-            headers: getManagementHeaders()
+            headers: getManagementHeaders(space)
           }
         );
 
@@ -541,15 +514,7 @@ export function registerStoryTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -559,15 +524,16 @@ export function registerStoryTools(server: McpServer) {
     "publish-story",
     "Publishes a story in Storyblok",
     {
-      id: z.string().describe("Story ID")
+      id: z.string().describe("Story ID"),
+      space: spaceParam
     },
-    async ({ id }) => {
+    async ({ id, space }) => {
       try {
         const endpointPath = `/stories/${id}/publish`;
-        const fullUrl = buildManagementUrl(endpointPath);
-        const response = await fetch(fullUrl, {
+        const fullUrl = buildManagementUrl(endpointPath, space);
+        const response = await storyblokFetch(fullUrl, {
             method: 'POST',
-            headers: getManagementHeaders()
+            headers: getManagementHeaders(space)
           }
         );
 
@@ -581,15 +547,7 @@ export function registerStoryTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -599,15 +557,16 @@ export function registerStoryTools(server: McpServer) {
     "unpublish-story",
     "Unpublishes a story in Storyblok",
     {
-      id: z.string().describe("Story ID")
+      id: z.string().describe("Story ID"),
+      space: spaceParam
     },
-    async ({ id }) => {
+    async ({ id, space }) => {
       try {
         const endpointPath = `/stories/${id}/unpublish`;
-        const fullUrl = buildManagementUrl(endpointPath);
-        const response = await fetch(fullUrl, {
+        const fullUrl = buildManagementUrl(endpointPath, space);
+        const response = await storyblokFetch(fullUrl, {
             method: 'POST',
-            headers: getManagementHeaders()
+            headers: getManagementHeaders(space)
           }
         );
 
@@ -621,15 +580,7 @@ export function registerStoryTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -639,13 +590,14 @@ export function registerStoryTools(server: McpServer) {
     "get-story-versions",
     "Gets all versions of a story",
     {
-      id: z.string().describe("Story ID")
+      id: z.string().describe("Story ID"),
+      space: spaceParam
     },
-    async ({ id }) => {
+    async ({ id, space }) => {
       try {
         const endpointPath = `/stories/${id}/versions`;
-        const fullUrl = buildManagementUrl(endpointPath);
-        const response = await fetch(fullUrl, { headers: getManagementHeaders() });
+        const fullUrl = buildManagementUrl(endpointPath, space);
+        const response = await storyblokFetch(fullUrl, { headers: getManagementHeaders(space) });
         const data = await handleApiResponse(response, fullUrl);
         return {
           content: [
@@ -656,15 +608,7 @@ export function registerStoryTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -675,15 +619,16 @@ export function registerStoryTools(server: McpServer) {
     "Restores a story to a specific version",
     {
       id: z.string().describe("Story ID"),
-      version_id: z.string().describe("Version ID to restore to")
+      version_id: z.string().describe("Version ID to restore to"),
+      space: spaceParam
     },
-    async ({ id, version_id }) => {
+    async ({ id, version_id, space }) => {
       try {
         const endpointPath = `/stories/${id}/restore/${version_id}`;
-        const fullUrl = buildManagementUrl(endpointPath);
-        const response = await fetch(fullUrl, {
+        const fullUrl = buildManagementUrl(endpointPath, space);
+        const response = await storyblokFetch(fullUrl, {
             method: 'POST',
-            headers: getManagementHeaders()
+            headers: getManagementHeaders(space)
           }
         );
 
@@ -697,15 +642,7 @@ export function registerStoryTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -713,33 +650,28 @@ export function registerStoryTools(server: McpServer) {
   // New Tool: validate-story-content
   server.tool(
     "validate-story-content",
-    "Validates a story's content against a component schema",
+    "Validates a story's content against a component schema, including every nested block against its own component",
     {
       story_id: z.string().optional().describe("Story ID (optional if content is provided directly)."),
       component_name: z.string().describe("The name of the component schema to validate against."),
       story_content: z.record(z.unknown()).optional().describe("Story content object to validate (fetched if not provided and story_id is)."),
-      space_id: z.string().optional().describe("Space ID, defaults to configured space. (Currently uses default space)")
+      space_id: z.string().optional().describe("Deprecated alias for 'space'."),
+      space: spaceParam
     },
-    async ({ story_id, component_name, story_content, space_id }: {
+    async ({ story_id, component_name, story_content, space_id, space }: {
       story_id?: string;
       component_name: string;
       story_content?: Record<string, unknown>;
       space_id?: string;
+      space?: string;
     }) => {
-      const errors: Array<{ field: string; type: "missing_required" | "extraneous_field" | "type_mismatch" | "general"; message: string }> = [];
-      const missingFields: string[] = [];
-      const extraneousFields: string[] = [];
-      let isValid = true;
+      space = space ?? space_id;
 
       try {
         // 1. Fetch Component Schema
-        // Note: The space_id from input isn't fully utilized yet by getComponentSchemaByName as it defaults to primary config.
-        const componentSchema = await getComponentSchemaByName(component_name, space_id);
-        if (!componentSchema) {
-          return {
-            isError: true,
-            content: [{ type: "text", text: `Error: Component schema for '${component_name}' not found.` }]
-          };
+        const lookupComponent = componentLookup(space);
+        if (!(await lookupComponent(component_name))) {
+          return createToolError("NOT_FOUND", `Component schema for '${component_name}' not found.`);
         }
 
         // 2. Fetch Story Content (if needed)
@@ -748,60 +680,25 @@ export function registerStoryTools(server: McpServer) {
           actualStoryContent = story_content;
         } else if (story_id) {
           const storyEndpointPath = `/stories/${story_id}`;
-          const storyFullUrl = buildManagementUrl(storyEndpointPath);
-          const storyResponse = await fetch(storyFullUrl, { headers: getManagementHeaders() });
+          const storyFullUrl = buildManagementUrl(storyEndpointPath, space);
+          const storyResponse = await storyblokFetch(storyFullUrl, { headers: getManagementHeaders(space) });
           const storyData = await handleApiResponse(storyResponse, storyFullUrl);
           // Assuming storyData is { story: { content: { ... } } }
           if (storyData && storyData.story && storyData.story.content) {
             actualStoryContent = storyData.story.content;
           } else {
-            return {
-              isError: true,
-              content: [{ type: "text", text: `Error: Could not fetch content for story_id '${story_id}'. Or content is not in expected format.` }]
-            };
+            return createToolError("INVALID_RESPONSE", `Could not fetch content for story_id '${story_id}'. Or content is not in expected format.`);
           }
         } else {
-          return {
-            isError: true,
-            content: [{ type: "text", text: "Validation failed: Either 'story_id' (to fetch the story) or 'story_content' (to validate directly) must be provided." }]
-          };
+          return createToolError("INVALID_INPUT", "Either 'story_id' (to fetch the story) or 'story_content' (to validate directly) must be provided.");
         }
 
         if (!actualStoryContent) { // Should be caught above, but as a safeguard
-           return { isError: true, content: [{ type: "text", text: "Error: Failed to obtain story content." }] };
+           return createToolError("INVALID_INPUT", "Failed to obtain story content.");
         }
 
-        // 3. Validate Content
-        // Storyblok component schemas have a 'schema' object where keys are field names.
-        // Each field definition can have a 'required: true' property.
-        const schemaFields = componentSchema; // componentSchema is the schema object itself
-
-        // Check for missing required fields
-        for (const fieldName in schemaFields) {
-          const fieldDef = schemaFields[fieldName] as any;
-          if (fieldDef.required && actualStoryContent[fieldName] === undefined) {
-            missingFields.push(fieldName);
-            errors.push({
-              field: fieldName,
-              type: "missing_required",
-              message: `Field '${fieldName}' is required but missing.`
-            });
-          }
-        }
-
-        // Check for extraneous fields in the content
-        for (const contentFieldName in actualStoryContent) {
-          if (!schemaFields.hasOwnProperty(contentFieldName)) {
-            extraneousFields.push(contentFieldName);
-            errors.push({
-              field: contentFieldName,
-              type: "extraneous_field",
-              message: `Field '${contentFieldName}' is present in content but not defined in component schema.`
-            });
-          }
-        }
-
-        isValid = errors.length === 0;
+        // 3. Validate Content, recursing into nested blocks
+        const { isValid, errors, missingFields, extraneousFields, validatedComponents } = await validateStoryContent(actualStoryContent, component_name, lookupComponent, datasourceLookup(space));
 
         return {
           content: [
@@ -813,6 +710,7 @@ export function registerStoryTools(server: McpServer) {
                 missingFields,
                 extraneousFields,
                 validatedComponentName: component_name,
+                validatedComponents,
                 storyIdProcessed: story_id || "N/A (content provided directly)"
               }, null, 2)
             }
@@ -820,10 +718,56 @@ export function registerStoryTools(server: McpServer) {
         };
 
       } catch (error) {
+        return toolErrorResult(error);
+      }
+    }
+  );
+
+  // Tool: scaffold-story-content
+  server.tool(
+    "scaffold-story-content",
+    "Builds skeleton content for a component, to fill in and pass to create-story: every schema field with a type-correct empty value or its default, generated _uids, and one placeholder block per component a bloks field allows. A component preset can fill in field values",
+    {
+      component_name: z.string().describe("Name of the root component, usually a content type such as 'page'"),
+      max_depth: z.number().int().min(0).optional().describe(`Levels of nested blocks to fill with placeholders (default: ${DEFAULT_SCAFFOLD_DEPTH})`),
+      preset: z.string().optional().describe("ID or name of a preset of the component whose field values fill the skeleton (see fetch-presets)"),
+      space: spaceParam
+    },
+    async ({ component_name, max_depth = DEFAULT_SCAFFOLD_DEPTH, preset, space }) => {
+      try {
+        const component = await getComponentByName(component_name, space);
+        if (!component?.schema) {
+          return createToolError("NOT_FOUND", `Component schema for '${component_name}' not found.`);
+        }
+        const foundPreset = preset !== undefined ? await getComponentPreset(component.id, preset, space) : null;
+        if (preset !== undefined && (!foundPreset || foundPreset.component_id !== component.id)) {
+          return createToolError("NOT_FOUND", `Component '${component_name}' has no preset '${preset}'.`);
+        }
+        let scaffold = await scaffoldStoryContent(
+          component_name,
+          (componentName) => getComponentSchemaByName(componentName, space),
+          { maxDepth: max_depth }
+        );
+        if (foundPreset) {
+          scaffold = applyScaffoldPreset(scaffold, foundPreset.preset ?? {});
+        }
+        const { content, requiredFields, notes } = scaffold;
         return {
-          isError: true,
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }]
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                component: component_name,
+                ...(foundPreset && { preset: { id: foundPreset.id, name: foundPreset.name } }),
+                content,
+                requiredFields,
+                notes
+              }, null, 2)
+            }
+          ]
         };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     }
   );
@@ -833,9 +777,10 @@ export function registerStoryTools(server: McpServer) {
     "debug-story-access",
     "Debugs access to a specific story by trying various fetch parameters.",
     {
-      story_id: z.string().describe("The ID of the story to debug.")
+      story_id: z.string().describe("The ID of the story to debug."),
+      space: spaceParam
     },
-    async ({ story_id }: { story_id: string }) => {
+    async ({ story_id, space }: { story_id: string, space?: string }) => {
       const apiCallAttempts: any[] = [];
       const issuesDetected: string[] = [];
       const suggestions: string[] = [];
@@ -860,11 +805,11 @@ export function registerStoryTools(server: McpServer) {
 
           const endpointPath = `/stories/${story_id}`;
           const queryString = urlParams.toString();
-          const fullUrl = buildManagementUrl(endpointPath) + (queryString ? `?${queryString}` : "");
+          const fullUrl = buildManagementUrl(endpointPath, space) + (queryString ? `?${queryString}` : "");
 
           attemptResult.requestUrl = fullUrl;
 
-          const response = await fetch(fullUrl, { headers: getManagementHeaders() });
+          const response = await storyblokFetch(fullUrl, { headers: getManagementHeaders(space) });
           const data = await handleApiResponse(response, fullUrl); // handleApiResponse throws on !response.ok
 
           attemptResult.status = response.status;
@@ -902,19 +847,11 @@ export function registerStoryTools(server: McpServer) {
           }
 
         } catch (error) {
-          attemptResult.status = "ERROR"; // Placeholder, real status is in parsedError.error
-          if (error instanceof Error && error.message.startsWith('{')) {
-            try {
-              const parsedError = JSON.parse(error.message);
-              attemptResult.errorDetails = parsedError;
-              if (parsedError.error) { // From our enhanced handler
-                   const statusMatch = parsedError.error.match(/^(\d{3})/);
-                   if (statusMatch) attemptResult.status = parseInt(statusMatch[1]);
-              }
-            } catch (parseErr) {
-              attemptResult.errorDetails = error.message;
-            }
+          if (error instanceof StoryblokApiError) {
+            attemptResult.status = error.status ?? "ERROR";
+            attemptResult.errorDetails = error.toJSON();
           } else {
+            attemptResult.status = "ERROR";
             attemptResult.errorDetails = error instanceof Error ? error.message : String(error);
           }
         }
@@ -979,28 +916,29 @@ export function registerStoryTools(server: McpServer) {
     "bulk-publish-stories",
     "Publishes multiple stories in Storyblok",
     {
-      story_ids: z.array(z.string()).min(1).describe("Array of Story IDs to publish.")
+      story_ids: z.array(z.string()).min(1).describe("Array of Story IDs to publish."),
+      space: spaceParam
     },
-    async ({ story_ids }: { story_ids: string[] }) => {
-      const results: Array<{ id: string, status: "success" | "error", data?: any, error?: string }> = [];
+    async ({ story_ids, space }: { story_ids: string[], space?: string }) => {
+      const results: Array<{ id: string, status: "success" | "error", data?: any, error?: Record<string, unknown> }> = [];
       let successful_operations = 0;
       let failed_operations = 0;
 
       for (const id of story_ids) {
         try {
           const endpointPath = `/stories/${id}/publish`;
-          const fullUrl = buildManagementUrl(endpointPath);
+          const fullUrl = buildManagementUrl(endpointPath, space);
 
-          const response = await fetch(fullUrl, {
+          const response = await storyblokFetch(fullUrl, {
             method: 'POST', // Publish is a POST request
-            headers: getManagementHeaders(),
+            headers: getManagementHeaders(space),
           });
 
           const data = await handleApiResponse(response, fullUrl); // Publish endpoint returns the published story object
           results.push({ id, status: "success", data });
           successful_operations++;
         } catch (error) {
-          results.push({ id, status: "error", error: error instanceof Error ? error.message : String(error) });
+          results.push({ id, status: "error", error: serializeError(error) });
           failed_operations++;
         }
       }
@@ -1024,28 +962,29 @@ export function registerStoryTools(server: McpServer) {
     "bulk-delete-stories",
     "Deletes multiple stories in Storyblok",
     {
-      story_ids: z.array(z.string()).min(1).describe("Array of Story IDs to delete.")
+      story_ids: z.array(z.string()).min(1).describe("Array of Story IDs to delete."),
+      space: spaceParam
     },
-    async ({ story_ids }: { story_ids: string[] }) => {
-      const results: Array<{ id: string, status: "success" | "error", error?: string }> = [];
+    async ({ story_ids, space }: { story_ids: string[], space?: string }) => {
+      const results: Array<{ id: string, status: "success" | "error", error?: Record<string, unknown> }> = [];
       let successful_operations = 0;
       let failed_operations = 0;
 
       for (const id of story_ids) {
         try {
           const endpointPath = `/stories/${id}`;
-          const fullUrl = buildManagementUrl(endpointPath);
+          const fullUrl = buildManagementUrl(endpointPath, space);
 
-          const response = await fetch(fullUrl, {
+          const response = await storyblokFetch(fullUrl, {
             method: 'DELETE',
-            headers: getManagementHeaders(),
+            headers: getManagementHeaders(space),
           });
 
           await handleApiResponse(response, fullUrl); // delete doesn't typically return content, but handleApiResponse checks response.ok
           results.push({ id, status: "success" });
           successful_operations++;
         } catch (error) {
-          results.push({ id, status: "error", error: error instanceof Error ? error.message : String(error) });
+          results.push({ id, status: "error", error: serializeError(error) });
           failed_operations++;
         }
       }
@@ -1081,10 +1020,11 @@ export function registerStoryTools(server: McpServer) {
           tag_list: z.array(z.string()).optional().describe("Array of tag names"),
           publish: z.boolean().optional().default(false).describe("Whether to publish the story after updating")
         })
-      ).min(1).describe("Array of story objects to update. Each object must have an 'id'.")
+      ).min(1).describe("Array of story objects to update. Each object must have an 'id'."),
+      space: spaceParam
     },
-    async ({ stories }: { stories: Array<any> }) => {
-      const results: Array<{ id: string, status: "success" | "error", data?: any, error?: string, published?: boolean }> = [];
+    async ({ stories, space }: { stories: Array<any>, space?: string }) => {
+      const results: Array<{ id: string, status: "success" | "error", data?: any, error?: Record<string, unknown>, published?: boolean }> = [];
       let successful_operations = 0;
       let failed_operations = 0;
 
@@ -1100,11 +1040,11 @@ export function registerStoryTools(server: McpServer) {
           });
 
           const endpointPath = `/stories/${id}`;
-          const fullUrl = buildManagementUrl(endpointPath);
+          const fullUrl = buildManagementUrl(endpointPath, space);
 
-          const response = await fetch(fullUrl, {
+          const response = await storyblokFetch(fullUrl, {
             method: 'PUT',
-            headers: getManagementHeaders(),
+            headers: getManagementHeaders(space),
             body: JSON.stringify({ story: storyPayload }), // Storyblok expects { story: { ... } }
           });
 
@@ -1114,10 +1054,10 @@ export function registerStoryTools(server: McpServer) {
           if (publish) {
             try {
               const publishEndpointPath = `/stories/${id}/publish`;
-              const publishFullUrl = buildManagementUrl(publishEndpointPath);
-              const publishResponse = await fetch(publishFullUrl, {
+              const publishFullUrl = buildManagementUrl(publishEndpointPath, space);
+              const publishResponse = await storyblokFetch(publishFullUrl, {
                 method: 'POST',
-                headers: getManagementHeaders(),
+                headers: getManagementHeaders(space),
               });
               await handleApiResponse(publishResponse, publishFullUrl);
               published = true;
@@ -1129,7 +1069,7 @@ export function registerStoryTools(server: McpServer) {
           results.push({ id, status: "success", data, published });
           successful_operations++;
         } catch (error) {
-          results.push({ id, status: "error", error: error instanceof Error ? error.message : String(error) });
+          results.push({ id, status: "error", error: serializeError(error) });
           failed_operations++;
         }
       }
@@ -1148,6 +1088,139 @@ export function registerStoryTools(server: McpServer) {
     }
   );
 
+  // Tool: run-content-migration
+  server.tool(
+    "run-content-migration",
+    "Applies declarative content transforms (rename_field, set_default, map_values, move_to_block, delete_field, rename_component) to every block of their component in every matching story, nested blocks included. Progress is saved, so a migration run in batches with max_stories, or interrupted, resumes where it stopped when called again with the same arguments",
+    {
+      transforms: z.array(z.discriminatedUnion("type", [
+        z.object({ type: z.literal("rename_field"), component: z.string(), from: z.string(), to: z.string() })
+          .describe("Moves a field's value, and its translations, to a new field name; skipped where the new field already has a value"),
+        z.object({ type: z.literal("set_default"), component: z.string(), field: z.string(), value: z.unknown() })
+          .describe("Sets a field to a value where it is empty"),
+        z.object({ type: z.literal("map_values"), component: z.string(), field: z.string(), values: z.record(z.unknown()) })
+          .describe("Replaces field values by the mapping from old to new value; option arrays are mapped item by item"),
+        z.object({ type: z.literal("move_to_block"), component: z.string(), fields: z.array(z.string()).min(1), target_field: z.string(), block_component: z.string() })
+          .describe("Moves fields into a new block of 'block_component', appended to the bloks field 'target_field'"),
+        z.object({ type: z.literal("delete_field"), component: z.string(), field: z.string() })
+          .describe("Removes a field and its translations"),
+        z.object({ type: z.literal("rename_component"), component: z.string(), to: z.string() })
+          .describe("Changes the component of the blocks; later transforms match them by the new name")
+      ])).min(1).describe("Transforms to apply in order; each applies to the blocks of its 'component'"),
+      starts_with: z.string().optional().describe("Only migrate stories whose full slug starts with this value"),
+      story_ids: z.array(z.number()).optional().describe("Only migrate these stories"),
+      publish: z.enum(["if_published", "never"]).optional().default("if_published").describe("'if_published' (default) republishes migrated stories that were published without pending changes; 'never' leaves the changes as drafts"),
+      max_stories: z.number().int().positive().optional().describe("Migrate at most this many stories in this call; call again with the same arguments to continue"),
+      migration_id: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/).optional().describe("Name under which progress is saved, up to 64 letters, digits, - or _ (default: derived from the transforms and filters)"),
+      restart: z.boolean().optional().default(false).describe("Forget saved progress and migrate every matching story again"),
+      space: spaceParam
+    },
+    async ({ transforms, starts_with, story_ids, publish, max_stories, migration_id, restart, space }) => {
+      try {
+        const migrationId = migration_id ?? migrationIdFor({ transforms, starts_with, story_ids, space });
+        // Dry runs neither read nor write progress, so they preview every remaining story
+        const dryRun = isDryRunActive();
+        if (restart && !dryRun) {
+          await resetMigrationProgress(migrationId);
+        }
+        const finished = dryRun ? new Set<number>() : await readMigrationProgress(migrationId);
+
+        const components = [...new Set(transforms.map(transform => transform.component))];
+        // Every matching story is listed: a page cap would leave the stories past it unmigrated, yet report the migration as completed
+        const { items: listed } = await collectPages((urlParams) => {
+          if (starts_with) urlParams.set('starts_with', starts_with);
+          if (story_ids) urlParams.set('by_ids', story_ids.join(','));
+          // Storyblok can only filter by a single component
+          if (components.length === 1) urlParams.set('contain_component', components[0]);
+          urlParams.set('story_only', '1');
+          return fetchListPage(`${buildManagementUrl('/stories', space)}?${urlParams.toString()}`, { headers: getManagementHeaders(space) }, 'stories');
+        }, { per_page: 100, max_pages: Number.POSITIVE_INFINITY });
+
+        const matching = listed.filter((story: any) => !story.is_folder).sort((a: any, b: any) => a.id - b.id);
+        const pending = matching.filter((story: any) => !finished.has(story.id));
+        const batch = max_stories ? pending.slice(0, max_stories) : pending;
+
+        const results: Array<{
+          id: number;
+          full_slug?: string;
+          status: "updated" | "unchanged" | "error";
+          changes?: TransformChange[];
+          published?: boolean;
+          publish_skipped?: string;
+          error?: Record<string, unknown>;
+        }> = [];
+        let updated = 0;
+        let unchanged = 0;
+        let failed = 0;
+
+        for (const { id, full_slug } of batch) {
+          try {
+            // The listed version has no content; the full story carries the draft content
+            const storyUrl = buildManagementUrl(`/stories/${id}`, space);
+            const current = await handleApiResponse(await storyblokFetch(storyUrl, { headers: getManagementHeaders(space) }), storyUrl);
+            const story = current?.story ?? {};
+            const { content, changes } = applyContentTransforms(story.content ?? {}, transforms as ContentTransform[]);
+
+            if (!changes.some(change => !change.skipped)) {
+              results.push({ id, full_slug, status: "unchanged", ...(changes.length > 0 && { changes }) });
+              unchanged++;
+              if (!dryRun) await recordMigrationProgress(migrationId, id, "unchanged");
+              continue;
+            }
+
+            const response = await storyblokFetch(storyUrl, {
+              method: 'PUT',
+              headers: getManagementHeaders(space),
+              body: JSON.stringify({ story: { content } }),
+            });
+            await handleApiResponse(response, storyUrl);
+
+            // Publishing would also release pending draft changes, so only stories without them are republished
+            let published = false;
+            let publish_skipped: string | undefined;
+            if (publish === "if_published" && story.published) {
+              if (story.unpublished_changes) {
+                publish_skipped = "The story has unpublished changes; publish it after reviewing them.";
+              } else {
+                const publishUrl = buildManagementUrl(`/stories/${id}/publish`, space);
+                await handleApiResponse(await storyblokFetch(publishUrl, { method: 'POST', headers: getManagementHeaders(space) }), publishUrl);
+                published = true;
+              }
+            }
+            results.push({ id, full_slug, status: "updated", changes, published, ...(publish_skipped && { publish_skipped }) });
+            updated++;
+            if (!dryRun) await recordMigrationProgress(migrationId, id, "updated");
+          } catch (error) {
+            results.push({ id, full_slug, status: "error", error: serializeError(error) });
+            failed++;
+            if (!dryRun) await recordMigrationProgress(migrationId, id, "error");
+          }
+        }
+
+        const remaining = pending.length - batch.length;
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              migration_id: migrationId,
+              matching_stories: matching.length,
+              previously_migrated: matching.length - pending.length,
+              total_processed: batch.length,
+              updated,
+              unchanged,
+              failed,
+              remaining,
+              completed: remaining === 0 && failed === 0,
+              results
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    }
+  );
+
   // Tool: bulk-create-stories
   server.tool(
     "bulk-create-stories",
@@ -1163,10 +1236,11 @@ export function registerStoryTools(server: McpServer) {
           is_startpage: z.boolean().optional().default(false).describe("Whether this is the startpage"),
           tag_list: z.array(z.string()).optional().describe("Array of tag names")
         })
-      ).min(1).describe("Array of story objects to create")
+      ).min(1).describe("Array of story objects to create"),
+      space: spaceParam
     },
-    async ({ stories }: { stories: Array<any> }) => {
-      const results: Array<{ input: any, id?: number, slug?: string, status: "success" | "error", data?: any, error?: string }> = [];
+    async ({ stories, space }: { stories: Array<any>, space?: string }) => {
+      const results: Array<{ input: any, id?: number, slug?: string, status: "success" | "error", data?: any, error?: Record<string, unknown> }> = [];
       let successful_operations = 0;
       let failed_operations = 0;
 
@@ -1174,11 +1248,11 @@ export function registerStoryTools(server: McpServer) {
         try {
           const storyPayload = { story: storyInput };
           const endpointPath = '/stories';
-          const fullUrl = buildManagementUrl(endpointPath);
+          const fullUrl = buildManagementUrl(endpointPath, space);
 
-          const response = await fetch(fullUrl, {
+          const response = await storyblokFetch(fullUrl, {
             method: 'POST',
-            headers: getManagementHeaders(),
+            headers: getManagementHeaders(space),
             body: JSON.stringify(storyPayload),
           });
 
@@ -1186,7 +1260,7 @@ export function registerStoryTools(server: McpServer) {
           results.push({ input: storyInput, id: data?.story?.id, slug: data?.story?.slug, status: "success", data });
           successful_operations++;
         } catch (error) {
-          results.push({ input: storyInput, slug: storyInput.slug, status: "error", error: error instanceof Error ? error.message : String(error) });
+          results.push({ input: storyInput, slug: storyInput.slug, status: "error", error: serializeError(error) });
           failed_operations++;
         }
       }
@@ -1218,6 +1292,7 @@ export function registerStoryTools(server: McpServer) {
       by_slugs: z.string().optional().describe("Filter by comma-separated story slugs (applied before component filtering)."),
       excluding_slugs: z.string().optional().describe("Exclude stories with these comma-separated slugs (applied before component filtering)."),
       sort_by: z.string().optional().describe("Sort field (e.g., 'created_at:desc', 'name:asc'). Applied by Storyblok API."),
+      space: spaceParam
     },
     async (params: {
       component_name: string;
@@ -1228,9 +1303,10 @@ export function registerStoryTools(server: McpServer) {
       by_slugs?: string;
       excluding_slugs?: string;
       sort_by?: string;
+      space?: string;
     }) => {
       try {
-        const { component_name, content_status = "both", ...otherApiParams } = params;
+        const { component_name, content_status = "both", space, ...otherApiParams } = params;
 
         // fetchStoriesForVersion for this tool
         const fetchStoriesForVersion = async (version?: "draft" | "published") => {
@@ -1245,8 +1321,8 @@ export function registerStoryTools(server: McpServer) {
             with_content: 1 // Always fetch content for component filtering
           });
 
-          const fullUrl = `${buildManagementUrl(endpointPath)}?${urlParams}`;
-          const apiResponse = await fetch(fullUrl, { headers: getManagementHeaders() });
+          const fullUrl = `${buildManagementUrl(endpointPath, space)}?${urlParams}`;
+          const apiResponse = await storyblokFetch(fullUrl, { headers: getManagementHeaders(space) });
           const responseJson = await handleApiResponse(apiResponse, fullUrl);
           return {
             stories_data: responseJson.stories || [],
@@ -1306,10 +1382,7 @@ export function registerStoryTools(server: McpServer) {
           content: [ { type: "text", text: JSON.stringify(finalResponseData, null, 2) } ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [ { type: "text", text: `Error in fetch-stories-by-component: ${error instanceof Error ? error.message : String(error)}` } ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -1325,7 +1398,8 @@ export function registerStoryTools(server: McpServer) {
       content_status: z.enum(["draft", "published", "both"]).optional().default("both").describe("Fetch draft, published, or both versions of stories."),
       deep_search_nested_components: z.boolean().optional().default(false).describe("If true, recursively search within nested components in arrays like 'body' or any field specified in 'fields_to_search' that resolves to an array/object of components."),
       page: z.number().optional().describe("Page number for pagination (default: 1)."),
-      per_page: z.number().optional().describe("Number of stories per page (default: 25, max: 100).")
+      per_page: z.number().optional().describe("Number of stories per page (default: 25, max: 100)."),
+      space: spaceParam
     },
     async (params: {
       query: string;
@@ -1335,6 +1409,7 @@ export function registerStoryTools(server: McpServer) {
       deep_search_nested_components?: boolean;
       page?: number;
       per_page?: number;
+      space?: string;
     }) => {
       const {
         query,
@@ -1343,7 +1418,8 @@ export function registerStoryTools(server: McpServer) {
         content_status = "both",
         deep_search_nested_components = false,
         page,
-        per_page
+        per_page,
+        space
       } = params;
 
       // getValueByPath is defined in fetch-stories, ensure it's accessible
@@ -1379,8 +1455,8 @@ export function registerStoryTools(server: McpServer) {
           content_type: apiContentType, // Use single content_type for API if applicable
           with_content: 1 // Always fetch content
         });
-        const fullUrl = `${buildManagementUrl(endpointPath)}?${urlParams}`;
-        const apiResponse = await fetch(fullUrl, { headers: getManagementHeaders() });
+        const fullUrl = `${buildManagementUrl(endpointPath, space)}?${urlParams}`;
+        const apiResponse = await storyblokFetch(fullUrl, { headers: getManagementHeaders(space) });
         const responseJson = await handleApiResponse(apiResponse, fullUrl);
         return {
           stories_data: responseJson.stories || [],
@@ -1499,3 +1575,21 @@ export function registerStoryTools(server: McpServer) {
     }
   );
 }
+
+// Looks up component definitions of a space for content validation
+function componentLookup(space?: string): ComponentLookup {
+  return (componentName) => getComponentByName(componentName, space) as Promise<ComponentDefinition | null>;
+}
+
+// Looks up the entry values of a space's datasources, for option fields sourced from one.
+// Each datasource is fetched once per lookup, however many stories are validated with it.
+function datasourceLookup(space?: string): DatasourceLookup {
+  const values = new Map<string, Promise<string[] | null>>();
+  return (datasourceSlug) => {
+    if (!values.has(datasourceSlug)) {
+      values.set(datasourceSlug, fetchDatasourceBySlug(datasourceSlug, space)
+        .then(found => found ? found.entries.map((entry: any) => String(entry.value)) : null));
+    }
+    return values.get(datasourceSlug)!;
+  };
+}
@@ -1,23 +1,28 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { 
+  storyblokFetch,
   handleApiResponse, 
   getManagementHeaders, 
   buildManagementUrl
 } from "../utils/api";
+import { toolErrorResult } from "../utils/errors";
+import { spaceParam } from './schemas';
 
 export function registerTagTools(server: McpServer) {
   // Fetch tags
   server.tool(
     "fetch-tags",
     "Fetches all tags from Storyblok space",
-    {},
-    async () => {
+    {
+      space: spaceParam
+    },
+    async ({ space }) => {
       try {
-        const endpoint = buildManagementUrl('/tags');
-        const response = await fetch(
+        const endpoint = buildManagementUrl('/tags', space);
+        const response = await storyblokFetch(
           endpoint,
-          { headers: getManagementHeaders() }
+          { headers: getManagementHeaders(space) }
         );
 
         const data = await handleApiResponse(response, endpoint);
@@ -30,15 +35,7 @@ export function registerTagTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -48,16 +45,17 @@ export function registerTagTools(server: McpServer) {
     "create-tag",
     "Creates a new tag in Storyblok",
     {
-      name: z.string().describe("Tag name")
+      name: z.string().describe("Tag name"),
+      space: spaceParam
     },
-    async ({ name }) => {
+    async ({ name, space }) => {
       try {
-        const endpoint = buildManagementUrl('/tags');
-        const response = await fetch(
+        const endpoint = buildManagementUrl('/tags', space);
+        const response = await storyblokFetch(
           endpoint,
           {
             method: 'POST',
-            headers: getManagementHeaders(),
+            headers: getManagementHeaders(space),
             body: JSON.stringify({ name })
           }
         );
@@ -72,15 +70,7 @@ export function registerTagTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -91,16 +81,17 @@ export function registerTagTools(server: McpServer) {
     "Create a new tag in your Storyblok space and add it to a story",
     {
       name: z.string().describe("The name of the tag to create"),
-      story_id: z.string().describe("The story id to add the tag to")
+      story_id: z.string().describe("The story id to add the tag to"),
+      space: spaceParam
     },
-    async ({ name, story_id }) => {
+    async ({ name, story_id, space }) => {
       try {
-        const endpoint = buildManagementUrl('/tags');
-        const response = await fetch(
+        const endpoint = buildManagementUrl('/tags', space);
+        const response = await storyblokFetch(
           endpoint,
           {
             method: 'POST',
-            headers: getManagementHeaders(),
+            headers: getManagementHeaders(space),
             body: JSON.stringify({ name, story_id })
           }
         );
@@ -115,15 +106,7 @@ export function registerTagTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
@@ -133,16 +116,17 @@ export function registerTagTools(server: McpServer) {
     "delete-tag",
     "Deletes a tag from Storyblok",
     {
-      id: z.string().describe("Tag ID")
+      id: z.string().describe("Tag ID"),
+      space: spaceParam
     },
-    async ({ id }) => {
+    async ({ id, space }) => {
       try {
-        const endpoint = buildManagementUrl(`/tags/${id}`);
-        const response = await fetch(
+        const endpoint = buildManagementUrl(`/tags/${id}`, space);
+        const response = await storyblokFetch(
           endpoint,
           {
             method: 'DELETE',
-            headers: getManagementHeaders()
+            headers: getManagementHeaders(space)
           }
         );
 
@@ -156,15 +140,7 @@ export function registerTagTools(server: McpServer) {
           ]
         };
       } catch (error) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     }
   );
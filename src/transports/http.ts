@@ -0,0 +1,226 @@
+/**
+ * @file src/transports/http.ts
+ * @description HTTP-based transports for the MCP Storyblok Server.
+ * Serves either Streamable HTTP (`/mcp`) or the legacy HTTP+SSE transport (`/sse` + `/messages`),
+ * creating a dedicated MCP server instance per client session.
+ */
+
+import { createServer as createHttpServer, IncomingMessage, ServerResponse, Server as HttpServer } from "node:http";
+import { randomUUID } from "node:crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { TransportConfig } from '../types/index';
+
+/**
+ * Request paths served by the HTTP transports.
+ *
+ * - `MCP`: Streamable HTTP endpoint (POST, GET and DELETE).
+ * - `SSE`: Legacy SSE stream endpoint (GET).
+ * - `MESSAGES`: Legacy SSE message endpoint (POST, with a `sessionId` query parameter).
+ * - `HEALTH`: Liveness probe for load balancers and container orchestrators.
+ */
+export const HTTP_PATHS = {
+  MCP: '/mcp',
+  SSE: '/sse',
+  MESSAGES: '/messages',
+  HEALTH: '/health'
+} as const;
+
+/** Upper bound for JSON-RPC request bodies, to protect the shared instance from oversized payloads. */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+}
+
+/**
+ * Handle to a running HTTP transport.
+ */
+export interface RunningHttpTransport {
+  httpServer: HttpServer;
+  /** The port actually bound, which differs from the configured one when port 0 is requested. */
+  port: number;
+  /** Number of currently open client sessions. */
+  sessionCount(): number;
+  /** Closes every open session and stops accepting connections. */
+  close(): Promise<void>;
+}
+
+class RequestBodyError extends Error {
+  constructor(message: string, public readonly status: number, public readonly rpcCode: number) {
+    super(message);
+  }
+}
+
+/**
+ * Reads and parses a JSON request body, enforcing MAX_BODY_BYTES.
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestBodyError(`Request body exceeds ${MAX_BODY_BYTES} bytes.`, 413, -32600);
+    }
+    chunks.push(chunk);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (raw.trim() === '') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new RequestBodyError('Parse error: request body is not valid JSON.', 400, -32700);
+  }
+}
+
+/**
+ * Writes a JSON-RPC error response that is not tied to a specific request ID.
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, code = -32000): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Starts an HTTP server exposing MCP over Streamable HTTP (`mode: "http"`) or legacy SSE (`mode: "sse"`).
+ *
+ * Each client session gets its own server from `serverFactory`, so several agents can share
+ * one process without interfering with each other's protocol state.
+ *
+ * @param {TransportConfig} config - The resolved transport configuration.
+ * @param {() => McpServer} serverFactory - Creates a fully registered MCP server for a new session.
+ * @returns {Promise<RunningHttpTransport>} A handle used to inspect and shut down the transport.
+ */
+export async function startHttpTransport(
+  config: TransportConfig,
+  serverFactory: () => McpServer
+): Promise<RunningHttpTransport> {
+  if (config.mode === 'stdio') {
+    throw new Error("startHttpTransport does not support the 'stdio' transport mode.");
+  }
+
+  const sessions = new Map<string, Session>();
+
+  const handleStreamableRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const headerValue = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(headerValue) ? headerValue[0] : headerValue;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+    if (existing) {
+      if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 400, `Session '${sessionId}' was not created with the Streamable HTTP transport.`);
+        return;
+      }
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (!sessionId && req.method === 'POST' && isInitializeRequest(body)) {
+      const server = serverFactory();
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, { transport, server });
+        }
+      });
+      // connect() takes over transport.onclose, so listen on the protocol layer instead.
+      server.server.onclose = () => {
+        if (transport.sessionId) {
+          sessions.delete(transport.sessionId);
+        }
+      };
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId) {
+      sendJsonRpcError(res, 404, `Session '${sessionId}' not found. It may have expired; re-initialize the connection.`, -32001);
+    } else {
+      sendJsonRpcError(res, 400, 'Bad Request: no valid session ID provided.');
+    }
+  };
+
+  const handleSseStream = async (res: ServerResponse) => {
+    const server = serverFactory();
+    const transport = new SSEServerTransport(HTTP_PATHS.MESSAGES, res);
+    sessions.set(transport.sessionId, { transport, server });
+    res.on('close', () => {
+      if (sessions.delete(transport.sessionId)) {
+        void server.close();
+      }
+    });
+    // connect() starts the transport, which writes the SSE headers and the endpoint event.
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const sessionId = url.searchParams.get('sessionId');
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, `Session '${sessionId ?? ''}' not found. Open a new stream at ${HTTP_PATHS.SSE}.`, -32001);
+      return;
+    }
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    try {
+      if (url.pathname === HTTP_PATHS.HEALTH && req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok', transport: config.mode, sessions: sessions.size }));
+      } else if (config.mode === 'http' && url.pathname === HTTP_PATHS.MCP) {
+        await handleStreamableRequest(req, res);
+      } else if (config.mode === 'sse' && url.pathname === HTTP_PATHS.SSE && req.method === 'GET') {
+        await handleSseStream(res);
+      } else if (config.mode === 'sse' && url.pathname === HTTP_PATHS.MESSAGES && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJsonRpcError(res, 404, `No MCP endpoint at ${req.method} ${url.pathname}.`);
+      }
+    } catch (error) {
+      if (error instanceof RequestBodyError) {
+        sendJsonRpcError(res, error.status, error.message, error.rpcCode);
+      } else {
+        sendJsonRpcError(res, 500, `Internal server error: ${error instanceof Error ? error.message : String(error)}`, -32603);
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address !== null ? address.port : config.port;
+
+  return {
+    httpServer,
+    port,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      const open = Array.from(sessions.values());
+      sessions.clear();
+      await Promise.allSettled(open.map(session => session.server.close()));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    }
+  };
+}
@@ -1,7 +1,45 @@
+/** Storyblok data-center regions, each with its own API hosts. */
+export type StoryblokRegion = "eu" | "us" | "ca" | "ap" | "cn";
+
+/** Base URLs of the Storyblok APIs for one region. */
+export interface StoryblokApiEndpoints {
+  MANAGEMENT: string;
+  CONTENT: string;
+}
+
+/**
+ * Credentials and settings for a single named Storyblok space.
+ */
+export interface StoryblokSpaceConfig {
+  /** Name used to select the space via the `space` tool argument. */
+  name: string;
+  spaceId: string;
+  managementToken: string;
+  publicToken: string;
+  /** Region the space is hosted in, configured explicitly or detected from the space ID. */
+  region: StoryblokRegion;
+}
+
+/**
+ * Server-wide Storyblok configuration.
+ * The top-level `spaceId`/`managementToken`/`publicToken` mirror the default space.
+ */
 export interface StoryblokConfig {
   spaceId: string;
   managementToken: string;
   publicToken: string;
+  /** Name of the space used when a tool call does not specify one. */
+  defaultSpace: string;
+  /** All configured spaces, keyed by name. */
+  spaces: Record<string, StoryblokSpaceConfig>;
+}
+
+/**
+ * Parameters accepted by every tool that talks to a Storyblok space.
+ */
+export interface SpaceScopedParams {
+  /** Name or numeric ID of a configured space. Defaults to the default space. */
+  space?: string;
 }
 
 export interface ApiResponse<T = unknown> {
@@ -49,6 +87,14 @@ export interface PaginationParams {
   per_page?: number;
 }
 
+/**
+ * Options of list tools that can walk every page of results.
+ */
+export interface AllPagesParams {
+  all_pages?: boolean;
+  max_items?: number;
+}
+
 export interface StoryFilterParams extends PaginationParams {
   starts_with?: string;
   by_slugs?: string;
@@ -72,6 +118,45 @@ export interface SearchParams extends PaginationParams {
   resolve_relations?: string;
 }
 
+/**
+ * Request context attached to every Storyblok API error.
+ */
+export interface StoryblokErrorContext {
+  endpoint: string;
+  spaceId?: string;
+  tokenPermissions: string;
+  requiredPermissions: string;
+  /** Permissions the operation needs that the token's role does not grant (401/403 errors only). */
+  missingPermissions?: string[];
+  suggestedFix: string;
+}
+
+/**
+ * What a space's management token may do, as discovered through token introspection.
+ */
+export interface TokenPermissionInfo {
+  /** Name of the configured space the token belongs to. */
+  space: string;
+  /** The user owning the token, from the current-user endpoint. */
+  user?: { id: number; email?: string };
+  /** Roles of the token's user in the space, e.g. "admin", "editor" or custom space role names. */
+  roles: string[];
+  /** Permissions granted by the token's space roles. */
+  permissions: string[];
+  isAdmin: boolean;
+  /** Set when the token could not be introspected; the other fields are then incomplete. */
+  error?: string;
+}
+
+/**
+ * A field-level validation message returned by Storyblok with a 422 response.
+ */
+export interface FieldValidationError {
+  /** The offending field, or "base" for messages not tied to a field. */
+  field: string;
+  messages: string[];
+}
+
 /**
  * Defines the standard structure for error responses from MCP tools.
  * This ensures consistency in how errors are reported to the client.
@@ -87,4 +172,261 @@ export interface McpToolErrorResponse {
   errorDetails?: string | object;
   /** Content to be displayed to the user, usually mirroring the error information. */
   content: Array<{ type: "text"; text: string }>;
+  /** Lets the response be returned directly from tool handlers, whose result type is open-ended. */
+  [key: string]: unknown;
+}
+
+/** Transports the server can be exposed over. */
+export type TransportMode = "stdio" | "http" | "sse";
+
+/**
+ * Runtime transport settings, resolved from CLI flags and environment variables.
+ * `host` and `port` are only used by the HTTP-based transports.
+ */
+export interface TransportConfig {
+  mode: TransportMode;
+  host: string;
+  port: number;
+}
+
+/** Which generated modules the `generate-types` CLI writes. */
+export type CodegenOutput = "typescript" | "zod" | "both";
+
+/**
+ * Settings of the `generate-types` CLI, resolved from CLI flags.
+ */
+export interface CodegenConfig {
+  /** Directory the generated modules are written to. */
+  outDir: string;
+  output: CodegenOutput;
+  /** Space to read the components from; the default space when unset. */
+  space?: string;
+  /** Module path the Zod module imports the interfaces from; next to it when unset. */
+  typesModule?: string;
+}
+
+/**
+ * Settings for the shared Storyblok HTTP client (throttling, retries and timeouts).
+ */
+export interface HttpClientConfig {
+  /** Sustained Management API requests per second, per token. */
+  managementRateLimit: number;
+  /** Sustained Content Delivery API requests per second, per token. */
+  contentRateLimit: number;
+  /** Retries for 429 and 5xx responses before giving up. */
+  maxRetries: number;
+  /** Time to wait for response headers before aborting an attempt. */
+  timeoutMs: number;
+  /** Base delay of the exponential backoff. */
+  retryBaseDelayMs: number;
+  /** Upper bound for a single backoff delay, including `Retry-After`. */
+  retryMaxDelayMs: number;
+  /** How long cacheable responses are reused; 0 disables the response cache. */
+  cacheTtlSeconds: number;
+  /** Most responses the cache holds before evicting the least recently used. */
+  cacheMaxEntries: number;
+}
+
+/** `read-only` skips every tool that can modify content; `full` registers all tools. */
+export type ToolPolicyMode = "full" | "read-only";
+
+/**
+ * Which tools the server exposes. Name patterns are globs (`*` matches any characters, `?` one).
+ * A tool is registered when it passes the mode, matches an allow list (if any is set) and matches no deny list.
+ */
+export interface ToolPolicyConfig {
+  mode: ToolPolicyMode;
+  allowTools: string[];
+  denyTools: string[];
+  allowCategories: string[];
+  denyCategories: string[];
+}
+
+/** One changed field in a dry-run diff; `path` uses dot notation with array indexes, e.g. `story.content.body[0].title`. */
+export interface FieldChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+/** A write request a dry run would have sent. */
+export interface PlannedRequest {
+  method: string;
+  url: string;
+  /** The request payload, parsed as JSON when possible. */
+  body?: unknown;
+  /** For PUT requests: the fields the payload would change on the current server state. */
+  diff?: FieldChange[];
+  /** Why the current state could not be loaded for the diff. */
+  diff_error?: string;
+}
+
+/**
+ * Settings of the two-phase confirmation protocol for destructive tools.
+ */
+export interface ConfirmationConfig {
+  /** Whether destructive tools need a confirmation token before they delete anything. */
+  required: boolean;
+  /** How long a confirmation token stays valid. */
+  ttlSeconds: number;
+}
+
+/** What a destructive tool call would delete, shown before it is confirmed. */
+export interface DeletionPreview {
+  /** The resource type from the request URL, e.g. "stories" or "components". */
+  type: string;
+  id: string;
+  /** False if the resource does not exist, e.g. because its ID was mistyped. */
+  exists: boolean;
+  name?: string;
+  slug?: string;
+  is_folder?: boolean;
+  /** Stories in a folder, assets in an asset folder, or components in a component group. */
+  child_count?: number;
+  /** Stories that reference or use the resource. */
+  inbound_references?: { total: number; examples: Array<{ id: number; name: string; full_slug?: string }> };
+  error?: string;
+}
+
+/**
+ * Settings of the local operation journal.
+ */
+export interface JournalConfig {
+  /** Whether mutating tool calls are journaled. */
+  enabled: boolean;
+  /** Path of the JSON-lines journal file. */
+  file: string;
+}
+
+/**
+ * Settings of content migrations run by `run-content-migration`.
+ */
+export interface MigrationConfig {
+  /** Directory of the progress files that let interrupted migrations resume. */
+  progressDir: string;
+}
+
+/** One line of a migration progress file: the outcome of migrating one story. */
+export interface MigrationProgressEntry {
+  story_id: number;
+  status: 'updated' | 'unchanged' | 'error';
+  timestamp: string;
+}
+
+/** A request that reverts one journaled change. */
+export interface InverseRequest {
+  method: string;
+  url: string;
+  body?: unknown;
+}
+
+/** One write request of a journaled operation, with the state it replaced. */
+export interface JournalChange {
+  method: string;
+  url: string;
+  /** The resource type from the request URL, e.g. "stories". */
+  type: string;
+  resource_id?: string;
+  /** Sub-resource action such as "publish" or "restore/123". */
+  action?: string;
+  /** The resource as it was before the request. */
+  before?: unknown;
+  /** Storyblok's response to the request. */
+  after?: unknown;
+  /** How to revert the change; absent if it cannot be reverted. */
+  inverse?: InverseRequest;
+  /** Caveats of the inverse, or why there is none. */
+  note?: string;
+}
+
+/** One line of the journal: a mutating tool call and the changes it made. */
+export interface JournalEntry {
+  id: string;
+  timestamp: string;
+  tool: string;
+  args: Record<string, unknown>;
+  changes: JournalChange[];
+  /** For undo operations: the ID of the entry they reverted. */
+  undoes?: string;
+}
+
+export type AuditSinkType = 'file' | 'stdout' | 'webhook';
+
+/**
+ * Settings of the tool invocation audit log.
+ */
+export interface AuditConfig {
+  /** Whether tool calls are audited. */
+  enabled: boolean;
+  /** Where audit records are written. */
+  sinks: AuditSinkType[];
+  /** Path of the JSON-lines audit file of the `file` sink. */
+  file: string;
+  /** URL the `webhook` sink posts each record to. */
+  webhookUrl?: string;
+  /** Records older than this many days are pruned from the file; 0 keeps them forever. */
+  retentionDays: number;
+  /** The file keeps at most this many records; 0 means no limit. */
+  maxEntries: number;
+}
+
+/** A Storyblok API request made during an audited tool call. */
+export interface AuditedRequest {
+  method: string;
+  /** The request URL, with token query parameters redacted. */
+  url: string;
+  status: number;
+}
+
+/** One audited tool invocation. */
+export interface AuditRecord {
+  id: string;
+  /** When the call started. */
+  timestamp: string;
+  tool: string;
+  category: string;
+  /** The call's arguments, with tokens and secrets redacted. */
+  args: Record<string, unknown>;
+  /** IDs and slugs named in the arguments. */
+  target_ids: string[];
+  duration_ms: number;
+  /** Status of the last Storyblok API response, if any request was made. */
+  http_status?: number;
+  requests: AuditedRequest[];
+  outcome: 'success' | 'error';
+  error_code?: string;
+  /** The start of the result text. */
+  summary: string;
+}
+
+/** Log levels, in increasing severity; the same as the MCP logging levels. */
+export type LogLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
+/**
+ * Settings of the Storyblok webhook receiver, which turns content changes into resource update notifications.
+ */
+export interface WebhookConfig {
+  /** Whether the receiver listens for webhooks; set by `STORYBLOK_WEBHOOK_PORT`. */
+  enabled: boolean;
+  host: string;
+  port: number;
+  /** Secret Storyblok signs webhook bodies with. */
+  secret?: string;
+  /** JSON-lines file of recorded webhook payloads to feed in instead of, or besides, live webhooks. */
+  replayFile?: string;
+  /** Pause before each replayed payload, giving clients time to subscribe. */
+  replayIntervalMs: number;
+}
+
+/** A Storyblok webhook payload, as posted by Storyblok. */
+export interface StoryblokWebhookPayload {
+  text?: string;
+  /** e.g. "published", "deleted" or "merged". */
+  action: string;
+  space_id: number;
+  story_id?: number;
+  full_slug?: string;
+  asset_id?: number;
+  release_id?: number;
+  [key: string]: unknown;
 }
@@ -1,6 +1,8 @@
 export const handleApiResponse = jest.fn();
+export const storyblokFetch = jest.fn((url, init?, options?) => fetch(url, init));
 export const getManagementHeaders = jest.fn(() => ({ 'Authorization': 'test-token' }));
-export const buildManagementUrl = jest.fn((path) => `https://api.storyblok.com/v1/spaces/00000${path}`);
+export const buildManagementUrl = jest.fn((path, space?) => `https://api.storyblok.com/v1/spaces/00000${path}`);
+export const getContentToken = jest.fn(() => 'test-public-token');
 export const createPaginationParams = jest.fn((page = 1, per_page = 25) => {
   const params = new URLSearchParams();
   if (page) params.append('page', page.toString());
@@ -14,3 +16,12 @@ export const addOptionalParams = jest.fn((urlParams, options) => {
     }
   });
 });
+export const fetchListPage = jest.fn(async (url, init, itemsKey) => {
+  const response = await storyblokFetch(url, init);
+  const data = await handleApiResponse(response, url);
+  return { items: data?.[itemsKey] ?? [], total: data?.total ?? null };
+});
+// The pagination loop itself has no I/O, so the real implementation runs against the mocked fetchers above
+export const paginate = jest.fn((...args) => jest.requireActual('../api').paginate(...args));
+export const collectPages = jest.fn((...args) => jest.requireActual('../api').collectPages(...args));
+export const DEFAULT_MAX_PAGES = 100;
@@ -0,0 +1,179 @@
+// src/utils/api.test.ts
+import { storyblokFetch, handleApiResponse, resetRateLimiters, TokenBucket, collectPages, fetchListPage, ListPage } from './api';
+
+global.fetch = jest.fn();
+
+describe('Storyblok HTTP client', () => {
+  const originalEnv = process.env;
+  const url = 'https://mapi.storyblok.com/v1/spaces/12345/stories';
+  const mockFetch = global.fetch as jest.Mock;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      STORYBLOK_MAPI_RATE_LIMIT: '1000',
+      STORYBLOK_RETRY_BASE_DELAY_MS: '1',
+      STORYBLOK_MAX_RETRIES: '3'
+    };
+    mockFetch.mockReset();
+    resetRateLimiters();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('storyblokFetch', () => {
+    it('should retry 429 responses until one succeeds', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response(null, { status: 429 }))
+        .mockResolvedValueOnce(new Response(null, { status: 429 }))
+        .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+      const response = await storyblokFetch(url, { method: 'POST' });
+
+      expect(response.status).toBe(200);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should wait at least as long as Retry-After', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'Retry-After': '0.1' } }))
+        .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+      const startedAt = Date.now();
+      await storyblokFetch(url);
+
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90);
+    });
+
+    it('should not retry before a Retry-After longer than the maximum delay', async () => {
+      process.env.STORYBLOK_RETRY_MAX_DELAY_MS = '50';
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'Retry-After': '60' } }));
+
+      const startedAt = Date.now();
+      const response = await storyblokFetch(url);
+
+      expect(response.status).toBe(429);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(Date.now() - startedAt).toBeLessThan(50);
+      await expect(handleApiResponse(response, url)).rejects.toMatchObject({ code: 'RATE_LIMITED', retryAfterSeconds: 60 });
+    });
+
+    it('should retry 5xx responses for idempotent methods only', async () => {
+      mockFetch.mockResolvedValue(new Response(null, { status: 503 }));
+
+      await storyblokFetch(url, { method: 'POST' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      mockFetch.mockClear();
+      mockFetch.mockImplementation(async () => new Response(null, { status: 503 }));
+      const response = await storyblokFetch(url, { method: 'PUT' });
+      expect(response.status).toBe(503);
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not retry client errors or honor retries: 0', async () => {
+      mockFetch.mockImplementation(async () => new Response(null, { status: 404 }));
+      await storyblokFetch(url);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      mockFetch.mockClear();
+      mockFetch.mockImplementation(async () => new Response(null, { status: 429 }));
+      await storyblokFetch(url, {}, { retries: 0 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort attempts that exceed the timeout', async () => {
+      mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(new Error('aborted')));
+      }));
+
+      await expect(storyblokFetch(url, {}, { timeoutMs: 20 })).rejects.toThrow(`Request to ${url} timed out after 20ms.`);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not reveal access tokens in network errors', async () => {
+      const deliveryUrl = 'https://api.storyblok.com/v2/cdn/stories?token=secret-token&version=draft';
+      mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(new Error('aborted')));
+      }));
+
+      const error = await storyblokFetch(deliveryUrl, {}, { timeoutMs: 20 }).catch(e => e);
+
+      expect(error.message).toBe('Request to https://api.storyblok.com/v2/cdn/stories?token=%5BREDACTED%5D&version=draft timed out after 20ms.');
+      expect(JSON.stringify(error.toJSON())).not.toContain('secret-token');
+    });
+
+    it('should pass network errors through without retrying', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('Network failure'));
+      await expect(storyblokFetch(url)).rejects.toThrow('Network failure');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('TokenBucket', () => {
+    it('should allow a burst up to its capacity and then throttle to the sustained rate', async () => {
+      const bucket = new TokenBucket(20, 2);
+
+      const startedAt = Date.now();
+      await Promise.all([bucket.take(), bucket.take()]);
+      expect(Date.now() - startedAt).toBeLessThan(40);
+
+      await Promise.all([bucket.take(), bucket.take()]);
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90);
+    });
+  });
+
+  describe('pagination', () => {
+    // Serves `total` numbered items, optionally without reporting the total
+    const pagesOf = (total: number, reportTotal = true) => jest.fn(async (params: URLSearchParams): Promise<ListPage<number>> => {
+      const page = Number(params.get('page'));
+      const perPage = Number(params.get('per_page'));
+      const items = Array.from({ length: total }, (_, i) => i + 1).slice((page - 1) * perPage, page * perPage);
+      return { items, total: reportTotal ? total : null };
+    });
+
+    it('should walk every page until the reported total is reached', async () => {
+      const fetchPage = pagesOf(250);
+      const result = await collectPages(fetchPage);
+
+      expect(fetchPage).toHaveBeenCalledTimes(3);
+      expect(result).toMatchObject({ total: 250, pages_fetched: 3, truncated: false });
+      expect(result.items).toHaveLength(250);
+    });
+
+    it('should stop on a short page when no total is reported', async () => {
+      const fetchPage = pagesOf(30, false);
+      const result = await collectPages(fetchPage, { per_page: 10 });
+
+      expect(fetchPage).toHaveBeenCalledTimes(4);
+      expect(result.items).toHaveLength(30);
+      expect(result.truncated).toBe(false);
+    });
+
+    it('should honor max_items and max_pages and report truncation', async () => {
+      const byItems = await collectPages(pagesOf(250), { max_items: 120 });
+      expect(byItems.items).toHaveLength(120);
+      expect(byItems).toMatchObject({ pages_fetched: 2, truncated: true });
+
+      const byPages = await collectPages(pagesOf(250), { per_page: 50, max_pages: 2 });
+      expect(byPages.items).toHaveLength(100);
+      expect(byPages.truncated).toBe(true);
+    });
+
+    it('should start at the requested page', async () => {
+      const result = await collectPages(pagesOf(250), { page: 2 });
+      expect(result.items[0]).toBe(101);
+      expect(result.items).toHaveLength(150);
+    });
+
+    it('should read the total from the response header before the body', async () => {
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({ stories: [{ id: 1 }], total: 1 }), { status: 200, headers: { Total: '42' } }));
+
+      const page = await fetchListPage(url, {}, 'stories');
+
+      expect(page).toEqual({ items: [{ id: 1 }], total: 42 });
+    });
+  });
+});
@@ -1,7 +1,223 @@
-import { config, API_ENDPOINTS } from '../config/index';
+import { config, getSpaceConfig, getApiEndpoints, getHttpClientConfig } from '../config/index';
+import type { HttpClientConfig, StoryblokErrorContext } from '../types/index';
+import { createApiError, StoryblokNetworkError } from './errors';
+import { describePermissionContext } from './permissions';
+import { isDryRunActive, recordDryRunWrite } from './dryRun';
+import { isJournalActive, recordJournaledWrite } from './journal';
+import { recordAuditedResponse } from './audit';
+import { fetchCached, invalidateCache } from './cache';
+import { logger } from './logger';
+import { redactSecrets, redactUrl } from './redact';
 
-// Helper function to handle API responses
-export async function handleApiResponse(response: Response, endpoint: string) { // Added endpoint parameter
+/**
+ * Per-request overrides for storyblokFetch.
+ */
+export interface StoryblokRequestOptions {
+  /** Retries for 429 and 5xx responses (default: STORYBLOK_MAX_RETRIES). */
+  retries?: number;
+  /** Time to wait for response headers before aborting an attempt (default: STORYBLOK_REQUEST_TIMEOUT_MS). */
+  timeoutMs?: number;
+  /** Answer GET requests from the response cache while fresh (default: false). */
+  cache?: boolean;
+}
+
+// Methods that are safe to repeat after a 5xx; a 429 means the request was not processed, so any method is retried then
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Token-bucket throttle: allows bursts up to `capacity` requests and a sustained `ratePerSecond`.
+ * Callers waiting for a token are served in arrival order.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly ratePerSecond: number, private readonly capacity = ratePerSecond) {
+    this.tokens = capacity;
+  }
+
+  take(): Promise<void> {
+    const turn = this.queue.then(() => this.acquire());
+    this.queue = turn;
+    return turn;
+  }
+
+  private async acquire(): Promise<void> {
+    this.refill();
+    if (this.tokens < 1) {
+      await sleep(((1 - this.tokens) / this.ratePerSecond) * 1000);
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+}
+
+// HTTP method of each response's request, so errors can name the permission the operation needed
+const requestMethods = new WeakMap<Response, string>();
+
+const httpLog = logger.child('http');
+
+// Storyblok applies rate limits per API and token, so each host/token pair gets its own bucket
+const rateLimiters = new Map<string, TokenBucket>();
+
+function getRateLimiter(url: URL, init: RequestInit, settings: HttpClientConfig): TokenBucket {
+  const isManagement = url.hostname.startsWith('mapi') || url.pathname.startsWith('/v1/');
+  const credential = new Headers(init.headers).get('Authorization') ?? url.searchParams.get('token') ?? '';
+  const key = `${url.host}|${credential}`;
+  let limiter = rateLimiters.get(key);
+  if (!limiter) {
+    limiter = new TokenBucket(isManagement ? settings.managementRateLimit : settings.contentRateLimit);
+    rateLimiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Clears all rate-limiter state. Intended for tests and configuration reloads.
+ */
+export function resetRateLimiters(): void {
+  rateLimiters.clear();
+}
+
+// Parses Retry-After, given either in seconds or as an HTTP date
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with jitter up to the maximum delay, never shorter than the server's Retry-After;
+// undefined if Retry-After asks for longer than the maximum, so the request is not retried early
+function computeRetryDelay(attempt: number, retryAfter: string | null | undefined, settings: HttpClientConfig): number | undefined {
+  const retryAfterMs = parseRetryAfter(retryAfter);
+  if (retryAfterMs !== undefined && retryAfterMs > settings.retryMaxDelayMs) {
+    return undefined;
+  }
+  const backoff = settings.retryBaseDelayMs * 2 ** attempt * (0.5 + Math.random() / 2);
+  return Math.max(Math.min(settings.retryMaxDelayMs, backoff), retryAfterMs ?? 0);
+}
+
+/**
+ * Shared HTTP client for every Storyblok API call.
+ *
+ * Throttles requests with a token bucket per API host and token, retries 429 responses
+ * (and 5xx responses of idempotent requests) with exponential backoff and jitter while
+ * honoring `Retry-After` in full (a response asking for longer than the maximum retry delay
+ * is returned without retrying), and aborts attempts that exceed the configured timeout.
+ * The final response is returned as-is, so callers still pass it to `handleApiResponse`.
+ * Inside a dry run (see `runDryRun`), writes are recorded and answered with a simulated response;
+ * inside a journaled operation (see `journalOperation`), they are journaled for undo.
+ * The status of the final response is added to the audit record of the current tool call.
+ * Every attempt is logged at `debug` level with its latency and redacted headers.
+ * GET requests with `options.cache` go through the response cache (see `fetchCached`);
+ * every successful write invalidates the cached responses of the resource type it touched.
+ *
+ * @param {string} url - The fully built request URL.
+ * @param {RequestInit} init - Standard fetch options.
+ * @param {StoryblokRequestOptions} options - Per-request retry and timeout overrides.
+ * @returns {Promise<Response>} The last response received.
+ * @throws {StoryblokNetworkError} If an attempt times out or the network request fails.
+ */
+export async function storyblokFetch(url: string, init: RequestInit = {}, options: StoryblokRequestOptions = {}): Promise<Response> {
+  const settings = getHttpClientConfig();
+  const retries = options.retries ?? settings.maxRetries;
+  const timeoutMs = options.timeoutMs ?? settings.timeoutMs;
+  const method = (init.method ?? 'GET').toUpperCase();
+
+  // Dry runs still read, so tools can resolve what they would change, but never write
+  if (method !== 'GET' && method !== 'HEAD' && isDryRunActive()) {
+    return recordDryRunWrite(url, init, method, () => storyblokFetch(url, { headers: init.headers }, options));
+  }
+
+  // Writes of journaled tool calls first read the state they replace, so undo-operation can restore it
+  if (method !== 'GET' && method !== 'HEAD' && isJournalActive()) {
+    return recordJournaledWrite(url, init, method, (sendUrl, sendInit) => storyblokFetch(sendUrl, sendInit, options));
+  }
+
+  if (options.cache && method === 'GET') {
+    const { response, hit } = await fetchCached(url, init, settings, sendUrl => storyblokFetch(sendUrl, init, { ...options, cache: false }));
+    if (hit) {
+      httpLog.debug('Storyblok cache hit', { method, url: redactUrl(url) });
+      requestMethods.set(response, method);
+      recordAuditedResponse(method, url, response.status);
+    }
+    return response;
+  }
+
+  const limiter = getRateLimiter(new URL(url), init, settings);
+
+  for (let attempt = 0; ; attempt++) {
+    await limiter.take();
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const started = Date.now();
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      httpLog.warning('Storyblok request failed', { method, url: redactUrl(url), attempt, duration_ms: Date.now() - started, error });
+      if (controller.signal.aborted) {
+        throw new StoryblokNetworkError(`Request to ${redactUrl(url)} timed out after ${timeoutMs}ms.`, redactUrl(url), error);
+      }
+      throw new StoryblokNetworkError(error instanceof Error ? error.message : String(error), redactUrl(url), error);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    httpLog.debug('Storyblok request', {
+      method,
+      url: redactUrl(url),
+      status: response.status,
+      duration_ms: Date.now() - started,
+      attempt,
+      headers: redactSecrets(Object.fromEntries(new Headers(init.headers)))
+    });
+    requestMethods.set(response, method);
+    const retryable = response.status === 429 || (response.status >= 500 && IDEMPOTENT_METHODS.has(method));
+    const canRetry = retryable && attempt < retries;
+    const delay = canRetry ? computeRetryDelay(attempt, response.headers?.get('Retry-After'), settings) : undefined;
+    if (canRetry && delay === undefined) {
+      httpLog.warning('Not retrying Storyblok request: Retry-After exceeds the maximum retry delay', {
+        method,
+        url: redactUrl(url),
+        status: response.status,
+        retry_after: response.headers.get('Retry-After'),
+        max_delay_ms: settings.retryMaxDelayMs
+      });
+    }
+    if (delay === undefined) {
+      recordAuditedResponse(method, url, response.status);
+      if (response.ok && method !== 'GET' && method !== 'HEAD') {
+        invalidateCache(url);
+      }
+      return response;
+    }
+
+    // Release the connection before waiting; the body of a failed attempt is never read
+    await response.body?.cancel().catch(() => undefined);
+    httpLog.warning('Retrying Storyblok request', { method, url: redactUrl(url), status: response.status, attempt, delay_ms: Math.round(delay) });
+    await sleep(delay);
+  }
+}
+
+// Helper function to handle API responses: returns the parsed body or throws a typed StoryblokApiError
+export async function handleApiResponse(response: Response, endpoint: string) {
   if (!response.ok) {
     const errorText = await response.text();
     // Attempt to parse errorText if it's JSON, otherwise use it as a string
@@ -23,29 +239,38 @@ export async function handleApiResponse(response: Response, endpoint: string) {
       case 404:
         suggestedFix = "The requested resource was not found. Please check the endpoint and resource ID.";
         break;
-      // Add more cases as needed
+      case 422:
+        suggestedFix = "Storyblok rejected the payload. Fix the fields listed in fieldErrors and retry.";
+        break;
+      case 429:
+        suggestedFix = "The rate limit is still exceeded after retrying. Wait before retrying or lower STORYBLOK_MAPI_RATE_LIMIT.";
+        break;
     }
 
-    const enhancedError = {
-      error: `${response.status} ${response.statusText}`,
-      details: errorDetails, // This could be the parsed JSON or the raw text
-      context: {
-        endpoint,
-        spaceId: config.spaceId, // Assuming config.spaceId is available
-        tokenPermissions: "unknown", // Placeholder
-        requiredPermissions: "unknown", // Placeholder
-        suggestedFix,
-      }
+    const context: StoryblokErrorContext = {
+      endpoint,
+      spaceId: endpoint.match(/\/spaces\/(\d+)/)?.[1] ?? config.spaceId,
+      tokenPermissions: "unknown",
+      requiredPermissions: "unknown",
+      suggestedFix,
     };
-    throw new Error(JSON.stringify(enhancedError)); // Throw the stringified JSON object
+    // Explain authorization failures of the Management API with the token's actual permissions
+    if ((response.status === 401 || response.status === 403) && /\/v1\/spaces\/\d+/.test(endpoint)) {
+      Object.assign(context, await describePermissionContext(requestMethods.get(response) ?? 'GET', endpoint));
+      if (context.missingPermissions?.length) {
+        context.suggestedFix = `The token lacks the '${context.missingPermissions.join("', '")}' permission required for this operation. Use a token of a user with that permission, or extend their space role.`;
+      }
+    }
+
+    throw createApiError(response.status, response.statusText, errorDetails, context, response.headers?.get('Retry-After'));
   }
   return response.json();
 }
 
-// Helper function to create management API headers
-export function getManagementHeaders() {
+// Helper function to create management API headers for a space (defaults to the default space)
+export function getManagementHeaders(space?: string) {
   return {
-    'Authorization': config.managementToken,
+    'Authorization': getSpaceConfig(space).managementToken,
     'Content-Type': 'application/json'
   };
 }
@@ -57,14 +282,19 @@ export function getContentHeaders() {
   };
 }
 
-// Helper function to build management API URL
-export function buildManagementUrl(endpoint: string): string {
-  return `${API_ENDPOINTS.MANAGEMENT}/spaces/${config.spaceId}${endpoint}`;
+// Helper function to get the public (Content Delivery API) token for a space
+export function getContentToken(space?: string): string {
+  return getSpaceConfig(space).publicToken;
+}
+
+// Helper function to build management API URL for a space, using the hosts of its region
+export function buildManagementUrl(endpoint: string, space?: string): string {
+  return `${getApiEndpoints(space).MANAGEMENT}/spaces/${getSpaceConfig(space).spaceId}${endpoint}`;
 }
 
-// Helper function to build content API URL
-export function buildContentUrl(endpoint: string): string {
-  return `${API_ENDPOINTS.CONTENT}/cdn${endpoint}`;
+// Helper function to build content API URL for a space's region (the space itself is selected by the token)
+export function buildContentUrl(endpoint: string, space?: string): string {
+  return `${getApiEndpoints(space).CONTENT}/cdn${endpoint}`;
 }
 
 // Helper function to create URL search params with pagination
@@ -75,6 +305,129 @@ export function createPaginationParams(page = 1, per_page = 25): URLSearchParams
   });
 }
 
+/**
+ * One page of a Storyblok list endpoint.
+ */
+export interface ListPage<T> {
+  items: T[];
+  /** Total number of items across all pages, or null if the API did not report it. */
+  total: number | null;
+}
+
+/**
+ * A page yielded by `paginate`, with its position in the walk.
+ */
+export interface PaginatedPage<T> extends ListPage<T> {
+  page: number;
+  /** Whether further pages exist beyond this one. */
+  has_more: boolean;
+}
+
+/**
+ * Bounds for walking a list endpoint.
+ */
+export interface PaginationOptions {
+  /** First page to fetch (default: 1). */
+  page?: number;
+  /** Items per page (default: 100, the API maximum). */
+  per_page?: number;
+  /** Stop once this many items have been collected. */
+  max_items?: number;
+  /** Stop after this many pages (default: DEFAULT_MAX_PAGES). */
+  max_pages?: number;
+}
+
+/**
+ * All items collected by `collectPages`.
+ */
+export interface CollectedPages<T> {
+  items: T[];
+  total: number | null;
+  pages_fetched: number;
+  /** True if items were left out because `max_items` or `max_pages` was reached. */
+  truncated: boolean;
+}
+
+/** Safety cap on pages fetched by a single paginated walk (10,000 items at 100 per page). */
+export const DEFAULT_MAX_PAGES = 100;
+
+/**
+ * Fetches one page of a list endpoint and reads the total item count,
+ * preferring the `Total` response header over a `total` field in the body.
+ *
+ * @param {string} url - The full URL of the page, including pagination parameters.
+ * @param {RequestInit} init - Fetch options such as headers.
+ * @param {string} itemsKey - Response property holding the list, e.g. `stories`.
+ * @param {StoryblokRequestOptions} options - Per-request overrides, e.g. `{ cache: true }`.
+ * @returns {Promise<ListPage<T>>} The page items and the reported total.
+ */
+export async function fetchListPage<T = any>(url: string, init: RequestInit, itemsKey: string, options: StoryblokRequestOptions = {}): Promise<ListPage<T>> {
+  const response = await storyblokFetch(url, init, options);
+  const data = await handleApiResponse(response, url);
+  const headerTotal = Number(response.headers?.get('total') ?? NaN);
+  const bodyTotal = Number(data?.total ?? NaN);
+  return {
+    items: data?.[itemsKey] ?? [],
+    total: Number.isFinite(headerTotal) ? headerTotal : Number.isFinite(bodyTotal) ? bodyTotal : null
+  };
+}
+
+/**
+ * Walks a paginated list endpoint, yielding one page at a time.
+ * Stops when the reported total is reached, a short or empty page is returned, or `max_pages` is hit.
+ *
+ * @param {(params: URLSearchParams, page: number) => Promise<ListPage<T>>} fetchPage - Fetches the page described by the given pagination parameters.
+ * @param {PaginationOptions} options - Start page, page size and page limit (`max_items` is applied by `collectPages`).
+ * @returns {AsyncGenerator<PaginatedPage<T>>} The pages in order.
+ */
+export async function* paginate<T>(
+  fetchPage: (params: URLSearchParams, page: number) => Promise<ListPage<T>>,
+  options: PaginationOptions = {}
+): AsyncGenerator<PaginatedPage<T>> {
+  const startPage = options.page ?? 1;
+  const perPage = Math.min(options.per_page ?? 100, 100);
+  const maxPages = options.max_pages ?? DEFAULT_MAX_PAGES;
+
+  for (let page = startPage; page < startPage + maxPages; page++) {
+    const { items, total } = await fetchPage(createPaginationParams(page, perPage), page);
+    const moreByTotal = total === null ? items.length >= perPage : page * perPage < total;
+    const has_more = items.length > 0 && moreByTotal;
+    yield { items, total, page, has_more };
+    if (!has_more) {
+      return;
+    }
+  }
+}
+
+/**
+ * Collects the items of every page of a list endpoint, up to `max_items` and `max_pages`.
+ *
+ * @param {(params: URLSearchParams, page: number) => Promise<ListPage<T>>} fetchPage - Fetches the page described by the given pagination parameters.
+ * @param {PaginationOptions} options - Start page, page size and limits.
+ * @returns {Promise<CollectedPages<T>>} The collected items and walk statistics.
+ */
+export async function collectPages<T>(
+  fetchPage: (params: URLSearchParams, page: number) => Promise<ListPage<T>>,
+  options: PaginationOptions = {}
+): Promise<CollectedPages<T>> {
+  const result: CollectedPages<T> = { items: [], total: null, pages_fetched: 0, truncated: false };
+
+  for await (const page of paginate(fetchPage, options)) {
+    result.items.push(...page.items);
+    result.total = page.total;
+    result.pages_fetched++;
+    result.truncated = page.has_more;
+
+    if (options.max_items !== undefined && result.items.length >= options.max_items) {
+      result.truncated = result.items.length > options.max_items || page.has_more;
+      result.items = result.items.slice(0, options.max_items);
+      break;
+    }
+  }
+
+  return result;
+}
+
 // Helper function to add optional parameters to URLSearchParams
 export function addOptionalParams(
   params: URLSearchParams,
@@ -0,0 +1,164 @@
+// src/utils/audit.test.ts
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { auditToolCall, createAuditSinks, FileAuditSink, flushAuditLog, readAuditLog, setAuditSinks, StdoutAuditSink, WebhookAuditSink } from './audit';
+import type { AuditSink } from './audit';
+import { logger } from './logger';
+import { redactSecrets } from './redact';
+import { storyblokFetch, resetRateLimiters } from './api';
+import type { AuditConfig, AuditRecord } from '../types/index';
+
+global.fetch = jest.fn();
+
+describe('Audit log', () => {
+  const mockFetch = global.fetch as jest.Mock;
+  const originalEnv = process.env;
+  let records: AuditRecord[];
+  const memorySink: AuditSink = { write: async record => { records.push(record); } };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, STORYBLOK_MAPI_RATE_LIMIT: '1000', STORYBLOK_CDA_RATE_LIMIT: '1000' };
+    records = [];
+    setAuditSinks([memorySink]);
+    mockFetch.mockReset();
+    resetRateLimiters();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+    setAuditSinks(undefined);
+  });
+
+  it('should record the call with redacted arguments, targets and requests', async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response('{"story":{}}'))
+      .mockResolvedValueOnce(new Response('{"story":{}}', { status: 201 }));
+
+    const result = await auditToolCall('update-story', 'stories', { id: '7', ids: [8, 9], confirmation_token: 'secret', content: { api_key: 'k', title: 'Hi' } }, async () => {
+      await storyblokFetch('https://api.storyblok.com/v2/cdn/stories/7?token=public&version=draft');
+      await storyblokFetch('https://mapi.storyblok.com/v1/spaces/1/stories/7', { method: 'PUT' });
+      return { content: [{ type: 'text', text: 'Story\n  updated' }] };
+    });
+    await flushAuditLog();
+
+    expect(result).toEqual({ content: [{ type: 'text', text: 'Story\n  updated' }] });
+    expect(records).toEqual([{
+      id: expect.stringMatching(/^aud_/),
+      timestamp: expect.any(String),
+      tool: 'update-story',
+      category: 'stories',
+      args: { id: '7', ids: [8, 9], confirmation_token: '[REDACTED]', content: { api_key: '[REDACTED]', title: 'Hi' } },
+      target_ids: ['7', '8', '9'],
+      duration_ms: expect.any(Number),
+      http_status: 201,
+      requests: [
+        { method: 'GET', url: 'https://api.storyblok.com/v2/cdn/stories/7?token=%5BREDACTED%5D&version=draft', status: 200 },
+        { method: 'PUT', url: 'https://mapi.storyblok.com/v1/spaces/1/stories/7', status: 201 }
+      ],
+      outcome: 'success',
+      summary: 'Story updated'
+    }]);
+  });
+
+  it('should record error results and thrown errors', async () => {
+    await auditToolCall('get-story', 'stories', {}, async () => ({ isError: true, errorCode: 'NOT_FOUND', errorMessage: 'No such story', content: [] }));
+    await expect(auditToolCall('ping', 'basic', {}, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await flushAuditLog();
+
+    expect(records.map(({ outcome, error_code, summary }) => ({ outcome, error_code, summary }))).toEqual([
+      { outcome: 'error', error_code: 'NOT_FOUND', summary: 'No such story' },
+      { outcome: 'error', error_code: 'UNCAUGHT_ERROR', summary: 'boom' }
+    ]);
+  });
+
+  it('should not fail the call when a sink fails', async () => {
+    const logError = jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+    setAuditSinks([{ write: async () => { throw new Error('disk full'); } }, memorySink]);
+
+    const result = await auditToolCall('ping', 'basic', {}, async () => ({ content: [] }));
+    await flushAuditLog();
+
+    expect(result).toEqual({ content: [] });
+    expect(records).toHaveLength(1);
+    expect(logError).toHaveBeenCalledWith('Failed to write audit record', { id: expect.stringMatching(/^aud_/), sink: 'Object', error: expect.any(Error) });
+    logError.mockRestore();
+  });
+
+  it('should fail a webhook delivery that does not respond in time', async () => {
+    const logError = jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+    mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+    }));
+    setAuditSinks([new WebhookAuditSink('https://example.com/hook', 20)]);
+
+    await auditToolCall('ping', 'basic', {}, async () => ({ content: [] }));
+    await flushAuditLog();
+
+    expect(logError).toHaveBeenCalledWith('Failed to write audit record', {
+      id: expect.stringMatching(/^aud_/),
+      sink: 'WebhookAuditSink',
+      error: new Error('Audit webhook https://example.com/hook did not respond within 20ms.')
+    });
+    logError.mockRestore();
+  });
+
+  it('should redact credentials at any depth', () => {
+    expect(redactSecrets([{ Authorization: 'x', nested: { password: 'p', name: 'n' } }])).toEqual([
+      { Authorization: '[REDACTED]', nested: { password: '[REDACTED]', name: 'n' } }
+    ]);
+  });
+
+  it('should create the configured sinks', () => {
+    const config: AuditConfig = { enabled: true, sinks: ['file', 'stdout', 'webhook'], file: '/tmp/audit.jsonl', webhookUrl: 'https://example.com/hook', retentionDays: 90, maxEntries: 0 };
+    const sinks = createAuditSinks(config);
+
+    expect(sinks.map(sink => sink.constructor)).toEqual([FileAuditSink, StdoutAuditSink, WebhookAuditSink]);
+    expect(createAuditSinks({ ...config, sinks: ['file'], enabled: false })).toEqual([]);
+  });
+
+  it('should only be searchable with a file sink', async () => {
+    expect(await readAuditLog()).toBeUndefined();
+  });
+
+  describe('FileAuditSink', () => {
+    const record = (id: string, timestamp: string) => ({ id, timestamp, tool: 'ping', category: 'basic', args: {}, target_ids: [], duration_ms: 1, requests: [], outcome: 'success', summary: '' }) as AuditRecord;
+    let file: string;
+
+    beforeEach(() => {
+      file = join(mkdtempSync(join(tmpdir(), 'audit-')), 'nested', 'audit.jsonl');
+    });
+
+    it('should append records and read them back, skipping unreadable lines', async () => {
+      const sink = new FileAuditSink(file);
+      await sink.write(record('aud_1', new Date().toISOString()));
+      writeFileSync(file, readFileSync(file, 'utf8') + 'not json\n');
+      await sink.write(record('aud_2', new Date().toISOString()));
+
+      expect((await sink.read()).map(r => r.id)).toEqual(['aud_1', 'aud_2']);
+    });
+
+    it('should prune records by age and count', async () => {
+      const now = Date.now();
+      const old = new Date(now - 10 * 24 * 60 * 60 * 1000).toISOString();
+      const recent = new Date(now - 60 * 1000).toISOString();
+      const sink = new FileAuditSink(file, 7, 2);
+      await new FileAuditSink(file).write(record('aud_old', old));
+      for (const id of ['aud_a', 'aud_b', 'aud_c']) {
+        await new FileAuditSink(file).write(record(id, recent));
+      }
+
+      expect(await sink.prune()).toBe(2);
+      expect((await sink.read()).map(r => r.id)).toEqual(['aud_b', 'aud_c']);
+      expect(await sink.prune()).toBe(0);
+    });
+
+    it('should prune on the first write', async () => {
+      const sink = new FileAuditSink(file, 1);
+      await new FileAuditSink(file).write(record('aud_old', '2000-01-01T00:00:00.000Z'));
+      await sink.write(record('aud_new', new Date().toISOString()));
+
+      expect((await sink.read()).map(r => r.id)).toEqual(['aud_new']);
+    });
+  });
+});
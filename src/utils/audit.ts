@@ -0,0 +1,310 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { getAuditConfig, getHttpClientConfig } from '../config/index';
+import type { AuditConfig, AuditedRequest, AuditRecord } from '../types/index';
+import { logger } from './logger';
+import { redactSecrets, redactUrl } from './redact';
+
+/**
+ * @file src/utils/audit.ts
+ * @description Audit log of tool invocations. The tool registry runs every call through
+ * `auditToolCall`, which records the (redacted) arguments, the Storyblok requests made,
+ * the duration and the outcome, and hands the record to the configured sinks.
+ */
+
+/** Receives every audit record. Sinks must not throw for a failed write; the log reports it. */
+export interface AuditSink {
+  write(record: AuditRecord): Promise<void>;
+}
+
+// Argument keys naming the resources a call targets, e.g. "id", "story_id", "ids" or "slug"
+const TARGET_KEY = /(^|_)(ids?|slugs?)$/i;
+
+const SUMMARY_LENGTH = 200;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// The Storyblok requests made by the tool call the current async call chain belongs to
+const auditedRequests = new AsyncLocalStorage<AuditedRequest[]>();
+
+function collectTargetIds(args: Record<string, unknown>): string[] {
+  const ids = Object.entries(args)
+    .filter(([key]) => TARGET_KEY.test(key))
+    .flatMap(([, value]) => Array.isArray(value) ? value : [value])
+    .filter(value => typeof value === 'string' || typeof value === 'number')
+    .map(String);
+  return [...new Set(ids)];
+}
+
+type ToolResult = { isError?: boolean; errorCode?: string; errorMessage?: string; content?: unknown[] } | undefined;
+
+function summarizeResult(result: ToolResult): string {
+  const firstText = (result?.content as Array<{ type?: string; text?: string }> | undefined)?.find(item => item.type === 'text')?.text;
+  const text = (result?.isError && result.errorMessage) || firstText || '';
+  const flattened = text.replace(/\s+/g, ' ').trim();
+  return flattened.length > SUMMARY_LENGTH ? `${flattened.slice(0, SUMMARY_LENGTH - 1)}…` : flattened;
+}
+
+/**
+ * Records the response to a Storyblok request of the audited tool call, if any.
+ * Called by storyblokFetch for the final attempt of every request.
+ *
+ * @param {string} method - The upper-case HTTP method.
+ * @param {string} url - The request URL.
+ * @param {number} status - The response status.
+ */
+export function recordAuditedResponse(method: string, url: string, status: number): void {
+  auditedRequests.getStore()?.push({ method, url: redactUrl(url), status });
+}
+
+/**
+ * Appends audit records to a JSON-lines file and prunes it according to the retention policy.
+ * Writes and prunes are queued, so a prune never drops a record appended meanwhile.
+ */
+export class FileAuditSink implements AuditSink {
+  private queue: Promise<void> = Promise.resolve();
+  private lastPruned = 0;
+
+  /**
+   * @param {string} file - Path of the audit file.
+   * @param {number} retentionDays - Records older than this are pruned; 0 keeps them forever.
+   * @param {number} maxEntries - Most records to keep; 0 means no limit.
+   */
+  constructor(
+    readonly file: string,
+    private readonly retentionDays = 0,
+    private readonly maxEntries = 0
+  ) {}
+
+  write(record: AuditRecord): Promise<void> {
+    return this.enqueue(async () => {
+      await mkdir(dirname(this.file), { recursive: true });
+      await appendFile(this.file, JSON.stringify(record) + '\n', 'utf8');
+      if (Date.now() - this.lastPruned >= PRUNE_INTERVAL_MS) {
+        await this.pruneNow();
+      }
+    });
+  }
+
+  /**
+   * Reads every record, oldest first. Unreadable lines are skipped.
+   *
+   * @returns {Promise<AuditRecord[]>} The records; empty if nothing was audited yet.
+   */
+  read(): Promise<AuditRecord[]> {
+    return this.enqueue(() => this.readNow());
+  }
+
+  /**
+   * Removes the records the retention policy no longer keeps.
+   *
+   * @returns {Promise<number>} The number of removed records.
+   */
+  prune(): Promise<number> {
+    return this.enqueue(() => this.pruneNow());
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  private async readNow(): Promise<AuditRecord[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    return raw.split('\n').flatMap(line => {
+      try {
+        return line.trim() ? [JSON.parse(line) as AuditRecord] : [];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  private async pruneNow(): Promise<number> {
+    this.lastPruned = Date.now();
+    const records = await this.readNow();
+    const cutoff = this.retentionDays > 0 ? this.lastPruned - this.retentionDays * 24 * 60 * 60 * 1000 : -Infinity;
+    let kept = records.filter(record => Date.parse(record.timestamp) >= cutoff);
+    if (this.maxEntries > 0 && kept.length > this.maxEntries) {
+      kept = kept.slice(kept.length - this.maxEntries);
+    }
+    if (kept.length === records.length) {
+      return 0;
+    }
+    // Replace the file in one step so a crash mid-write cannot truncate the log
+    const temporary = `${this.file}.${process.pid}.tmp`;
+    await writeFile(temporary, kept.map(record => JSON.stringify(record) + '\n').join(''), 'utf8');
+    await rename(temporary, this.file);
+    return records.length - kept.length;
+  }
+}
+
+/**
+ * Writes each audit record as one JSON line to stdout, for log collectors.
+ * Only usable with the HTTP transports: over stdio, stdout carries the MCP protocol.
+ */
+export class StdoutAuditSink implements AuditSink {
+  async write(record: AuditRecord): Promise<void> {
+    process.stdout.write(JSON.stringify(record) + '\n');
+  }
+}
+
+/**
+ * Posts each audit record as JSON to a webhook. A delivery that takes longer than the
+ * timeout is aborted and fails, so a hanging endpoint cannot hold up `flushAuditLog`.
+ */
+export class WebhookAuditSink implements AuditSink {
+  /**
+   * @param {string} url - The webhook URL.
+   * @param {number} timeoutMs - How long a delivery may take (default: the HTTP client's timeout).
+   */
+  constructor(readonly url: string, readonly timeoutMs: number = getHttpClientConfig().timeoutMs) {}
+
+  async write(record: AuditRecord): Promise<void> {
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(record),
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+    } catch (error) {
+      if ((error as Error)?.name === 'TimeoutError') {
+        throw new Error(`Audit webhook ${this.url} did not respond within ${this.timeoutMs}ms.`);
+      }
+      throw error;
+    }
+    if (!response.ok) {
+      throw new Error(`Audit webhook ${this.url} responded with HTTP ${response.status}.`);
+    }
+  }
+}
+
+/**
+ * Creates the sinks an audit configuration names.
+ *
+ * @param {AuditConfig} config - The audit settings.
+ * @returns {AuditSink[]} The sinks; empty if auditing is disabled.
+ */
+export function createAuditSinks(config: AuditConfig): AuditSink[] {
+  if (!config.enabled) {
+    return [];
+  }
+  return config.sinks.map(type => {
+    switch (type) {
+      case 'file':
+        return new FileAuditSink(config.file, config.retentionDays, config.maxEntries);
+      case 'stdout':
+        return new StdoutAuditSink();
+      case 'webhook':
+        return new WebhookAuditSink(config.webhookUrl!);
+    }
+  });
+}
+
+// Shared by every server instance; created from the environment on first use
+let sinks: AuditSink[] | undefined;
+const pendingWrites = new Set<Promise<void>>();
+
+function getAuditSinks(): AuditSink[] {
+  sinks ??= createAuditSinks(getAuditConfig());
+  return sinks;
+}
+
+/**
+ * Replaces the audit sinks, e.g. with a custom sink. Pass `undefined` to recreate them
+ * from the environment on next use.
+ *
+ * @param {AuditSink[] | undefined} replacement - The sinks to write to.
+ */
+export function setAuditSinks(replacement: AuditSink[] | undefined): void {
+  sinks = replacement;
+}
+
+/**
+ * Waits until every audit record handed to the sinks so far has been written.
+ */
+export async function flushAuditLog(): Promise<void> {
+  await Promise.all([...pendingWrites]);
+}
+
+/**
+ * Reads the audit log back from the file sink.
+ *
+ * @returns {Promise<AuditRecord[] | undefined>} The records, oldest first; undefined without a file sink.
+ */
+export async function readAuditLog(): Promise<AuditRecord[] | undefined> {
+  const fileSink = getAuditSinks().find((sink): sink is FileAuditSink => sink instanceof FileAuditSink);
+  if (!fileSink) {
+    return undefined;
+  }
+  await flushAuditLog();
+  return fileSink.read();
+}
+
+function dispatch(record: AuditRecord): void {
+  for (const sink of getAuditSinks()) {
+    // Audit failures are reported but never fail or delay the tool call
+    const write = sink.write(record)
+      .catch(error => logger.error('Failed to write audit record', { id: record.id, sink: sink.constructor.name, error }))
+      .finally(() => pendingWrites.delete(write));
+    pendingWrites.add(write);
+  }
+}
+
+/**
+ * Runs a tool call and audits it.
+ *
+ * @param {string} tool - The tool name.
+ * @param {string} category - The tool's category.
+ * @param {Record<string, unknown>} args - The call's arguments.
+ * @param {() => Promise<T>} run - Runs the tool's handler.
+ * @returns {Promise<T>} The handler's result.
+ */
+export async function auditToolCall<T extends ToolResult>(
+  tool: string,
+  category: string,
+  args: Record<string, unknown>,
+  run: () => Promise<T>
+): Promise<T> {
+  if (getAuditSinks().length === 0) {
+    return run();
+  }
+
+  const started = Date.now();
+  const requests: AuditedRequest[] = [];
+  const record = (outcome: Pick<AuditRecord, 'outcome' | 'error_code' | 'summary'>) => dispatch({
+    id: `aud_${started.toString(36)}_${randomBytes(3).toString('hex')}`,
+    timestamp: new Date(started).toISOString(),
+    tool,
+    category,
+    args: redactSecrets(args) as Record<string, unknown>,
+    target_ids: collectTargetIds(args),
+    duration_ms: Date.now() - started,
+    ...(requests.length > 0 && { http_status: requests[requests.length - 1].status }),
+    requests,
+    ...outcome
+  });
+
+  try {
+    const result = await auditedRequests.run(requests, run);
+    record(result?.isError
+      ? { outcome: 'error', ...(result.errorCode && { error_code: result.errorCode }), summary: summarizeResult(result) }
+      : { outcome: 'success', summary: summarizeResult(result) });
+    return result;
+  } catch (error) {
+    record({ outcome: 'error', error_code: 'UNCAUGHT_ERROR', summary: summarizeResult({ isError: true, errorMessage: error instanceof Error ? error.message : String(error) }) });
+    throw error;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * @file src/utils/blocks.ts
+ * @description Walks story content recursively to find the blocks of a component, however deeply
+ * they are nested in `bloks` fields, rich text or plugin values.
+ */
+
+export interface BlockMatch {
+  /** JSON path of the block within the content, e.g. `body[2].columns[0]`; empty for the content itself. */
+  path: string;
+  block: Record<string, any>;
+}
+
+/**
+ * Finds every block of a component in story content, in document order.
+ * Blocks nested inside a matching block are found as well.
+ *
+ * @param {unknown} content - The story content, or any value within it.
+ * @param {string} componentName - The component to look for.
+ * @returns {BlockMatch[]} The matching blocks, which are the content's own objects.
+ */
+export function findComponentBlocks(content: unknown, componentName: string): BlockMatch[] {
+  const matches: BlockMatch[] = [];
+  const walk = (value: unknown, path: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => walk(item, `${path}[${index}]`));
+      return;
+    }
+    if (typeof value === 'object' && value !== null) {
+      const block = value as Record<string, any>;
+      if (block.component === componentName) {
+        matches.push({ path, block });
+      }
+      for (const [key, child] of Object.entries(block)) {
+        walk(child, path ? `${path}.${key}` : key);
+      }
+    }
+  };
+  walk(content, '');
+  return matches;
+}
+
+/**
+ * Finds the block with the given `_uid` in story content.
+ *
+ * @param {unknown} content - The story content, or any value within it.
+ * @param {string} uid - The block's `_uid`.
+ * @returns {BlockMatch | null} The block, which is the content's own object, or null if there is none.
+ */
+export function findBlockByUid(content: unknown, uid: string): BlockMatch | null {
+  const walk = (value: unknown, path: string): BlockMatch | null => {
+    if (Array.isArray(value)) {
+      for (const [index, item] of value.entries()) {
+        const found = walk(item, `${path}[${index}]`);
+        if (found) {
+          return found;
+        }
+      }
+      return null;
+    }
+    if (typeof value === 'object' && value !== null) {
+      const block = value as Record<string, any>;
+      if (block._uid === uid) {
+        return { path, block };
+      }
+      for (const [key, child] of Object.entries(block)) {
+        const found = walk(child, path ? `${path}.${key}` : key);
+        if (found) {
+          return found;
+        }
+      }
+    }
+    return null;
+  };
+  return walk(content, '');
+}
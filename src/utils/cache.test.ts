@@ -0,0 +1,114 @@
+// src/utils/cache.test.ts
+import { storyblokFetch, resetRateLimiters } from './api';
+import { resetResponseCache } from './cache';
+
+global.fetch = jest.fn();
+
+describe('Response cache', () => {
+  const mockFetch = global.fetch as jest.Mock;
+  const originalEnv = process.env;
+  const mapi = 'https://mapi.storyblok.com/v1/spaces';
+  const cdn = 'https://api.storyblok.com/v2/cdn';
+  const auth = (token: string) => ({ headers: { Authorization: token } });
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+  const get = async (url: string, init: RequestInit = auth('mgmt')) => (await storyblokFetch(url, init, { cache: true })).json();
+  const requestedUrls = () => mockFetch.mock.calls.map(([url]) => url);
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, STORYBLOK_MAPI_RATE_LIMIT: '1000', STORYBLOK_CDA_RATE_LIMIT: '1000', STORYBLOK_MAX_RETRIES: '0' };
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async (url: string) => json({ url }));
+    resetRateLimiters();
+    resetResponseCache();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should answer repeated requests from the cache, keyed on URL and token', async () => {
+    expect(await get(`${mapi}/1/components`)).toEqual({ url: `${mapi}/1/components` });
+    expect(await get(`${mapi}/1/components`)).toEqual({ url: `${mapi}/1/components` });
+    await get(`${mapi}/1/components`, auth('other-token'));
+    await storyblokFetch(`${mapi}/1/components`, auth('mgmt'));
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should expire entries after the TTL', async () => {
+    process.env.STORYBLOK_CACHE_TTL_SECONDS = '10';
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    await get(`${mapi}/1/components`);
+    now.mockReturnValue(1_009_000);
+    await get(`${mapi}/1/components`);
+    now.mockReturnValue(1_011_000);
+    await get(`${mapi}/1/components`);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should evict the least recently used entry when full', async () => {
+    process.env.STORYBLOK_CACHE_MAX_ENTRIES = '2';
+    await get(`${mapi}/1/components`);
+    await get(`${mapi}/1/stories`);
+    await get(`${mapi}/1/components`);
+    await get(`${mapi}/1/tags`);
+    await get(`${mapi}/1/components`);
+    await get(`${mapi}/1/stories`);
+
+    expect(requestedUrls()).toEqual([`${mapi}/1/components`, `${mapi}/1/stories`, `${mapi}/1/tags`, `${mapi}/1/stories`]);
+  });
+
+  it('should not cache failed responses or anything when the TTL is 0', async () => {
+    mockFetch.mockResolvedValueOnce(json({}, 404));
+    await storyblokFetch(`${mapi}/1/components`, auth('mgmt'), { cache: true });
+    await get(`${mapi}/1/components`);
+    process.env.STORYBLOK_CACHE_TTL_SECONDS = '0';
+    await get(`${mapi}/1/components`);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should drop cached responses of the written resource type in the same space', async () => {
+    await get(`${mapi}/1/components`);
+    await get(`${mapi}/2/components`);
+    await get(`${mapi}/1/stories`);
+    mockFetch.mockResolvedValueOnce(json({}, 422));
+    await storyblokFetch(`${mapi}/1/components/5`, { method: 'PUT', ...auth('mgmt') });
+    await get(`${mapi}/1/components`);
+    await storyblokFetch(`${mapi}/1/components/5`, { method: 'PUT', ...auth('mgmt') });
+    mockFetch.mockClear();
+
+    await get(`${mapi}/1/components`);
+    await get(`${mapi}/2/components`);
+    await get(`${mapi}/1/stories`);
+
+    expect(requestedUrls()).toEqual([`${mapi}/1/components`]);
+  });
+
+  it('should send the latest cache version with delivery requests and refresh it after story writes', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(5_000_000);
+    mockFetch.mockResolvedValueOnce(json({ stories: [], cv: 1234 }));
+    await get(`${cdn}/stories?token=public&version=published`, {});
+    await get(`${cdn}/stories/home?token=public`, {});
+    await get(`${cdn}/stories?token=public&version=published`, {});
+
+    await storyblokFetch(`${mapi}/1/stories/5/publish`, { method: 'GET', ...auth('mgmt') });
+    await storyblokFetch(`${mapi}/1/stories/5/publish`, { method: 'POST', ...auth('mgmt') });
+    await get(`${cdn}/stories?token=public&version=published`, {});
+
+    expect(requestedUrls()).toEqual([
+      `${cdn}/stories?token=public&version=published`,
+      `${cdn}/stories/home?token=public&cv=1234`,
+      `${mapi}/1/stories/5/publish`,
+      `${mapi}/1/stories/5/publish`,
+      `${cdn}/stories?token=public&version=published&cv=5000`
+    ]);
+    now.mockRestore();
+  });
+});
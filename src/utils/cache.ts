@@ -0,0 +1,175 @@
+import type { HttpClientConfig } from '../types/index';
+
+/**
+ * @file src/utils/cache.ts
+ * @description In-memory TTL/LRU cache for GET responses of the shared HTTP client.
+ * Entries are keyed on URL and token. Content Delivery API requests carry Storyblok's
+ * cache version (`cv`), and every successful write drops the cached responses of the
+ * resource types it touched.
+ */
+
+/** Where a cached response came from, so writes can drop the responses they make stale. */
+interface CacheScope {
+  api: 'management' | 'delivery';
+  /** The resource type, e.g. "stories" or "components". */
+  type: string;
+  /** The space of a Management API request; delivery requests select the space by token. */
+  spaceId?: string;
+}
+
+interface CacheEntry extends CacheScope {
+  status: number;
+  headers: [string, string][];
+  body: string;
+  expires: number;
+}
+
+// Content Delivery API resources that change when a Management API resource type is written
+const DELIVERY_TYPES: Record<string, string[]> = {
+  stories: ['stories', 'links', 'tags'],
+  releases: ['stories', 'links'],
+  tags: ['tags', 'stories'],
+  datasources: ['datasources', 'datasource_entries'],
+  datasource_entries: ['datasources', 'datasource_entries']
+};
+
+// Management API resources that change along with another type, e.g. publishing a release publishes its stories
+const RELATED_MANAGEMENT_TYPES: Record<string, string[]> = {
+  releases: ['stories'],
+  tags: ['stories'],
+  component_groups: ['components'],
+  asset_folders: ['assets']
+};
+
+const entries = new Map<string, CacheEntry>();
+
+// Latest cache version seen per delivery token; Storyblok versions content with a Unix timestamp
+const cacheVersions = new Map<string, number>();
+
+function parseScope(url: URL): CacheScope | undefined {
+  const management = url.pathname.match(/\/v1\/spaces\/(\d+)\/([a-z_]+)/);
+  if (management) {
+    return { api: 'management', spaceId: management[1], type: management[2] };
+  }
+  const delivery = url.pathname.match(/\/cdn\/([a-z_]+)/);
+  return delivery ? { api: 'delivery', type: delivery[1] } : undefined;
+}
+
+// The cache version is left out of the key: a cached response stays valid until a write or its TTL ends it
+function cacheKey(url: URL, init: RequestInit): string {
+  const keyUrl = new URL(url);
+  keyUrl.searchParams.delete('cv');
+  const authorization = new Headers(init.headers).get('Authorization') ?? '';
+  return `${authorization} ${keyUrl}`;
+}
+
+/**
+ * Sends a GET request through the response cache: answers from the cache while an entry
+ * is fresh, otherwise sends the request and caches a successful response.
+ * Delivery requests without `cv` get the latest cache version known for their token.
+ *
+ * @param {string} url - The request URL.
+ * @param {RequestInit} init - The request options.
+ * @param {HttpClientConfig} settings - TTL and size of the cache.
+ * @param {(url: string) => Promise<Response>} send - Sends the request, bypassing the cache.
+ * @returns {Promise<{ response: Response; hit: boolean }>} The response and whether it came from the cache.
+ */
+export async function fetchCached(
+  url: string,
+  init: RequestInit,
+  settings: HttpClientConfig,
+  send: (url: string) => Promise<Response>
+): Promise<{ response: Response; hit: boolean }> {
+  const parsed = new URL(url);
+  const scope = parseScope(parsed);
+  if (settings.cacheTtlSeconds === 0 || !scope) {
+    return { response: await send(url), hit: false };
+  }
+
+  const key = cacheKey(parsed, init);
+  const cached = entries.get(key);
+  if (cached && cached.expires > Date.now()) {
+    // Re-insert so the map's order stays least recently used first
+    entries.delete(key);
+    entries.set(key, cached);
+    return { response: new Response(cached.body, { status: cached.status, headers: cached.headers }), hit: true };
+  }
+  entries.delete(key);
+
+  const token = parsed.searchParams.get('token');
+  if (scope.api === 'delivery' && token && !parsed.searchParams.has('cv') && cacheVersions.has(token)) {
+    parsed.searchParams.set('cv', String(cacheVersions.get(token)));
+  }
+
+  const response = await send(parsed.toString());
+  if (!response.ok) {
+    return { response, hit: false };
+  }
+
+  const body = await response.clone().text();
+  entries.set(key, {
+    ...scope,
+    status: response.status,
+    headers: [...response.headers.entries()],
+    body,
+    expires: Date.now() + settings.cacheTtlSeconds * 1000
+  });
+  while (entries.size > settings.cacheMaxEntries) {
+    entries.delete(entries.keys().next().value!);
+  }
+
+  if (scope.api === 'delivery' && token) {
+    try {
+      const cv = JSON.parse(body)?.cv;
+      if (typeof cv === 'number' && cv > (cacheVersions.get(token) ?? 0)) {
+        cacheVersions.set(token, cv);
+      }
+    } catch {
+      // Not JSON; the cache version stays as it was
+    }
+  }
+  return { response, hit: false };
+}
+
+/**
+ * Drops the cached responses a successful write may have made stale: Management API
+ * responses of the written resource type (and related types) in the same space, and
+ * Content Delivery API responses of the matching delivery types. Delivery requests then
+ * ask for a cache version no older than now, so Storyblok's CDN returns the new content.
+ * A write to an unrecognized URL clears the whole cache.
+ *
+ * @param {string} url - The URL of the write request.
+ */
+export function invalidateCache(url: string): void {
+  const scope = parseScope(new URL(url));
+  if (!scope || scope.api !== 'management') {
+    resetResponseCache();
+    return;
+  }
+
+  const managementTypes = [scope.type, ...(RELATED_MANAGEMENT_TYPES[scope.type] ?? [])];
+  const deliveryTypes = DELIVERY_TYPES[scope.type] ?? [];
+  for (const [key, entry] of entries) {
+    const stale = entry.api === 'management'
+      ? entry.spaceId === scope.spaceId && managementTypes.includes(entry.type)
+      : deliveryTypes.includes(entry.type);
+    if (stale) {
+      entries.delete(key);
+    }
+  }
+
+  if (deliveryTypes.length > 0) {
+    const now = Math.floor(Date.now() / 1000);
+    for (const token of cacheVersions.keys()) {
+      cacheVersions.set(token, Math.max(now, cacheVersions.get(token)!));
+    }
+  }
+}
+
+/**
+ * Clears every cached response and cache version. Intended for tests and configuration reloads.
+ */
+export function resetResponseCache(): void {
+  entries.clear();
+  cacheVersions.clear();
+}
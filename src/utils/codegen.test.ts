@@ -0,0 +1,146 @@
+// src/utils/codegen.test.ts
+import ts from 'typescript';
+import { z } from 'zod';
+import { generateComponentTypes, referencedDatasources } from './codegen';
+import { ComponentDefinition } from './validation';
+
+describe('generateComponentTypes', () => {
+  const components: ComponentDefinition[] = [
+    {
+      name: 'page',
+      schema: {
+        'tab-seo': { type: 'tab', keys: ['seo'] },
+        body: { type: 'bloks', pos: 1, restrict_components: true, component_whitelist: ['hero', 'grid', 'ghost'], maximum: 3 },
+        title: { type: 'text', pos: 0, required: true, max_length: 80, description: 'Shown in the browser tab' },
+        footer: { type: 'bloks', pos: 2, restrict_components: true, restrict_type: 'groups', component_group_whitelist: ['group-footer'] },
+        seo: { type: 'custom', pos: 3, field_type: 'seo-metatags' }
+      }
+    },
+    {
+      name: 'hero',
+      schema: {
+        headline: { type: 'text', required: true },
+        text: { type: 'richtext' },
+        count: { type: 'number' },
+        date: { type: 'datetime' },
+        visible: { type: 'boolean' },
+        color: { type: 'option', options: [{ value: 'red' }, { value: 'blue' }] },
+        tags: { type: 'options', source: 'internal', datasource_slug: 'tags' },
+        author: { type: 'option', source: 'internal_stories' },
+        image: { type: 'asset' },
+        gallery: { type: 'multiasset' },
+        link: { type: 'multilink' },
+        table: { type: 'table' }
+      }
+    },
+    { name: 'grid', schema: { columns: { type: 'bloks', required: true } } },
+    { name: 'footer-links', component_group_uuid: 'group-footer', schema: { 'link-label': { type: 'text' } } }
+  ];
+  const groups = [{ id: 1, uuid: 'group-footer', name: 'Footer' }];
+
+  const generated = generateComponentTypes({ components, groups, datasources: { tags: ['news', 'guide'] } });
+
+  // Evaluates the generated Zod module, with the interfaces import erased
+  const loadSchemas = () => {
+    const { outputText } = ts.transpileModule(generated.zod, { compilerOptions: { module: ts.ModuleKind.CommonJS } });
+    const exports: Record<string, z.ZodTypeAny> = {};
+    new Function('require', 'exports', outputText)((name: string) => name === 'zod' ? { z } : undefined, exports);
+    return exports;
+  };
+
+  it('should declare one interface per component with field types from the schema', () => {
+    expect(generated.typescript).toContain([
+      'export interface HeroStoryblok {',
+      '  _uid: string;',
+      "  component: 'hero';",
+      '  _editable?: string;',
+      '  headline: string;',
+      '  text?: StoryblokRichtext;',
+      '  count?: number | string;',
+      '  date?: string;',
+      '  visible?: boolean;',
+      "  color?: 'red' | 'blue' | '';",
+      "  tags?: Array<'news' | 'guide'>;",
+      '  author?: string;',
+      '  image?: StoryblokAsset;',
+      '  gallery?: StoryblokAsset[];',
+      '  link?: StoryblokMultilink;',
+      '  table?: StoryblokTable;',
+      '}'
+    ].join('\n'));
+    expect(generated.typescript).toContain([
+      'export interface PageStoryblok {',
+      '  _uid: string;',
+      "  component: 'page';",
+      '  _editable?: string;',
+      '  /** Shown in the browser tab */',
+      '  title: string;',
+      '  body?: Array<HeroStoryblok | GridStoryblok>;',
+      '  footer?: FooterGroupStoryblok[];',
+      '  seo?: StoryblokPlugin;',
+      '}'
+    ].join('\n'));
+    expect(generated.typescript).toContain('  columns: StoryblokComponent[];');
+    expect(generated.typescript).toContain("  'link-label'?: string;");
+  });
+
+  it('should declare unions of component groups and of all components', () => {
+    expect(generated.typescript).toContain("/** Components of the group 'Footer'. */\nexport type FooterGroupStoryblok = FooterLinksStoryblok;");
+    expect(generated.typescript).toContain('export type StoryblokComponent = FooterLinksStoryblok | GridStoryblok | HeroStoryblok | PageStoryblok;');
+    expect(generated.zod).toContain("import type {\n  StoryblokAsset,");
+    expect(generated.zod).toContain("} from './storyblok-components';");
+  });
+
+  it('should warn about references it could not resolve', () => {
+    const { warnings } = generateComponentTypes({
+      components: [...components, { name: 'broken', schema: { source: { type: 'options', source: 'internal', datasource_slug: 'gone' }, map: { type: 'geo' } } }],
+      groups: [],
+      datasources: {}
+    });
+
+    expect(warnings).toEqual([
+      "'broken.source' uses the unknown datasource 'gone'; typed as string.",
+      "'broken.map' has the unknown field type 'geo'; typed as unknown.",
+      "'hero.tags' uses the unknown datasource 'tags'; typed as string.",
+      "'page.body' allows the unknown component 'ghost', which was left out.",
+      "'page.footer' allows the unknown component group 'group-footer', which was left out."
+    ]);
+  });
+
+  it('should generate Zod schemas that accept valid and reject invalid nested content', () => {
+    const { pageStoryblokSchema, storyblokComponentSchemas } = loadSchemas();
+    const page = {
+      _uid: 'root',
+      component: 'page',
+      title: 'Home',
+      body: [
+        { _uid: 'a', component: 'hero', headline: 'Hi', count: '3', color: '', tags: ['news'], link: { linktype: 'url', url: 'https://example.com' } },
+        { _uid: 'b', component: 'grid', columns: [{ _uid: 'c', component: 'footer-links' }] }
+      ],
+      footer: [{ _uid: 'd', component: 'footer-links', 'link-label': 'Imprint' }],
+      seo: { plugin: 'seo-metatags', title: 'Home' }
+    };
+
+    expect(pageStoryblokSchema.safeParse(page).success).toBe(true);
+    expect(storyblokComponentSchemas.page).toBe(pageStoryblokSchema);
+
+    const result = pageStoryblokSchema.safeParse({
+      ...page,
+      title: '',
+      body: [{ _uid: 'a', component: 'hero', headline: 'Hi', color: 'green' }, { _uid: 'b', component: 'grid', columns: [] }],
+      footer: [{ _uid: 'e', component: 'hero', headline: 'Not in the group' }]
+    });
+    expect(result.success).toBe(false);
+    expect(result.error!.issues.map(issue => issue.path.join('.'))).toEqual(['title', 'body.0', 'body.1.columns', 'footer.0.component']);
+  });
+});
+
+describe('referencedDatasources', () => {
+  it('should list the datasources option fields draw from, once each', () => {
+    expect(referencedDatasources([
+      { name: 'a', schema: { x: { type: 'option', source: 'internal', datasource_slug: 'colors' }, y: { type: 'options', source: 'internal_stories' } } },
+      { name: 'b', schema: { z: { type: 'options', source: 'internal', datasource_slug: 'colors' } } },
+      { name: 'c' }
+    ])).toEqual(['colors']);
+  });
+});
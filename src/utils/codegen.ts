@@ -0,0 +1,367 @@
+/**
+ * @file src/utils/codegen.ts
+ * @description Generates TypeScript interfaces and matching Zod schemas from component definitions.
+ * Each component becomes a `<Name>Storyblok` interface and a `<name>StoryblokSchema`; `bloks` fields
+ * become unions of the components (or component groups) they allow, and option fields literal unions
+ * of their options or datasource entries.
+ */
+
+import { ComponentDefinition } from './validation';
+
+/** A component group, as returned by the Management API. */
+export interface ComponentGroup {
+  id: number;
+  uuid: string;
+  name: string;
+}
+
+export interface CodegenInput {
+  components: ComponentDefinition[];
+  groups: ComponentGroup[];
+  /** Entry values of the datasources option fields draw from, by datasource slug. */
+  datasources: Record<string, string[]>;
+}
+
+export interface CodegenOptions {
+  /** Module the Zod file imports the interfaces from, relative to the Zod file. */
+  typesModule: string;
+}
+
+export interface GeneratedTypes {
+  /** The `.d.ts` module with one interface per component. */
+  typescript: string;
+  /** The Zod module with one schema per component. */
+  zod: string;
+  /** Schema references that could not be resolved, and what was generated instead. */
+  warnings: string[];
+}
+
+/** File names of the generated modules. */
+export const TYPES_FILE_NAME = 'storyblok-components.d.ts';
+export const ZOD_FILE_NAME = 'storyblok-components.zod.ts';
+
+/** Imports the interfaces from a types file next to the Zod file. */
+export const DEFAULT_TYPES_MODULE = './storyblok-components';
+
+// Field types that only arrange the editing interface and store no value
+const LAYOUT_FIELD_TYPES = new Set(['tab', 'section']);
+
+// Option sources whose values are listed in the field definition
+const SELF_SOURCES = new Set([undefined, '', 'self']);
+
+const HEADER = '// Generated by generate-types from the Storyblok component schemas. Do not edit by hand.';
+
+// Shared value shapes, declared once in each generated module
+const SHARED_TYPES = `export interface StoryblokAsset {
+  id: number | null;
+  filename: string | null;
+  alt?: string | null;
+  name?: string;
+  focus?: string | null;
+  title?: string | null;
+  copyright?: string | null;
+  fieldtype?: 'asset';
+  [key: string]: unknown;
+}
+
+export interface StoryblokMultilink {
+  linktype: 'story' | 'url' | 'email' | 'asset';
+  id?: string;
+  url?: string;
+  cached_url?: string;
+  email?: string;
+  anchor?: string;
+  target?: '_self' | '_blank';
+  fieldtype?: 'multilink';
+  [key: string]: unknown;
+}
+
+export interface StoryblokRichtext {
+  type: string;
+  content?: StoryblokRichtext[];
+  marks?: Array<{ type: string; attrs?: Record<string, unknown> }>;
+  attrs?: Record<string, unknown>;
+  text?: string;
+  [key: string]: unknown;
+}
+
+export interface StoryblokTable {
+  thead: Array<{ _uid: string; component: '_table_head'; value?: string }>;
+  tbody: Array<{ _uid: string; component: '_table_row'; body: Array<{ _uid: string; component: '_table_col'; value?: string }> }>;
+  fieldtype?: 'table';
+}
+
+export interface StoryblokPlugin {
+  plugin?: string;
+  [key: string]: unknown;
+}`;
+
+const SHARED_SCHEMAS = `export const storyblokAssetSchema: z.ZodType<StoryblokAsset> = z.object({
+  id: z.number().nullable(),
+  filename: z.string().nullable(),
+  alt: z.string().nullable().optional(),
+  name: z.string().optional(),
+  focus: z.string().nullable().optional(),
+  title: z.string().nullable().optional(),
+  copyright: z.string().nullable().optional(),
+  fieldtype: z.literal('asset').optional()
+}).passthrough();
+
+export const storyblokMultilinkSchema: z.ZodType<StoryblokMultilink> = z.object({
+  linktype: z.enum(['story', 'url', 'email', 'asset']),
+  id: z.string().optional(),
+  url: z.string().optional(),
+  cached_url: z.string().optional(),
+  email: z.string().optional(),
+  anchor: z.string().optional(),
+  target: z.enum(['_self', '_blank']).optional(),
+  fieldtype: z.literal('multilink').optional()
+}).passthrough();
+
+export const storyblokRichtextSchema: z.ZodType<StoryblokRichtext> = z.lazy(() => z.object({
+  type: z.string(),
+  content: z.array(storyblokRichtextSchema).optional(),
+  marks: z.array(z.object({ type: z.string(), attrs: z.record(z.unknown()).optional() })).optional(),
+  attrs: z.record(z.unknown()).optional(),
+  text: z.string().optional()
+}).passthrough());
+
+export const storyblokTableSchema: z.ZodType<StoryblokTable> = z.object({
+  thead: z.array(z.object({ _uid: z.string(), component: z.literal('_table_head'), value: z.string().optional() })),
+  tbody: z.array(z.object({
+    _uid: z.string(),
+    component: z.literal('_table_row'),
+    body: z.array(z.object({ _uid: z.string(), component: z.literal('_table_col'), value: z.string().optional() }))
+  })),
+  fieldtype: z.literal('table').optional()
+});
+
+export const storyblokPluginSchema: z.ZodType<StoryblokPlugin> = z.object({
+  plugin: z.string().optional()
+}).passthrough();`;
+
+const SHARED_NAMES = ['StoryblokAsset', 'StoryblokMultilink', 'StoryblokRichtext', 'StoryblokTable', 'StoryblokPlugin', 'StoryblokComponent'];
+
+interface FieldType {
+  ts: string;
+  zod: string;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// Single-quoted string literal
+const literal = (value: string) => `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+
+const propertyKey = (name: string) => IDENTIFIER.test(name) ? name : literal(name);
+
+const docComment = (text: unknown, indent: string) =>
+  typeof text === 'string' && text.trim() ? `${indent}/** ${text.trim().replace(/\*\//g, '*\\/').replace(/\s*\n\s*/g, ' ')} */\n` : '';
+
+function pascalCase(name: string): string {
+  const joined = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^[0-9]/.test(joined) || !joined ? `_${joined}` : joined;
+}
+
+const schemaName = (typeName: string) => `${typeName[0].toLowerCase()}${typeName.slice(1)}Schema`;
+
+const union = (types: string[]) => types.length === 0 ? 'never' : types.join(' | ');
+
+const zodUnion = (schemas: string[]) =>
+  schemas.length === 0 ? 'z.never()' : schemas.length === 1 ? schemas[0] : `z.union([${schemas.join(', ')}])`;
+
+/**
+ * Gives every key a unique type name, in the order given, derived from its name.
+ * A name that is taken gets a numeric suffix, e.g. `HeroStoryblok2`.
+ */
+function assignNames(entries: Array<[key: string, name: string]>, suffix: string, taken: Set<string>): Map<string, string> {
+  const assigned = new Map<string, string>();
+  for (const [key, name] of entries) {
+    const base = `${pascalCase(name)}${suffix}`;
+    let candidate = base;
+    for (let i = 2; taken.has(candidate); i++) {
+      candidate = `${base}${i}`;
+    }
+    taken.add(candidate);
+    assigned.set(key, candidate);
+  }
+  return assigned;
+}
+
+/**
+ * Lists the datasources that option fields of the given components draw their values from.
+ *
+ * @param {ComponentDefinition[]} components - The component definitions.
+ * @returns {string[]} The datasource slugs, without duplicates.
+ */
+export function referencedDatasources(components: ComponentDefinition[]): string[] {
+  const slugs = new Set<string>();
+  for (const component of components) {
+    for (const field of Object.values((component.schema ?? {}) as Record<string, Record<string, any>>)) {
+      if ((field.type === 'option' || field.type === 'options') && field.source === 'internal' && field.datasource_slug) {
+        slugs.add(field.datasource_slug);
+      }
+    }
+  }
+  return [...slugs];
+}
+
+/**
+ * Generates a TypeScript declaration module and a Zod module from component definitions.
+ * Required fields are non-optional; required text fields must be non-empty, and required
+ * `bloks` fields must hold at least one block.
+ *
+ * @param {CodegenInput} input - The components, component groups and datasource entry values of a space.
+ * @param {CodegenOptions} [options] - Where the Zod module imports the interfaces from.
+ * @returns {GeneratedTypes} The module sources, and warnings about unresolved references.
+ */
+export function generateComponentTypes(
+  input: CodegenInput,
+  options: CodegenOptions = { typesModule: DEFAULT_TYPES_MODULE }
+): GeneratedTypes {
+  const warnings: string[] = [];
+  const components = [...input.components].sort((a, b) => a.name.localeCompare(b.name));
+  const taken = new Set(SHARED_NAMES);
+  const typeNames = assignNames(components.map(component => [component.name, component.name]), 'Storyblok', taken);
+  const groups = [...input.groups].sort((a, b) => a.name.localeCompare(b.name));
+  const groupNames = assignNames(groups.map(group => [group.uuid, group.name]), 'GroupStoryblok', taken);
+  const groupMembers = (uuid: string) =>
+    components.filter(component => component.component_group_uuid === uuid).map(component => typeNames.get(component.name)!);
+
+  const blockTypes = (field: Record<string, any>, location: string): string[] | undefined => {
+    if (!field.restrict_components) {
+      return undefined;
+    }
+    if (field.restrict_type === 'groups') {
+      const uuids: string[] = Array.isArray(field.component_group_whitelist) ? field.component_group_whitelist : [];
+      const known = uuids.filter(uuid => groupNames.has(uuid));
+      uuids.filter(uuid => !groupNames.has(uuid)).forEach(uuid => warnings.push(`${location} allows the unknown component group '${uuid}', which was left out.`));
+      return known.length > 0 ? known.map(uuid => groupNames.get(uuid)!) : undefined;
+    }
+    const names: string[] = Array.isArray(field.component_whitelist) ? field.component_whitelist : [];
+    const known = names.filter(name => typeNames.has(name));
+    names.filter(name => !typeNames.has(name)).forEach(name => warnings.push(`${location} allows the unknown component '${name}', which was left out.`));
+    return known.length > 0 ? known.map(name => typeNames.get(name)!) : undefined;
+  };
+
+  const optionValues = (field: Record<string, any>, location: string): string[] | undefined => {
+    if (SELF_SOURCES.has(field.source)) {
+      return Array.isArray(field.options) ? field.options.map((option: any) => String(option.value)) : undefined;
+    }
+    if (field.source === 'internal' && field.datasource_slug) {
+      const values = input.datasources[field.datasource_slug];
+      if (!values) {
+        warnings.push(`${location} uses the unknown datasource '${field.datasource_slug}'; typed as string.`);
+      }
+      return values;
+    }
+    // Stories, languages and external sources are resolved by the editor
+    return undefined;
+  };
+
+  const fieldType = (field: Record<string, any>, location: string): FieldType => {
+    const required = Boolean(field.required);
+    const maxLength = Number(field.max_length) || undefined;
+    switch (field.type) {
+      case 'text':
+      case 'textarea':
+      case 'markdown':
+        return { ts: 'string', zod: `z.string()${required ? '.min(1)' : ''}${maxLength ? `.max(${maxLength})` : ''}` };
+      case 'datetime':
+        return { ts: 'string', zod: `z.string()${required ? '.min(1)' : ''}` };
+      case 'richtext':
+        return { ts: 'StoryblokRichtext', zod: 'storyblokRichtextSchema' };
+      case 'number':
+        // The Storyblok editor stores numbers as strings
+        return { ts: 'number | string', zod: 'z.union([z.number(), z.string()])' };
+      case 'boolean':
+        return { ts: 'boolean', zod: 'z.boolean()' };
+      case 'option':
+      case 'options': {
+        const values = optionValues(field, location);
+        // An unset option field holds an empty string
+        const allowed = values ? [...new Set([...values, ...(required || field.type === 'options' ? [] : [''])])] : [];
+        const item: FieldType = allowed.length > 0
+          ? { ts: union(allowed.map(literal)), zod: `z.enum([${allowed.map(literal).join(', ')}])` }
+          : { ts: 'string', zod: 'z.string()' };
+        if (field.type === 'option') {
+          return item;
+        }
+        return { ts: allowed.length > 1 ? `Array<${item.ts}>` : `${item.ts}[]`, zod: `z.array(${item.zod})${required ? '.min(1)' : ''}` };
+      }
+      case 'asset':
+        return { ts: 'StoryblokAsset', zod: 'storyblokAssetSchema' };
+      case 'multiasset':
+        return { ts: 'StoryblokAsset[]', zod: `z.array(storyblokAssetSchema)${required ? '.min(1)' : ''}` };
+      case 'multilink':
+        return { ts: 'StoryblokMultilink', zod: 'storyblokMultilinkSchema' };
+      case 'table':
+        return { ts: 'StoryblokTable', zod: 'storyblokTableSchema' };
+      case 'custom':
+        return { ts: 'StoryblokPlugin', zod: 'storyblokPluginSchema' };
+      case 'bloks': {
+        const types = blockTypes(field, location) ?? ['StoryblokComponent'];
+        const minimum = Math.max(required ? 1 : 0, Number(field.minimum) || 0);
+        const maximum = Number(field.maximum) || undefined;
+        return {
+          ts: types.length > 1 ? `Array<${union(types)}>` : `${types[0]}[]`,
+          zod: `z.array(${zodUnion(types.map(schemaName))})${minimum ? `.min(${minimum})` : ''}${maximum ? `.max(${maximum})` : ''}`
+        };
+      }
+      default:
+        warnings.push(`${location} has the unknown field type '${field.type}'; typed as unknown.`);
+        return { ts: 'unknown', zod: 'z.unknown()' };
+    }
+  };
+
+  const interfaces: string[] = [];
+  const schemas: string[] = [];
+  for (const component of components) {
+    const typeName = typeNames.get(component.name)!;
+    const fields = Object.entries((component.schema ?? {}) as Record<string, Record<string, any>>)
+      .filter(([, field]) => !LAYOUT_FIELD_TYPES.has(field.type))
+      .sort(([, a], [, b]) => (a.pos ?? 0) - (b.pos ?? 0));
+
+    const members = ['  _uid: string;', `  component: ${literal(component.name)};`, '  _editable?: string;'];
+    const shape = ['  _uid: z.string()', `  component: z.literal(${literal(component.name)})`, '  _editable: z.string().optional()'];
+    for (const [fieldName, field] of fields) {
+      const { ts, zod } = fieldType(field, `'${component.name}.${fieldName}'`);
+      const key = propertyKey(fieldName);
+      members.push(`${docComment(field.description, '  ')}  ${key}${field.required ? '' : '?'}: ${ts};`);
+      shape.push(`  ${key}: ${zod}${field.required ? '' : '.optional()'}`);
+    }
+
+    interfaces.push(`export interface ${typeName} {\n${members.join('\n')}\n}`);
+    // Lazy, so that blocks can nest each other regardless of declaration order
+    schemas.push(`export const ${schemaName(typeName)}: z.ZodType<${typeName}> = z.lazy(() => z.object({\n${shape.join(',\n')}\n}));`);
+  }
+
+  const allTypes = components.map(component => typeNames.get(component.name)!);
+  const unions = groups.map(group => ({ typeName: groupNames.get(group.uuid)!, members: groupMembers(group.uuid), group }));
+
+  const typescript = [
+    HEADER,
+    SHARED_TYPES,
+    ...interfaces,
+    ...unions.map(({ typeName, members, group }) => `${docComment(`Components of the group '${group.name}'.`, '')}export type ${typeName} = ${union(members)};`),
+    `export type StoryblokComponent = ${union(allTypes)};`
+  ].join('\n\n') + '\n';
+
+  const imported = [...SHARED_NAMES.filter(name => name !== 'StoryblokComponent'), ...allTypes, ...unions.map(({ typeName }) => typeName), 'StoryblokComponent'];
+  const zod = [
+    HEADER,
+    `import { z } from 'zod';\nimport type {\n${imported.map(name => `  ${name}`).join(',\n')}\n} from ${literal(options.typesModule)};`,
+    SHARED_SCHEMAS,
+    ...schemas,
+    ...unions.map(({ typeName, members }) => `export const ${schemaName(typeName)}: z.ZodType<${typeName}> = ${zodUnion(members.map(schemaName))};`),
+    `export const storyblokComponentSchema: z.ZodType<StoryblokComponent> = ${zodUnion(allTypes.map(schemaName))};`,
+    `/** Component schemas by component name. */\nexport const storyblokComponentSchemas: Record<string, z.ZodType<StoryblokComponent>> = {\n${
+      components.map(component => `  ${propertyKey(component.name)}: ${schemaName(typeNames.get(component.name)!)}`).join(',\n')
+    }\n};`
+  ].join('\n\n') + '\n';
+
+  return { typescript, zod, warnings };
+}
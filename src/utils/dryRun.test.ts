@@ -0,0 +1,99 @@
+// src/utils/dryRun.test.ts
+import { diffFields, isDryRunActive, runDryRun } from './dryRun';
+import { storyblokFetch, resetRateLimiters } from './api';
+
+global.fetch = jest.fn();
+
+describe('Dry run', () => {
+  const mockFetch = global.fetch as jest.Mock;
+  const originalEnv = process.env;
+  const storyUrl = 'https://mapi.storyblok.com/v1/spaces/12345/stories/1';
+  const headers = { Authorization: 'mgmt-token', 'Content-Type': 'application/json' };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, STORYBLOK_MAPI_RATE_LIMIT: '1000' };
+    mockFetch.mockReset();
+    resetRateLimiters();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('diffFields', () => {
+    it('should report changed leaf values with their paths', () => {
+      const before = { story: { name: 'Home', slug: 'home', content: { body: [{ title: 'Hi' }, { title: 'Old' }] } } };
+      const after = { story: { name: 'Home page', slug: 'home', content: { body: [{ title: 'Hi' }] } }, publish: 1 };
+
+      expect(diffFields(before, after)).toEqual([
+        { path: 'story.name', before: 'Home', after: 'Home page' },
+        { path: 'story.content.body[1]', before: { title: 'Old' }, after: undefined },
+        { path: 'publish', before: undefined, after: 1 }
+      ]);
+    });
+
+    it('should ignore fields the payload does not set', () => {
+      expect(diffFields({ story: { name: 'Home', id: 1 } }, { story: { name: 'Home' } })).toEqual([]);
+    });
+  });
+
+  describe('runDryRun', () => {
+    it('should record writes with their payloads instead of sending them', async () => {
+      const { requests } = await runDryRun(async () => {
+        expect(isDryRunActive()).toBe(true);
+        const response = await storyblokFetch('https://mapi.storyblok.com/v1/spaces/12345/stories', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ story: { name: 'New' } })
+        });
+        expect(response.ok).toBe(true);
+        expect(await response.json()).toEqual({ story: { name: 'New' } });
+      });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(isDryRunActive()).toBe(false);
+      expect(requests).toEqual([
+        { method: 'POST', url: 'https://mapi.storyblok.com/v1/spaces/12345/stories', body: { story: { name: 'New' } } }
+      ]);
+    });
+
+    it('should diff PUT payloads against the current state', async () => {
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({ story: { id: 1, name: 'Home' } })));
+
+      const { requests } = await runDryRun(() =>
+        storyblokFetch(storyUrl, { method: 'PUT', headers, body: JSON.stringify({ story: { name: 'Start' } }) })
+      );
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledWith(storyUrl, expect.objectContaining({ headers }));
+      expect(mockFetch.mock.calls[0][1].method).toBeUndefined();
+      expect(requests[0].diff).toEqual([{ path: 'story.name', before: 'Home', after: 'Start' }]);
+    });
+
+    it('should report when the current state cannot be loaded', async () => {
+      mockFetch.mockResolvedValueOnce(new Response('', { status: 404, statusText: 'Not Found' }));
+
+      const { requests } = await runDryRun(() =>
+        storyblokFetch(storyUrl, { method: 'PUT', headers, body: JSON.stringify({ story: { name: 'Start' } }) })
+      );
+
+      expect(requests[0].diff).toBeUndefined();
+      expect(requests[0].diff_error).toBe('Current state could not be loaded: 404 Not Found');
+    });
+
+    it('should keep concurrent dry runs apart', async () => {
+      const write = (path: string) => storyblokFetch(`https://mapi.storyblok.com/v1/spaces/12345${path}`, { method: 'DELETE', headers });
+
+      const [first, second] = await Promise.all([
+        runDryRun(async () => { await write('/stories/1'); await write('/stories/2'); }),
+        runDryRun(() => write('/tags/news'))
+      ]);
+
+      expect(first.requests.map(request => request.url)).toEqual([
+        'https://mapi.storyblok.com/v1/spaces/12345/stories/1',
+        'https://mapi.storyblok.com/v1/spaces/12345/stories/2'
+      ]);
+      expect(second.requests).toEqual([{ method: 'DELETE', url: 'https://mapi.storyblok.com/v1/spaces/12345/tags/news' }]);
+    });
+  });
+});
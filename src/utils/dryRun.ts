@@ -0,0 +1,109 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { FieldChange, PlannedRequest } from '../types/index';
+
+/**
+ * @file src/utils/dryRun.ts
+ * @description Dry-run support: while a tool runs inside `runDryRun`, storyblokFetch still
+ * sends reads but only records writes, answering them with a simulated response.
+ */
+
+// The write requests recorded by the dry run the current async call chain belongs to
+const plannedRequests = new AsyncLocalStorage<PlannedRequest[]>();
+
+/**
+ * Tells whether the current call runs inside `runDryRun`.
+ *
+ * @returns {boolean} True if writes must be recorded instead of sent.
+ */
+export function isDryRunActive(): boolean {
+  return plannedRequests.getStore() !== undefined;
+}
+
+/**
+ * Runs a function with writes recorded instead of sent.
+ * Concurrent dry runs are kept apart, so one tool call never records another's requests.
+ *
+ * @param {() => Promise<T>} fn - The function to simulate, typically a tool handler.
+ * @returns {Promise<{ result: T; requests: PlannedRequest[] }>} The function's result and the writes it would have sent.
+ */
+export async function runDryRun<T>(fn: () => Promise<T>): Promise<{ result: T; requests: PlannedRequest[] }> {
+  const requests: PlannedRequest[] = [];
+  const result = await plannedRequests.run(requests, fn);
+  return { result, requests };
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Lists the fields a payload would change. Only fields present in `after` are compared,
+ * matching how update payloads name the fields they set; arrays are compared element by element.
+ *
+ * @param {unknown} before - The current server state.
+ * @param {unknown} after - The payload.
+ * @param {string} path - Path of the compared values, used as prefix of the reported paths.
+ * @returns {FieldChange[]} One entry per changed leaf value.
+ */
+export function diffFields(before: unknown, after: unknown, path = ''): FieldChange[] {
+  if (isPlainObject(after)) {
+    const current = isPlainObject(before) ? before : {};
+    return Object.keys(after).flatMap(key => diffFields(current[key], after[key], path ? `${path}.${key}` : key));
+  }
+  if (Array.isArray(after) && Array.isArray(before)) {
+    const length = Math.max(before.length, after.length);
+    return Array.from({ length }, (_, i) => diffFields(before[i], after[i], `${path}[${i}]`)).flat();
+  }
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ path, before, after }];
+}
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Records a write request of the active dry run and simulates Storyblok's answer:
+ * a 200 response echoing the payload, so multi-step tools can carry on.
+ *
+ * @param {string} url - The request URL.
+ * @param {RequestInit} init - The request options.
+ * @param {string} method - The upper-case HTTP method.
+ * @param {() => Promise<Response>} readCurrent - Loads the resource's current state, used to diff PUT payloads.
+ * @returns {Promise<Response>} The simulated response.
+ */
+export async function recordDryRunWrite(
+  url: string,
+  init: RequestInit,
+  method: string,
+  readCurrent: () => Promise<Response>
+): Promise<Response> {
+  const planned: PlannedRequest = { method, url };
+  if (typeof init.body === 'string') {
+    planned.body = parseJson(init.body);
+  } else if (init.body !== undefined && init.body !== null) {
+    planned.body = `<${init.body.constructor.name} body>`;
+  }
+
+  if (method === 'PUT' && planned.body !== undefined) {
+    try {
+      const current = await readCurrent();
+      if (!current.ok) {
+        throw new Error(`${current.status} ${current.statusText}`);
+      }
+      planned.diff = diffFields(await current.json(), planned.body);
+    } catch (error) {
+      planned.diff_error = `Current state could not be loaded: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  plannedRequests.getStore()?.push(planned);
+  const echo = typeof init.body === 'string' ? init.body : '{}';
+  return new Response(echo, {
+    status: 200,
+    statusText: 'OK (dry run)',
+    headers: { 'Content-Type': 'application/json', 'X-Dry-Run': 'true' }
+  });
+}
@@ -0,0 +1,92 @@
+// src/utils/errors.test.ts
+import {
+  createApiError,
+  toolErrorResult,
+  serializeError,
+  StoryblokApiError,
+  StoryblokAuthenticationError,
+  StoryblokPermissionError,
+  StoryblokNotFoundError,
+  StoryblokValidationError,
+  StoryblokRateLimitError,
+  StoryblokNetworkError
+} from './errors';
+
+describe('Storyblok errors', () => {
+  const context = {
+    endpoint: 'https://mapi.storyblok.com/v1/spaces/12345/stories',
+    spaceId: '12345',
+    tokenPermissions: 'unknown',
+    requiredPermissions: 'unknown',
+    suggestedFix: 'Fix it.'
+  };
+
+  describe('createApiError', () => {
+    it.each([
+      [401, StoryblokAuthenticationError, 'AUTHENTICATION_FAILED'],
+      [403, StoryblokPermissionError, 'PERMISSION_DENIED'],
+      [404, StoryblokNotFoundError, 'NOT_FOUND'],
+      [422, StoryblokValidationError, 'VALIDATION_FAILED'],
+      [429, StoryblokRateLimitError, 'RATE_LIMITED'],
+      [500, StoryblokApiError, 'STORYBLOK_API_ERROR']
+    ])('should map status %s to %p', (status, errorClass, code) => {
+      const error = createApiError(status, 'Status', { error: 'Something went wrong' }, context);
+      expect(error).toBeInstanceOf(errorClass);
+      expect(error.code).toBe(code);
+      expect(error.status).toBe(status);
+    });
+
+    it("should use Storyblok's message in the error message", () => {
+      const error = createApiError(404, 'Not Found', ['This record could not be found'], context);
+      expect(error.message).toBe('Storyblok API request failed with 404 Not Found: This record could not be found');
+    });
+
+    it('should extract field-level messages from 422 responses', () => {
+      const error = createApiError(422, 'Unprocessable Entity', { slug: ['has already been taken'], name: 'is too short' }, context);
+
+      expect(error).toBeInstanceOf(StoryblokValidationError);
+      expect((error as StoryblokValidationError).fieldErrors).toEqual([
+        { field: 'slug', messages: ['has already been taken'] },
+        { field: 'name', messages: ['is too short'] }
+      ]);
+      expect(error.message).toBe('Storyblok rejected the request: slug has already been taken; name is too short');
+    });
+
+    it('should record Retry-After on rate-limit errors', () => {
+      const error = createApiError(429, 'Too Many Requests', '', context, '7') as StoryblokRateLimitError;
+      expect(error.retryAfterSeconds).toBe(7);
+    });
+  });
+
+  describe('toolErrorResult', () => {
+    it('should keep the code and structured details of API errors', () => {
+      const result = toolErrorResult(createApiError(422, 'Unprocessable Entity', { slug: ['has already been taken'] }, context));
+
+      expect(result.isError).toBe(true);
+      expect(result.errorCode).toBe('VALIDATION_FAILED');
+      expect(result.errorMessage).toBe('Storyblok rejected the request: slug has already been taken');
+      expect(result.errorDetails).toEqual({
+        status: 422,
+        details: { slug: ['has already been taken'] },
+        context,
+        fieldErrors: [{ field: 'slug', messages: ['has already been taken'] }]
+      });
+      expect(result.content[0].text).toMatch(/^Error: VALIDATION_FAILED - Storyblok rejected the request/);
+    });
+
+    it('should report network errors and other errors with their own codes', () => {
+      expect(toolErrorResult(new StoryblokNetworkError('socket hang up', context.endpoint)).errorCode).toBe('NETWORK_ERROR');
+
+      const result = toolErrorResult(new Error('Unknown Storyblok space'));
+      expect(result.errorCode).toBe('INTERNAL_ERROR');
+      expect(result.content).toEqual([{ type: 'text', text: 'Error: INTERNAL_ERROR - Unknown Storyblok space' }]);
+    });
+  });
+
+  describe('serializeError', () => {
+    it('should produce plain objects for bulk operation results', () => {
+      expect(serializeError(createApiError(403, 'Forbidden', '', context))).toMatchObject({ code: 'PERMISSION_DENIED', status: 403 });
+      expect(serializeError('boom')).toEqual({ code: 'INTERNAL_ERROR', message: 'boom' });
+    });
+  });
+});
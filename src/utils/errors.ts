@@ -0,0 +1,231 @@
+import type { FieldValidationError, McpToolErrorResponse, StoryblokErrorContext } from '../types/index';
+
+/**
+ * @file src/utils/errors.ts
+ * @description Typed errors for Storyblok API failures and the shared formatter
+ * that turns any error into an `McpToolErrorResponse`.
+ */
+
+/**
+ * Base class for every failed Storyblok API call.
+ * Subclasses narrow the failure down so tools can react to it without parsing messages.
+ */
+export class StoryblokApiError extends Error {
+  readonly code: string = 'STORYBLOK_API_ERROR';
+
+  constructor(
+    message: string,
+    /** HTTP status, or undefined if no response was received. */
+    readonly status: number | undefined,
+    /** The response body, parsed as JSON when possible. */
+    readonly details: unknown,
+    readonly context: StoryblokErrorContext
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      code: this.code,
+      message: this.message,
+      status: this.status,
+      details: this.details,
+      context: this.context
+    };
+  }
+}
+
+/** 401: the token is missing, malformed or expired. */
+export class StoryblokAuthenticationError extends StoryblokApiError {
+  readonly code = 'AUTHENTICATION_FAILED';
+}
+
+/** 403: the token is valid but may not perform this operation. */
+export class StoryblokPermissionError extends StoryblokApiError {
+  readonly code = 'PERMISSION_DENIED';
+}
+
+/** 404: the resource or endpoint does not exist. */
+export class StoryblokNotFoundError extends StoryblokApiError {
+  readonly code = 'NOT_FOUND';
+}
+
+/** 422: Storyblok rejected the payload; `fieldErrors` lists its messages per field. */
+export class StoryblokValidationError extends StoryblokApiError {
+  readonly code = 'VALIDATION_FAILED';
+  readonly fieldErrors: FieldValidationError[];
+
+  constructor(message: string, status: number, details: unknown, context: StoryblokErrorContext) {
+    super(message, status, details, context);
+    this.fieldErrors = extractFieldErrors(details);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), fieldErrors: this.fieldErrors };
+  }
+}
+
+/** 429: the rate limit was still exceeded after the client's retries. */
+export class StoryblokRateLimitError extends StoryblokApiError {
+  readonly code = 'RATE_LIMITED';
+
+  constructor(message: string, status: number, details: unknown, context: StoryblokErrorContext, readonly retryAfterSeconds?: number) {
+    super(message, status, details, context);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), retryAfterSeconds: this.retryAfterSeconds };
+  }
+}
+
+/** No response: DNS, connection or timeout failures. */
+export class StoryblokNetworkError extends StoryblokApiError {
+  readonly code = 'NETWORK_ERROR';
+
+  constructor(message: string, endpoint: string, readonly cause?: unknown) {
+    super(message, undefined, undefined, {
+      endpoint,
+      tokenPermissions: 'unknown',
+      requiredPermissions: 'unknown',
+      suggestedFix: 'Check network connectivity to the Storyblok API and retry.'
+    });
+  }
+}
+
+// Normalizes Storyblok's 422 bodies: {"field": ["msg"]}, {"field": "msg"}, ["msg"] or {"error": "msg"}
+function extractFieldErrors(details: unknown): FieldValidationError[] {
+  const toMessages = (value: unknown): string[] =>
+    Array.isArray(value) ? value.map(String) : value === undefined || value === null ? [] : [String(value)];
+
+  if (Array.isArray(details) || typeof details === 'string') {
+    return [{ field: 'base', messages: toMessages(details) }];
+  }
+  if (typeof details !== 'object' || details === null) {
+    return [];
+  }
+  const body = details as Record<string, unknown>;
+  const fields = typeof body.errors === 'object' && body.errors !== null && !Array.isArray(body.errors)
+    ? body.errors as Record<string, unknown>
+    : body;
+  return Object.entries(fields).map(([field, value]) => ({
+    field: field === 'error' || field === 'errors' ? 'base' : field,
+    messages: toMessages(value)
+  }));
+}
+
+// Picks a human-readable message out of a Storyblok error body
+function extractApiMessage(details: unknown): string | undefined {
+  if (typeof details === 'string') {
+    return details.trim() || undefined;
+  }
+  if (Array.isArray(details)) {
+    return details.map(String).join('; ') || undefined;
+  }
+  if (typeof details === 'object' && details !== null) {
+    const body = details as Record<string, unknown>;
+    const message = body.error ?? body.message;
+    if (typeof message === 'string') {
+      return message;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Creates the error subclass matching an HTTP error response.
+ *
+ * @param {number} status - The HTTP status code.
+ * @param {string} statusText - The HTTP status text.
+ * @param {unknown} details - The response body, parsed as JSON when possible.
+ * @param {StoryblokErrorContext} context - The request context.
+ * @param {string | null} retryAfter - The `Retry-After` header, if any.
+ * @returns {StoryblokApiError} The typed error.
+ */
+export function createApiError(
+  status: number,
+  statusText: string,
+  details: unknown,
+  context: StoryblokErrorContext,
+  retryAfter?: string | null
+): StoryblokApiError {
+  const apiMessage = extractApiMessage(details);
+  const message = `Storyblok API request failed with ${status} ${statusText}`.trim() + (apiMessage ? `: ${apiMessage}` : '.');
+
+  switch (status) {
+    case 401:
+      return new StoryblokAuthenticationError(message, status, details, context);
+    case 403:
+      return new StoryblokPermissionError(message, status, details, context);
+    case 404:
+      return new StoryblokNotFoundError(message, status, details, context);
+    case 422: {
+      const summary = extractFieldErrors(details)
+        .map(({ field, messages }) => field === 'base' ? messages.join('; ') : `${field} ${messages.join(', ')}`)
+        .join('; ');
+      return new StoryblokValidationError(summary ? `Storyblok rejected the request: ${summary}` : message, status, details, context);
+    }
+    case 429: {
+      const seconds = retryAfter ? Number(retryAfter) : NaN;
+      return new StoryblokRateLimitError(message, status, details, context, Number.isFinite(seconds) ? seconds : undefined);
+    }
+    default:
+      return new StoryblokApiError(message, status, details, context);
+  }
+}
+
+/**
+ * Converts any thrown value into a plain object suitable for JSON output,
+ * e.g. for per-item failures in bulk operation results.
+ *
+ * @param {unknown} error - The caught value.
+ * @returns {Record<string, unknown>} The error code, message and, for API errors, status and details.
+ */
+export function serializeError(error: unknown): Record<string, unknown> {
+  if (error instanceof StoryblokApiError) {
+    return error.toJSON();
+  }
+  return {
+    code: 'INTERNAL_ERROR',
+    message: error instanceof Error ? error.message : String(error)
+  };
+}
+
+/**
+ * Builds a tool error result with the given code, message and optional structured details.
+ *
+ * @param {string} errorCode - Machine-readable error code, e.g. "INVALID_INPUT".
+ * @param {string} errorMessage - Human-readable summary.
+ * @param {string | object} errorDetails - Optional structured details, also appended to the text content.
+ * @returns {McpToolErrorResponse} The tool result.
+ */
+export function createToolError(errorCode: string, errorMessage: string, errorDetails?: string | object): McpToolErrorResponse {
+  let text = `Error: ${errorCode} - ${errorMessage}`;
+  if (errorDetails !== undefined) {
+    text += `\n${typeof errorDetails === 'string' ? errorDetails : JSON.stringify(errorDetails, null, 2)}`;
+  }
+  return {
+    isError: true,
+    errorCode,
+    errorMessage,
+    ...(errorDetails !== undefined && { errorDetails }),
+    content: [{ type: "text", text }]
+  };
+}
+
+/**
+ * Formats any error caught by a tool handler as a tool error result.
+ * Storyblok API errors keep their code and structured details (status, context, 422 field errors).
+ *
+ * @param {unknown} error - The caught value.
+ * @returns {McpToolErrorResponse} The tool result.
+ */
+export function toolErrorResult(error: unknown): McpToolErrorResponse {
+  if (error instanceof StoryblokApiError) {
+    const details = error.toJSON();
+    delete details.code;
+    delete details.message;
+    return createToolError(error.code, error.message, details);
+  }
+  return createToolError('INTERNAL_ERROR', error instanceof Error ? error.message : String(error));
+}
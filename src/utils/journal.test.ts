@@ -0,0 +1,140 @@
+// src/utils/journal.test.ts
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { journalOperation, readJournal, isJournalActive } from './journal';
+import { storyblokFetch, resetRateLimiters } from './api';
+
+global.fetch = jest.fn();
+
+describe('Undo journal', () => {
+  const mockFetch = global.fetch as jest.Mock;
+  const originalEnv = process.env;
+  const base = 'https://mapi.storyblok.com/v1/spaces/12345';
+  const headers = { Authorization: 'mgmt-token', 'Content-Type': 'application/json' };
+  const json = (body: unknown) => new Response(JSON.stringify(body));
+  let journalFile: string;
+
+  beforeEach(() => {
+    journalFile = join(mkdtempSync(join(tmpdir(), 'journal-')), 'journal.jsonl');
+    process.env = { ...originalEnv, STORYBLOK_MAPI_RATE_LIMIT: '1000', STORYBLOK_JOURNAL_FILE: journalFile };
+    mockFetch.mockReset();
+    resetRateLimiters();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should record the prior state of updates and how to restore it', async () => {
+    mockFetch
+      .mockResolvedValueOnce(json({ story: { id: 1, name: 'Home', content: { title: 'Old' } } }))
+      .mockResolvedValueOnce(json({ story: { id: 1, name: 'Home', content: { title: 'New' } } }));
+
+    const { result, entry } = await journalOperation('update-story', { id: '1' }, async () => {
+      expect(isJournalActive()).toBe(true);
+      const response = await storyblokFetch(`${base}/stories/1`, { method: 'PUT', headers, body: '{"story":{"content":{"title":"New"}}}' });
+      return response.status;
+    });
+
+    expect(result).toBe(200);
+    expect(mockFetch.mock.calls.map(([url, init]) => [url, init.method])).toEqual([
+      [`${base}/stories/1`, undefined],
+      [`${base}/stories/1`, 'PUT']
+    ]);
+    expect(entry?.changes).toEqual([{
+      method: 'PUT',
+      url: `${base}/stories/1`,
+      type: 'stories',
+      resource_id: '1',
+      before: { id: 1, name: 'Home', content: { title: 'Old' } },
+      after: { story: { id: 1, name: 'Home', content: { title: 'New' } } },
+      inverse: { method: 'PUT', url: `${base}/stories/1`, body: { story: { id: 1, name: 'Home', content: { title: 'Old' } } } }
+    }]);
+    expect(await readJournal()).toEqual([entry]);
+  });
+
+  it('should revert creations with a delete and deletions with a re-creation', async () => {
+    mockFetch
+      .mockResolvedValueOnce(json({ component: { id: 9, name: 'teaser' } }))
+      .mockResolvedValueOnce(json({ story: { id: 5, name: 'Old', is_folder: false } }))
+      .mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+    const { entry } = await journalOperation('mixed', {}, async () => {
+      await storyblokFetch(`${base}/components`, { method: 'POST', headers, body: '{"component":{"name":"teaser"}}' });
+      await storyblokFetch(`${base}/stories/5`, { method: 'DELETE', headers });
+    });
+
+    expect(entry?.changes.map(change => [change.inverse, change.note])).toEqual([
+      [{ method: 'DELETE', url: `${base}/components/9` }, undefined],
+      [{ method: 'POST', url: `${base}/stories`, body: { story: { name: 'Old', is_folder: false } } }, 'The resource is recreated with a new ID.']
+    ]);
+  });
+
+  it('should explain changes that cannot be reverted', async () => {
+    mockFetch
+      .mockResolvedValueOnce(json({ id: 3, filename: 'a.png' }))
+      .mockResolvedValueOnce(new Response(null, { status: 204 }))
+      .mockResolvedValueOnce(json({ story: { id: 1, published: true } }))
+      .mockResolvedValueOnce(json({ story: { id: 1 } }));
+
+    const { entry } = await journalOperation('mixed', {}, async () => {
+      await storyblokFetch(`${base}/assets/3`, { method: 'DELETE', headers });
+      await storyblokFetch(`${base}/stories/1/publish`, { method: 'POST', headers });
+    });
+
+    expect(entry?.changes.map(change => [change.inverse, change.note])).toEqual([
+      [undefined, 'Deleted asset files cannot be restored.'],
+      [undefined, 'The story was already published; its previously published version cannot be restored.']
+    ]);
+  });
+
+  it('should not journal failed requests, other resources or reads', async () => {
+    mockFetch
+      .mockResolvedValueOnce(json({ story: { id: 1 } }))
+      .mockResolvedValueOnce(new Response('{"slug":["taken"]}', { status: 422 }))
+      .mockResolvedValueOnce(json({ release: { id: 2 } }))
+      .mockResolvedValueOnce(json({ stories: [] }));
+
+    const { entry } = await journalOperation('mixed', {}, async () => {
+      await storyblokFetch(`${base}/stories/1`, { method: 'PUT', headers, body: '{}' });
+      await storyblokFetch(`${base}/releases`, { method: 'POST', headers, body: '{}' });
+      await storyblokFetch(`${base}/stories`, { headers });
+    });
+
+    expect(entry).toBeUndefined();
+    expect(await readJournal()).toEqual([]);
+  });
+
+  it('should do nothing when the journal is disabled', async () => {
+    process.env.STORYBLOK_JOURNAL = 'false';
+    mockFetch.mockResolvedValueOnce(json({ component: { id: 9 } }));
+
+    const { entry } = await journalOperation('create-component', {}, async () => {
+      expect(isJournalActive()).toBe(false);
+      await storyblokFetch(`${base}/components`, { method: 'POST', headers, body: '{}' });
+    });
+
+    expect(entry).toBeUndefined();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a journal entry that cannot be written, without failing the call', async () => {
+    process.env.STORYBLOK_JOURNAL_FILE = mkdtempSync(join(tmpdir(), 'journal-dir-'));
+    mockFetch.mockResolvedValueOnce(json({ component: { id: 9 } }));
+
+    const { result, entry, error } = await journalOperation('create-component', {}, async () => {
+      const response = await storyblokFetch(`${base}/components`, { method: 'POST', headers, body: '{}' });
+      return response.status;
+    });
+
+    expect(result).toBe(200);
+    expect(entry).toBeUndefined();
+    expect(error).toMatchObject({ code: 'INTERNAL_ERROR', message: expect.stringContaining('EISDIR') });
+  });
+
+  it('should skip unreadable journal lines', async () => {
+    writeFileSync(journalFile, '{"id":"op_1","tool":"a","changes":[]}\nnot json\n\n');
+    expect((await readJournal()).map(entry => entry.id)).toEqual(['op_1']);
+  });
+});
@@ -0,0 +1,269 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { getJournalConfig } from '../config/index';
+import type { InverseRequest, JournalChange, JournalEntry } from '../types/index';
+import { serializeError } from './errors';
+import { logger } from './logger';
+
+/**
+ * @file src/utils/journal.ts
+ * @description Local undo journal. While a mutating tool runs inside `journalOperation`,
+ * storyblokFetch reads the prior state of every story, component, component group, preset,
+ * asset, asset folder or tag it is about to change, and the operation is appended to a
+ * JSON-lines file with the requests that revert it.
+ */
+
+/** Journaled resource types, mapped to the key Storyblok wraps a single resource in. */
+const JOURNALED_TYPES: Record<string, string> = {
+  stories: 'story',
+  components: 'component',
+  component_groups: 'component_group',
+  presets: 'preset',
+  assets: 'asset',
+  asset_folders: 'asset_folder',
+  tags: 'tag'
+};
+
+// The changes recorded by the operation the current async call chain belongs to
+const journalChanges = new AsyncLocalStorage<JournalChange[]>();
+
+/**
+ * Tells whether writes of the current call are being journaled.
+ *
+ * @returns {boolean} True inside `journalOperation` with the journal enabled.
+ */
+export function isJournalActive(): boolean {
+  return journalChanges.getStore() !== undefined;
+}
+
+interface ResourceTarget {
+  /** The collection URL, e.g. https://mapi.storyblok.com/v1/spaces/1/stories */
+  base: string;
+  type: string;
+  id?: string;
+  action?: string;
+}
+
+function parseResourceUrl(url: string): ResourceTarget | undefined {
+  const match = url.split('?')[0].match(/^(.*\/v1\/spaces\/\d+\/([a-z_]+))(?:\/([^/]+))?(?:\/(.+))?$/);
+  if (!match || !JOURNALED_TYPES[match[2]]) {
+    return undefined;
+  }
+  const [, base, type, id, action] = match;
+  return { base, type, id: id && decodeURIComponent(id), action };
+}
+
+const withoutId = (state: unknown) => {
+  const { id, ...rest } = (state ?? {}) as Record<string, unknown>;
+  return rest;
+};
+
+type Send = (url: string, init?: RequestInit) => Promise<Response>;
+
+// Reads the current state of a resource, unwrapped from its `{ "story": ... }` envelope
+async function readState(target: ResourceTarget, headers: HeadersInit | undefined, send: Send): Promise<unknown> {
+  if (target.type === 'tags') {
+    // Tags have no single-item endpoint and may be addressed by ID or name
+    const response = await send(target.base, { headers });
+    const { tags = [] } = response.ok ? await response.json() : {};
+    return tags.find((tag: any) => String(tag.id) === target.id || tag.name === target.id);
+  }
+  const response = await send(`${target.base}/${encodeURIComponent(target.id!)}`, { headers });
+  if (!response.ok) {
+    return undefined;
+  }
+  const body = await response.json();
+  return body?.[JOURNALED_TYPES[target.type]] ?? body;
+}
+
+// Works out the request that reverts a change, or explains why there is none
+function buildInverse(
+  target: ResourceTarget,
+  method: string,
+  before: unknown,
+  after: unknown
+): { inverse?: InverseRequest; note?: string } {
+  const key = JOURNALED_TYPES[target.type];
+  const resourceUrl = `${target.base}/${encodeURIComponent(target.id ?? '')}`;
+  const state = before as Record<string, any> | undefined;
+
+  if (target.action) {
+    const action = target.action.split('/')[0];
+    if (target.type === 'stories' && (action === 'publish' || action === 'unpublish')) {
+      const wasPublished = Boolean(state?.published);
+      if (state === undefined) {
+        return { note: 'The previous publish state could not be read.' };
+      }
+      if (wasPublished === (action === 'publish')) {
+        return action === 'publish'
+          ? { note: 'The story was already published; its previously published version cannot be restored.' }
+          : { note: 'The story was not published, so there is nothing to undo.' };
+      }
+      return { inverse: { method: 'POST', url: `${resourceUrl}/${action === 'publish' ? 'unpublish' : 'publish'}` } };
+    }
+    if (target.type === 'stories' && action === 'restore' && state) {
+      return { inverse: { method: 'PUT', url: resourceUrl, body: { [key]: state } } };
+    }
+    return { note: `No inverse is known for '${target.action}'.` };
+  }
+
+  switch (method) {
+    case 'POST': {
+      const body = after as Record<string, any> | undefined;
+      const createdId = body?.[key]?.id ?? body?.id;
+      return createdId === undefined
+        ? { note: 'The ID of the created resource is unknown.' }
+        : { inverse: { method: 'DELETE', url: `${target.base}/${createdId}` } };
+    }
+    case 'PUT':
+      return state === undefined
+        ? { note: 'The previous state could not be read.' }
+        : { inverse: { method: 'PUT', url: resourceUrl, body: { [key]: state } } };
+    case 'DELETE':
+      if (state === undefined) {
+        return { note: 'The previous state could not be read.' };
+      }
+      if (target.type === 'assets') {
+        return { note: 'Deleted asset files cannot be restored.' };
+      }
+      if (target.type === 'tags') {
+        return { inverse: { method: 'POST', url: target.base, body: { name: state.name } }, note: 'The tag is recreated without its story assignments.' };
+      }
+      if (target.type === 'component_groups') {
+        return {
+          inverse: { method: 'POST', url: target.base, body: { [key]: withoutId(state) } },
+          note: 'The group is recreated with a new UUID; move its components back with move-components-to-group.'
+        };
+      }
+      return {
+        inverse: { method: 'POST', url: target.base, body: { [key]: withoutId(state) } },
+        note: target.type === 'stories' && state.is_folder
+          ? 'The folder is recreated with a new ID; stories deleted with it are not restored.'
+          : 'The resource is recreated with a new ID.'
+      };
+    default:
+      return { note: `No inverse is known for ${method} requests.` };
+  }
+}
+
+/**
+ * Sends a write request of the active operation and journals it: reads the prior state first,
+ * then records the response and the inverse request.
+ *
+ * @param {string} url - The request URL.
+ * @param {RequestInit} init - The request options.
+ * @param {string} method - The upper-case HTTP method.
+ * @param {(url: string, init?: RequestInit) => Promise<Response>} send - Sends a request, normally storyblokFetch; it runs outside the journal.
+ * @returns {Promise<Response>} The response to the write request.
+ */
+export async function recordJournaledWrite(url: string, init: RequestInit, method: string, send: Send): Promise<Response> {
+  const changes = journalChanges.getStore();
+  const target = parseResourceUrl(url);
+  return journalChanges.exit(async () => {
+    if (!changes || !target) {
+      return send(url, init);
+    }
+
+    let before: unknown;
+    if (target.id !== undefined) {
+      before = await readState(target, init.headers, send).catch(() => undefined);
+    }
+
+    const response = await send(url, init);
+    if (response.ok) {
+      const after = await response.clone().json().catch(() => undefined);
+      changes.push({
+        method,
+        url,
+        type: target.type,
+        ...(target.id !== undefined && { resource_id: target.id }),
+        ...(target.action && { action: target.action }),
+        ...(before !== undefined && { before }),
+        ...(after !== undefined && { after }),
+        ...buildInverse(target, method, before, after)
+      });
+    }
+    return response;
+  });
+}
+
+/**
+ * Appends an entry to the journal file.
+ *
+ * @param {JournalEntry} entry - The entry to append.
+ */
+export async function appendJournalEntry(entry: JournalEntry): Promise<void> {
+  const { file } = getJournalConfig();
+  await mkdir(dirname(file), { recursive: true });
+  await appendFile(file, JSON.stringify(entry) + '\n', 'utf8');
+}
+
+/**
+ * Reads every journal entry, oldest first. Unreadable lines are skipped.
+ *
+ * @returns {Promise<JournalEntry[]>} The entries; empty if there is no journal yet.
+ */
+export async function readJournal(): Promise<JournalEntry[]> {
+  let raw: string;
+  try {
+    raw = await readFile(getJournalConfig().file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  return raw.split('\n').flatMap(line => {
+    try {
+      return line.trim() ? [JSON.parse(line) as JournalEntry] : [];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Runs a mutating tool call and journals the changes it made, if any.
+ *
+ * @param {string} tool - The tool name.
+ * @param {Record<string, unknown>} args - The call's arguments.
+ * @param {() => Promise<T>} run - Runs the tool's handler.
+ * @param {string} undoes - For undo operations: the ID of the entry being reverted.
+ * @returns {Promise<{ result: T; entry?: JournalEntry; error?: Record<string, unknown> }>} The handler's result and
+ *   the journal entry, if anything changed; `error` instead of the entry if the changes could not be journaled.
+ */
+export async function journalOperation<T>(
+  tool: string,
+  args: Record<string, unknown>,
+  run: () => Promise<T>,
+  undoes?: string
+): Promise<{ result: T; entry?: JournalEntry; error?: Record<string, unknown> }> {
+  if (!getJournalConfig().enabled) {
+    return { result: await run() };
+  }
+
+  const changes: JournalChange[] = [];
+  const result = await journalChanges.run(changes, run);
+  if (changes.length === 0) {
+    return { result };
+  }
+
+  const entry: JournalEntry = {
+    id: `op_${Date.now().toString(36)}_${randomBytes(3).toString('hex')}`,
+    timestamp: new Date().toISOString(),
+    tool,
+    args,
+    changes,
+    ...(undoes && { undoes })
+  };
+  try {
+    await appendJournalEntry(entry);
+  } catch (error) {
+    // The changes already happened; a journal failure must not turn them into a tool error
+    logger.error('Failed to write journal entry', { id: entry.id, error });
+    return { result, error: serializeError(error) };
+  }
+  return { result, entry };
+}
@@ -0,0 +1,111 @@
+// src/utils/logger.test.ts
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { enableMcpLogging, logger, resetLogSubscriptions, runInLogSession } from './logger';
+import { storyblokFetch, resetRateLimiters } from './api';
+
+global.fetch = jest.fn();
+
+describe('Logger', () => {
+  const mockFetch = global.fetch as jest.Mock;
+  const originalEnv = process.env;
+  let stderr: jest.SpyInstance;
+
+  const entries = () => stderr.mock.calls.map(([line]) => JSON.parse(line));
+
+  // A server of one client session that has set its log level
+  const subscribe = async (level: string, connected = true) => {
+    const server = {
+      isConnected: () => connected,
+      server: { setRequestHandler: jest.fn(), sendLoggingMessage: jest.fn().mockResolvedValue(undefined) }
+    };
+    enableMcpLogging(server as unknown as McpServer);
+    await server.server.setRequestHandler.mock.calls[0][1]({ method: 'logging/setLevel', params: { level } });
+    return server;
+  };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, STORYBLOK_LOG_LEVEL: 'info', STORYBLOK_MAPI_RATE_LIMIT: '1000' };
+    stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    resetLogSubscriptions();
+    mockFetch.mockReset();
+    resetRateLimiters();
+  });
+
+  afterEach(() => {
+    stderr.mockRestore();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should write JSON lines to stderr at or above the configured level', () => {
+    logger.child('test').debug('hidden');
+    logger.child('test').warning('Something odd', { id: 1, error: new Error('boom') });
+
+    expect(entries()).toEqual([{
+      timestamp: expect.any(String),
+      level: 'warning',
+      logger: 'storyblok-mcp:test',
+      message: 'Something odd',
+      id: 1,
+      error: { name: 'Error', code: 'INTERNAL_ERROR', message: 'boom' }
+    }]);
+  });
+
+  it('should fall back to info for an invalid level', () => {
+    process.env.STORYBLOK_LOG_LEVEL = 'verbose';
+    logger.debug('hidden');
+    logger.info('shown');
+
+    expect(entries().map(entry => entry.message)).toEqual(['shown']);
+  });
+
+  it('should log Storyblok requests with latency and redacted headers', async () => {
+    process.env.STORYBLOK_LOG_LEVEL = 'debug';
+    mockFetch.mockResolvedValueOnce(new Response('{}'));
+
+    await storyblokFetch('https://mapi.storyblok.com/v1/spaces/1/stories?token=abc', { headers: { Authorization: 'secret-token', 'Content-Type': 'application/json' } });
+
+    expect(entries()).toEqual([expect.objectContaining({
+      level: 'debug',
+      logger: 'storyblok-mcp:http',
+      message: 'Storyblok request',
+      method: 'GET',
+      url: 'https://mapi.storyblok.com/v1/spaces/1/stories?token=%5BREDACTED%5D',
+      status: 200,
+      duration_ms: expect.any(Number),
+      attempt: 0,
+      headers: { authorization: '[REDACTED]', 'content-type': 'application/json' }
+    })]);
+  });
+
+  it('should notify client sessions at the level they set', async () => {
+    const session = await subscribe('warning');
+
+    logger.info('Too verbose');
+    logger.error('Failed', { id: 7 });
+
+    expect(session.server.sendLoggingMessage).toHaveBeenCalledTimes(1);
+    expect(session.server.sendLoggingMessage).toHaveBeenCalledWith({ level: 'error', logger: 'storyblok-mcp', data: { message: 'Failed', id: 7 } });
+  });
+
+  it('should send the entries of a tool call to its own session only', async () => {
+    const own = await subscribe('debug');
+    const other = await subscribe('debug');
+
+    runInLogSession(own as unknown as McpServer, () => logger.info('Inside a tool call'));
+    logger.info('Outside any tool call');
+
+    expect(own.server.sendLoggingMessage.mock.calls.map(([params]) => params.data.message)).toEqual(['Inside a tool call', 'Outside any tool call']);
+    expect(other.server.sendLoggingMessage.mock.calls.map(([params]) => params.data.message)).toEqual(['Outside any tool call']);
+  });
+
+  it('should forget disconnected sessions', async () => {
+    const session = await subscribe('debug', false);
+
+    logger.info('Nobody listens');
+
+    expect(session.server.sendLoggingMessage).not.toHaveBeenCalled();
+  });
+});
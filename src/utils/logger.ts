@@ -0,0 +1,146 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { getLogLevel, LOG_LEVELS } from '../config/index';
+import type { LogLevel } from '../types/index';
+import { serializeError } from './errors';
+
+/**
+ * @file src/utils/logger.ts
+ * @description Structured logger. Entries are written as JSON lines to stderr, never to stdout,
+ * which carries the MCP protocol over stdio. Clients that choose a level with `logging/setLevel`
+ * also receive entries as `notifications/message`: the entries of their own tool calls, and
+ * entries logged outside any tool call.
+ */
+
+/** A client session that asked for log messages, and the least severe level it wants. */
+interface LogSubscription {
+  server: McpServer;
+  level: LogLevel;
+}
+
+const subscriptions = new Map<McpServer, LogSubscription>();
+
+// The session whose tool call the current async call chain belongs to
+const logSession = new AsyncLocalStorage<McpServer>();
+
+const severity = (level: LogLevel) => LOG_LEVELS.indexOf(level);
+
+function stderrThreshold(): LogLevel {
+  try {
+    return getLogLevel();
+  } catch {
+    // An invalid STORYBLOK_LOG_LEVEL is reported at startup; logging must not throw meanwhile
+    return 'info';
+  }
+}
+
+// Errors do not survive JSON.stringify, so log their code and message instead
+const toLoggable = (data: Record<string, unknown>) => Object.fromEntries(
+  Object.entries(data).map(([key, value]) => [key, value instanceof Error ? { name: value.name, ...serializeError(value) } : value])
+);
+
+/**
+ * Writes structured log entries. Create one per module with `logger.child(name)`.
+ */
+export class Logger {
+  /**
+   * @param {string} name - The logger name, reported as `logger` in every entry.
+   */
+  constructor(readonly name: string) {}
+
+  /**
+   * Creates a logger for a part of the server, e.g. `logger.child('http')` for `storyblok-mcp:http`.
+   *
+   * @param {string} name - The part's name.
+   * @returns {Logger} The child logger.
+   */
+  child(name: string): Logger {
+    return new Logger(`${this.name}:${name}`);
+  }
+
+  /**
+   * Writes an entry to stderr if the level passes `STORYBLOK_LOG_LEVEL`, and to every
+   * client session that should receive it at its chosen level.
+   *
+   * @param {LogLevel} level - The entry's severity.
+   * @param {string} message - What happened.
+   * @param {Record<string, unknown>} data - Structured details; `Error` values are serialized.
+   */
+  log(level: LogLevel, message: string, data: Record<string, unknown> = {}): void {
+    const details = toLoggable(data);
+    if (severity(level) >= severity(stderrThreshold())) {
+      process.stderr.write(JSON.stringify({ timestamp: new Date().toISOString(), level, logger: this.name, message, ...details }) + '\n');
+    }
+
+    const session = logSession.getStore();
+    const recipients = session ? [subscriptions.get(session)].filter(Boolean) as LogSubscription[] : [...subscriptions.values()];
+    for (const subscription of recipients) {
+      if (severity(level) < severity(subscription.level)) {
+        continue;
+      }
+      if (!subscription.server.isConnected()) {
+        subscriptions.delete(subscription.server);
+        continue;
+      }
+      // A failed notification cannot be logged without recursing, so it is dropped
+      subscription.server.server
+        .sendLoggingMessage({ level, logger: this.name, data: { message, ...details } })
+        .catch(() => undefined);
+    }
+  }
+
+  debug(message: string, data?: Record<string, unknown>): void {
+    this.log('debug', message, data);
+  }
+
+  info(message: string, data?: Record<string, unknown>): void {
+    this.log('info', message, data);
+  }
+
+  warning(message: string, data?: Record<string, unknown>): void {
+    this.log('warning', message, data);
+  }
+
+  error(message: string, data?: Record<string, unknown>): void {
+    this.log('error', message, data);
+  }
+
+  critical(message: string, data?: Record<string, unknown>): void {
+    this.log('critical', message, data);
+  }
+}
+
+/** The server's root logger. */
+export const logger = new Logger('storyblok-mcp');
+
+/**
+ * Lets a server's client choose a log level with `logging/setLevel`, after which it receives
+ * log entries as `notifications/message`. The server must declare the `logging` capability.
+ *
+ * @param {McpServer} server - The server of one client session.
+ */
+export function enableMcpLogging(server: McpServer): void {
+  server.server.setRequestHandler(SetLevelRequestSchema, async request => {
+    subscriptions.set(server, { server, level: request.params.level });
+    return {};
+  });
+}
+
+/**
+ * Runs a tool call so the entries it logs go to its own client session only.
+ *
+ * @param {McpServer} server - The server the tool call belongs to.
+ * @param {() => T} run - Runs the tool call.
+ * @returns {T} The tool call's result.
+ */
+export function runInLogSession<T>(server: McpServer, run: () => T): T {
+  return logSession.run(server, run);
+}
+
+/**
+ * Forgets every client session's log level. Intended for tests.
+ */
+export function resetLogSubscriptions(): void {
+  subscriptions.clear();
+}
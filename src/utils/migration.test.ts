@@ -0,0 +1,62 @@
+// src/utils/migration.test.ts
+import { applyContentTransforms } from './migration';
+
+describe('applyContentTransforms', () => {
+  const content = () => ({
+    component: 'page',
+    body: [
+      { _uid: 'a', component: 'hero', title: 'Hello', title__i18n__de: 'Hallo', cta: 'Go', cta_url: '/go', tags: ['x', 'y'] },
+      { _uid: 'b', component: 'grid', columns: [{ _uid: 'c', component: 'hero', title: 'Nested', headline: 'Taken', tags: [] }] }
+    ]
+  });
+
+  it('should rename, map and delete fields with their translations, without touching the input', () => {
+    const input = content();
+    const { content: output, changes } = applyContentTransforms(input, [
+      { type: 'rename_field', component: 'hero', from: 'title', to: 'headline' },
+      { type: 'map_values', component: 'hero', field: 'tags', values: { x: 'news' } },
+      { type: 'delete_field', component: 'hero', field: 'cta_url' }
+    ]);
+
+    expect(output.body).toEqual([
+      { _uid: 'a', component: 'hero', headline: 'Hello', headline__i18n__de: 'Hallo', cta: 'Go', tags: ['news', 'y'] },
+      { _uid: 'b', component: 'grid', columns: [{ _uid: 'c', component: 'hero', title: 'Nested', headline: 'Taken', tags: [] }] }
+    ]);
+    expect(changes).toEqual([
+      { path: 'body[0]', transform: 0, description: "Renamed 'title' to 'headline'." },
+      { path: 'body[1].columns[0]', transform: 0, description: "Renaming 'title' to 'headline'", skipped: "'headline' already has a value." },
+      { path: 'body[0]', transform: 1, description: "Mapped the values of 'tags'." },
+      { path: 'body[0]', transform: 2, description: "Deleted 'cta_url'." }
+    ]);
+    expect(input).toEqual(content());
+  });
+
+  it('should set defaults, move fields into a new block and rename components', () => {
+    const { content: output, changes } = applyContentTransforms(content(), [
+      { type: 'set_default', component: 'hero', field: 'tags', value: ['default'] },
+      { type: 'move_to_block', component: 'hero', fields: ['cta', 'cta_url'], target_field: 'buttons', block_component: 'button' },
+      { type: 'rename_component', component: 'hero', to: 'banner' },
+      { type: 'set_default', component: 'banner', field: 'layout', value: 'wide' }
+    ]);
+
+    const [first, grid] = output.body as any[];
+    expect(first).toEqual({
+      _uid: 'a',
+      component: 'banner',
+      title: 'Hello',
+      title__i18n__de: 'Hallo',
+      tags: ['x', 'y'],
+      buttons: [{ _uid: expect.any(String), component: 'button', cta: 'Go', cta_url: '/go' }],
+      layout: 'wide'
+    });
+    expect(grid.columns[0]).toMatchObject({ component: 'banner', tags: ['default'], layout: 'wide' });
+    expect(changes.map(({ path, transform }) => [path, transform])).toEqual([
+      ['body[1].columns[0]', 0],
+      ['body[0]', 1],
+      ['body[0]', 2],
+      ['body[1].columns[0]', 2],
+      ['body[0]', 3],
+      ['body[1].columns[0]', 3]
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import { randomUUID } from 'node:crypto';
+import { findComponentBlocks } from './blocks';
+
+/**
+ * @file src/utils/migration.ts
+ * @description Declarative content transforms for migrating story content after a component
+ * schema change. Each transform applies to every block of its component, however deeply nested;
+ * field transforms carry the field's translations (`<field>__i18n__<locale>`) along.
+ */
+
+export type ContentTransform =
+  | { type: 'rename_field'; component: string; from: string; to: string }
+  | { type: 'set_default'; component: string; field: string; value: unknown }
+  | { type: 'map_values'; component: string; field: string; values: Record<string, unknown> }
+  | { type: 'move_to_block'; component: string; fields: string[]; target_field: string; block_component: string }
+  | { type: 'delete_field'; component: string; field: string }
+  | { type: 'rename_component'; component: string; to: string };
+
+export interface TransformChange {
+  /** JSON path of the changed block, e.g. `body[2]`; empty for the story's root block. */
+  path: string;
+  /** Position of the transform in the list it belongs to. */
+  transform: number;
+  description: string;
+  /** Why the block was left unchanged, if it was. */
+  skipped?: string;
+}
+
+export interface TransformResult {
+  /** A transformed copy of the content; the input is not modified. */
+  content: Record<string, unknown>;
+  /** What each transform did, in order. Skipped blocks are listed but did not change. */
+  changes: TransformChange[];
+}
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// A field's own key and the keys of its translations, e.g. `title` and `title__i18n__de`
+const translatedKeys = (block: Record<string, any>, field: string) =>
+  Object.keys(block).filter(key => key === field || key.startsWith(`${field}__i18n__`));
+
+// A mapped value; values without a mapping stay as they are, and arrays of option values are mapped one by one
+const mapValue = (value: unknown, values: Record<string, unknown>): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(item => mapValue(item, values));
+  }
+  return (typeof value === 'string' || typeof value === 'number') && Object.prototype.hasOwnProperty.call(values, String(value))
+    ? values[String(value)]
+    : value;
+};
+
+// Applies a transform to one block; returns a description of the change, a reason it was skipped, or null if it did not apply
+function transformBlock(block: Record<string, any>, transform: ContentTransform): { description: string; skipped?: string } | null {
+  switch (transform.type) {
+    case 'rename_field': {
+      const keys = translatedKeys(block, transform.from);
+      if (keys.length === 0) {
+        return null;
+      }
+      const targets = keys.map(key => `${transform.to}${key.slice(transform.from.length)}`);
+      if (targets.some(key => !isEmpty(block[key]))) {
+        return { description: `Renaming '${transform.from}' to '${transform.to}'`, skipped: `'${transform.to}' already has a value.` };
+      }
+      keys.forEach((key, i) => {
+        block[targets[i]] = block[key];
+        delete block[key];
+      });
+      return { description: `Renamed '${transform.from}' to '${transform.to}'.` };
+    }
+    case 'set_default':
+      if (!isEmpty(block[transform.field])) {
+        return null;
+      }
+      block[transform.field] = transform.value;
+      return { description: `Set '${transform.field}' to its default value.` };
+    case 'map_values': {
+      const mapped = translatedKeys(block, transform.field).filter(key => {
+        const value = mapValue(block[key], transform.values);
+        if (JSON.stringify(value) === JSON.stringify(block[key])) {
+          return false;
+        }
+        block[key] = value;
+        return true;
+      });
+      return mapped.length > 0 ? { description: `Mapped the values of ${mapped.map(key => `'${key}'`).join(', ')}.` } : null;
+    }
+    case 'move_to_block': {
+      const keys = transform.fields.flatMap(field => translatedKeys(block, field));
+      if (keys.length === 0) {
+        return null;
+      }
+      const target = block[transform.target_field];
+      if (target !== undefined && target !== '' && !Array.isArray(target)) {
+        return { description: `Moving fields into '${transform.target_field}'`, skipped: `'${transform.target_field}' is not a blocks field.` };
+      }
+      const child: Record<string, unknown> = { _uid: randomUUID(), component: transform.block_component };
+      for (const key of keys) {
+        child[key] = block[key];
+        delete block[key];
+      }
+      block[transform.target_field] = [...(Array.isArray(target) ? target : []), child];
+      return { description: `Moved ${keys.map(key => `'${key}'`).join(', ')} into a new '${transform.block_component}' block in '${transform.target_field}'.` };
+    }
+    case 'delete_field': {
+      const keys = translatedKeys(block, transform.field);
+      keys.forEach(key => delete block[key]);
+      return keys.length > 0 ? { description: `Deleted ${keys.map(key => `'${key}'`).join(', ')}.` } : null;
+    }
+    case 'rename_component':
+      block.component = transform.to;
+      return { description: `Renamed the component '${transform.component}' to '${transform.to}'.` };
+  }
+}
+
+/**
+ * Applies transforms to story content, in order. Each transform sees the result of the ones
+ * before it, so a block renamed by `rename_component` is matched by its new name afterwards.
+ * Values are never overwritten: a rename whose target field already has a value is skipped.
+ *
+ * @param {Record<string, unknown>} content - The story content.
+ * @param {ContentTransform[]} transforms - The transforms to apply.
+ * @returns {TransformResult} The transformed copy, and what changed where.
+ */
+export function applyContentTransforms(content: Record<string, unknown>, transforms: ContentTransform[]): TransformResult {
+  const transformed = structuredClone(content);
+  const changes: TransformChange[] = [];
+  transforms.forEach((transform, index) => {
+    for (const { path, block } of findComponentBlocks(transformed, transform.component)) {
+      const change = transformBlock(block, transform);
+      if (change) {
+        changes.push({ path, transform: index, ...change });
+      }
+    }
+  });
+  return { content: transformed, changes };
+}
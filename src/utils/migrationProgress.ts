@@ -0,0 +1,85 @@
+import { createHash } from 'node:crypto';
+import { appendFile, mkdir, readFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getMigrationConfig } from '../config/index';
+import type { MigrationProgressEntry } from '../types/index';
+
+/**
+ * @file src/utils/migrationProgress.ts
+ * @description Progress files of content migrations. Every migrated story is appended to a
+ * JSON-lines file named after the migration, so a migration that was interrupted, or run in
+ * batches, skips the stories it already finished when it is run again.
+ */
+
+const MIGRATION_ID = /^[A-Za-z0-9_-]{1,64}$/;
+
+function progressFile(migrationId: string): string {
+  if (!MIGRATION_ID.test(migrationId)) {
+    throw new Error(`Invalid migration ID '${migrationId}'. Use up to 64 letters, digits, '-' or '_'.`);
+  }
+  return join(getMigrationConfig().progressDir, `${migrationId}.jsonl`);
+}
+
+/**
+ * Derives a migration ID from the migration's definition, so running the same migration again resumes it.
+ *
+ * @param {unknown} definition - The transforms and story filters of the migration.
+ * @returns {string} A 16-character hexadecimal ID.
+ */
+export function migrationIdFor(definition: unknown): string {
+  return createHash('sha256').update(JSON.stringify(definition)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Reads which stories a migration has finished: those updated, or left unchanged because
+ * nothing matched. Stories that failed are not finished and are retried.
+ *
+ * @param {string} migrationId - The migration.
+ * @returns {Promise<Set<number>>} The IDs of the finished stories; empty for a new migration.
+ * @throws {Error} If the migration ID is invalid.
+ */
+export async function readMigrationProgress(migrationId: string): Promise<Set<number>> {
+  let raw: string;
+  try {
+    raw = await readFile(progressFile(migrationId), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return new Set();
+    }
+    throw error;
+  }
+  const finished = new Set<number>();
+  for (const line of raw.split('\n')) {
+    try {
+      const entry = line.trim() ? JSON.parse(line) as MigrationProgressEntry : undefined;
+      if (entry && entry.status !== 'error') {
+        finished.add(entry.story_id);
+      }
+    } catch {
+      // A line cut off by a crash; the story is migrated again
+    }
+  }
+  return finished;
+}
+
+/**
+ * Records the outcome of migrating one story.
+ *
+ * @param {string} migrationId - The migration.
+ * @param {number} storyId - The story.
+ * @param {MigrationProgressEntry['status']} status - The outcome.
+ */
+export async function recordMigrationProgress(migrationId: string, storyId: number, status: MigrationProgressEntry['status']): Promise<void> {
+  const entry: MigrationProgressEntry = { story_id: storyId, status, timestamp: new Date().toISOString() };
+  await mkdir(getMigrationConfig().progressDir, { recursive: true });
+  await appendFile(progressFile(migrationId), JSON.stringify(entry) + '\n', 'utf8');
+}
+
+/**
+ * Forgets a migration's progress, so it starts over with every matching story.
+ *
+ * @param {string} migrationId - The migration.
+ */
+export async function resetMigrationProgress(migrationId: string): Promise<void> {
+  await rm(progressFile(migrationId), { force: true });
+}
@@ -0,0 +1,140 @@
+// src/utils/permissions.test.ts
+import { getRequiredPermission, getTokenPermissions, describePermissionContext, resetTokenPermissionCache } from './permissions';
+import { storyblokFetch, handleApiResponse, resetRateLimiters } from './api';
+import { StoryblokPermissionError } from './errors';
+
+jest.mock('../config/index', () => ({
+  ...jest.requireActual('../config/index'),
+  config: { spaceId: '12345' },
+  getConfig: () => ({ spaces: { default: {} } }),
+  getSpaceConfig: (space?: string) => {
+    if (space !== undefined && space !== 'default' && space !== '12345') {
+      throw new Error(`Unknown Storyblok space '${space}'.`);
+    }
+    return { name: 'default', spaceId: '12345', managementToken: 'mgmt', publicToken: 'pub', region: 'eu' };
+  },
+  getApiEndpoints: () => ({ MANAGEMENT: 'https://mapi.storyblok.com/v1', CONTENT: 'https://api.storyblok.com/v2' })
+}));
+
+global.fetch = jest.fn();
+
+describe('Token permissions', () => {
+  const mockFetch = global.fetch as jest.Mock;
+  const originalEnv = process.env;
+
+  // Routes introspection requests to canned Management API responses
+  const mockManagementApi = (membership: Record<string, unknown>, spaceRoles: unknown[] = []) => {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.endsWith('/users/me')) {
+        return new Response(JSON.stringify({ user: { id: 7, email: 'editor@example.com' } }));
+      }
+      if (url.endsWith('/collaborators')) {
+        return new Response(JSON.stringify({ collaborators: [{ user: { id: 7 }, ...membership }] }));
+      }
+      if (url.endsWith('/space_roles')) {
+        return new Response(JSON.stringify({ space_roles: spaceRoles }));
+      }
+      return new Response('{"error":"Forbidden"}', { status: 403, statusText: 'Forbidden' });
+    });
+  };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, STORYBLOK_MAPI_RATE_LIMIT: '1000' };
+    mockFetch.mockReset();
+    resetRateLimiters();
+    resetTokenPermissionCache();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('getRequiredPermission', () => {
+    it.each([
+      ['GET', 'https://mapi.storyblok.com/v1/spaces/12345/stories/1/publish', 'publish_stories'],
+      ['PUT', 'https://mapi.storyblok.com/v1/spaces/12345/stories/1', 'save_stories'],
+      ['DELETE', '/v1/spaces/12345/tags/news', 'save_stories'],
+      ['POST', '/v1/spaces/12345/assets', 'edit_image'],
+      ['PUT', '/v1/spaces/12345/components/3', 'admin'],
+      ['GET', '/v1/spaces/12345/stories?page=1', 'read']
+    ])('should require the right permission for %s %s', (method, endpoint, permission) => {
+      expect(getRequiredPermission(method, endpoint)).toBe(permission);
+    });
+  });
+
+  describe('introspection', () => {
+    it('should collect the permissions of the token user\'s space roles', async () => {
+      mockManagementApi({ role: 'editor', space_role_ids: [1] }, [
+        { id: 1, role: 'Editor', permissions: ['save_stories'] },
+        { id: 2, role: 'Publisher', permissions: ['publish_stories'] }
+      ]);
+
+      const info = await getTokenPermissions();
+
+      expect(info).toEqual({
+        space: 'default',
+        user: { id: 7, email: 'editor@example.com' },
+        roles: ['Editor'],
+        permissions: ['save_stories'],
+        isAdmin: false
+      });
+    });
+
+    it('should introspect each space only once', async () => {
+      mockManagementApi({ role: 'admin' });
+
+      await Promise.all([getTokenPermissions(), getTokenPermissions('12345')]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2); // users/me and collaborators
+    });
+
+    it('should report failures without caching them', async () => {
+      mockFetch.mockImplementation(async () => new Response('', { status: 401, statusText: 'Unauthorized' }));
+
+      const info = await getTokenPermissions();
+      expect(info.error).toBe('Token introspection failed: 401 Unauthorized from /v1/users/me');
+
+      await getTokenPermissions();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('describePermissionContext', () => {
+    it('should name the permission the token lacks', async () => {
+      mockManagementApi({ role: 'editor', space_role_ids: [1] }, [{ id: 1, role: 'Editor', permissions: ['save_stories'] }]);
+
+      const context = await describePermissionContext('POST', 'https://mapi.storyblok.com/v1/spaces/12345/stories/1/publish');
+
+      expect(context).toEqual({
+        tokenPermissions: 'roles: Editor; permissions: save_stories',
+        requiredPermissions: 'publish_stories',
+        missingPermissions: ['publish_stories']
+      });
+    });
+
+    it('should find nothing missing for admins', async () => {
+      mockManagementApi({ role: 'admin' });
+      const context = await describePermissionContext('PUT', 'https://mapi.storyblok.com/v1/spaces/12345/components/3');
+      expect(context.missingPermissions).toEqual([]);
+      expect(context.tokenPermissions).toBe('admin (all permissions)');
+    });
+  });
+
+  describe('handleApiResponse', () => {
+    it('should report the missing permission in 403 errors', async () => {
+      mockManagementApi({ role: 'editor', space_role_ids: [1] }, [{ id: 1, role: 'Editor', permissions: ['save_stories'] }]);
+      const url = 'https://mapi.storyblok.com/v1/spaces/12345/stories/1/publish';
+
+      const response = await storyblokFetch(url, { method: 'POST' });
+      const error = await handleApiResponse(response, url).catch(e => e);
+
+      expect(error).toBeInstanceOf(StoryblokPermissionError);
+      expect(error.context).toMatchObject({
+        requiredPermissions: 'publish_stories',
+        missingPermissions: ['publish_stories'],
+        tokenPermissions: 'roles: Editor; permissions: save_stories'
+      });
+      expect(error.context.suggestedFix).toContain("lacks the 'publish_stories' permission");
+    });
+  });
+});
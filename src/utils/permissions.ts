@@ -0,0 +1,183 @@
+import { getConfig, getSpaceConfig, getApiEndpoints } from '../config/index';
+import { storyblokFetch, buildManagementUrl, getManagementHeaders } from './api';
+import type { TokenPermissionInfo } from '../types/index';
+
+/**
+ * @file src/utils/permissions.ts
+ * @description Management token introspection and the permissions each API operation requires,
+ * used to explain 401/403 errors.
+ */
+
+/** Pseudo-permission for operations only space admins may perform. */
+export const ADMIN_PERMISSION = 'admin';
+
+/** Pseudo-permission for reads, which any collaborator of the space may perform. */
+export const READ_PERMISSION = 'read';
+
+interface PermissionRule {
+  methods: string[];
+  /** Matched against the endpoint path after `/spaces/:id`. */
+  path: RegExp;
+  permission: string;
+}
+
+// Checked in order; the first match wins. Permission names follow Storyblok's space role permissions.
+const PERMISSION_RULES: PermissionRule[] = [
+  { methods: ['GET', 'POST'], path: /^\/stories\/\d+\/(publish|unpublish)\b/, permission: 'publish_stories' },
+  { methods: ['POST', 'PUT', 'DELETE'], path: /^\/(stories|tags)\b/, permission: 'save_stories' },
+  { methods: ['POST', 'PUT'], path: /^\/releases\/\d+/, permission: 'deploy_stories' },
+  { methods: ['POST', 'PUT', 'DELETE'], path: /^\/releases\b/, permission: 'save_stories' },
+  { methods: ['POST', 'PUT', 'DELETE'], path: /^\/(assets|asset_folders)\b/, permission: 'edit_image' },
+  { methods: ['POST', 'PUT', 'DELETE'], path: /^\/(components|component_groups|presets|datasources|datasource_entries|space_roles|collaborators)\b/, permission: ADMIN_PERMISSION },
+  { methods: ['GET'], path: /^\/(space_roles|collaborators)\b/, permission: ADMIN_PERMISSION },
+  { methods: ['GET', 'HEAD'], path: /^(\/|$)/, permission: READ_PERMISSION }
+];
+
+/**
+ * Determines the permission an API operation requires.
+ *
+ * @param {string} method - The HTTP method.
+ * @param {string} endpoint - The request URL or path.
+ * @returns {string} A Storyblok space role permission, ADMIN_PERMISSION or READ_PERMISSION.
+ */
+export function getRequiredPermission(method: string, endpoint: string): string {
+  const path = endpoint.replace(/^https?:\/\/[^/]+/, '').split('?')[0].replace(/^\/v\d+/, '').replace(/^\/spaces\/\d+/, '');
+  const upperMethod = method.toUpperCase();
+  const rule = PERMISSION_RULES.find(r => r.methods.includes(upperMethod) && r.path.test(path));
+  return rule?.permission ?? ADMIN_PERMISSION;
+}
+
+// One introspection per configured space, shared by all callers
+const introspections = new Map<string, Promise<TokenPermissionInfo>>();
+
+// Reads a Management API endpoint without handleApiResponse, whose error path depends on this module
+async function getJson(url: string, space: string): Promise<any> {
+  const response = await storyblokFetch(url, { headers: getManagementHeaders(space) }, { retries: 1 });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText} from ${url.replace(/^https?:\/\/[^/]+/, '')}`);
+  }
+  return response.json();
+}
+
+async function introspect(space: string): Promise<TokenPermissionInfo> {
+  const info: TokenPermissionInfo = { space, roles: [], permissions: [], isAdmin: false };
+  try {
+    const me = await getJson(`${getApiEndpoints(space).MANAGEMENT}/users/me`, space);
+    info.user = { id: me.user?.id, email: me.user?.email };
+
+    const { collaborators = [] } = await getJson(buildManagementUrl('/collaborators', space), space);
+    const membership = collaborators.find((c: any) => (c.user?.id ?? c.user_id) === info.user?.id);
+    if (!membership) {
+      throw new Error('the token user is not a collaborator of this space');
+    }
+
+    if (membership.role === 'admin') {
+      info.isAdmin = true;
+      info.roles = ['admin'];
+      return info;
+    }
+
+    const roleIds: number[] = membership.space_role_ids?.length ? membership.space_role_ids : [membership.space_role_id].filter(Boolean);
+    if (roleIds.length === 0) {
+      info.roles = [membership.role].filter(Boolean);
+      return info;
+    }
+
+    const { space_roles = [] } = await getJson(buildManagementUrl('/space_roles', space), space);
+    for (const role of space_roles.filter((r: any) => roleIds.includes(r.id))) {
+      info.roles.push(role.role);
+      info.permissions.push(...(role.permissions ?? []).filter((p: string) => !info.permissions.includes(p)));
+    }
+  } catch (error) {
+    info.error = `Token introspection failed: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  return info;
+}
+
+/**
+ * Looks up what a space's management token may do. Each space is introspected once and cached.
+ *
+ * @param {string} space - Name or numeric ID of a configured space (default: the default space).
+ * @returns {Promise<TokenPermissionInfo>} The token's roles and permissions; failures are reported in `error` rather than thrown.
+ */
+export function getTokenPermissions(space?: string): Promise<TokenPermissionInfo> {
+  const name = getSpaceConfig(space).name;
+  let pending = introspections.get(name);
+  if (!pending) {
+    pending = introspect(name).then(info => {
+      // Forget failures so the next authorization error retries instead of reporting a stale outage
+      if (info.error) {
+        introspections.delete(name);
+      }
+      return info;
+    });
+    introspections.set(name, pending);
+  }
+  return pending;
+}
+
+/**
+ * Introspects the tokens of all configured spaces, e.g. at startup.
+ * Disabled by setting `STORYBLOK_INTROSPECT_TOKENS=false`.
+ */
+export async function warmTokenPermissionCache(): Promise<void> {
+  if (process.env.STORYBLOK_INTROSPECT_TOKENS === 'false') {
+    return;
+  }
+  let spaceNames: string[];
+  try {
+    spaceNames = Object.keys(getConfig().spaces);
+  } catch {
+    // Configuration errors are reported by the tools that need the configuration
+    return;
+  }
+  await Promise.all(spaceNames.map(name => getTokenPermissions(name)));
+}
+
+/**
+ * Clears cached introspection results. Intended for tests and token rotation.
+ */
+export function resetTokenPermissionCache(): void {
+  introspections.clear();
+}
+
+/**
+ * Describes the token's permissions and what a failed operation needed, for 401/403 error context.
+ *
+ * @param {string} method - The HTTP method of the failed request.
+ * @param {string} endpoint - The URL of the failed request.
+ * @returns {Promise<{ tokenPermissions: string; requiredPermissions: string; missingPermissions: string[] }>} The permission context.
+ */
+export async function describePermissionContext(method: string, endpoint: string): Promise<{
+  tokenPermissions: string;
+  requiredPermissions: string;
+  missingPermissions: string[];
+}> {
+  const requiredPermissions = getRequiredPermission(method, endpoint);
+  const spaceId = endpoint.match(/\/spaces\/(\d+)/)?.[1];
+
+  let info: TokenPermissionInfo;
+  try {
+    info = await getTokenPermissions(spaceId);
+  } catch (error) {
+    // The space is not configured, e.g. a URL built by hand
+    return { tokenPermissions: 'unknown', requiredPermissions, missingPermissions: [] };
+  }
+
+  if (info.error) {
+    return { tokenPermissions: `unknown (${info.error})`, requiredPermissions, missingPermissions: [] };
+  }
+
+  const granted = info.isAdmin
+    ? 'admin (all permissions)'
+    : `roles: ${info.roles.join(', ') || 'none'}; permissions: ${info.permissions.join(', ') || 'none'}`;
+  const hasPermission = info.isAdmin
+    || requiredPermissions === READ_PERMISSION
+    || (requiredPermissions !== ADMIN_PERMISSION && info.permissions.includes(requiredPermissions));
+
+  return {
+    tokenPermissions: granted,
+    requiredPermissions,
+    missingPermissions: hasPermission ? [] : [requiredPermissions]
+  };
+}
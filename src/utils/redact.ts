@@ -0,0 +1,47 @@
+/**
+ * @file src/utils/redact.ts
+ * @description Removes credentials from values written to the audit log and the stderr log.
+ */
+
+const REDACTED = '[REDACTED]';
+
+// Keys, header names and query parameters whose values are credentials
+const SECRET_KEY = /token|secret|password|authorization|api[-_]?key/i;
+
+/**
+ * Replaces the values of credential-like keys, at any depth, with a placeholder.
+ *
+ * @param {unknown} value - The value to redact, e.g. a tool call's arguments or request headers.
+ * @returns {unknown} A redacted copy.
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) =>
+      [key, SECRET_KEY.test(key) && entry !== undefined ? REDACTED : redactSecrets(entry)]
+    ));
+  }
+  return value;
+}
+
+/**
+ * Replaces credential query parameters of a URL, such as the Content Delivery API's `token`.
+ *
+ * @param {string} url - The URL.
+ * @returns {string} The redacted URL; unparseable URLs are returned unchanged.
+ */
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (SECRET_KEY.test(key)) {
+        parsed.searchParams.set(key, REDACTED);
+      }
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
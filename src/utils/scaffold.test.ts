@@ -0,0 +1,116 @@
+// src/utils/scaffold.test.ts
+import { applyScaffoldPreset, presetFromBlock, scaffoldStoryContent } from './scaffold';
+import { ComponentDefinition, validateStoryContent } from './validation';
+
+describe('scaffoldStoryContent', () => {
+  const components: ComponentDefinition[] = [
+    {
+      name: 'page',
+      schema: {
+        'tab-seo': { type: 'tab', keys: ['seo'] },
+        body: { type: 'bloks', pos: 1, restrict_components: true, component_whitelist: ['hero', 'grid', 'ghost'], maximum: 2 },
+        title: { type: 'text', pos: 0, required: true },
+        sidebar: { type: 'bloks', pos: 2 },
+        seo: { type: 'custom', pos: 3, field_type: 'seo-metatags' }
+      }
+    },
+    {
+      name: 'hero',
+      schema: {
+        headline: { type: 'text', required: true, max_length: 40 },
+        text: { type: 'richtext' },
+        count: { type: 'number', default_value: '3' },
+        date: { type: 'datetime' },
+        visible: { type: 'boolean', default_value: true },
+        color: { type: 'option', options: [{ value: 'red' }] },
+        tags: { type: 'options', default_value: 'a,b', options: [{ value: 'a' }, { value: 'b' }] },
+        image: { type: 'asset' },
+        gallery: { type: 'multiasset' },
+        link: { type: 'multilink' },
+        table: { type: 'table' },
+        markdown: { type: 'markdown' },
+        note: { type: 'textarea' }
+      }
+    },
+    { name: 'grid', schema: { columns: { type: 'bloks', required: true, restrict_components: true, component_whitelist: ['grid', 'hero'] } } }
+  ];
+  const lookupComponent = jest.fn(async (name: string) => components.find(component => component.name === name) ?? null);
+  const lookupSchema = async (name: string) => (await lookupComponent(name))?.schema ?? null;
+
+  beforeEach(() => {
+    lookupComponent.mockClear();
+  });
+
+  it('should fill every field with a type-correct value and nested placeholders', async () => {
+    const { content, requiredFields, notes } = await scaffoldStoryContent('page', lookupSchema);
+
+    expect(Object.keys(content)).toEqual(['_uid', 'component', 'title', 'body', 'sidebar', 'seo']);
+    expect(content.seo).toEqual({ plugin: 'seo-metatags' });
+    const [hero, grid] = content.body as any[];
+    expect(hero).toMatchObject({
+      component: 'hero',
+      headline: '',
+      text: { type: 'doc', content: [{ type: 'paragraph' }] },
+      count: '3',
+      visible: true,
+      tags: ['a', 'b'],
+      gallery: [],
+      link: { linktype: 'story', fieldtype: 'multilink' },
+      table: { thead: [], tbody: [] }
+    });
+    expect(grid.columns.map((block: any) => block.component)).toEqual(['hero']);
+    expect(new Set([content._uid, hero._uid, grid._uid, grid.columns[0]._uid]).size).toBe(4);
+
+    expect(requiredFields).toEqual(['title', 'body[0].headline', 'body[1].columns[0].headline']);
+    expect(notes).toEqual([
+      "'body[1].columns' would nest 'grid' inside itself, so it was left out.",
+      "'sidebar' allows any component; add blocks with their own scaffold."
+    ]);
+    expect(lookupComponent.mock.calls.map(([name]) => name)).toEqual(['page', 'hero', 'grid']);
+  });
+
+  it('should pass validation once the required fields are filled', async () => {
+    const { content } = await scaffoldStoryContent('page', lookupSchema);
+    const body = content.body as any[];
+    content.title = 'Home';
+    body[0].headline = 'Welcome';
+    body[1].columns[0].headline = 'Column';
+
+    const result = await validateStoryContent(content, 'page', lookupComponent);
+
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should stop filling blocks at the maximum depth', async () => {
+    const { content, requiredFields, notes } = await scaffoldStoryContent('grid', lookupSchema, { maxDepth: 0 });
+
+    expect(content.columns).toEqual([]);
+    expect(requiredFields).toEqual(['columns']);
+    expect(notes).toEqual(["'columns' is deeper than 0 levels and was left empty; allowed: grid, hero."]);
+  });
+
+  it('should fill a skeleton with preset values taken from a block', async () => {
+    const preset = presetFromBlock({
+      _uid: 'root',
+      _editable: '<!--#storyblok#-->',
+      component: 'page',
+      title: 'Landing',
+      body: [{ _uid: 'old', _editable: '<!--#storyblok#-->', component: 'hero', headline: 'Hi' }],
+      sidebar: []
+    });
+    expect(preset).toEqual({ component: 'page', title: 'Landing', body: [{ component: 'hero', headline: 'Hi' }], sidebar: [] });
+
+    const skeleton = await scaffoldStoryContent('page', lookupSchema);
+    const { content, requiredFields, notes } = applyScaffoldPreset(skeleton, preset);
+
+    expect(content).toMatchObject({ _uid: skeleton.content._uid, component: 'page', title: 'Landing', sidebar: [] });
+    expect(content.body).toEqual([{ _uid: expect.any(String), component: 'hero', headline: 'Hi' }]);
+    expect(requiredFields).toEqual([]);
+    expect(notes).toEqual(["'sidebar' allows any component; add blocks with their own scaffold."]);
+    expect(skeleton.content.title).toBe('');
+  });
+
+  it('should reject an unknown root component', async () => {
+    await expect(scaffoldStoryContent('missing', lookupSchema)).rejects.toThrow("Component schema for 'missing' not found.");
+  });
+});
@@ -0,0 +1,210 @@
+import { randomUUID } from 'node:crypto';
+
+/**
+ * @file src/utils/scaffold.ts
+ * @description Builds skeleton story content from component schemas: every field gets an empty,
+ * type-correct value (or its default), every block a fresh `_uid`, and `bloks` fields one
+ * placeholder block per allowed component. The skeleton passes content validation once its
+ * required fields are filled in. A component preset can fill in some of them up front.
+ */
+
+/** Looks up a component's schema by name; null if the space has no such component. */
+export type SchemaLookup = (componentName: string) => Promise<Record<string, unknown> | null>;
+
+export interface ScaffoldOptions {
+  /** How many levels of nested blocks to fill; deeper `bloks` fields are left empty. */
+  maxDepth: number;
+}
+
+export interface ScaffoldResult {
+  content: Record<string, unknown>;
+  /** JSON paths of required fields that still need a value. */
+  requiredFields: string[];
+  /** `bloks` fields left empty, and why. */
+  notes: string[];
+}
+
+export const DEFAULT_SCAFFOLD_DEPTH = 3;
+
+// Field types that only arrange the editing interface and store no value
+const LAYOUT_FIELD_TYPES = new Set(['tab', 'section']);
+
+// Empty values as the Storyblok editor stores them
+function emptyValue(field: Record<string, any>): unknown {
+  const fallback = field.default_value;
+  switch (field.type) {
+    case 'text':
+    case 'textarea':
+    case 'markdown':
+    case 'number':
+    case 'datetime':
+    case 'option':
+      return fallback ?? '';
+    case 'boolean':
+      return fallback === true || fallback === 'true';
+    case 'options':
+      return typeof fallback === 'string' && fallback !== '' ? fallback.split(',') : [];
+    case 'richtext':
+      return { type: 'doc', content: [{ type: 'paragraph' }] };
+    case 'asset':
+      return { id: null, alt: null, name: '', focus: null, title: null, filename: '', copyright: null, fieldtype: 'asset' };
+    case 'multiasset':
+      return [];
+    case 'multilink':
+      return { id: '', url: '', linktype: 'story', fieldtype: 'multilink', cached_url: '' };
+    case 'table':
+      return { thead: [], tbody: [], fieldtype: 'table' };
+    case 'custom':
+      return { plugin: field.field_type ?? '' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Builds skeleton content for a component.
+ *
+ * @param {string} componentName - The root component, usually a content type.
+ * @param {SchemaLookup} lookupSchema - Looks up component schemas; each component is looked up once.
+ * @param {ScaffoldOptions} options - How deep to fill nested blocks.
+ * @returns {Promise<ScaffoldResult>} The skeleton, the required fields to fill and notes on empty `bloks` fields.
+ * @throws {Error} If the root component does not exist.
+ */
+export async function scaffoldStoryContent(
+  componentName: string,
+  lookupSchema: SchemaLookup,
+  options: ScaffoldOptions = { maxDepth: DEFAULT_SCAFFOLD_DEPTH }
+): Promise<ScaffoldResult> {
+  const schemas = new Map<string, Promise<Record<string, unknown> | null>>();
+  const lookup = (name: string) => {
+    if (!schemas.has(name)) {
+      schemas.set(name, lookupSchema(name));
+    }
+    return schemas.get(name)!;
+  };
+
+  const rootSchema = await lookup(componentName);
+  if (!rootSchema) {
+    throw new Error(`Component schema for '${componentName}' not found.`);
+  }
+
+  const requiredFields: string[] = [];
+  const notes: string[] = [];
+
+  // `ancestors` are the components enclosing this block, so self-nesting blocks stop instead of recursing forever
+  const scaffoldBlock = async (name: string, schema: Record<string, unknown>, path: string, ancestors: string[]) => {
+    const block: Record<string, unknown> = { _uid: randomUUID(), component: name };
+    const fields = Object.entries(schema as Record<string, Record<string, any>>)
+      .filter(([, field]) => !LAYOUT_FIELD_TYPES.has(field.type))
+      .sort(([, a], [, b]) => (a.pos ?? 0) - (b.pos ?? 0));
+
+    for (const [fieldName, field] of fields) {
+      const fieldPath = path ? `${path}.${fieldName}` : fieldName;
+      if (field.type !== 'bloks') {
+        block[fieldName] = emptyValue(field);
+        if (field.required && field.default_value === undefined) {
+          requiredFields.push(fieldPath);
+        }
+        continue;
+      }
+
+      const allowed: string[] = field.restrict_components && field.restrict_type !== 'groups' && Array.isArray(field.component_whitelist)
+        ? field.component_whitelist
+        : [];
+      const maximum = Number(field.maximum) || Infinity;
+      const children: unknown[] = [];
+      if (allowed.length === 0) {
+        notes.push(`'${fieldPath}' allows ${field.restrict_type === 'groups' ? 'components of groups' : 'any component'}; add blocks with their own scaffold.`);
+      } else if (ancestors.length >= options.maxDepth) {
+        notes.push(`'${fieldPath}' is deeper than ${options.maxDepth} levels and was left empty; allowed: ${allowed.join(', ')}.`);
+      } else {
+        for (const childName of allowed) {
+          if (children.length >= maximum) {
+            break;
+          }
+          const enclosing = [...ancestors, name];
+          const childSchema = await lookup(childName);
+          if (!childSchema) {
+            notes.push(`'${fieldPath}' allows the unknown component '${childName}', which was left out.`);
+          } else if (enclosing.includes(childName)) {
+            notes.push(`'${fieldPath}' would nest '${childName}' inside itself, so it was left out.`);
+          } else {
+            children.push(await scaffoldBlock(childName, childSchema, `${fieldPath}[${children.length}]`, enclosing));
+          }
+        }
+      }
+      block[fieldName] = children;
+      if (field.required && children.length === 0) {
+        requiredFields.push(fieldPath);
+      }
+    }
+    return block;
+  };
+
+  const content = await scaffoldBlock(componentName, rootSchema, '', []);
+  return { content, requiredFields, notes };
+}
+
+const PRESET_OMITTED_KEYS = new Set(['_uid', '_editable']);
+
+// A deep copy without `_uid` and `_editable`, with a fresh `_uid` for every block if `freshUids` is set
+function copyPresetValue(value: unknown, freshUids: boolean): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => copyPresetValue(item, freshUids));
+  }
+  if (typeof value === 'object' && value !== null) {
+    const copy = Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !PRESET_OMITTED_KEYS.has(key))
+        .map(([key, child]) => [key, copyPresetValue(child, freshUids)])
+    );
+    return freshUids && typeof copy.component === 'string' ? { _uid: randomUUID(), ...copy } : copy;
+  }
+  return value;
+}
+
+const isFilled = (value: unknown) =>
+  value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+
+// Whether a JSON path is the field itself or lies within it
+const isWithin = (path: string, field: string) =>
+  path === field || path.startsWith(`${field}.`) || path.startsWith(`${field}[`);
+
+/**
+ * Turns a block of story content into preset values: a copy without the `_uid` and
+ * `_editable` keys of the block and of the blocks nested in it.
+ *
+ * @param {Record<string, unknown>} block - The block.
+ * @returns {Record<string, unknown>} The preset values.
+ */
+export function presetFromBlock(block: Record<string, unknown>): Record<string, unknown> {
+  return copyPresetValue(block, false) as Record<string, unknown>;
+}
+
+/**
+ * Fills a skeleton's root block with a component preset's values. Nested blocks of the
+ * preset get fresh `_uid`s; required fields and notes under fields the preset fills are dropped.
+ *
+ * @param {ScaffoldResult} result - The skeleton of the preset's component.
+ * @param {Record<string, unknown>} preset - The preset values.
+ * @returns {ScaffoldResult} The filled skeleton; the input is not modified.
+ */
+export function applyScaffoldPreset(result: ScaffoldResult, preset: Record<string, unknown>): ScaffoldResult {
+  const content = { ...result.content };
+  const filled: string[] = [];
+  for (const [field, value] of Object.entries(preset)) {
+    if (field === 'component' || PRESET_OMITTED_KEYS.has(field)) {
+      continue;
+    }
+    content[field] = copyPresetValue(value, true);
+    if (isFilled(value)) {
+      filled.push(field);
+    }
+  }
+  const notePath = (note: string) => note.match(/^'([^']+)'/)?.[1] ?? '';
+  return {
+    content,
+    requiredFields: result.requiredFields.filter(path => !filled.some(field => isWithin(path, field))),
+    notes: result.notes.filter(note => !filled.some(field => isWithin(notePath(note), field)))
+  };
+}
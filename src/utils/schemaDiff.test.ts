@@ -0,0 +1,122 @@
+// src/utils/schemaDiff.test.ts
+import { assessSchemaChanges, diffComponentSchemas, planComponentMigration } from './schemaDiff';
+
+describe('component schema changes', () => {
+  const current = {
+    'tab-main': { type: 'tab', keys: ['title'] },
+    title: { type: 'text', pos: 0, required: true },
+    subtitle: { type: 'text', pos: 1, max_length: 120 },
+    image: { type: 'asset', pos: 2, filetypes: ['images'] },
+    count: { type: 'text', pos: 3 },
+    legacy: { type: 'markdown', pos: 4 }
+  };
+  const proposed = {
+    title: { type: 'text', pos: 0, required: true },
+    tagline: { type: 'text', pos: 1, max_length: 120, display_name: 'Tagline' },
+    hero_image: { type: 'asset', pos: 2, filetypes: ['images'] },
+    count: { type: 'number', pos: 3 },
+    cta_label: { type: 'text', pos: 4, required: true, default_value: 'Read more' },
+    note: { type: 'textarea', pos: 5 }
+  };
+
+  describe('diffComponentSchemas', () => {
+    it('should classify additions, removals, type changes and renames', () => {
+      expect(diffComponentSchemas(current, proposed, { image: 'hero_image' })).toEqual([
+        { type: 'renamed', field: 'hero_image', from: 'image', fieldType: 'asset' },
+        { type: 'renamed', field: 'tagline', from: 'subtitle', fieldType: 'text', inferred: true },
+        { type: 'type_changed', field: 'count', fieldType: 'number', previousType: 'text' },
+        { type: 'removed', field: 'legacy', fieldType: 'markdown' },
+        { type: 'added', field: 'cta_label', fieldType: 'text', required: true, defaultValue: 'Read more' },
+        { type: 'added', field: 'note', fieldType: 'textarea', required: false }
+      ]);
+    });
+
+    it('should only infer a rename when the matching definition is unambiguous', () => {
+      const changes = diffComponentSchemas({ a: { type: 'text' }, b: { type: 'text' } }, { c: { type: 'text' } });
+
+      expect(changes.map(({ type, field }) => [type, field])).toEqual([['removed', 'a'], ['removed', 'b'], ['added', 'c']]);
+    });
+
+    it('should reject renames of unknown fields or to existing fields', () => {
+      expect(() => diffComponentSchemas(current, proposed, { missing: 'note' })).toThrow("Cannot rename 'missing': the current schema has no such field.");
+      expect(() => diffComponentSchemas(current, proposed, { legacy: 'count' })).toThrow("Cannot rename 'legacy' to 'count': 'count' must be a new field of the proposed schema.");
+    });
+  });
+
+  describe('assessSchemaChanges and planComponentMigration', () => {
+    const stories = [
+      {
+        id: 1,
+        name: 'Home',
+        full_slug: 'home',
+        published: true,
+        content: {
+          component: 'page',
+          body: [
+            { component: 'teaser', title: 'A', subtitle: 'Sub', count: '3' },
+            { component: 'grid', columns: [{ component: 'teaser', title: 'B', legacy: '**old**', cta_label: 'Go' }] }
+          ]
+        }
+      },
+      { id: 2, name: 'About', full_slug: 'about', published: false, content: { component: 'page', body: [{ component: 'teaser', title: 'C', image: { id: 1, filename: 'a.png' } }] } },
+      { id: 3, name: 'Contact', full_slug: 'contact', content: { component: 'page', body: [] } }
+    ];
+    const changes = diffComponentSchemas(current, proposed, { image: 'hero_image' });
+
+    it('should count the blocks and stories each change touches', () => {
+      const { impacts, affectedStories } = assessSchemaChanges('teaser', changes, stories);
+
+      expect(impacts.map(({ field, affectedBlocks, affectedStories }) => [field, affectedBlocks, affectedStories])).toEqual([
+        ['hero_image', 1, 1],
+        ['tagline', 1, 1],
+        ['count', 1, 1],
+        ['legacy', 1, 1],
+        ['cta_label', 2, 2],
+        ['note', 0, 0]
+      ]);
+      expect(affectedStories).toEqual([
+        { id: 1, name: 'Home', full_slug: 'home', published: true, blocks: ['body[0]', 'body[1].columns[0]'] },
+        { id: 2, name: 'About', full_slug: 'about', published: false, blocks: ['body[0]'] }
+      ]);
+    });
+
+    it('should plan the schema updates around the content migration', () => {
+      const { impacts, affectedStories } = assessSchemaChanges('teaser', changes, stories);
+
+      expect(planComponentMigration('teaser', impacts, affectedStories)).toEqual([
+        { step: 1, action: 'update_schema', description: "Update 'teaser' to the proposed schema, but keep the fields 'image', 'subtitle', 'legacy' until their content is migrated." },
+        {
+          step: 2,
+          action: 'migrate_content',
+          description: "Move the values of 'image' to 'hero_image' in 1 block across 1 story.",
+          transform: { type: 'rename_field', component: 'teaser', from: 'image', to: 'hero_image' },
+          affectedBlocks: 1,
+          affectedStories: 1
+        },
+        expect.objectContaining({ step: 3, transform: { type: 'rename_field', component: 'teaser', from: 'subtitle', to: 'tagline' } }),
+        {
+          step: 4,
+          action: 'migrate_content',
+          description: "Convert the values of 'count' from text to number in 1 block across 1 story; values that cannot be converted need an editor.",
+          affectedBlocks: 1,
+          affectedStories: 1
+        },
+        expect.objectContaining({ step: 5, transform: { type: 'delete_field', component: 'teaser', field: 'legacy' } }),
+        expect.objectContaining({
+          step: 6,
+          description: "Set the required field 'cta_label' to its default value in 2 blocks across 2 stories.",
+          transform: { type: 'set_default', component: 'teaser', field: 'cta_label', value: 'Read more' }
+        }),
+        { step: 7, action: 'republish', description: 'Republish the 1 affected story that is published, so the delivered content matches the new schema.', affectedStories: 1 },
+        { step: 8, action: 'update_schema', description: "Remove the fields 'image', 'subtitle', 'legacy' from 'teaser'." }
+      ]);
+    });
+
+    it('should plan nothing when nothing changes', () => {
+      const { impacts, affectedStories } = assessSchemaChanges('teaser', diffComponentSchemas(current, current), stories);
+
+      expect(impacts).toEqual([]);
+      expect(planComponentMigration('teaser', impacts, affectedStories)).toEqual([]);
+    });
+  });
+});
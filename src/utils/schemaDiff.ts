@@ -0,0 +1,291 @@
+/**
+ * @file src/utils/schemaDiff.ts
+ * @description Compares a component's current schema with a proposed one and turns the differences,
+ * weighed by how much content each one touches, into an ordered migration plan.
+ */
+
+import { findComponentBlocks } from './blocks';
+
+export type SchemaChangeType = 'added' | 'removed' | 'renamed' | 'type_changed';
+
+export interface SchemaChange {
+  type: SchemaChangeType;
+  /** The field's name in the proposed schema; for removed fields, in the current one. */
+  field: string;
+  /** The field's previous name, for renamed fields. */
+  from?: string;
+  fieldType: string;
+  /** The field's previous type, for type changes (and renames that change the type). */
+  previousType?: string;
+  required?: boolean;
+  /** The proposed field's default value, for added fields. */
+  defaultValue?: unknown;
+  /** Whether a rename was recognized from matching field definitions rather than given explicitly. */
+  inferred?: boolean;
+}
+
+export interface SchemaChangeImpact extends SchemaChange {
+  /** Blocks whose content the change touches: values to move, convert or delete, or required values to fill. */
+  affectedBlocks: number;
+  affectedStories: number;
+}
+
+/** A story with its content, as listed by the Management API. */
+export interface StoryWithContent {
+  id: number;
+  name?: string;
+  full_slug?: string;
+  published?: boolean;
+  content?: unknown;
+}
+
+export interface AffectedStory {
+  id: number;
+  name?: string;
+  full_slug?: string;
+  published: boolean;
+  /** JSON paths of the component's blocks that a change touches. */
+  blocks: string[];
+}
+
+export type MigrationAction = 'update_schema' | 'migrate_content' | 'republish';
+
+export interface MigrationStep {
+  step: number;
+  action: MigrationAction;
+  description: string;
+  /** The content transform that carries out a `migrate_content` step, where one applies. */
+  transform?: Record<string, unknown>;
+  affectedBlocks?: number;
+  affectedStories?: number;
+}
+
+// Field types that only arrange the editing interface and store no value
+const LAYOUT_FIELD_TYPES = new Set(['tab', 'section']);
+
+// Field properties that do not affect stored values, ignored when recognizing renames
+const PRESENTATION_KEYS = new Set(['pos', 'id', 'display_name', 'description', 'tooltip']);
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const valueFields = (schema: Record<string, unknown>) =>
+  new Map(Object.entries(schema as Record<string, Record<string, any>>).filter(([, field]) => !LAYOUT_FIELD_TYPES.has(field?.type)));
+
+// A field definition without its presentation, for comparing two definitions
+const definitionKey = (field: Record<string, any>) =>
+  JSON.stringify(Object.keys(field).filter(key => !PRESENTATION_KEYS.has(key)).sort().map(key => [key, field[key]]));
+
+/**
+ * Classifies the differences between two schemas of a component. Layout fields (`tab`, `section`)
+ * are ignored. A removed field is taken as renamed when exactly one added field has the same
+ * definition apart from its position, label and description, and vice versa.
+ *
+ * @param {Record<string, unknown>} current - The component's current schema.
+ * @param {Record<string, unknown>} proposed - The proposed schema.
+ * @param {Record<string, string>} [renames] - Known renames, from current to proposed field name.
+ * @returns {SchemaChange[]} The changes: renames, type changes, removals, then additions.
+ * @throws {Error} If a rename names a field that is not in the current schema, or that is not new in the proposed one.
+ */
+export function diffComponentSchemas(
+  current: Record<string, unknown>,
+  proposed: Record<string, unknown>,
+  renames: Record<string, string> = {}
+): SchemaChange[] {
+  const before = valueFields(current);
+  const after = valueFields(proposed);
+  for (const [from, to] of Object.entries(renames)) {
+    if (!before.has(from)) {
+      throw new Error(`Cannot rename '${from}': the current schema has no such field.`);
+    }
+    if (!after.has(to) || before.has(to)) {
+      throw new Error(`Cannot rename '${from}' to '${to}': '${to}' must be a new field of the proposed schema.`);
+    }
+  }
+
+  const removed = [...before.keys()].filter(name => !after.has(name) && !(name in renames));
+  const added = [...after.keys()].filter(name => !before.has(name) && !Object.values(renames).includes(name));
+  const pairs = Object.entries(renames).map(([from, to]) => ({ from, to, inferred: false }));
+  for (const from of removed) {
+    const key = definitionKey(before.get(from)!);
+    const candidates = added.filter(to => definitionKey(after.get(to)!) === key);
+    const rivals = removed.filter(other => definitionKey(before.get(other)!) === key);
+    if (candidates.length === 1 && rivals.length === 1) {
+      pairs.push({ from, to: candidates[0], inferred: true });
+    }
+  }
+  const renamedFrom = new Set(pairs.map(pair => pair.from));
+  const renamedTo = new Set(pairs.map(pair => pair.to));
+
+  const changes: SchemaChange[] = [];
+  for (const { from, to, inferred } of pairs) {
+    const previousType = before.get(from)!.type;
+    const fieldType = after.get(to)!.type;
+    changes.push({
+      type: 'renamed',
+      field: to,
+      from,
+      fieldType,
+      ...(previousType !== fieldType && { previousType }),
+      ...(inferred && { inferred })
+    });
+  }
+  for (const [name, field] of after) {
+    const previous = before.get(name);
+    if (previous && previous.type !== field.type) {
+      changes.push({ type: 'type_changed', field: name, fieldType: field.type, previousType: previous.type });
+    }
+  }
+  for (const name of removed.filter(name => !renamedFrom.has(name))) {
+    changes.push({ type: 'removed', field: name, fieldType: before.get(name)!.type });
+  }
+  for (const name of added.filter(name => !renamedTo.has(name))) {
+    const field = after.get(name)!;
+    changes.push({
+      type: 'added',
+      field: name,
+      fieldType: field.type,
+      required: Boolean(field.required),
+      ...(field.default_value !== undefined && { defaultValue: field.default_value })
+    });
+  }
+  return changes;
+}
+
+// Whether a change touches the content of a block
+function touches(change: SchemaChange, block: Record<string, any>): boolean {
+  switch (change.type) {
+    case 'renamed':
+      return !isEmpty(block[change.from!]);
+    case 'type_changed':
+    case 'removed':
+      return !isEmpty(block[change.field]);
+    case 'added':
+      return Boolean(change.required) && isEmpty(block[change.field]);
+  }
+}
+
+/**
+ * Counts the blocks and stories each change touches.
+ *
+ * @param {string} componentName - The component whose schema changes.
+ * @param {SchemaChange[]} changes - The schema changes.
+ * @param {StoryWithContent[]} stories - The stories to scan.
+ * @returns {{ impacts: SchemaChangeImpact[]; affectedStories: AffectedStory[] }} Each change with its counts,
+ *   and the stories with at least one touched block.
+ */
+export function assessSchemaChanges(
+  componentName: string,
+  changes: SchemaChange[],
+  stories: StoryWithContent[]
+): { impacts: SchemaChangeImpact[]; affectedStories: AffectedStory[] } {
+  const impacts: SchemaChangeImpact[] = changes.map(change => ({ ...change, affectedBlocks: 0, affectedStories: 0 }));
+  const affectedStories: AffectedStory[] = [];
+  for (const story of stories) {
+    const touchedPaths = new Set<string>();
+    const blocks = findComponentBlocks(story.content, componentName);
+    for (const impact of impacts) {
+      const touched = blocks.filter(({ block }) => touches(impact, block));
+      impact.affectedBlocks += touched.length;
+      impact.affectedStories += touched.length > 0 ? 1 : 0;
+      touched.forEach(({ path }) => touchedPaths.add(path));
+    }
+    if (touchedPaths.size > 0) {
+      affectedStories.push({
+        id: story.id,
+        name: story.name,
+        full_slug: story.full_slug,
+        published: Boolean(story.published),
+        blocks: blocks.map(({ path }) => path).filter(path => touchedPaths.has(path))
+      });
+    }
+  }
+  return { impacts, affectedStories };
+}
+
+const quoteFields = (names: string[]) => names.map(name => `'${name}'`).join(', ');
+
+const across = (impact: SchemaChangeImpact) =>
+  `${impact.affectedBlocks} block${impact.affectedBlocks === 1 ? '' : 's'} across ${impact.affectedStories} stor${impact.affectedStories === 1 ? 'y' : 'ies'}`;
+
+/**
+ * Orders the work a schema change needs so that no content is lost: first the schema gains the
+ * new fields while keeping the old ones, then the content is migrated, the affected published
+ * stories republished, and only then are the old fields dropped from the schema.
+ *
+ * @param {string} componentName - The component whose schema changes.
+ * @param {SchemaChangeImpact[]} impacts - The changes with the content they touch.
+ * @param {AffectedStory[]} affectedStories - The stories with touched blocks.
+ * @returns {MigrationStep[]} The steps, numbered from 1; empty when nothing changes.
+ */
+export function planComponentMigration(
+  componentName: string,
+  impacts: SchemaChangeImpact[],
+  affectedStories: AffectedStory[]
+): MigrationStep[] {
+  const steps: Array<Omit<MigrationStep, 'step'>> = [];
+  const retired = impacts.filter(impact => impact.type === 'removed' || impact.type === 'renamed').map(impact => impact.from ?? impact.field);
+
+  if (impacts.some(impact => impact.type !== 'removed')) {
+    steps.push({
+      action: 'update_schema',
+      description: retired.length > 0
+        ? `Update '${componentName}' to the proposed schema, but keep the fields ${quoteFields(retired)} until their content is migrated.`
+        : `Update '${componentName}' to the proposed schema.`
+    });
+  }
+
+  for (const impact of impacts.filter(impact => impact.affectedBlocks > 0)) {
+    const counts = { affectedBlocks: impact.affectedBlocks, affectedStories: impact.affectedStories };
+    switch (impact.type) {
+      case 'renamed':
+        steps.push({
+          action: 'migrate_content',
+          description: `Move the values of '${impact.from}' to '${impact.field}' in ${across(impact)}${impact.previousType ? `, converting them from ${impact.previousType} to ${impact.fieldType}` : ''}.`,
+          transform: { type: 'rename_field', component: componentName, from: impact.from, to: impact.field },
+          ...counts
+        });
+        break;
+      case 'type_changed':
+        steps.push({
+          action: 'migrate_content',
+          description: `Convert the values of '${impact.field}' from ${impact.previousType} to ${impact.fieldType} in ${across(impact)}; values that cannot be converted need an editor.`,
+          ...counts
+        });
+        break;
+      case 'added':
+        steps.push({
+          action: 'migrate_content',
+          description: impact.defaultValue !== undefined
+            ? `Set the required field '${impact.field}' to its default value in ${across(impact)}.`
+            : `Fill the required field '${impact.field}' in ${across(impact)}; it has no default value, so an editor must choose one.`,
+          ...(impact.defaultValue !== undefined && { transform: { type: 'set_default', component: componentName, field: impact.field, value: impact.defaultValue } }),
+          ...counts
+        });
+        break;
+      case 'removed':
+        steps.push({
+          action: 'migrate_content',
+          description: `Delete the values of '${impact.field}' from ${across(impact)}. Export them first if they may be needed again.`,
+          transform: { type: 'delete_field', component: componentName, field: impact.field },
+          ...counts
+        });
+        break;
+    }
+  }
+
+  const published = affectedStories.filter(story => story.published).length;
+  if (published > 0 && steps.some(step => step.action === 'migrate_content')) {
+    steps.push({
+      action: 'republish',
+      description: `Republish the ${published} affected stor${published === 1 ? 'y' : 'ies'} that ${published === 1 ? 'is' : 'are'} published, so the delivered content matches the new schema.`,
+      affectedStories: published
+    });
+  }
+
+  if (retired.length > 0) {
+    steps.push({ action: 'update_schema', description: `Remove the fields ${quoteFields(retired)} from '${componentName}'.` });
+  }
+
+  return steps.map((step, index) => ({ step: index + 1, ...step }));
+}
@@ -0,0 +1,211 @@
+// src/utils/validation.test.ts
+import { ComponentDefinition, validateStoryContent } from './validation';
+
+describe('validateStoryContent', () => {
+  const components: ComponentDefinition[] = [
+    {
+      name: 'page',
+      schema: {
+        title: { type: 'text', required: true, max_length: 10 },
+        body: { type: 'bloks', restrict_components: true, component_whitelist: ['grid', 'teaser', 'ghost'], maximum: 2 },
+        footer: { type: 'bloks', restrict_components: true, restrict_type: 'groups', component_group_whitelist: ['group-footer'], minimum: 1 }
+      }
+    },
+    { name: 'grid', schema: { columns: { type: 'bloks', required: true } } },
+    { name: 'teaser', schema: { headline: { type: 'text', required: true }, summary: { type: 'textarea', max_length: 5 } } },
+    { name: 'links', component_group_uuid: 'group-footer', schema: { label: { type: 'text' } } },
+    { name: 'banner', component_group_uuid: 'group-marketing', schema: {} }
+  ];
+  const lookup = jest.fn(async (name: string) => components.find(component => component.name === name) ?? null);
+
+  beforeEach(() => {
+    lookup.mockClear();
+  });
+
+  it('should accept valid nested content and ignore the keys Storyblok adds to blocks', async () => {
+    const result = await validateStoryContent({
+      component: 'page',
+      _uid: 'root',
+      _editable: '<!--#storyblok#-->',
+      title: 'Home',
+      body: [{ component: 'grid', _uid: 'a', columns: [{ component: 'teaser', headline: 'Hi' }] }],
+      footer: [{ component: 'links', label: 'Imprint' }]
+    }, 'page', lookup);
+
+    expect(result).toEqual({ isValid: true, errors: [], missingFields: [], extraneousFields: [], validatedComponents: ['page', 'grid', 'teaser', 'links'] });
+    expect(lookup.mock.calls.map(([name]) => name)).toEqual(['page', 'grid', 'teaser', 'links']);
+  });
+
+  it('should accept the translations of schema fields, but not of unknown fields', async () => {
+    const result = await validateStoryContent({
+      component: 'page',
+      title: 'Home',
+      title__i18n__de: 'Start',
+      subtitle__i18n__de: 'Unbekannt',
+      body: [{ component: 'teaser', headline: 'Hi', headline__i18n__fr: 'Salut' }],
+      footer: [{ component: 'links', label: 'Imprint' }]
+    }, 'page', lookup);
+
+    expect(result.extraneousFields).toEqual(['subtitle__i18n__de']);
+  });
+
+  it('should report nested errors by JSON path', async () => {
+    const result = await validateStoryContent({
+      component: 'page',
+      title: 'A much too long title',
+      subtitle: 'Not in the schema',
+      body: [
+        { component: 'grid', columns: [{ component: 'teaser', summary: 'Too long', extra: 1 }] },
+        { component: 'banner' },
+        'not a block'
+      ],
+      footer: []
+    }, 'page', lookup);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors.map(({ path, type }) => [path, type])).toEqual([
+      ['title', 'max_length_exceeded'],
+      ['body', 'too_many_blocks'],
+      ['body[0].columns[0].headline', 'missing_required'],
+      ['body[0].columns[0].summary', 'max_length_exceeded'],
+      ['body[0].columns[0].extra', 'extraneous_field'],
+      ['body[1]', 'component_not_allowed'],
+      ['body[2]', 'invalid_block'],
+      ['footer', 'too_few_blocks'],
+      ['subtitle', 'extraneous_field']
+    ]);
+    expect(result.errors[2]).toEqual({
+      path: 'body[0].columns[0].headline',
+      field: 'headline',
+      component: 'teaser',
+      type: 'missing_required',
+      message: "Field 'body[0].columns[0].headline' is required."
+    });
+    expect(result.missingFields).toEqual(['body[0].columns[0].headline']);
+    expect(result.extraneousFields).toEqual(['body[0].columns[0].extra', 'subtitle']);
+  });
+
+  it('should check group restrictions, unknown components and non-array block fields', async () => {
+    const result = await validateStoryContent({
+      component: 'page',
+      title: '',
+      body: [{ component: 'ghost' }],
+      footer: [{ component: 'banner' }, { component: 'links' }]
+    }, 'page', lookup);
+
+    expect(result.errors.map(({ path, type }) => [path, type])).toEqual([
+      ['title', 'missing_required'],
+      ['body[0]', 'unknown_component'],
+      ['footer[0]', 'component_not_allowed']
+    ]);
+
+    const grid = await validateStoryContent({ component: 'grid', columns: { component: 'teaser' } }, 'grid', lookup);
+    expect(grid.errors.map(({ path, type }) => [path, type])).toEqual([['columns', 'type_mismatch']]);
+  });
+
+  describe('field types', () => {
+    const typed: ComponentDefinition = {
+      name: 'typed',
+      schema: {
+        text: { type: 'text' },
+        textarea: { type: 'textarea' },
+        markdown: { type: 'markdown' },
+        richtext: { type: 'richtext' },
+        number: { type: 'number' },
+        datetime: { type: 'datetime' },
+        boolean: { type: 'boolean' },
+        option: { type: 'option', options: [{ name: 'Red', value: 'red' }, { name: 'Blue', value: 'blue' }] },
+        options: { type: 'options', source: 'internal', datasource_slug: 'colors' },
+        stories: { type: 'options', source: 'internal_stories' },
+        asset: { type: 'asset' },
+        multiasset: { type: 'multiasset' },
+        multilink: { type: 'multilink' },
+        bloks: { type: 'bloks' },
+        table: { type: 'table' },
+        plugin: { type: 'custom', field_type: 'color-picker' },
+        'tab-1': { type: 'tab', keys: ['text'] },
+        section: { type: 'section', keys: ['text'] }
+      }
+    };
+    const typedLookup = async (name: string) => name === 'typed' ? typed : null;
+    const datasourceLookup = jest.fn(async (slug: string) => slug === 'colors' ? ['red', 'green'] : null);
+
+    const valid = {
+      text: 'Hello',
+      textarea: 'Line\nbreak',
+      markdown: '# Title',
+      richtext: { type: 'doc', content: [{ type: 'paragraph' }] },
+      number: '42.5',
+      datetime: '2024-05-31 14:30',
+      boolean: false,
+      option: 'red',
+      options: ['red', 'green'],
+      stories: ['3f0d4e4c-uuid'],
+      asset: { id: 1, filename: 'https://a.storyblok.com/f/1/a.png', alt: '', fieldtype: 'asset' },
+      multiasset: [{ id: null, filename: null }],
+      multilink: { id: '', url: 'https://example.com', linktype: 'url', fieldtype: 'multilink', cached_url: 'https://example.com' },
+      bloks: [],
+      table: { thead: [], tbody: [], fieldtype: 'table' },
+      plugin: { plugin: 'color-picker', color: '#fff' }
+    };
+
+    it('should accept the value shape of every field type', async () => {
+      const result = await validateStoryContent({ component: 'typed', ...valid }, 'typed', typedLookup, datasourceLookup);
+
+      expect(result.errors).toEqual([]);
+      expect(datasourceLookup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a type_mismatch with the expected shape for every field type', async () => {
+      const result = await validateStoryContent({
+        component: 'typed',
+        text: 42,
+        textarea: ['a'],
+        markdown: true,
+        richtext: '<p>Hi</p>',
+        number: 'forty-two',
+        datetime: '31.05.2024',
+        boolean: 'true',
+        option: { value: 'red' },
+        options: 'red',
+        stories: [{}],
+        asset: 'https://a.storyblok.com/f/1/a.png',
+        multiasset: [{ id: 1 }],
+        multilink: 'https://example.com',
+        bloks: { component: 'typed' },
+        table: [['a']],
+        plugin: 'color',
+        'tab-1': 'x',
+        section: {}
+      }, 'typed', typedLookup, datasourceLookup);
+
+      expect(result.errors.every(error => error.type === 'type_mismatch')).toBe(true);
+      expect(result.errors.map(error => error.path)).toEqual(Object.keys(typed.schema!));
+      expect(result.errors.find(error => error.path === 'multilink')).toEqual({
+        path: 'multilink',
+        field: 'multilink',
+        component: 'typed',
+        type: 'type_mismatch',
+        message: "Field 'multilink' of type 'multilink' expects: link object { linktype: 'story' | 'url' | 'email' | 'asset', id?, url?, cached_url?, email? }.",
+        expected: "link object { linktype: 'story' | 'url' | 'email' | 'asset', id?, url?, cached_url?, email? }"
+      });
+    });
+
+    it('should check option values against the field options or the datasource', async () => {
+      const result = await validateStoryContent({ component: 'typed', option: 'green', options: ['red', 'blue', 'purple'] }, 'typed', typedLookup, datasourceLookup);
+
+      expect(result.errors.map(({ path, type, expected }) => [path, type, expected])).toEqual([
+        ['option', 'invalid_option', "'red', 'blue'"],
+        ['options', 'invalid_option', "'red', 'green'"]
+      ]);
+      expect(result.errors[1].message).toBe("Field 'options' has the value 'blue', 'purple', which is not one of its options.");
+
+      const unchecked = await validateStoryContent({ component: 'typed', options: ['purple'] }, 'typed', typedLookup);
+      expect(unchecked.errors).toEqual([]);
+    });
+  });
+
+  it('should reject an unknown root component', async () => {
+    await expect(validateStoryContent({}, 'missing', lookup)).rejects.toThrow("Component schema for 'missing' not found.");
+  });
+});
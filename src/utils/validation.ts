@@ -0,0 +1,297 @@
+/**
+ * @file src/utils/validation.ts
+ * @description Validates story content against component schemas. Walks `bloks` fields recursively,
+ * validating every nested block against its own component's schema, and reports each problem
+ * with the JSON path of the offending value, e.g. `body[2].headline`.
+ */
+
+/** A component definition, as returned by the Management API. */
+export interface ComponentDefinition {
+  name: string;
+  schema?: Record<string, unknown>;
+  component_group_uuid?: string | null;
+}
+
+/** Looks up a component definition by name; null if the space has no such component. */
+export type ComponentLookup = (componentName: string) => Promise<ComponentDefinition | null>;
+
+/** Looks up the entry values of a datasource by slug; null if the space has no such datasource. */
+export type DatasourceLookup = (datasourceSlug: string) => Promise<string[] | null>;
+
+export type ContentValidationErrorType =
+  | 'missing_required'
+  | 'extraneous_field'
+  | 'max_length_exceeded'
+  | 'too_few_blocks'
+  | 'too_many_blocks'
+  | 'invalid_block'
+  | 'unknown_component'
+  | 'component_not_allowed'
+  | 'invalid_option'
+  | 'type_mismatch';
+
+export interface ContentValidationError {
+  /** JSON path of the value, relative to the content root; empty for the root block. */
+  path: string;
+  /** The field's name; for block errors, the name of the `bloks` field holding the block. */
+  field: string;
+  /** The component whose schema was violated. */
+  component: string;
+  type: ContentValidationErrorType;
+  message: string;
+  /** For `type_mismatch` and `invalid_option`, the shape or values the field accepts. */
+  expected?: string;
+}
+
+export interface ContentValidationResult {
+  isValid: boolean;
+  errors: ContentValidationError[];
+  /** Paths of required fields without a value. */
+  missingFields: string[];
+  /** Paths of values whose field is not in their component's schema. */
+  extraneousFields: string[];
+  /** Every component the content was validated against, root first. */
+  validatedComponents: string[];
+}
+
+// Keys Storyblok adds to every block, which are not schema fields
+const BLOCK_KEYS = new Set(['component', '_uid', '_editable']);
+
+// Separates a field's name from the locale in the keys of its translations, e.g. `title__i18n__de`
+const TRANSLATION_SEPARATOR = '__i18n__';
+
+// Field types limited by `max_length`
+const LENGTH_LIMITED_TYPES = new Set(['text', 'textarea', 'markdown']);
+
+const LINK_TYPES = ['story', 'url', 'email', 'asset'];
+
+// Storyblok's date format, "2024-05-31 14:30"; ISO 8601 timestamps are accepted as well
+const DATETIME = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const isAsset = (value: unknown) =>
+  isPlainObject(value) && (value.filename === null || typeof value.filename === 'string');
+
+/**
+ * The value each field type stores, and how to recognize it. Layout fields (`tab`, `section`)
+ * store nothing; plugin fields have the type `custom`. Number fields are stored as strings by the Storyblok editor, so numeric strings pass.
+ */
+const FIELD_SHAPES: Record<string, { expected: string; matches: (value: unknown) => boolean }> = {
+  text: { expected: 'string', matches: value => typeof value === 'string' },
+  textarea: { expected: 'string', matches: value => typeof value === 'string' },
+  markdown: { expected: 'string', matches: value => typeof value === 'string' },
+  richtext: {
+    expected: "rich text document { type: 'doc', content: [...] }",
+    matches: value => isPlainObject(value) && value.type === 'doc' && (value.content === undefined || Array.isArray(value.content))
+  },
+  number: {
+    expected: 'number or numeric string',
+    matches: value => (typeof value === 'number' && Number.isFinite(value)) || (typeof value === 'string' && (value === '' || Number.isFinite(Number(value))))
+  },
+  datetime: {
+    expected: "date string 'YYYY-MM-DD HH:mm'",
+    matches: value => typeof value === 'string' && (value === '' || DATETIME.test(value))
+  },
+  boolean: { expected: 'boolean', matches: value => typeof value === 'boolean' },
+  option: { expected: 'string', matches: value => typeof value === 'string' || typeof value === 'number' },
+  options: { expected: 'array of strings', matches: value => Array.isArray(value) && value.every(item => typeof item === 'string' || typeof item === 'number') },
+  asset: { expected: 'asset object { id, filename, alt, ... }', matches: isAsset },
+  multiasset: { expected: 'array of asset objects { id, filename, alt, ... }', matches: value => Array.isArray(value) && value.every(isAsset) },
+  multilink: {
+    expected: `link object { linktype: ${LINK_TYPES.map(type => `'${type}'`).join(' | ')}, id?, url?, cached_url?, email? }`,
+    matches: value => isPlainObject(value) && LINK_TYPES.includes(value.linktype)
+  },
+  bloks: { expected: "array of blocks [{ component: '<name>', ... }]", matches: Array.isArray },
+  table: {
+    expected: 'table object { thead: [...], tbody: [...] }',
+    matches: value => isPlainObject(value) && Array.isArray(value.thead) && Array.isArray(value.tbody)
+  },
+  // Plugin (custom) fields; their values are up to the plugin
+  custom: {
+    expected: 'object { plugin: \'<field type>\', ... }',
+    matches: value => isPlainObject(value) && (value.plugin === undefined || typeof value.plugin === 'string')
+  },
+  section: { expected: 'no value (layout field)', matches: () => false },
+  tab: { expected: 'no value (layout field)', matches: () => false }
+};
+
+// Option sources whose values are listed in the field definition
+const SELF_SOURCES = new Set([undefined, '', 'self']);
+
+const joinPath = (base: string, key: string) => base ? `${base}.${key}` : key;
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates content against a component and, recursively, every nested block against its own component.
+ *
+ * Checks required fields, fields missing from the schema, the value's type (see FIELD_SHAPES),
+ * option values, `max_length`, and for `bloks` fields the `minimum`/`maximum` block counts and
+ * the allowed components (`component_whitelist`, or `component_group_whitelist` when restricted by group).
+ *
+ * @param {Record<string, unknown>} content - The content of the root block.
+ * @param {string} componentName - The component to validate the root block against.
+ * @param {ComponentLookup} lookupComponent - Looks up component definitions; each component is looked up once.
+ * @param {DatasourceLookup} [lookupDatasource] - Looks up datasource values for option fields sourced from a
+ *   datasource; without it, those values are not checked.
+ * @returns {Promise<ContentValidationResult>} The errors found.
+ * @throws {Error} If the root component does not exist.
+ */
+export async function validateStoryContent(
+  content: Record<string, unknown>,
+  componentName: string,
+  lookupComponent: ComponentLookup,
+  lookupDatasource?: DatasourceLookup
+): Promise<ContentValidationResult> {
+  const definitions = new Map<string, Promise<ComponentDefinition | null>>();
+  const lookup = (name: string) => {
+    if (!definitions.has(name)) {
+      definitions.set(name, lookupComponent(name));
+    }
+    return definitions.get(name)!;
+  };
+  const datasources = new Map<string, Promise<string[] | null>>();
+  const datasourceValues = (slug: string) => {
+    if (!datasources.has(slug)) {
+      datasources.set(slug, lookupDatasource ? lookupDatasource(slug) : Promise.resolve(null));
+    }
+    return datasources.get(slug)!;
+  };
+
+  // The values an option field allows; undefined if they cannot be checked
+  const optionValues = async (field: Record<string, any>): Promise<string[] | undefined> => {
+    if (SELF_SOURCES.has(field.source)) {
+      return Array.isArray(field.options) ? field.options.map((option: any) => String(option.value)) : undefined;
+    }
+    if (field.source === 'internal' && field.datasource_slug) {
+      return (await datasourceValues(field.datasource_slug)) ?? undefined;
+    }
+    // Stories, languages and external sources are resolved by the editor
+    return undefined;
+  };
+
+  const root = await lookup(componentName);
+  if (!root) {
+    throw new Error(`Component schema for '${componentName}' not found.`);
+  }
+
+  const errors: ContentValidationError[] = [];
+  const validated: string[] = [];
+
+  const validateBlock = async (block: Record<string, any>, definition: ComponentDefinition, path: string) => {
+    if (!validated.includes(definition.name)) {
+      validated.push(definition.name);
+    }
+    const schema = (definition.schema ?? {}) as Record<string, Record<string, any>>;
+    const report = (fieldPath: string, field: string, type: ContentValidationErrorType, message: string, expected?: string) =>
+      errors.push({ path: fieldPath, field, component: definition.name, type, message, ...(expected && { expected }) });
+
+    for (const [fieldName, field] of Object.entries(schema)) {
+      const fieldPath = joinPath(path, fieldName);
+      const value = block[fieldName];
+      if (field.required && isEmpty(value)) {
+        report(fieldPath, fieldName, 'missing_required', `Field '${fieldPath}' is required.`);
+        continue;
+      }
+      if (value === undefined || value === null) {
+        continue;
+      }
+
+      const shape = FIELD_SHAPES[field.type];
+      if (shape && !shape.matches(value)) {
+        report(fieldPath, fieldName, 'type_mismatch', `Field '${fieldPath}' of type '${field.type}' expects: ${shape.expected}.`, shape.expected);
+        continue;
+      }
+
+      if (field.type === 'option' || field.type === 'options') {
+        const allowed = await optionValues(field);
+        const chosen = (field.type === 'option' ? [value] : value as unknown[]).map(String).filter(option => option !== '');
+        const invalid = allowed ? chosen.filter(option => !allowed.includes(option)) : [];
+        if (allowed && invalid.length > 0) {
+          const expected = allowed.map(option => `'${option}'`).join(', ');
+          report(fieldPath, fieldName, 'invalid_option', `Field '${fieldPath}' has the value ${invalid.map(option => `'${option}'`).join(', ')}, which is not one of its options.`, expected);
+        }
+      }
+
+      if (field.max_length && LENGTH_LIMITED_TYPES.has(field.type) && typeof value === 'string' && value.length > Number(field.max_length)) {
+        report(fieldPath, fieldName, 'max_length_exceeded', `Field '${fieldPath}' has ${value.length} characters; at most ${field.max_length} are allowed.`);
+      }
+
+      if (field.type === 'bloks') {
+        await validateBloksField(value, field, fieldName, fieldPath, report);
+      }
+    }
+
+    for (const key of Object.keys(block)) {
+      // A translation, `<field>__i18n__<locale>`, belongs to its field
+      const fieldName = key.split(TRANSLATION_SEPARATOR)[0];
+      if (!BLOCK_KEYS.has(key) && !Object.prototype.hasOwnProperty.call(schema, fieldName)) {
+        const fieldPath = joinPath(path, key);
+        report(fieldPath, key, 'extraneous_field', `Field '${fieldPath}' is not in the schema of '${definition.name}'.`);
+      }
+    }
+  };
+
+  const validateBloksField = async (
+    value: unknown,
+    field: Record<string, any>,
+    fieldName: string,
+    fieldPath: string,
+    report: (path: string, field: string, type: ContentValidationErrorType, message: string, expected?: string) => void
+  ) => {
+    if (!Array.isArray(value)) {
+      return;
+    }
+    const minimum = Number(field.minimum) || 0;
+    const maximum = Number(field.maximum) || 0;
+    if (minimum > 0 && value.length < minimum) {
+      report(fieldPath, fieldName, 'too_few_blocks', `Field '${fieldPath}' has ${value.length} blocks; at least ${minimum} are required.`);
+    }
+    if (maximum > 0 && value.length > maximum) {
+      report(fieldPath, fieldName, 'too_many_blocks', `Field '${fieldPath}' has ${value.length} blocks; at most ${maximum} are allowed.`);
+    }
+
+    const byGroup = field.restrict_type === 'groups';
+    const allowedNames: string[] | undefined = field.restrict_components && !byGroup && Array.isArray(field.component_whitelist)
+      ? field.component_whitelist
+      : undefined;
+    const allowedGroups: string[] | undefined = field.restrict_components && byGroup && Array.isArray(field.component_group_whitelist)
+      ? field.component_group_whitelist
+      : undefined;
+
+    for (const [index, item] of value.entries()) {
+      const itemPath = `${fieldPath}[${index}]`;
+      if (!isPlainObject(item) || typeof item.component !== 'string') {
+        report(itemPath, fieldName, 'invalid_block', `Block '${itemPath}' must be an object with a 'component' name.`);
+        continue;
+      }
+      if (allowedNames && !allowedNames.includes(item.component)) {
+        report(itemPath, fieldName, 'component_not_allowed', `Block '${itemPath}' is a '${item.component}'; field '${fieldPath}' allows only: ${allowedNames.join(', ')}.`);
+        continue;
+      }
+      const nested = await lookup(item.component);
+      if (!nested) {
+        report(itemPath, fieldName, 'unknown_component', `Block '${itemPath}' uses the unknown component '${item.component}'.`);
+        continue;
+      }
+      if (allowedGroups && !allowedGroups.includes(nested.component_group_uuid ?? '')) {
+        report(itemPath, fieldName, 'component_not_allowed', `Block '${itemPath}' is a '${item.component}', which is not in a component group field '${fieldPath}' allows.`);
+        continue;
+      }
+      await validateBlock(item, nested, itemPath);
+    }
+  };
+
+  await validateBlock(content as Record<string, any>, root, '');
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    missingFields: errors.filter(error => error.type === 'missing_required').map(error => error.path),
+    extraneousFields: errors.filter(error => error.type === 'extraneous_field').map(error => error.path),
+    validatedComponents: validated
+  };
+}
@@ -0,0 +1,145 @@
+// src/webhooks/index.test.ts
+import { createHmac } from 'node:crypto';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../server';
+import { resetResourceSubscriptions } from '../resources/subscriptions';
+import * as cache from '../utils/cache';
+import {
+  handleWebhookPayload,
+  replayWebhookFile,
+  RunningWebhookReceiver,
+  SIGNATURE_HEADER,
+  startWebhookReceiver,
+  verifyWebhookSignature,
+  WEBHOOK_PATH,
+  webhookEventName
+} from './index';
+
+describe('Webhooks', () => {
+  const originalEnv = process.env;
+  const secret = 'webhook-secret';
+  const sign = (body: string) => createHmac('sha1', secret).update(body).digest('hex');
+  let client: Client;
+  let updated: string[];
+
+  const subscribe = (...uris: string[]) => Promise.all(uris.map(uri => client.subscribeResource({ uri })));
+  // Notifications travel through the in-memory transport asynchronously
+  const settle = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv, STORYBLOK_SPACE_ID: '123', STORYBLOK_MANAGEMENT_TOKEN: 'mgmt-token', STORYBLOK_DEFAULT_PUBLIC_TOKEN: 'public-token' };
+    resetResourceSubscriptions();
+    updated = [];
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    client = new Client({ name: 'webhook-test-client', version: '1.0.0' });
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async notification => {
+      updated.push(notification.params.uri);
+    });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should verify signatures', () => {
+    const body = '{"action":"published"}';
+    expect(verifyWebhookSignature(body, sign(body), secret)).toBe(true);
+    expect(verifyWebhookSignature(body, sign(body).toUpperCase(), secret)).toBe(true);
+    expect(verifyWebhookSignature(body, sign('{}'), secret)).toBe(false);
+    expect(verifyWebhookSignature(body, 'short', secret)).toBe(false);
+    expect(verifyWebhookSignature(body, undefined, secret)).toBe(false);
+  });
+
+  it('should name events after the changed resource', () => {
+    expect(webhookEventName({ action: 'published', space_id: 1, story_id: 5 })).toBe('story.published');
+    expect(webhookEventName({ action: 'replaced', space_id: 1, asset_id: 5 })).toBe('asset.replaced');
+    expect(webhookEventName({ action: 'merged', space_id: 1, release_id: 5 })).toBe('release.merged');
+    expect(webhookEventName({ action: 'entries_updated', space_id: 1 })).toBe('unknown.entries_updated');
+  });
+
+  it('should advertise subscriptions and notify subscribers of the changed story or asset', async () => {
+    expect(client.getServerCapabilities()?.resources?.subscribe).toBe(true);
+    await subscribe('storyblok://stories/blog/first-post', 'storyblok://stories/about', 'storyblok://assets/7');
+
+    expect(await handleWebhookPayload({ action: 'published', space_id: 123, story_id: 1, full_slug: 'blog/first-post' })).toBe(1);
+    await handleWebhookPayload({ action: 'deleted', space_id: 123, asset_id: 7 });
+    await handleWebhookPayload({ action: 'deleted', space_id: 123, asset_id: 8 });
+    await client.unsubscribeResource({ uri: 'storyblok://stories/about' });
+    await handleWebhookPayload({ action: 'merged', space_id: 123, release_id: 3 });
+    await settle();
+
+    expect(updated).toEqual(['storyblok://stories/blog/first-post', 'storyblok://assets/7', 'storyblok://stories/blog/first-post']);
+  });
+
+  it('should drop stale cached responses but not notify for other spaces or events', async () => {
+    const invalidate = jest.spyOn(cache, 'invalidateCache');
+    await subscribe('storyblok://stories/home');
+
+    expect(await handleWebhookPayload({ action: 'published', space_id: 999, story_id: 1, full_slug: 'home' })).toBe(0);
+    expect(await handleWebhookPayload({ action: 'moved', space_id: 123, story_id: 1, full_slug: 'home' })).toBe(0);
+
+    expect(invalidate).toHaveBeenCalledTimes(1);
+    expect(invalidate.mock.calls[0][0]).toMatch(/\/v1\/spaces\/999\/stories$/);
+  });
+
+  describe('receiver', () => {
+    let receiver: RunningWebhookReceiver;
+
+    const post = (body: string, signature?: string) => fetch(`http://127.0.0.1:${receiver.port}${WEBHOOK_PATH}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(signature && { [SIGNATURE_HEADER]: signature }) },
+      body
+    });
+
+    beforeEach(async () => {
+      receiver = await startWebhookReceiver({ enabled: true, host: '127.0.0.1', port: 0, secret, replayIntervalMs: 0 });
+    });
+
+    afterEach(async () => {
+      await receiver.close();
+    });
+
+    it('should accept signed webhooks and reject unsigned or malformed ones', async () => {
+      await subscribe('storyblok://stories/home');
+      const body = JSON.stringify({ text: 'The story Home was published', action: 'published', space_id: 123, story_id: 1, full_slug: 'home' });
+
+      expect((await post(body, sign(body))).status).toBe(204);
+      expect((await post(body)).status).toBe(401);
+      expect((await post(body, sign('tampered'))).status).toBe(401);
+      expect((await post('not json', sign('not json'))).status).toBe(400);
+      expect((await fetch(`http://127.0.0.1:${receiver.port}/other`)).status).toBe(404);
+      await settle();
+
+      expect(updated).toEqual(['storyblok://stories/home']);
+    });
+  });
+
+  it('should replay recorded payloads from a file, skipping unreadable lines', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'storyblok-webhooks-')), 'hooks.jsonl');
+    writeFileSync(file, [
+      JSON.stringify({ action: 'unpublished', space_id: 123, story_id: 1, full_slug: 'home' }),
+      '{ broken',
+      '',
+      JSON.stringify({ action: 'created', space_id: 123, asset_id: 7 })
+    ].join('\n'));
+    await subscribe('storyblok://stories/home', 'storyblok://assets/7');
+
+    expect(await replayWebhookFile(file)).toBe(2);
+    await settle();
+
+    expect(updated).toEqual(['storyblok://stories/home', 'storyblok://assets/7']);
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * @file src/webhooks/index.ts
+ * @description Receiver for Storyblok webhooks. Verifies each webhook's signature, drops the cached
+ * responses the change made stale and notifies clients subscribed to the changed resources.
+ * Recorded payloads can be replayed from a file to exercise subscriptions without Storyblok.
+ */
+
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer } from "node:http";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { setTimeout as sleep } from "node:timers/promises";
+import { getSpaceConfig } from '../config/index';
+import { assetResourceUri, storyResourceUri } from '../resources/index';
+import { notifyResourcesUpdated } from '../resources/subscriptions';
+import type { StoryblokWebhookPayload, WebhookConfig } from '../types/index';
+import { invalidateCache } from '../utils/cache';
+import { logger } from '../utils/logger';
+
+/** Path Storyblok posts webhooks to. */
+export const WEBHOOK_PATH = '/storyblok-webhook';
+
+/** Header carrying the hex HMAC-SHA1 of the raw body, keyed with the webhook secret. */
+export const SIGNATURE_HEADER = 'webhook-signature';
+
+/** Upper bound for webhook bodies; Storyblok's payloads are a few hundred bytes. */
+const MAX_BODY_BYTES = 64 * 1024;
+
+const webhookLog = logger.child('webhooks');
+
+/**
+ * Handle to a running webhook receiver.
+ */
+export interface RunningWebhookReceiver {
+  httpServer: HttpServer;
+  /** The port actually bound, which differs from the configured one when port 0 is requested. */
+  port: number;
+  close(): Promise<void>;
+}
+
+/**
+ * What a webhook changed: the resources to notify subscribers of, and the Management API
+ * resource type whose cached responses are stale.
+ */
+interface WebhookEffect {
+  event: string;
+  matches: (uri: string) => boolean;
+  cacheType: string;
+}
+
+/**
+ * Checks a webhook body against its signature.
+ *
+ * @param {string} body - The raw request body.
+ * @param {string | undefined} signature - The `webhook-signature` header.
+ * @param {string} secret - The webhook secret configured in Storyblok.
+ * @returns {boolean} Whether the signature is valid.
+ */
+export function verifyWebhookSignature(body: string, signature: string | undefined, secret: string): boolean {
+  if (!signature) {
+    return false;
+  }
+  const expected = Buffer.from(createHmac('sha1', secret).update(body).digest('hex'));
+  const actual = Buffer.from(signature.trim().toLowerCase());
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Names a webhook's event the way Storyblok's webhook settings do, e.g. `story.published`.
+ *
+ * @param {StoryblokWebhookPayload} payload - The webhook payload.
+ * @returns {string} The event name; `unknown.<action>` for payloads of other resources.
+ */
+export function webhookEventName(payload: StoryblokWebhookPayload): string {
+  const resource = payload.story_id !== undefined ? 'story'
+    : payload.asset_id !== undefined ? 'asset'
+      : payload.release_id !== undefined ? 'release'
+        : 'unknown';
+  return `${resource}.${payload.action}`;
+}
+
+function webhookEffect(payload: StoryblokWebhookPayload): WebhookEffect | undefined {
+  const event = webhookEventName(payload);
+  switch (event) {
+    case 'story.published':
+    case 'story.unpublished':
+    case 'story.deleted': {
+      const uri = payload.full_slug !== undefined ? storyResourceUri(payload.full_slug) : undefined;
+      // Without a slug the story cannot be told apart, so every story subscriber hears of it
+      return { event, matches: candidate => uri ? candidate === uri : candidate.startsWith(storyResourceUri()), cacheType: 'stories' };
+    }
+    case 'release.merged':
+      // Merging publishes the release's stories, which the payload does not list
+      return { event, matches: uri => uri.startsWith(storyResourceUri()), cacheType: 'releases' };
+  }
+  if (event.startsWith('asset.')) {
+    return { event, matches: uri => uri === assetResourceUri(payload.asset_id!), cacheType: 'assets' };
+  }
+  return undefined;
+}
+
+// Resources are served from the default space only; tolerate a missing configuration while replaying
+function isDefaultSpace(spaceId: number): boolean {
+  try {
+    return getSpaceConfig().spaceId === String(spaceId);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Applies a verified webhook: drops the cached responses it made stale and notifies
+ * the clients subscribed to the changed resources of the default space.
+ *
+ * @param {StoryblokWebhookPayload} payload - The webhook payload.
+ * @returns {Promise<number>} The number of notifications sent.
+ */
+export async function handleWebhookPayload(payload: StoryblokWebhookPayload): Promise<number> {
+  const effect = webhookEffect(payload);
+  if (!effect) {
+    webhookLog.debug('Ignoring webhook', { event: webhookEventName(payload), space_id: payload.space_id });
+    return 0;
+  }
+
+  // Only the path matters to the cache, which keys management responses on space and resource type
+  invalidateCache(`https://mapi.storyblok.com/v1/spaces/${payload.space_id}/${effect.cacheType}`);
+  if (!isDefaultSpace(payload.space_id)) {
+    webhookLog.debug('Webhook for another space', { event: effect.event, space_id: payload.space_id });
+    return 0;
+  }
+
+  const notified = await notifyResourcesUpdated(effect.matches);
+  webhookLog.info('Webhook received', { event: effect.event, space_id: payload.space_id, notified });
+  return notified;
+}
+
+function parsePayload(raw: string): StoryblokWebhookPayload {
+  const payload = JSON.parse(raw);
+  if (typeof payload !== 'object' || payload === null || typeof payload.action !== 'string') {
+    throw new Error('Webhook payload has no action.');
+  }
+  return payload as StoryblokWebhookPayload;
+}
+
+async function readBody(req: IncomingMessage): Promise<string | undefined> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      return undefined;
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Starts an HTTP server receiving Storyblok webhooks at WEBHOOK_PATH.
+ * Requests without a valid signature are rejected with 401.
+ *
+ * @param {WebhookConfig} config - The receiver settings; `secret` is required.
+ * @returns {Promise<RunningWebhookReceiver>} A handle used to shut down the receiver.
+ */
+export async function startWebhookReceiver(config: WebhookConfig): Promise<RunningWebhookReceiver> {
+  const secret = config.secret;
+  if (!secret) {
+    throw new Error('The webhook receiver requires a secret to verify webhook signatures.');
+  }
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const reply = (status: number, message?: string) => {
+      res.writeHead(status, message ? { 'Content-Type': 'application/json' } : {});
+      res.end(message ? JSON.stringify({ error: message }) : undefined);
+    };
+
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    if (url.pathname !== WEBHOOK_PATH || req.method !== 'POST') {
+      reply(404, `No webhook endpoint at ${req.method} ${url.pathname}.`);
+      return;
+    }
+
+    const body = await readBody(req);
+    if (body === undefined) {
+      reply(413, `Webhook body exceeds ${MAX_BODY_BYTES} bytes.`);
+      return;
+    }
+    const signature = req.headers[SIGNATURE_HEADER];
+    if (!verifyWebhookSignature(body, Array.isArray(signature) ? signature[0] : signature, secret)) {
+      webhookLog.warning('Rejected webhook with an invalid signature', { remote_address: req.socket.remoteAddress });
+      reply(401, 'Invalid webhook signature.');
+      return;
+    }
+
+    let payload: StoryblokWebhookPayload;
+    try {
+      payload = parsePayload(body);
+    } catch (error) {
+      reply(400, error instanceof Error ? error.message : String(error));
+      return;
+    }
+    try {
+      await handleWebhookPayload(payload);
+      reply(204);
+    } catch (error) {
+      webhookLog.error('Failed to handle webhook', { event: webhookEventName(payload), error });
+      reply(500, 'Failed to handle webhook.');
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address !== null ? address.port : config.port;
+
+  return {
+    httpServer,
+    port,
+    close: () => new Promise<void>((resolve) => {
+      httpServer.close(() => resolve());
+      httpServer.closeAllConnections();
+    })
+  };
+}
+
+/**
+ * Feeds recorded webhook payloads through the same handling as received webhooks, without
+ * signature checks. The file holds one payload per line, as Storyblok posts it.
+ *
+ * @param {string} file - Path of the JSON-lines file.
+ * @param {number} intervalMs - Pause before each payload.
+ * @returns {Promise<number>} The number of payloads replayed; unreadable lines are logged and skipped.
+ */
+export async function replayWebhookFile(file: string, intervalMs = 0): Promise<number> {
+  const lines = (await readFile(file, 'utf8')).split('\n').filter(line => line.trim() !== '');
+  let replayed = 0;
+  for (const [index, line] of lines.entries()) {
+    if (intervalMs > 0) {
+      await sleep(intervalMs);
+    }
+    let payload: StoryblokWebhookPayload;
+    try {
+      payload = parsePayload(line);
+    } catch (error) {
+      webhookLog.warning('Skipping unreadable webhook payload', { file, line: index + 1, error });
+      continue;
+    }
+    await handleWebhookPayload(payload);
+    replayed++;
+  }
+  return replayed;
+}
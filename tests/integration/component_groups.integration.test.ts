@@ -0,0 +1,157 @@
+// tests/integration/component_groups.integration.test.ts
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '@src/server';
+import { resetRateLimiters } from '@src/utils/api';
+import { resetResponseCache } from '@src/utils/cache';
+
+global.fetch = jest.fn();
+
+describe('Component group and preset tools Integration Test', () => {
+  const mockFetch = global.fetch as jest.Mock;
+  const originalEnv = process.env;
+  let client: Client;
+  let components: any[];
+
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+  const groups = [
+    { id: 1, uuid: 'g-layout', name: 'Layout', parent_id: null },
+    { id: 2, uuid: 'g-marketing', name: 'Marketing', parent_id: null }
+  ];
+  const presets = [
+    { id: 7, name: 'Dark hero', component_id: 11, preset: { component: 'hero', headline: 'Welcome', theme: 'dark', buttons: [{ component: 'button', label: 'Go' }] } }
+  ];
+  const story = {
+    id: 5,
+    full_slug: 'home',
+    content: {
+      _uid: 'root',
+      component: 'page',
+      body: [{ _uid: 'g1', component: 'grid', columns: [{ _uid: 'h1', _editable: '<!--#storyblok#-->', component: 'hero', headline: 'Hi', theme: 'light' }] }]
+    }
+  };
+
+  const respond = () => {
+    mockFetch.mockImplementation(async (url: string, init: RequestInit = {}) => {
+      const { pathname, searchParams } = new URL(url);
+      const method = init.method ?? 'GET';
+      const path = pathname.replace('/v1/spaces/123', '');
+      if (path === '/component_groups') return json({ component_groups: groups });
+      if (path === '/component_groups/1') return method === 'DELETE' ? json({}) : json({ component_group: groups[0] });
+      if (path === '/components') return json({ components });
+      const componentId = path.match(/^\/components\/(\d+)$/)?.[1];
+      if (componentId) {
+        const component = components.find(c => String(c.id) === componentId);
+        if (method === 'PUT') Object.assign(component, JSON.parse(init.body as string).component);
+        return json({ component });
+      }
+      if (path === '/presets' && method === 'POST') return json({ preset: { id: 8, ...JSON.parse(init.body as string).preset } });
+      if (path === '/presets') return json({ presets: presets.filter(p => String(p.component_id) === searchParams.get('component_id')) });
+      if (path === '/stories/5') return json({ story });
+      return json({ error: 'Not found' }, 404);
+    });
+  };
+
+  const writes = () => mockFetch.mock.calls
+    .filter(([, init]) => init?.method && init.method !== 'GET')
+    .map(([url, init]) => [`${init.method} ${new URL(url).pathname.replace('/v1/spaces/123', '')}`, init.body && JSON.parse(init.body)]);
+
+  const call = async (name: string, args: Record<string, unknown>) => {
+    const result = await client.callTool({ name, arguments: args });
+    const { text } = (result.content as Array<{ text: string }>)[0];
+    return result.isError ? text : JSON.parse(text);
+  };
+
+  beforeEach(async () => {
+    process.env = {
+      ...originalEnv,
+      STORYBLOK_SPACE_ID: '123',
+      STORYBLOK_MANAGEMENT_TOKEN: 'mgmt-token',
+      STORYBLOK_DEFAULT_PUBLIC_TOKEN: 'public-token',
+      STORYBLOK_MAPI_RATE_LIMIT: '1000',
+      STORYBLOK_MAX_RETRIES: '0'
+    };
+    mockFetch.mockReset();
+    resetRateLimiters();
+    resetResponseCache();
+    components = [
+      { id: 10, name: 'page', is_root: true, component_group_uuid: null, schema: { body: { type: 'bloks' } } },
+      {
+        id: 11,
+        name: 'hero',
+        component_group_uuid: 'g-marketing',
+        schema: { headline: { type: 'text', required: true }, theme: { type: 'option' }, buttons: { type: 'bloks' } }
+      },
+      { id: 12, name: 'grid', component_group_uuid: 'g-layout', schema: { columns: { type: 'bloks' } } }
+    ];
+    respond();
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    client = new Client({ name: 'component-groups-test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should list groups with their components and move components between groups', async () => {
+    const listed = await call('fetch-component-groups', {});
+    expect(listed.component_groups.map(({ name, components }: any) => [name, components])).toEqual([['Layout', ['grid']], ['Marketing', ['hero']]]);
+    expect(listed.ungrouped_components).toEqual(['page']);
+
+    const moved = await call('move-components-to-group', { component_names: ['hero', 'grid', 'missing'], group: 'Layout' });
+
+    expect(moved).toMatchObject({ group: { uuid: 'g-layout', name: 'Layout' }, moved: 1, unchanged: 1, failed: 1 });
+    expect(moved.results.map(({ name, status }: any) => [name, status])).toEqual([['hero', 'moved'], ['grid', 'unchanged'], ['missing', 'error']]);
+    expect(writes()).toEqual([['PUT /components/11', { component: { component_group_uuid: 'g-layout' } }]]);
+
+    mockFetch.mockClear();
+    const ungrouped = await call('move-components-to-group', { component_names: ['grid'] });
+    expect(ungrouped).toMatchObject({ group: null, moved: 1 });
+    expect(writes()).toEqual([['PUT /components/12', { component: { component_group_uuid: null } }]]);
+  });
+
+  it('should reject an unknown target group', async () => {
+    const text = await call('move-components-to-group', { component_names: ['hero'], group: 'Footer' });
+
+    expect(text).toContain("Component group 'Footer' not found.");
+    expect(writes()).toEqual([]);
+  });
+
+  it('should preview the components of a group before deleting it', async () => {
+    const preview = await call('delete-component-group', { id: '1' });
+
+    expect(preview.items).toEqual([{ type: 'component_groups', id: '1', exists: true, name: 'Layout', child_count: 1 }]);
+    expect(writes()).toEqual([]);
+  });
+
+  it('should create a preset from a nested story block', async () => {
+    const created = await call('create-preset-from-block', { story_id: '5', block_uid: 'h1', name: 'Light hero' });
+
+    expect(created.preset).toMatchObject({ id: 8, component_id: 11 });
+    expect(writes()).toEqual([['POST /presets', { preset: { name: 'Light hero', component_id: 11, preset: { component: 'hero', headline: 'Hi', theme: 'light' } } }]]);
+
+    const missing = await call('create-preset-from-block', { story_id: '5', block_uid: 'nope', name: 'Nothing' });
+    expect(missing).toContain("Story 5 has no block with _uid 'nope'.");
+  });
+
+  it('should scaffold content from a preset', async () => {
+    const scaffold = await call('scaffold-story-content', { component_name: 'hero', preset: 'Dark hero' });
+
+    expect(scaffold.preset).toEqual({ id: 7, name: 'Dark hero' });
+    expect(scaffold.content).toMatchObject({ component: 'hero', headline: 'Welcome', theme: 'dark' });
+    expect(scaffold.content.buttons).toEqual([{ _uid: expect.any(String), component: 'button', label: 'Go' }]);
+    expect(scaffold.requiredFields).toEqual([]);
+    expect(mockFetch.mock.calls.some(([url]) => url.includes('/presets?component_id=11'))).toBe(true);
+
+    const unknown = await call('scaffold-story-content', { component_name: 'page', preset: 'Dark hero' });
+    expect(unknown).toContain("Component 'page' has no preset 'Dark hero'.");
+  });
+});
@@ -0,0 +1,170 @@
+// tests/integration/content_migration.integration.test.ts
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '@src/server';
+import { DEFAULT_MAX_PAGES, resetRateLimiters } from '@src/utils/api';
+import { resetResponseCache } from '@src/utils/cache';
+
+global.fetch = jest.fn();
+
+describe('run-content-migration Integration Test', () => {
+  const mockFetch = global.fetch as jest.Mock;
+  const originalEnv = process.env;
+  let client: Client;
+  let stories: Record<number, any>;
+
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+  const teaser = (fields: Record<string, unknown>) => ({ _uid: 'uid', component: 'teaser', ...fields });
+
+  // A small space: a folder, two published stories (one with pending changes) and a draft
+  const respond = (failing: number[] = []) => {
+    mockFetch.mockImplementation(async (url: string, init: RequestInit = {}) => {
+      const { pathname } = new URL(url);
+      const method = init.method ?? 'GET';
+      if (pathname.endsWith('/stories')) {
+        return json({ stories: Object.values(stories).map(({ content, ...story }) => story) });
+      }
+      const [, id, action] = pathname.match(/\/stories\/(\d+)(?:\/(\w+))?$/) ?? [];
+      if (!stories[Number(id)]) {
+        return json({ error: 'Not found' }, 404);
+      }
+      if (method === 'PUT' && failing.includes(Number(id))) {
+        return json({ error: 'Unprocessable' }, 422);
+      }
+      if (method === 'PUT') {
+        stories[Number(id)].content = JSON.parse(init.body as string).story.content;
+      }
+      return json({ story: stories[Number(id)], ...(action && { action }) });
+    });
+  };
+
+  const writes = () => mockFetch.mock.calls
+    .filter(([, init]) => init?.method && init.method !== 'GET')
+    .map(([url, init]) => `${init.method} ${new URL(url).pathname.replace('/v1/spaces/123', '')}`);
+
+  const migrate = async (args: Record<string, unknown>) => {
+    const result = await client.callTool({ name: 'run-content-migration', arguments: args });
+    return JSON.parse((result.content as Array<{ text: string }>)[0].text);
+  };
+
+  const transforms = [
+    { type: 'rename_field', component: 'teaser', from: 'subtitle', to: 'tagline' },
+    { type: 'map_values', component: 'teaser', field: 'color', values: { red: 'crimson' } }
+  ];
+
+  beforeEach(async () => {
+    process.env = {
+      ...originalEnv,
+      STORYBLOK_SPACE_ID: '123',
+      STORYBLOK_MANAGEMENT_TOKEN: 'mgmt-token',
+      STORYBLOK_DEFAULT_PUBLIC_TOKEN: 'public-token',
+      STORYBLOK_MAPI_RATE_LIMIT: '1000',
+      STORYBLOK_MAX_RETRIES: '0',
+      STORYBLOK_MIGRATION_DIR: mkdtempSync(join(tmpdir(), 'migrations-'))
+    };
+    mockFetch.mockReset();
+    resetRateLimiters();
+    resetResponseCache();
+    stories = {
+      4: { id: 4, full_slug: 'blog', is_folder: true },
+      2: {
+        id: 2, full_slug: 'blog/second', published: true, unpublished_changes: true,
+        content: { component: 'page', body: [teaser({ subtitle: 'Second' })] }
+      },
+      1: {
+        id: 1, full_slug: 'blog/first', published: true, unpublished_changes: false,
+        content: { component: 'page', body: [{ component: 'grid', columns: [teaser({ subtitle: 'First', subtitle__i18n__de: 'Erste', color: 'red' })] }] }
+      },
+      3: { id: 3, full_slug: 'blog/draft', published: false, content: { component: 'page', body: [] } }
+    };
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    client = new Client({ name: 'migration-test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should migrate nested blocks in batches and resume where it stopped', async () => {
+    respond();
+
+    const first = await migrate({ transforms, starts_with: 'blog/', max_stories: 2 });
+
+    expect(first).toMatchObject({ matching_stories: 3, previously_migrated: 0, total_processed: 2, updated: 2, remaining: 1, completed: false });
+    expect(first.results.map(({ id, status, published, publish_skipped }: any) => [id, status, published, publish_skipped])).toEqual([
+      [1, 'updated', true, undefined],
+      [2, 'updated', false, 'The story has unpublished changes; publish it after reviewing them.']
+    ]);
+    expect(first.results[0].changes).toEqual([
+      { path: 'body[0].columns[0]', transform: 0, description: "Renamed 'subtitle' to 'tagline'." },
+      { path: 'body[0].columns[0]', transform: 1, description: "Mapped the values of 'color'." }
+    ]);
+    expect(stories[1].content.body[0].columns[0]).toEqual(teaser({ tagline: 'First', tagline__i18n__de: 'Erste', color: 'crimson' }));
+    expect(writes()).toEqual(['PUT /stories/1', 'POST /stories/1/publish', 'PUT /stories/2']);
+    expect(mockFetch.mock.calls[0][0]).toContain('starts_with=blog%2F');
+
+    mockFetch.mockClear();
+    const second = await migrate({ transforms, starts_with: 'blog/', max_stories: 2 });
+
+    expect(second).toMatchObject({ migration_id: first.migration_id, previously_migrated: 2, total_processed: 1, unchanged: 1, remaining: 0, completed: true });
+    expect(second.results).toEqual([{ id: 3, full_slug: 'blog/draft', status: 'unchanged' }]);
+    expect(writes()).toEqual([]);
+  });
+
+  it('should retry failed stories and start over on restart', async () => {
+    respond([2]);
+
+    const failed = await migrate({ transforms, migration_id: 'rename-subtitle' });
+    expect(failed).toMatchObject({ migration_id: 'rename-subtitle', updated: 1, failed: 1, unchanged: 1, completed: false });
+    expect(failed.results[1]).toMatchObject({ id: 2, status: 'error', error: { code: 'VALIDATION_FAILED' } });
+
+    respond();
+    const retried = await migrate({ transforms, migration_id: 'rename-subtitle' });
+    expect(retried).toMatchObject({ previously_migrated: 2, total_processed: 1, updated: 1, completed: true });
+
+    const restarted = await migrate({ transforms, migration_id: 'rename-subtitle', restart: true });
+    expect(restarted).toMatchObject({ previously_migrated: 0, total_processed: 3, updated: 0, unchanged: 3 });
+  });
+
+  it('should list every matching story, beyond the default page cap', async () => {
+    const total = DEFAULT_MAX_PAGES * 100 + 50;
+    mockFetch.mockImplementation(async (url: string) => {
+      const { pathname, searchParams } = new URL(url);
+      if (pathname.endsWith('/stories')) {
+        const first = (Number(searchParams.get('page')) - 1) * 100 + 1;
+        const ids = Array.from({ length: Math.max(0, Math.min(100, total - first + 1)) }, (_, i) => first + i);
+        return new Response(JSON.stringify({ stories: ids.map(id => ({ id, full_slug: `s/${id}` })) }), { headers: { total: String(total) } });
+      }
+      return json({ story: { id: 1, content: { component: 'page', body: [] } } });
+    });
+
+    const result = await migrate({ transforms, max_stories: 1 });
+
+    expect(result).toMatchObject({ matching_stories: total, total_processed: 1, remaining: total - 1, completed: false });
+    expect(mockFetch.mock.calls.filter(([url]) => new URL(url).pathname.endsWith('/stories'))).toHaveLength(DEFAULT_MAX_PAGES + 1);
+  });
+
+  it('should preview a dry run without writing or saving progress', async () => {
+    respond();
+
+    const result = await client.callTool({ name: 'run-content-migration', arguments: { transforms, dry_run: true } });
+
+    expect(writes()).toEqual([]);
+    expect(JSON.stringify(result.content)).toContain('/stories/1');
+    expect(stories[1].content.body[0].columns[0].subtitle).toBe('First');
+
+    const real = await migrate({ transforms });
+    expect(real).toMatchObject({ previously_migrated: 0, updated: 2 });
+  });
+});
@@ -0,0 +1,134 @@
+// tests/integration/http_transport.integration.test.ts
+import { createServer } from '@src/server';
+import { startHttpTransport, RunningHttpTransport } from '@src/transports/http';
+import { getTransportConfig } from '@src/config/index';
+
+describe('HTTP transport Integration Test', () => {
+  describe('getTransportConfig', () => {
+    it('should default to stdio on 127.0.0.1:3000', () => {
+      expect(getTransportConfig([], {})).toEqual({ mode: 'stdio', host: '127.0.0.1', port: 3000 });
+    });
+
+    it('should prefer CLI flags over environment variables', () => {
+      const config = getTransportConfig(
+        ['--transport', 'http', '--port=8080'],
+        { MCP_TRANSPORT: 'sse', MCP_HOST: '0.0.0.0', MCP_PORT: '9000' }
+      );
+      expect(config).toEqual({ mode: 'http', host: '0.0.0.0', port: 8080 });
+    });
+
+    it('should reject unknown transports and invalid ports', () => {
+      expect(() => getTransportConfig(['--transport', 'websocket'], {})).toThrow("Unsupported transport 'websocket'");
+      expect(() => getTransportConfig([], { MCP_PORT: 'abc' })).toThrow("Invalid port 'abc'");
+    });
+  });
+
+  describe('Streamable HTTP mode', () => {
+    let running: RunningHttpTransport;
+    let baseUrl: string;
+
+    const initializeRequest = {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-03-26',
+        capabilities: {},
+        clientInfo: { name: 'integration-test-client', version: '1.0.0' }
+      }
+    };
+
+    const postJson = (body: unknown, headers: Record<string, string> = {}) => fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        ...headers
+      },
+      body: JSON.stringify(body)
+    });
+
+    beforeEach(async () => {
+      running = await startHttpTransport({ mode: 'http', host: '127.0.0.1', port: 0 }, createServer);
+      baseUrl = `http://127.0.0.1:${running.port}`;
+    });
+
+    afterEach(async () => {
+      await running.close();
+    });
+
+    it('should create a session on initialize and terminate it on DELETE', async () => {
+      const initResponse = await postJson(initializeRequest);
+      expect(initResponse.status).toBe(200);
+      const sessionId = initResponse.headers.get('mcp-session-id');
+      expect(sessionId).toBeTruthy();
+      await initResponse.text(); // Drain the SSE response stream
+      expect(running.sessionCount()).toBe(1);
+
+      const deleteResponse = await fetch(`${baseUrl}/mcp`, {
+        method: 'DELETE',
+        headers: { 'mcp-session-id': sessionId! }
+      });
+      expect(deleteResponse.status).toBe(200);
+      expect(running.sessionCount()).toBe(0);
+    });
+
+    it('should keep sessions independent for several clients', async () => {
+      const first = await postJson(initializeRequest);
+      const second = await postJson(initializeRequest);
+      await Promise.all([first.text(), second.text()]);
+
+      expect(first.headers.get('mcp-session-id')).not.toBe(second.headers.get('mcp-session-id'));
+      expect(running.sessionCount()).toBe(2);
+    });
+
+    it('should reject non-initialize requests without a session', async () => {
+      const response = await postJson({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.message).toContain('no valid session ID');
+    });
+
+    it('should return 404 for unknown session IDs', async () => {
+      const response = await postJson({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'mcp-session-id': 'does-not-exist' });
+      expect(response.status).toBe(404);
+    });
+
+    it('should answer the health check', async () => {
+      const response = await fetch(`${baseUrl}/health`);
+      expect(await response.json()).toEqual({ status: 'ok', transport: 'http', sessions: 0 });
+    });
+  });
+
+  describe('legacy SSE mode', () => {
+    let running: RunningHttpTransport;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+      running = await startHttpTransport({ mode: 'sse', host: '127.0.0.1', port: 0 }, createServer);
+      baseUrl = `http://127.0.0.1:${running.port}`;
+    });
+
+    afterEach(async () => {
+      await running.close();
+    });
+
+    it('should announce the message endpoint and route posts by session ID', async () => {
+      const abortController = new AbortController();
+      const stream = await fetch(`${baseUrl}/sse`, { signal: abortController.signal });
+      expect(stream.headers.get('content-type')).toContain('text/event-stream');
+
+      const { value } = await stream.body!.getReader().read();
+      const firstEvent = new TextDecoder().decode(value);
+      expect(firstEvent).toContain('event: endpoint');
+      const sessionId = firstEvent.match(/sessionId=([\w-]+)/)?.[1];
+      expect(sessionId).toBeTruthy();
+      expect(running.sessionCount()).toBe(1);
+
+      const unknown = await fetch(`${baseUrl}/messages?sessionId=unknown`, { method: 'POST', body: '{}' });
+      expect(unknown.status).toBe(404);
+
+      abortController.abort();
+    });
+  });
+});
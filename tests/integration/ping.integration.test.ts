@@ -8,6 +8,7 @@ global.fetch = jest.fn();
 
 // Mock the config module
 jest.mock('@src/config/index', () => ({
+  ...jest.requireActual('@src/config/index'),
   config: {
     spaceId: 'mock-space-id',
     publicToken: 'mock-public-token',
@@ -17,11 +18,22 @@ jest.mock('@src/config/index', () => ({
     CONTENT: 'https://mockapi.storyblok.com/v2', // Using a distinct mock URL
     MANAGEMENT: 'https://mockmapi.storyblok.com/v1',
   },
+  getApiEndpoints: () => ({
+    CONTENT: 'https://mockapi.storyblok.com/v2',
+    MANAGEMENT: 'https://mockmapi.storyblok.com/v1',
+  }),
   getConfig: () => ({ // Mock getConfig as well for safety
     spaceId: 'mock-space-id',
     publicToken: 'mock-public-token',
     managementToken: 'mock-management-token',
   }),
+  getSpaceConfig: () => ({
+    name: 'default',
+    spaceId: 'mock-space-id',
+    publicToken: 'mock-public-token',
+    managementToken: 'mock-management-token',
+    region: 'eu',
+  }),
 }));
 
 // Now, after mocks, we can get the mocked values if needed for assertions
@@ -31,7 +43,7 @@ import { config as mockedConfig, API_ENDPOINTS as mockedApiEndpoints } from '@sr
 
 describe('ping Integration Test', () => {
   let server: McpServer;
-  let pingHandler: () => Promise<any>; // Type for the handler
+  let pingHandler: (args: { space?: string }) => Promise<any>; // Type for the handler
 
   beforeEach(() => {
     // Initialize the server
@@ -65,11 +77,12 @@ describe('ping Integration Test', () => {
       text: async () => ('Storyblok API OK')
     });
 
-    const result = await pingHandler();
+    const result = await pingHandler({});
 
     expect(global.fetch).toHaveBeenCalledTimes(1);
     expect(global.fetch).toHaveBeenCalledWith(
-      `${mockedApiEndpoints.CONTENT}/spaces/${mockedConfig.spaceId}/?token=${mockedConfig.publicToken}`
+      `${mockedApiEndpoints.CONTENT}/spaces/${mockedConfig.spaceId}/?token=${mockedConfig.publicToken}`,
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
     );
     expect(result.isError).toBeUndefined();
     expect(result.content).toEqual([
@@ -87,7 +100,7 @@ describe('ping Integration Test', () => {
       text: async () => 'Storyblok API Error: Unauthorized Access',
     });
 
-    const result = await pingHandler();
+    const result = await pingHandler({});
 
     expect(global.fetch).toHaveBeenCalledTimes(1);
     expect(result.isError).toBe(true);
@@ -102,11 +115,11 @@ describe('ping Integration Test', () => {
     const networkError = new Error('Network connection failed');
     (global.fetch as jest.Mock).mockRejectedValueOnce(networkError);
 
-    const result = await pingHandler();
+    const result = await pingHandler({});
 
     expect(global.fetch).toHaveBeenCalledTimes(1);
     expect(result.isError).toBe(true);
-    // The ping tool's catch block directly uses the error message
-    expect(result.content[0].text).toBe(`Error: ${networkError.message}`);
+    expect(result.errorCode).toBe('NETWORK_ERROR');
+    expect(result.content[0].text).toContain(`Error: NETWORK_ERROR - ${networkError.message}`);
   });
 });
@@ -0,0 +1,80 @@
+// tests/integration/plan_component_change.integration.test.ts
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '@src/server';
+import { resetRateLimiters } from '@src/utils/api';
+import { resetResponseCache } from '@src/utils/cache';
+
+global.fetch = jest.fn();
+
+describe('plan-component-change Integration Test', () => {
+  const mockFetch = global.fetch as jest.Mock;
+  const originalEnv = process.env;
+  let client: Client;
+
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+  const teaser = { id: 11, name: 'teaser', schema: { subtitle: { type: 'text', pos: 0 } } };
+  const args = { component_name: 'teaser', proposed_schema: { tagline: { type: 'text', pos: 0 } } };
+
+  // Answers the component list; `stories` answers the story scan of each version
+  const respond = (stories: (version: string) => Promise<Response>) => {
+    mockFetch.mockImplementation(async (url: string) => {
+      const { pathname, searchParams } = new URL(url);
+      if (pathname.endsWith('/components')) return json({ components: [teaser] });
+      if (pathname.endsWith('/stories')) return stories(searchParams.get('version') ?? '');
+      return json({ error: 'Not found' }, 404);
+    });
+  };
+
+  beforeEach(async () => {
+    process.env = {
+      ...originalEnv,
+      STORYBLOK_SPACE_ID: '123',
+      STORYBLOK_MANAGEMENT_TOKEN: 'mgmt-token',
+      STORYBLOK_DEFAULT_PUBLIC_TOKEN: 'public-token',
+      STORYBLOK_MAPI_RATE_LIMIT: '1000',
+      STORYBLOK_MAX_RETRIES: '0'
+    };
+    mockFetch.mockReset();
+    resetRateLimiters();
+    resetResponseCache();
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    client = new Client({ name: 'plan-test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should count the stories each change touches', async () => {
+    respond(async () => json({ stories: [{ id: 1, name: 'Home', full_slug: 'home', content: { component: 'page', body: [{ component: 'teaser', subtitle: 'Hi' }] } }] }));
+
+    const result = await client.callTool({ name: 'plan-component-change', arguments: args });
+    const plan = JSON.parse((result.content as Array<{ text: string }>)[0].text);
+
+    expect(plan).toMatchObject({ stories_analyzed_count: 1, affected_stories_count: 1 });
+    expect(plan.changes).toEqual([expect.objectContaining({ type: 'renamed', field: 'tagline', affectedStories: 1 })]);
+  });
+
+  it('should fail instead of planning without the stories it could not fetch', async () => {
+    respond(async (version) => {
+      if (version === 'draft') {
+        throw new TypeError('fetch failed');
+      }
+      return json({ stories: [] });
+    });
+
+    const result = await client.callTool({ name: 'plan-component-change', arguments: args });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as Array<{ text: string }>)[0].text).toContain('fetch failed');
+  });
+});
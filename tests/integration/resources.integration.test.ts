@@ -0,0 +1,130 @@
+// tests/integration/resources.integration.test.ts
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '@src/server';
+import { RESOURCE_PAGE_SIZE } from '@src/resources/index';
+import { resetRateLimiters } from '@src/utils/api';
+import { resetResponseCache } from '@src/utils/cache';
+
+global.fetch = jest.fn();
+
+describe('Resources Integration Test', () => {
+  const mockFetch = global.fetch as jest.Mock;
+  const originalEnv = process.env;
+  let client: Client;
+
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+  // Answers each request from the handler whose path fragment it contains
+  const respondWith = (routes: Record<string, (url: URL) => unknown>) => {
+    mockFetch.mockImplementation(async (url: string) => {
+      const parsed = new URL(url);
+      const route = Object.keys(routes).find(path => parsed.pathname.endsWith(path));
+      return route ? json(routes[route](parsed)) : json({ error: 'Not found' }, 404);
+    });
+  };
+
+  beforeEach(async () => {
+    process.env = {
+      ...originalEnv,
+      STORYBLOK_SPACE_ID: '123',
+      STORYBLOK_MANAGEMENT_TOKEN: 'mgmt-token',
+      STORYBLOK_DEFAULT_PUBLIC_TOKEN: 'public-token',
+      STORYBLOK_MAX_RETRIES: '0'
+    };
+    mockFetch.mockReset();
+    resetRateLimiters();
+    resetResponseCache();
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    client = new Client({ name: 'resources-test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should list a URI template per resource type', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates.map(template => template.uriTemplate)).toEqual([
+      'storyblok://stories/{+full_slug}',
+      'storyblok://components/{name}',
+      'storyblok://assets/{id}',
+      'storyblok://datasources/{slug}'
+    ]);
+  });
+
+  it('should page through every resource type with cursors', async () => {
+    const stories = Array.from({ length: RESOURCE_PAGE_SIZE + 1 }, (_, i) => ({ name: `Story ${i}`, full_slug: `blog/post-${i}` }));
+    respondWith({
+      '/stories': url => ({ stories: stories.slice((Number(url.searchParams.get('page')) - 1) * RESOURCE_PAGE_SIZE).slice(0, RESOURCE_PAGE_SIZE) }),
+      '/components': () => ({ components: [{ name: 'hero', display_name: 'Hero' }] }),
+      '/assets': () => ({ assets: [{ id: 7, filename: 'https://a.storyblok.com/f/123/logo.png', alt: 'Logo' }] }),
+      '/datasources': () => ({ datasources: [{ name: 'Colors', slug: 'colors' }] })
+    });
+
+    const uris: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const result = await client.listResources(cursor ? { cursor } : {});
+      uris.push(...result.resources.map(resource => resource.uri));
+      cursor = result.nextCursor;
+      pages++;
+    } while (cursor);
+
+    expect(pages).toBe(5);
+    expect(uris).toHaveLength(RESOURCE_PAGE_SIZE + 4);
+    expect(uris[0]).toBe('storyblok://stories/blog/post-0');
+    expect(uris.slice(-3)).toEqual(['storyblok://components/hero', 'storyblok://assets/7', 'storyblok://datasources/colors']);
+    expect(mockFetch.mock.calls[0][0]).toContain('story_only=true');
+  });
+
+  it('should reject an invalid cursor', async () => {
+    await expect(client.listResources({ cursor: 'not-a-cursor' })).rejects.toThrow("Invalid resources/list cursor 'not-a-cursor'");
+  });
+
+  it('should read each resource type', async () => {
+    respondWith({
+      '/cdn/stories/blog/first-post': () => ({ story: { full_slug: 'blog/first-post' } }),
+      '/components': () => ({ components: [{ name: 'hero', schema: { title: { type: 'text' } } }] }),
+      '/assets/7': () => ({ id: 7, alt: 'Logo' }),
+      '/datasources': () => ({ datasources: [{ id: 3, slug: 'colors' }] }),
+      '/datasource_entries': url => ({ datasource_entries: [{ name: 'Red', value: '#f00', datasource_id: url.searchParams.get('datasource_id') }] })
+    });
+
+    const read = async (uri: string) => {
+      const { contents } = await client.readResource({ uri });
+      expect(contents[0]).toMatchObject({ uri, mimeType: 'application/json' });
+      return JSON.parse(contents[0].text as string);
+    };
+
+    expect(await read('storyblok://stories/blog/first-post')).toEqual({ story: { full_slug: 'blog/first-post' } });
+    expect(await read('storyblok://components/hero')).toEqual({ name: 'hero', schema: { title: { type: 'text' } } });
+    expect(await read('storyblok://assets/7')).toEqual({ id: 7, alt: 'Logo' });
+    expect(await read('storyblok://datasources/colors')).toEqual({
+      datasource: { id: 3, slug: 'colors' },
+      entries: [{ name: 'Red', value: '#f00', datasource_id: '3' }]
+    });
+    expect(mockFetch.mock.calls[0][0]).toContain('token=public-token');
+  });
+
+  it('should report missing resources as not found', async () => {
+    respondWith({
+      '/components': () => ({ components: [] }),
+      '/datasources': () => ({ datasources: [] })
+    });
+
+    await expect(client.readResource({ uri: 'storyblok://stories/missing' })).rejects.toThrow('Resource storyblok://stories/missing not found');
+    await expect(client.readResource({ uri: 'storyblok://components/missing' })).rejects.toThrow('not found');
+    await expect(client.readResource({ uri: 'storyblok://assets/404' })).rejects.toThrow('not found');
+    await expect(client.readResource({ uri: 'storyblok://datasources/missing' })).rejects.toThrow('not found');
+  });
+});
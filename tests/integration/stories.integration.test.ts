@@ -8,6 +8,7 @@ global.fetch = jest.fn();
 
 // Mock the config module
 jest.mock('@src/config/index', () => ({
+  ...jest.requireActual('@src/config/index'),
   config: {
     spaceId: 'mock-space-id',
     managementToken: 'mock-management-token',
@@ -17,11 +18,22 @@ jest.mock('@src/config/index', () => ({
     MANAGEMENT: 'https://mock-mapi.storyblok.com/v1', // Use a distinct mock URL
     CONTENT: 'https://mock-api.storyblok.com/v2',
   },
+  getApiEndpoints: () => ({
+    MANAGEMENT: 'https://mock-mapi.storyblok.com/v1',
+    CONTENT: 'https://mock-api.storyblok.com/v2',
+  }),
   getConfig: () => ({ // Mock getConfig as well
     spaceId: 'mock-space-id',
     managementToken: 'mock-management-token',
     publicToken: 'mock-public-token',
   }),
+  getSpaceConfig: () => ({
+    name: 'default',
+    spaceId: 'mock-space-id',
+    managementToken: 'mock-management-token',
+    publicToken: 'mock-public-token',
+    region: 'eu',
+  }),
 }));
 
 // Import mocked versions for assertions
@@ -86,24 +98,20 @@ describe('Story Tools Integration Tests', () => {
 
     it('should return an error if fetch fails (e.g., 404 Not Found)', async () => {
       const mockStoryId = '67890';
-      const apiErrorPayload = { // This is the 'details' part of our enhancedError
+      const apiErrorPayload = { // This is the 'details' part of the StoryblokApiError
         // These fields would typically come from Storyblok's actual error response
         slug: mockStoryId,
         message: "The requested story was not found.",
         code: "story_not_found"
       };
       const fullExpectedUrl = `${mockedApiEndpoints.MANAGEMENT}/spaces/${mockedConfig.spaceId}/stories/${mockStoryId}`;
-      const enhancedErrorString = JSON.stringify({
-        error: "404 Not Found", // This is constructed by handleApiResponse
-        details: apiErrorPayload,
-        context: {
-          endpoint: fullExpectedUrl, // Use the full URL here
-          spaceId: mockedConfig.spaceId,
-          tokenPermissions: "unknown",
-          requiredPermissions: "unknown",
-          suggestedFix: "The requested resource was not found. Please check the endpoint and resource ID."
-        }
-      });
+      const expectedContext = {
+        endpoint: fullExpectedUrl, // Use the full URL here
+        spaceId: mockedConfig.spaceId,
+        tokenPermissions: "unknown",
+        requiredPermissions: "unknown",
+        suggestedFix: "The requested resource was not found. Please check the endpoint and resource ID."
+      };
 
       (global.fetch as jest.Mock).mockResolvedValueOnce({
         ok: false,
@@ -118,8 +126,11 @@ describe('Story Tools Integration Tests', () => {
       expect(global.fetch).toHaveBeenCalledTimes(1);
       expect(result.isError).toBe(true);
       expect(result.content).toBeDefined();
-      // The error message from handleApiResponse is a stringified JSON of the enhancedError object
-      expect(result.content[0].text).toBe(`Error: ${enhancedErrorString}`);
+      // handleApiResponse throws a StoryblokNotFoundError, which the tool formats with its structured details
+      expect(result.errorCode).toBe('NOT_FOUND');
+      expect(result.errorMessage).toBe('Storyblok API request failed with 404 Not Found: The requested story was not found.');
+      expect(result.errorDetails).toEqual({ status: 404, details: apiErrorPayload, context: expectedContext });
+      expect(result.content[0].text).toContain('Error: NOT_FOUND - Storyblok API request failed with 404 Not Found');
     });
 
     it('should return an error if fetch throws an exception (network error)', async () => {
@@ -131,7 +142,8 @@ describe('Story Tools Integration Tests', () => {
 
         expect(global.fetch).toHaveBeenCalledTimes(1);
         expect(result.isError).toBe(true);
-        expect(result.content[0].text).toBe(`Error: ${networkError.message}`); // Direct error message
+        expect(result.errorCode).toBe('NETWORK_ERROR');
+        expect(result.content[0].text).toContain(`Error: NETWORK_ERROR - ${networkError.message}`);
     });
   });
 });